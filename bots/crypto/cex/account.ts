@@ -3,10 +3,11 @@
  */
 
 import * as ccxt from 'ccxt';
+import { withRetry } from './errors';
 
 export async function fetchBalance(exchange: ccxt.Exchange) {
     try {
-        return await exchange.fetchBalance();
+        return await withRetry(() => exchange.fetchBalance(), { operation: 'fetchBalance', exchange });
     } catch (error) {
         console.error('Error fetching balance:', error);
         throw error;
@@ -15,7 +16,7 @@ export async function fetchBalance(exchange: ccxt.Exchange) {
 
 export async function getCurrencyBalance(exchange: ccxt.Exchange, currency: string) {
     try {
-        const balance = await exchange.fetchBalance();
+        const balance = await withRetry(() => exchange.fetchBalance(), { operation: 'fetchBalance', exchange });
         return {
             free: balance.free[currency] || 0,
             used: balance.used[currency] || 0,
@@ -33,7 +34,7 @@ export async function fetchDepositAddress(
     params = {}
 ) {
     try {
-        return await exchange.fetchDepositAddress(currency, params);
+        return await withRetry(() => exchange.fetchDepositAddress(currency, params), { operation: 'fetchDepositAddress', exchange });
     } catch (error) {
         console.error(`Error fetching deposit address for ${currency}:`, error);
         throw error;
@@ -47,7 +48,7 @@ export async function fetchDeposits(
     limit?: number
 ) {
     try {
-        return await exchange.fetchDeposits(currency, since, limit);
+        return await withRetry(() => exchange.fetchDeposits(currency, since, limit), { operation: 'fetchDeposits', exchange });
     } catch (error) {
         console.error('Error fetching deposits:', error);
         throw error;
@@ -61,7 +62,7 @@ export async function fetchWithdrawals(
     limit?: number
 ) {
     try {
-        return await exchange.fetchWithdrawals(currency, since, limit);
+        return await withRetry(() => exchange.fetchWithdrawals(currency, since, limit), { operation: 'fetchWithdrawals', exchange });
     } catch (error) {
         console.error('Error fetching withdrawals:', error);
         throw error;
@@ -77,7 +78,7 @@ export async function withdraw(
     params = {}
 ) {
     try {
-        return await exchange.withdraw(currency, amount, address, tag, params);
+        return await withRetry(() => exchange.withdraw(currency, amount, address, tag, params), { operation: 'withdraw', exchange, write: true });
     } catch (error) {
         console.error('Error withdrawing funds:', error);
         throw error;
@@ -86,13 +87,25 @@ export async function withdraw(
 
 export async function fetchTradingFees(exchange: ccxt.Exchange) {
     try {
-        return await exchange.fetchTradingFees();
+        return await withRetry(() => exchange.fetchTradingFees(), { operation: 'fetchTradingFees', exchange });
     } catch (error) {
         console.error('Error fetching trading fees:', error);
         throw error;
     }
 }
 
+/**
+ * Currency metadata: deposit/withdraw status, withdrawal fee and limits per network
+ */
+export async function fetchCurrencies(exchange: ccxt.Exchange) {
+    try {
+        return await withRetry(() => exchange.fetchCurrencies(), { operation: 'fetchCurrencies', exchange });
+    } catch (error) {
+        console.error('Error fetching currencies:', error);
+        throw error;
+    }
+}
+
 export default {
     fetchBalance,
     getCurrencyBalance,
@@ -101,4 +114,5 @@ export default {
     fetchWithdrawals,
     withdraw,
     fetchTradingFees,
+    fetchCurrencies,
 };
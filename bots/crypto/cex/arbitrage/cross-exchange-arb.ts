@@ -0,0 +1,628 @@
+/**
+ * Cross-Exchange Arbitrage
+ * Compares the order books of one symbol across venues and nets out taker fees, the withdrawal
+ * cost of moving inventory back and the balances on each side. Unless dry-run, both legs are
+ * sent at the same time as IOC orders; when one leg fills more than the other the difference is
+ * unwound at market so no unhedged position is left behind.
+ */
+
+import * as ccxt from "ccxt";
+import chalk from "chalk";
+import * as account from "../account";
+import { listExchanges } from "../config";
+import { initExchange, type ExchangeName } from "../exchange";
+import { MarketRules, formatRejections } from "../market-rules";
+import { OrderBook } from "../order-book";
+import * as trading from "../trading";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface CrossExchangeArbConfig {
+    exchanges: ExchangeName[];
+    symbol: string;
+    minNetEdgePercent: number; // Net edge (after fees and withdrawal cost) needed to act
+    maxTradeQuote: number; // Max notional per opportunity, in quote currency
+    scanIntervalMs: number;
+    bookDepth: number;
+    dryRun: boolean; // Only log opportunities
+    includeWithdrawalFees: boolean; // Charge the base withdrawal fee (rebalancing) to every trade
+    defaultTakerFee: number; // When a venue reports no fee
+}
+
+export interface WithdrawalConstraints {
+    baseWithdrawEnabled?: boolean; // undefined = the venue does not say
+    baseDepositEnabled?: boolean;
+    baseWithdrawFee: number; // In base currency
+}
+
+export interface ArbVenue {
+    name: ExchangeName;
+    exchange: ccxt.Exchange;
+    rules: MarketRules;
+    book: OrderBook;
+    takerFee: number;
+    withdrawal: WithdrawalConstraints;
+    base?: number; // Free balances, undefined when they could not be fetched
+    quote?: number;
+    error?: string; // Last scan error - the venue is skipped for that scan
+}
+
+export interface ArbOpportunity {
+    symbol: string;
+    buyExchange: ExchangeName;
+    sellExchange: ExchangeName;
+    amount: number; // Base, rounded for both venues
+    buyPrice: number; // IOC limit: worst ask the buy walks through
+    sellPrice: number; // IOC limit: worst bid the sell walks through
+    buyVwap: number;
+    sellVwap: number;
+    grossEdgePercent: number;
+    netEdgePercent: number;
+    netProfitQuote: number;
+    blockers: string[]; // Reasons it cannot be executed (balances, withdrawals, limits)
+    timestamp: number;
+}
+
+export interface ArbLegResult {
+    exchange: ExchangeName;
+    side: trading.OrderSide;
+    orderId?: string;
+    filled: number;
+    average: number;
+    baseFee: number; // Fee charged in base currency (changes the base actually received/paid)
+    error?: string;
+    unknown?: boolean; // The order could not be settled - `filled` is not final
+}
+
+export interface ArbExecution {
+    opportunity: ArbOpportunity;
+    buy: ArbLegResult;
+    sell: ArbLegResult;
+    unwind?: ArbLegResult; // Market order that flattened the difference between the legs
+    hedged: boolean; // False if the unwind failed or filled only partly, or a leg fill is unknown
+}
+
+export interface ArbStats {
+    scans: number;
+    opportunities: number; // Above the minimum edge, executable or not
+    executed: number;
+    unwinds: number;
+    unhedged: number;
+    estimatedProfitQuote: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
+ */
+const ARB_BOT_TAG = "arb";
+
+export const defaultArbConfig: CrossExchangeArbConfig = {
+    exchanges: [], // arbConfigFromEnv: ARB_EXCHANGES, else every configured exchange
+    symbol: "BTC/USDT",
+    minNetEdgePercent: 0.3,
+    maxTradeQuote: 100,
+    scanIntervalMs: 2000,
+    bookDepth: 20,
+    dryRun: true,
+    includeWithdrawalFees: true,
+    defaultTakerFee: 0.001,
+};
+
+/**
+ * Settings from environment variables (ARB_*); dry-run unless ARB_DRY_RUN=false
+ */
+export function arbConfigFromEnv(): CrossExchangeArbConfig {
+    const number = (name: string, fallback: number) =>
+        process.env[name] ? parseFloat(process.env[name] as string) : fallback;
+
+    return {
+        exchanges: process.env.ARB_EXCHANGES
+            ? (process.env.ARB_EXCHANGES.split(",").map((e) => e.trim()) as ExchangeName[])
+            : listExchanges(),
+        symbol: process.env.SYMBOL || defaultArbConfig.symbol,
+        minNetEdgePercent: number("ARB_MIN_EDGE_PERCENT", defaultArbConfig.minNetEdgePercent),
+        maxTradeQuote: number("ARB_MAX_TRADE_QUOTE", defaultArbConfig.maxTradeQuote),
+        scanIntervalMs: number("ARB_INTERVAL_MS", defaultArbConfig.scanIntervalMs),
+        bookDepth: number("ARB_BOOK_DEPTH", defaultArbConfig.bookDepth),
+        dryRun: process.env.ARB_DRY_RUN !== "false",
+        includeWithdrawalFees: process.env.ARB_INCLUDE_WITHDRAWAL_FEES !== "false",
+        defaultTakerFee: number("ARB_DEFAULT_TAKER_FEE", defaultArbConfig.defaultTakerFee),
+    };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Taker fee for the symbol: fetchTradingFees, then the market definition, then the default
+ */
+async function loadTakerFee(exchange: ccxt.Exchange, symbol: string, fallback: number): Promise<number> {
+    if (exchange.has.fetchTradingFees) {
+        try {
+            const fees = await account.fetchTradingFees(exchange);
+            if (typeof fees?.[symbol]?.taker === "number") return fees[symbol].taker;
+        } catch {
+            // Needs credentials on most venues - fall through to the market definition
+        }
+    }
+    const taker = exchange.markets?.[symbol]?.taker;
+    return typeof taker === "number" ? taker : fallback;
+}
+
+/**
+ * Deposit/withdraw status and withdrawal fee of the base currency, when the venue publishes them
+ */
+async function loadWithdrawalConstraints(exchange: ccxt.Exchange, base: string): Promise<WithdrawalConstraints> {
+    if (!exchange.has.fetchCurrencies) return { baseWithdrawFee: 0 };
+
+    try {
+        const currencies = await account.fetchCurrencies(exchange);
+        const currency = currencies?.[base];
+        return {
+            baseWithdrawEnabled: typeof currency?.withdraw === "boolean" ? currency.withdraw : undefined,
+            baseDepositEnabled: typeof currency?.deposit === "boolean" ? currency.deposit : undefined,
+            baseWithdrawFee: typeof currency?.fee === "number" ? currency.fee : 0,
+        };
+    } catch {
+        return { baseWithdrawFee: 0 };
+    }
+}
+
+/**
+ * Fill result of an IOC leg. Venues that ignore IOC leave the remainder open, so it is cancelled here;
+ * if the order cannot be cancelled or fetched its fill is unknown and the leg is marked so.
+ */
+async function settleLeg(
+    venue: ArbVenue,
+    symbol: string,
+    side: trading.OrderSide,
+    settled: PromiseSettledResult<Awaited<ReturnType<typeof trading.createLimitOrder>>>
+): Promise<ArbLegResult> {
+    if (settled.status === "rejected") {
+        return { exchange: venue.name, side, filled: 0, average: 0, baseFee: 0, error: errorMessage(settled.reason) };
+    }
+
+    let order = settled.value;
+    if (order.status === "open") {
+        try {
+            const cancel = await trading.cancelOrders(venue.exchange, [order.id], symbol);
+            order = await trading.fetchOrder(venue.exchange, order.id, symbol);
+            if (order.status === "open") {
+                throw new Error(`order still open after the cancel: ${cancel.failed[0]?.error || "unknown"}`);
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Could not settle ${side} leg on ${venue.name}: ${errorMessage(error)}`));
+            return {
+                exchange: venue.name,
+                side,
+                orderId: order.id,
+                filled: order.filled || 0,
+                average: order.average || order.price || 0,
+                baseFee: 0,
+                error: `not settled: ${errorMessage(error)}`,
+                unknown: true,
+            };
+        }
+    }
+
+    return {
+        exchange: venue.name,
+        side,
+        orderId: order.id,
+        filled: order.filled || 0,
+        average: order.average || order.price || 0,
+        baseFee: order.fee?.currency === symbol.split("/")[0] ? order.fee.cost || 0 : 0,
+    };
+}
+
+// ============================================================================
+// OPPORTUNITY SCANNER
+// ============================================================================
+
+/**
+ * Net result of buying `amount` on one venue and selling it on another at the walked book prices
+ */
+function evaluate(
+    buy: ArbVenue,
+    sell: ArbVenue,
+    amount: number,
+    config: CrossExchangeArbConfig
+): Omit<ArbOpportunity, "blockers" | "timestamp"> | undefined {
+    const buyFill = buy.book.vwapToFill("buy", amount);
+    const sellFill = sell.book.vwapToFill("sell", amount);
+    const filled = Math.min(buyFill.filled, sellFill.filled);
+    if (filled <= 0) return undefined;
+
+    // Re-walk at the size both books can take
+    const buyLeg = filled < amount ? buy.book.vwapToFill("buy", filled) : buyFill;
+    const sellLeg = filled < amount ? sell.book.vwapToFill("sell", filled) : sellFill;
+
+    const withdrawalCost = config.includeWithdrawalFees ? buy.withdrawal.baseWithdrawFee * buyLeg.vwap : 0;
+    const spent = buyLeg.cost * (1 + buy.takerFee);
+    const received = sellLeg.cost * (1 - sell.takerFee);
+    const netProfitQuote = received - spent - withdrawalCost;
+
+    return {
+        symbol: config.symbol,
+        buyExchange: buy.name,
+        sellExchange: sell.name,
+        amount: filled,
+        buyPrice: buyLeg.worstPrice,
+        sellPrice: sellLeg.worstPrice,
+        buyVwap: buyLeg.vwap,
+        sellVwap: sellLeg.vwap,
+        grossEdgePercent: ((sellLeg.vwap - buyLeg.vwap) / buyLeg.vwap) * 100,
+        netEdgePercent: (netProfitQuote / spent) * 100,
+        netProfitQuote,
+    };
+}
+
+/**
+ * Why an opportunity cannot be executed as sized
+ */
+function findBlockers(buy: ArbVenue, sell: ArbVenue, opportunity: Omit<ArbOpportunity, "blockers" | "timestamp">): string[] {
+    const [base, quote] = opportunity.symbol.split("/");
+    const blockers: string[] = [];
+
+    if (buy.quote === undefined) blockers.push(`${quote} balance on ${buy.name} unavailable`);
+    else if (buy.quote < opportunity.amount * opportunity.buyPrice * (1 + buy.takerFee)) {
+        blockers.push(`not enough ${quote} on ${buy.name}`);
+    }
+    if (sell.base === undefined) blockers.push(`${base} balance on ${sell.name} unavailable`);
+    else if (sell.base < opportunity.amount) blockers.push(`not enough ${base} on ${sell.name}`);
+
+    // Inventory has to flow back from the buy venue to the sell venue
+    if (buy.withdrawal.baseWithdrawEnabled === false) blockers.push(`${base} withdrawals disabled on ${buy.name}`);
+    if (sell.withdrawal.baseDepositEnabled === false) blockers.push(`${base} deposits disabled on ${sell.name}`);
+
+    for (const [venue, price] of [
+        [buy, opportunity.buyPrice],
+        [sell, opportunity.sellPrice],
+    ] as Array<[ArbVenue, number]>) {
+        const rejections = venue.rules.validate(price, opportunity.amount);
+        if (rejections.length > 0) blockers.push(`${venue.name}: ${formatRejections(rejections)}`);
+    }
+
+    return blockers;
+}
+
+/**
+ * Best opportunity per venue pair whose net edge clears the minimum, most profitable first.
+ * Sized by maxTradeQuote, book depth and known balances; halved while the edge is too thin.
+ */
+export function findOpportunities(venues: ArbVenue[], config: CrossExchangeArbConfig): ArbOpportunity[] {
+    const live = venues.filter((v) => !v.error && v.book.bestBid() && v.book.bestAsk());
+    const opportunities: ArbOpportunity[] = [];
+
+    for (const buy of live) {
+        for (const sell of live) {
+            if (buy === sell) continue;
+
+            const ask = buy.book.bestAsk()!.price;
+            const bid = sell.book.bestBid()!.price;
+            if (bid <= ask) continue;
+
+            // Largest size the balances allow (unknown balances do not limit the estimate)
+            let amount = config.maxTradeQuote / ask;
+            if (buy.quote !== undefined && buy.quote > 0) amount = Math.min(amount, buy.quote / (ask * (1 + buy.takerFee)));
+            if (sell.base !== undefined && sell.base > 0) amount = Math.min(amount, sell.base);
+
+            for (let attempt = 0; attempt < 5 && amount > 0; attempt++) {
+                const rounded = sell.rules.roundAmount(buy.rules.roundAmount(amount));
+                const result = rounded > 0 ? evaluate(buy, sell, rounded, config) : undefined;
+
+                if (result && result.netEdgePercent >= config.minNetEdgePercent) {
+                    // Depth may have shrunk the size - keep it on both venues' grids
+                    result.amount = sell.rules.roundAmount(buy.rules.roundAmount(result.amount));
+                    opportunities.push({ ...result, blockers: findBlockers(buy, sell, result), timestamp: Date.now() });
+                    break;
+                }
+                amount /= 2;
+            }
+        }
+    }
+
+    return opportunities.sort((a, b) => b.netProfitQuote - a.netProfitQuote);
+}
+
+// ============================================================================
+// CROSS-EXCHANGE ARBITRAGE
+// ============================================================================
+
+export class CrossExchangeArbitrage {
+    private config: CrossExchangeArbConfig;
+    private venues: ArbVenue[] = [];
+    private injected = new Map<string, ccxt.Exchange>();
+    private timer?: NodeJS.Timeout;
+    private running = false;
+    private stats: ArbStats = { scans: 0, opportunities: 0, executed: 0, unwinds: 0, unhedged: 0, estimatedProfitQuote: 0 };
+
+    /**
+     * `exchanges` overrides the instances per exchange name (e.g. mocks); the rest come from initExchange
+     */
+    constructor(config: CrossExchangeArbConfig, exchanges: Partial<Record<string, ccxt.Exchange>> = {}) {
+        this.config = config;
+        for (const [name, exchange] of Object.entries(exchanges)) {
+            if (exchange) this.injected.set(name, exchange);
+        }
+    }
+
+    /**
+     * Connect to every venue listing the symbol and load fees, market rules and withdrawal status
+     */
+    async init(): Promise<ArbVenue[]> {
+        const [base] = this.config.symbol.split("/");
+
+        const venues = await Promise.all(
+            this.config.exchanges.map(async (name): Promise<ArbVenue | undefined> => {
+                try {
+                    const exchange = this.injected.get(name) || initExchange(name);
+                    const rules = await MarketRules.fromExchange(exchange, this.config.symbol);
+                    return {
+                        name,
+                        exchange,
+                        rules,
+                        book: new OrderBook(this.config.symbol),
+                        takerFee: await loadTakerFee(exchange, this.config.symbol, this.config.defaultTakerFee),
+                        withdrawal: await loadWithdrawalConstraints(exchange, base),
+                    };
+                } catch (error) {
+                    console.log(chalk.yellow(`⚠️  Skipping ${name}: ${errorMessage(error)}`));
+                    return undefined;
+                }
+            })
+        );
+
+        this.venues = venues.filter((v): v is ArbVenue => v !== undefined);
+        if (this.venues.length < 2) {
+            throw new Error(`Need at least two venues listing ${this.config.symbol}, found ${this.venues.length}`);
+        }
+        return this.venues;
+    }
+
+    /**
+     * Refresh books and balances on every venue, then look for opportunities
+     */
+    async scan(): Promise<ArbOpportunity[]> {
+        const [base, quote] = this.config.symbol.split("/");
+
+        await Promise.all(
+            this.venues.map(async (venue) => {
+                try {
+                    await venue.book.refresh(venue.exchange, this.config.bookDepth);
+                    venue.error = undefined;
+                } catch (error) {
+                    venue.error = errorMessage(error);
+                    return;
+                }
+
+                try {
+                    const balance = await account.fetchBalance(venue.exchange);
+                    venue.base = balance.free?.[base] || 0;
+                    venue.quote = balance.free?.[quote] || 0;
+                } catch {
+                    // No credentials (dry-run) - size by maxTradeQuote only
+                    venue.base = undefined;
+                    venue.quote = undefined;
+                }
+            })
+        );
+
+        this.stats.scans++;
+        const opportunities = findOpportunities(this.venues, this.config);
+        this.stats.opportunities += opportunities.length;
+        return opportunities;
+    }
+
+    /**
+     * Send both legs as IOC orders at once, then unwind whatever one leg filled beyond the other
+     */
+    async execute(opportunity: ArbOpportunity): Promise<ArbExecution> {
+        const buy = this.venue(opportunity.buyExchange);
+        const sell = this.venue(opportunity.sellExchange);
+        const { symbol, amount } = opportunity;
+        const ioc = { timeInForce: "IOC" };
+
+        const [buySettled, sellSettled] = await Promise.allSettled([
+            trading.createLimitOrder(buy.exchange, symbol, "buy", amount, opportunity.buyPrice, ioc, trading.orderTag(ARB_BOT_TAG, "buy")),
+            trading.createLimitOrder(sell.exchange, symbol, "sell", amount, opportunity.sellPrice, ioc, trading.orderTag(ARB_BOT_TAG, "sell")),
+        ]);
+
+        const [buyLeg, sellLeg] = await Promise.all([
+            settleLeg(buy, symbol, "buy", buySettled),
+            settleLeg(sell, symbol, "sell", sellSettled),
+        ]);
+
+        const execution: ArbExecution = { opportunity, buy: buyLeg, sell: sellLeg, hedged: true };
+        // Base position left by the two legs, fees charged in base included
+        const difference = buyLeg.filled - buyLeg.baseFee - (sellLeg.filled + sellLeg.baseFee);
+
+        if (buyLeg.unknown || sellLeg.unknown) {
+            // An unsettled order may still fill - sizing an unwind from it could open a new position
+            execution.hedged = false;
+        } else if (difference !== 0) {
+            // Bought more than sold: sell the rest where we bought. Sold more: buy it back where we sold.
+            const venue = difference > 0 ? buy : sell;
+            const side: trading.OrderSide = difference > 0 ? "sell" : "buy";
+            const unwindAmount = venue.rules.roundAmount(Math.abs(difference));
+
+            if (unwindAmount > 0) {
+                this.stats.unwinds++;
+                try {
+                    const order = await trading.createMarketOrder(
+                        venue.exchange,
+                        symbol,
+                        side,
+                        unwindAmount,
+                        trading.withPurpose("unwind"),
+                        trading.orderTag(ARB_BOT_TAG, "unwind")
+                    );
+                    execution.unwind = {
+                        exchange: venue.name,
+                        side,
+                        orderId: order.id,
+                        filled: order.filled || 0,
+                        average: order.average || order.price || 0,
+                        baseFee: 0,
+                    };
+                    execution.hedged = order.status === "closed" || (order.filled || 0) >= unwindAmount;
+                } catch (error) {
+                    execution.unwind = { exchange: venue.name, side, filled: 0, average: 0, baseFee: 0, error: errorMessage(error) };
+                    execution.hedged = false;
+                }
+            }
+            // A difference below the amount step (fee dust) cannot be traded and is left as is
+        }
+
+        const hedgedAmount = Math.min(buyLeg.filled, sellLeg.filled);
+        if (hedgedAmount > 0) {
+            this.stats.executed++;
+            this.stats.estimatedProfitQuote +=
+                hedgedAmount * (sellLeg.average * (1 - sell.takerFee) - buyLeg.average * (1 + buy.takerFee));
+        }
+        if (!execution.hedged) this.stats.unhedged++;
+
+        return execution;
+    }
+
+    /**
+     * Scan on a fixed cadence; outside dry-run execute the best executable opportunity each scan
+     */
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        void this.runCycle();
+    }
+
+    stop(): ArbStats {
+        this.running = false;
+        if (this.timer) clearTimeout(this.timer);
+        return this.getStats();
+    }
+
+    getStats(): ArbStats {
+        return { ...this.stats };
+    }
+
+    getVenues(): ArbVenue[] {
+        return [...this.venues];
+    }
+
+    private venue(name: ExchangeName): ArbVenue {
+        const venue = this.venues.find((v) => v.name === name);
+        if (!venue) throw new Error(`Venue ${name} not initialized`);
+        return venue;
+    }
+
+    private async runCycle(): Promise<void> {
+        if (!this.running) return;
+        const startedAt = Date.now();
+
+        try {
+            const opportunities = await this.scan();
+            opportunities.forEach((o) => logOpportunity(o, this.config.dryRun));
+
+            const executable = opportunities.find((o) => o.blockers.length === 0);
+            if (!this.config.dryRun && executable) {
+                logExecution(await this.execute(executable));
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Arbitrage scan failed: ${errorMessage(error)}`));
+        }
+
+        if (this.running) {
+            const wait = Math.max(0, this.config.scanIntervalMs - (Date.now() - startedAt));
+            this.timer = setTimeout(() => void this.runCycle(), wait);
+        }
+    }
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+export function logOpportunity(opportunity: ArbOpportunity, dryRun: boolean): void {
+    const { buyExchange, sellExchange, amount, buyVwap, sellVwap } = opportunity;
+    const color = opportunity.blockers.length === 0 ? chalk.green : chalk.yellow;
+    const prefix = dryRun ? "🔎 [DRY-RUN]" : "💹";
+
+    console.log(
+        color(
+            `${prefix} ${opportunity.symbol}: buy ${amount} on ${buyExchange.toUpperCase()} @ ${buyVwap.toFixed(8)} → ` +
+            `sell on ${sellExchange.toUpperCase()} @ ${sellVwap.toFixed(8)} | gross ${opportunity.grossEdgePercent.toFixed(3)}% ` +
+            `net ${opportunity.netEdgePercent.toFixed(3)}% (${opportunity.netProfitQuote.toFixed(4)})`
+        )
+    );
+    if (opportunity.blockers.length > 0) {
+        console.log(chalk.gray(`   ⛔ ${opportunity.blockers.join("; ")}`));
+    }
+}
+
+export function logExecution(execution: ArbExecution): void {
+    const { buy, sell, unwind } = execution;
+    const leg = (l: ArbLegResult) =>
+        `${l.side.toUpperCase()} ${l.exchange.toUpperCase()} ${l.filled} @ ${l.average.toFixed(8)}${l.error ? ` (${l.error})` : ""}`;
+
+    console.log(chalk.cyan(`   ⚡ ${leg(buy)} | ${leg(sell)}`));
+    if (unwind) {
+        console.log(chalk.magenta(`   ↩️  Unwind: ${leg(unwind)}`));
+    }
+    if (!execution.hedged) {
+        const unsettled = [buy, sell].filter((l) => l.unknown).map((l) => `${l.side} order ${l.orderId} on ${l.exchange}`);
+        console.log(chalk.red(`   ⚠️  Legs not balanced - check positions on ${buy.exchange} and ${sell.exchange}`));
+        if (unsettled.length > 0) {
+            console.log(chalk.red(`   ⚠️  Not settled, not unwound: ${unsettled.join(", ")}`));
+        }
+    }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Run the arbitrage scanner from environment variables until SIGINT/SIGTERM
+ */
+export async function runCrossExchangeArb(): Promise<CrossExchangeArbitrage> {
+    const config = arbConfigFromEnv();
+
+    console.log(chalk.cyan(`\n🔀 Cross-exchange arbitrage on ${config.symbol}${config.dryRun ? " (dry-run)" : ""}`));
+    console.log(chalk.white(`   Min net edge: ${config.minNetEdgePercent}% | Max trade: ${config.maxTradeQuote} | Every ${config.scanIntervalMs}ms`));
+
+    const arb = new CrossExchangeArbitrage(config);
+    const venues = await arb.init();
+    for (const venue of venues) {
+        console.log(chalk.white(`   ${venue.name.toUpperCase()}: taker ${(venue.takerFee * 100).toFixed(3)}%`));
+    }
+    arb.start();
+
+    const shutdown = (signal: string) => {
+        const stats = arb.stop();
+        console.log(chalk.yellow(`\n🛑 Received ${signal} - ${stats.scans} scans, ${stats.opportunities} opportunities, ${stats.executed} executed, ${stats.unwinds} unwinds`));
+        process.exit(0);
+    };
+
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+    return arb;
+}
+
+// Run if executed directly
+if (require.main === module) {
+    runCrossExchangeArb().catch((error) => {
+        console.error(chalk.red(`❌ Arbitrage failed: ${error.message}`));
+        process.exit(1);
+    });
+}
+
+export default { CrossExchangeArbitrage, findOpportunities, runCrossExchangeArb, arbConfigFromEnv, defaultArbConfig };
@@ -0,0 +1,606 @@
+/**
+ * Triangular Arbitrage
+ * Builds a currency graph from one exchange's spot markets and evaluates every triangle through
+ * a start currency (e.g. USDT → BTC → ETH → USDT) against live order-book depth, with taker fees
+ * and precision rounding, for a given notional. Unless dry-run, the three legs are executed one
+ * after another; each leg is re-checked against a fresh book first and the cycle is aborted (and
+ * the intermediate currency sold back to the start currency) on slippage, rejection or a short fill.
+ */
+
+import * as ccxt from "ccxt";
+import chalk from "chalk";
+import * as account from "../account";
+import { initExchange, type ExchangeName } from "../exchange";
+import * as marketData from "../market-data";
+import { MarketRules, formatRejections } from "../market-rules";
+import { OrderBook } from "../order-book";
+import * as trading from "../trading";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface TriangularArbConfig {
+    exchange: ExchangeName;
+    startCurrency: string; // Every cycle starts and ends here (e.g. USDT)
+    notional: number; // Start amount per cycle, in the start currency
+    minProfitPercent: number; // Net of fees, to report/execute
+    currencies?: string[]; // Restrict the graph to these currencies (default: all)
+    maxCycles: number; // Evaluate at most this many triangles
+    scanIntervalMs: number;
+    bookDepth: number;
+    dryRun: boolean; // Only log opportunities
+    maxSlippagePercent: number; // Abort when a leg's fresh VWAP is this much worse than planned
+    minFillRatio: number; // Abort when a leg fills less than this share of its amount
+    defaultTakerFee: number; // When the exchange reports no fee
+}
+
+/**
+ * One hop of a triangle: convert `from` into `to` on `symbol` (buy when `from` is the quote)
+ */
+export interface TriangleLeg {
+    symbol: string;
+    from: string;
+    to: string;
+    side: trading.OrderSide;
+}
+
+export interface Triangle {
+    path: [string, string, string];
+    legs: [TriangleLeg, TriangleLeg, TriangleLeg];
+}
+
+export interface LegEstimate extends TriangleLeg {
+    amount: number; // Order amount in base, rounded to the market step
+    price: number; // IOC limit: worst level walked
+    vwap: number;
+    input: number; // In `from`
+    output: number; // In `to`, after the taker fee
+    blockers: string[];
+}
+
+export interface TriangularOpportunity {
+    path: string[]; // e.g. USDT → BTC → ETH → USDT
+    legs: LegEstimate[];
+    startAmount: number;
+    endAmount: number;
+    profit: number; // In the start currency
+    profitPercent: number;
+    blockers: string[];
+    timestamp: number;
+}
+
+export interface TriangularExecution {
+    opportunity: TriangularOpportunity;
+    filledLegs: Array<{
+        symbol: string;
+        side: trading.OrderSide;
+        orderId: string;
+        filled: number;
+        average: number;
+        received: number;
+        unknown?: boolean; // The order could not be settled - `filled` is not final, nothing was unwound
+    }>;
+    aborted?: string; // Reason the cycle stopped early
+    unwound: Array<{ currency: string; amount: number; received: number; error?: string }>;
+    endAmount: number; // Start currency held at the end (including unwinds)
+    profit: number; // Not counted in the stats when a leg is unknown
+}
+
+export interface TriangularStats {
+    scans: number;
+    opportunities: number;
+    executed: number;
+    aborted: number;
+    unhedged: number; // Aborted with a leg whose fill is unknown
+    realizedProfit: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
+ */
+const TRIANGULAR_BOT_TAG = "tri";
+
+export const defaultTriangularConfig: TriangularArbConfig = {
+    exchange: "binance",
+    startCurrency: "USDT",
+    notional: 100,
+    minProfitPercent: 0.1,
+    maxCycles: 50,
+    scanIntervalMs: 3000,
+    bookDepth: 20,
+    dryRun: true,
+    maxSlippagePercent: 0.1,
+    minFillRatio: 0.98,
+    defaultTakerFee: 0.001,
+};
+
+/**
+ * Settings from environment variables (EXCHANGE, TRI_*); dry-run unless TRI_DRY_RUN=false
+ */
+export function triangularConfigFromEnv(): TriangularArbConfig {
+    const number = (name: string, fallback: number) =>
+        process.env[name] ? parseFloat(process.env[name] as string) : fallback;
+
+    return {
+        exchange: (process.env.EXCHANGE as ExchangeName) || defaultTriangularConfig.exchange,
+        startCurrency: process.env.TRI_START_CURRENCY || defaultTriangularConfig.startCurrency,
+        notional: number("TRI_NOTIONAL", defaultTriangularConfig.notional),
+        minProfitPercent: number("TRI_MIN_PROFIT_PERCENT", defaultTriangularConfig.minProfitPercent),
+        currencies: process.env.TRI_CURRENCIES?.split(",").map((c) => c.trim()),
+        maxCycles: number("TRI_MAX_CYCLES", defaultTriangularConfig.maxCycles),
+        scanIntervalMs: number("TRI_INTERVAL_MS", defaultTriangularConfig.scanIntervalMs),
+        bookDepth: number("TRI_BOOK_DEPTH", defaultTriangularConfig.bookDepth),
+        dryRun: process.env.TRI_DRY_RUN !== "false",
+        maxSlippagePercent: number("TRI_MAX_SLIPPAGE_PERCENT", defaultTriangularConfig.maxSlippagePercent),
+        minFillRatio: number("TRI_MIN_FILL_RATIO", defaultTriangularConfig.minFillRatio),
+        defaultTakerFee: number("TRI_DEFAULT_TAKER_FEE", defaultTriangularConfig.defaultTakerFee),
+    };
+}
+
+// ============================================================================
+// CURRENCY GRAPH
+// ============================================================================
+
+interface GraphMarket {
+    symbol: string;
+    base: string;
+    quote: string;
+}
+
+/**
+ * Every triangle start → A → B → start over the given markets, in both directions
+ */
+export function findTriangles(markets: GraphMarket[], start: string, currencies?: string[]): Triangle[] {
+    const allowed = currencies ? new Set([start, ...currencies]) : undefined;
+    const graph = new Map<string, Map<string, GraphMarket>>();
+    const link = (a: string, b: string, market: GraphMarket) => {
+        if (!graph.has(a)) graph.set(a, new Map());
+        graph.get(a)!.set(b, market);
+    };
+
+    for (const market of markets) {
+        if (allowed && (!allowed.has(market.base) || !allowed.has(market.quote))) continue;
+        link(market.base, market.quote, market);
+        link(market.quote, market.base, market);
+    }
+
+    const leg = (from: string, to: string): TriangleLeg => {
+        const market = graph.get(from)!.get(to)!;
+        return { symbol: market.symbol, from, to, side: market.quote === from ? "buy" : "sell" };
+    };
+
+    const triangles: Triangle[] = [];
+    for (const a of graph.get(start)?.keys() || []) {
+        for (const b of graph.get(a)?.keys() || []) {
+            if (b === start || !graph.get(b)?.has(start)) continue;
+            triangles.push({ path: [start, a, b], legs: [leg(start, a), leg(a, b), leg(b, start)] });
+        }
+    }
+    return triangles;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Base amount that `quote` buys when walking the asks
+ */
+function baseForQuote(book: OrderBook, quote: number): number {
+    let remaining = quote;
+    let base = 0;
+    for (const level of book.asks) {
+        const levelCost = level.price * level.amount;
+        if (levelCost >= remaining) {
+            return base + remaining / level.price;
+        }
+        base += level.amount;
+        remaining -= levelCost;
+    }
+    return base;
+}
+
+/**
+ * Convert `input` of leg.from into leg.to against the book: amounts rounded down to the market
+ * step, fee taken from what the leg receives
+ */
+export function simulateLeg(leg: TriangleLeg, input: number, book: OrderBook, rules: MarketRules, fee: number): LegEstimate {
+    const amount = rules.roundAmount(leg.side === "sell" ? input : baseForQuote(book, input));
+    const fill = book.vwapToFill(leg.side, amount);
+    const blockers: string[] = [];
+
+    if (!fill.complete) blockers.push(`${leg.symbol}: book too thin for ${amount}`);
+    const rejections = rules.validate(fill.worstPrice, amount);
+    if (rejections.length > 0) blockers.push(`${leg.symbol}: ${formatRejections(rejections)}`);
+
+    const output = leg.side === "sell" ? fill.cost * (1 - fee) : fill.filled * (1 - fee);
+    return { ...leg, amount, price: fill.worstPrice, vwap: fill.vwap, input, output, blockers };
+}
+
+// ============================================================================
+// TRIANGULAR ARBITRAGE
+// ============================================================================
+
+export class TriangularArbitrage {
+    private config: TriangularArbConfig;
+    private exchange: ccxt.Exchange;
+    private triangles: Triangle[] = [];
+    private books = new Map<string, OrderBook>();
+    private rules = new Map<string, MarketRules>();
+    private fees = new Map<string, number>();
+    private timer?: NodeJS.Timeout;
+    private running = false;
+    private stats: TriangularStats = { scans: 0, opportunities: 0, executed: 0, aborted: 0, unhedged: 0, realizedProfit: 0 };
+
+    constructor(config: TriangularArbConfig, exchange: ccxt.Exchange = initExchange(config.exchange)) {
+        this.config = config;
+        this.exchange = exchange;
+    }
+
+    /**
+     * Load all markets, build the currency graph and the triangles through the start currency
+     */
+    async init(): Promise<Triangle[]> {
+        const markets = (await marketData.fetchMarkets(this.exchange)).filter(
+            (m: { active?: boolean; spot?: boolean; base?: string; quote?: string }) =>
+                m.active !== false && m.spot !== false && m.base && m.quote
+        );
+
+        this.triangles = findTriangles(markets, this.config.startCurrency, this.config.currencies).slice(
+            0,
+            this.config.maxCycles
+        );
+
+        const symbols = new Set(this.triangles.flatMap((t) => t.legs.map((l) => l.symbol)));
+        let tradingFees: Record<string, { taker?: number }> = {};
+        if (this.exchange.has.fetchTradingFees) {
+            try {
+                tradingFees = await account.fetchTradingFees(this.exchange);
+            } catch {
+                // Needs credentials on most venues - use the market definitions
+            }
+        }
+
+        for (const market of markets) {
+            if (!symbols.has(market.symbol)) continue;
+            this.rules.set(market.symbol, new MarketRules(market, this.exchange.precisionMode));
+            this.books.set(market.symbol, new OrderBook(market.symbol));
+            const taker = tradingFees[market.symbol]?.taker ?? market.taker;
+            this.fees.set(market.symbol, typeof taker === "number" ? taker : this.config.defaultTakerFee);
+        }
+
+        return this.triangles;
+    }
+
+    /**
+     * Refresh every book used by a triangle and return the profitable ones, best first
+     */
+    async scan(): Promise<TriangularOpportunity[]> {
+        const failed = new Set<string>();
+        await Promise.all(
+            [...this.books.entries()].map(async ([symbol, book]) => {
+                try {
+                    await book.refresh(this.exchange, this.config.bookDepth);
+                } catch {
+                    failed.add(symbol);
+                }
+            })
+        );
+
+        this.stats.scans++;
+        const opportunities = this.triangles
+            .filter((t) => t.legs.every((l) => !failed.has(l.symbol)))
+            .map((t) => this.evaluate(t, this.config.notional))
+            .filter((o) => o.profitPercent >= this.config.minProfitPercent)
+            .sort((a, b) => b.profitPercent - a.profitPercent);
+
+        this.stats.opportunities += opportunities.length;
+        return opportunities;
+    }
+
+    /**
+     * Walk the three legs for `notional` of the start currency
+     */
+    evaluate(triangle: Triangle, notional: number): TriangularOpportunity {
+        const legs: LegEstimate[] = [];
+        let amount = notional;
+
+        for (const leg of triangle.legs) {
+            const estimate = simulateLeg(leg, amount, this.books.get(leg.symbol)!, this.rules.get(leg.symbol)!, this.fees.get(leg.symbol)!);
+            legs.push(estimate);
+            amount = estimate.output;
+        }
+
+        const profit = amount - notional;
+        return {
+            path: [...triangle.path, triangle.path[0]],
+            legs,
+            startAmount: notional,
+            endAmount: amount,
+            profit,
+            profitPercent: (profit / notional) * 100,
+            blockers: legs.flatMap((l) => l.blockers),
+            timestamp: Date.now(),
+        };
+    }
+
+    /**
+     * Execute the legs one after another. Before each leg its book is refreshed and the leg
+     * re-simulated with what we actually hold; too much slippage, a rejection or a short fill
+     * aborts, and whatever is held outside the start currency is sold back at market.
+     */
+    async execute(opportunity: TriangularOpportunity): Promise<TriangularExecution> {
+        const start = this.config.startCurrency;
+        const execution: TriangularExecution = { opportunity, filledLegs: [], unwound: [], endAmount: 0, profit: 0 };
+        const holdings = new Map<string, number>([[start, opportunity.startAmount]]);
+
+        for (const planned of opportunity.legs) {
+            const book = this.books.get(planned.symbol)!;
+            const input = holdings.get(planned.from) || 0;
+
+            await book.refresh(this.exchange, this.config.bookDepth);
+            const leg = simulateLeg(planned, input, book, this.rules.get(planned.symbol)!, this.fees.get(planned.symbol)!);
+
+            const slippage = planned.side === "buy" ? (leg.vwap - planned.vwap) / planned.vwap : (planned.vwap - leg.vwap) / planned.vwap;
+            if (leg.blockers.length > 0) {
+                execution.aborted = leg.blockers.join("; ");
+                break;
+            }
+            if (slippage * 100 > this.config.maxSlippagePercent) {
+                execution.aborted = `${leg.symbol} moved ${(slippage * 100).toFixed(3)}% against us`;
+                break;
+            }
+
+            let order;
+            try {
+                order = await trading.createLimitOrder(
+                    this.exchange,
+                    leg.symbol,
+                    leg.side,
+                    leg.amount,
+                    leg.price,
+                    { timeInForce: "IOC" },
+                    trading.orderTag(TRIANGULAR_BOT_TAG, leg.side)
+                );
+            } catch (error) {
+                execution.aborted = `${leg.symbol} ${leg.side} failed: ${error instanceof Error ? error.message : String(error)}`;
+                break;
+            }
+
+            if (order.status === "open") {
+                try {
+                    order = await this.settleOpenLeg(order.id, leg.symbol);
+                } catch (error) {
+                    // The order may still be filling: neither side of it can be unwound without
+                    // selling inventory that is not ours to sell, so it is left and reported
+                    const reason = error instanceof Error ? error.message : String(error);
+                    execution.aborted =
+                        `${leg.symbol} ${leg.side} ${order.id} could not be settled: ${reason}` +
+                        ` - not unwound, check ${leg.from} and ${leg.to} on ${this.exchange.id}`;
+                    holdings.delete(leg.from);
+                    execution.filledLegs.push({
+                        symbol: leg.symbol,
+                        side: leg.side,
+                        orderId: order.id,
+                        filled: order.filled || 0,
+                        average: order.average || leg.price,
+                        received: 0,
+                        unknown: true,
+                    });
+                    break;
+                }
+            }
+
+            const filled = order.filled || 0;
+            const average = order.average || leg.price;
+            const spent = leg.side === "buy" ? order.cost ?? filled * average : filled;
+            const gross = leg.side === "buy" ? filled : order.cost ?? filled * average;
+            const fee = order.fee?.currency === leg.to ? order.fee.cost || 0 : gross * this.fees.get(leg.symbol)!;
+            const received = gross - fee;
+
+            holdings.set(leg.from, Math.max(0, input - spent));
+            holdings.set(leg.to, (holdings.get(leg.to) || 0) + received);
+            execution.filledLegs.push({ symbol: leg.symbol, side: leg.side, orderId: order.id, filled, average, received });
+
+            if (filled < leg.amount * this.config.minFillRatio) {
+                execution.aborted = `${leg.symbol} filled ${filled} of ${leg.amount}`;
+                break;
+            }
+        }
+
+        if (execution.aborted) {
+            this.stats.aborted++;
+            for (const [currency, amount] of holdings) {
+                if (currency === start || amount <= 0) continue;
+                const result = await this.unwindToStart(currency, amount);
+                execution.unwound.push({ currency, amount, ...result });
+                holdings.set(start, (holdings.get(start) || 0) + result.received);
+            }
+        } else {
+            this.stats.executed++;
+        }
+
+        execution.endAmount = holdings.get(start) || 0;
+        execution.profit = execution.endAmount - opportunity.startAmount;
+        if (execution.filledLegs.some((l) => l.unknown)) {
+            this.stats.unhedged++;
+        } else {
+            this.stats.realizedProfit += execution.profit;
+        }
+        return execution;
+    }
+
+    /**
+     * Scan on a fixed cadence; outside dry-run execute the best unblocked triangle each scan
+     */
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        void this.runCycle();
+    }
+
+    stop(): TriangularStats {
+        this.running = false;
+        if (this.timer) clearTimeout(this.timer);
+        return this.getStats();
+    }
+
+    getStats(): TriangularStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Pull an IOC leg the venue left open and return its final state. A cancel that finds the order
+     * gone is fine (it filled or expired meanwhile, the fetch tells which); an order still open
+     * afterwards throws, its fill is unknown
+     */
+    private async settleOpenLeg(orderId: string, symbol: string) {
+        const cancel = await trading.cancelOrders(this.exchange, [orderId], symbol);
+        const order = await trading.fetchOrder(this.exchange, orderId, symbol);
+        if (order.status === "open") {
+            throw new Error(cancel.failed[0]?.error || "still open after the cancel");
+        }
+        return order;
+    }
+
+    /**
+     * Sell `amount` of an intermediate currency back to the start currency at market
+     * (every currency of a triangle trades directly against the start currency)
+     */
+    private async unwindToStart(currency: string, amount: number): Promise<{ received: number; error?: string }> {
+        const start = this.config.startCurrency;
+        const direct = this.rules.has(`${currency}/${start}`) ? `${currency}/${start}` : `${start}/${currency}`;
+        const rules = this.rules.get(direct);
+        const book = this.books.get(direct);
+        if (!rules || !book) return { received: 0, error: `no ${currency}/${start} market` };
+
+        try {
+            const side: trading.OrderSide = direct.startsWith(`${currency}/`) ? "sell" : "buy";
+            const bestAsk = book.bestAsk()?.price;
+            const orderAmount = rules.roundAmount(side === "sell" ? amount : bestAsk ? amount / bestAsk : 0);
+            if (orderAmount <= 0) return { received: 0, error: "below the amount step" };
+
+            const order = await trading.createMarketOrder(
+                this.exchange,
+                direct,
+                side,
+                orderAmount,
+                trading.withPurpose("unwind"),
+                trading.orderTag(TRIANGULAR_BOT_TAG, "unwind")
+            );
+            const filled = order.filled || 0;
+            const received = side === "sell" ? order.cost ?? filled * (order.average || 0) : filled;
+            return { received: received * (1 - this.fees.get(direct)!) };
+        } catch (error) {
+            return { received: 0, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private async runCycle(): Promise<void> {
+        if (!this.running) return;
+        const startedAt = Date.now();
+
+        try {
+            const opportunities = await this.scan();
+            opportunities.forEach((o) => logTriangularOpportunity(o, this.config.dryRun));
+
+            const executable = opportunities.find((o) => o.blockers.length === 0);
+            if (!this.config.dryRun && executable) {
+                logTriangularExecution(await this.execute(executable));
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Triangular scan failed: ${error instanceof Error ? error.message : String(error)}`));
+        }
+
+        if (this.running) {
+            const wait = Math.max(0, this.config.scanIntervalMs - (Date.now() - startedAt));
+            this.timer = setTimeout(() => void this.runCycle(), wait);
+        }
+    }
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+export function logTriangularOpportunity(opportunity: TriangularOpportunity, dryRun: boolean): void {
+    const color = opportunity.blockers.length === 0 ? chalk.green : chalk.yellow;
+    const prefix = dryRun ? "🔎 [DRY-RUN]" : "🔺";
+
+    console.log(
+        color(
+            `${prefix} ${opportunity.path.join(" → ")}: ${opportunity.startAmount} → ${opportunity.endAmount.toFixed(8)} ` +
+            `(${opportunity.profitPercent >= 0 ? "+" : ""}${opportunity.profitPercent.toFixed(3)}%)`
+        )
+    );
+    for (const leg of opportunity.legs) {
+        console.log(chalk.gray(`   ${leg.side.toUpperCase()} ${leg.amount} ${leg.symbol} @ ${leg.vwap.toFixed(8)} (limit ${leg.price})`));
+    }
+    if (opportunity.blockers.length > 0) {
+        console.log(chalk.gray(`   ⛔ ${opportunity.blockers.join("; ")}`));
+    }
+}
+
+export function logTriangularExecution(execution: TriangularExecution): void {
+    for (const leg of execution.filledLegs) {
+        const source = leg.unknown ? " (not settled, fill unknown)" : "";
+        console.log(chalk.cyan(`   ⚡ ${leg.side.toUpperCase()} ${leg.filled} ${leg.symbol} @ ${leg.average.toFixed(8)}${source}`));
+    }
+    if (execution.aborted) {
+        console.log(chalk.red(`   🛑 Aborted: ${execution.aborted}`));
+    }
+    for (const unwind of execution.unwound) {
+        console.log(chalk.magenta(`   ↩️  Unwound ${unwind.amount} ${unwind.currency} → ${unwind.received.toFixed(8)}${unwind.error ? ` (${unwind.error})` : ""}`));
+    }
+    if (execution.filledLegs.some((l) => l.unknown)) {
+        console.log(chalk.red("   💰 Result: unknown until the unsettled order is checked"));
+        return;
+    }
+    const color = execution.profit >= 0 ? chalk.green : chalk.red;
+    console.log(color(`   💰 Result: ${execution.profit >= 0 ? "+" : ""}${execution.profit.toFixed(8)}`));
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Run the triangular scanner from environment variables until SIGINT/SIGTERM
+ */
+export async function runTriangularArb(): Promise<TriangularArbitrage> {
+    const config = triangularConfigFromEnv();
+
+    console.log(chalk.cyan(`\n🔺 Triangular arbitrage on ${config.exchange.toUpperCase()} from ${config.startCurrency}${config.dryRun ? " (dry-run)" : ""}`));
+    console.log(chalk.white(`   Notional: ${config.notional} | Min profit: ${config.minProfitPercent}% | Every ${config.scanIntervalMs}ms`));
+
+    const arb = new TriangularArbitrage(config);
+    const triangles = await arb.init();
+    console.log(chalk.white(`   ${triangles.length} triangle(s) through ${config.startCurrency}`));
+    arb.start();
+
+    const shutdown = (signal: string) => {
+        const stats = arb.stop();
+        console.log(chalk.yellow(`\n🛑 Received ${signal} - ${stats.scans} scans, ${stats.executed} executed, ${stats.aborted} aborted, ${stats.unhedged} unhedged`));
+        process.exit(0);
+    };
+
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+    return arb;
+}
+
+// Run if executed directly
+if (require.main === module) {
+    runTriangularArb().catch((error) => {
+        console.error(chalk.red(`❌ Triangular arbitrage failed: ${error.message}`));
+        process.exit(1);
+    });
+}
+
+export default { TriangularArbitrage, findTriangles, simulateLeg, runTriangularArb, triangularConfigFromEnv, defaultTriangularConfig };
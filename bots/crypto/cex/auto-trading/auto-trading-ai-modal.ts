@@ -5,15 +5,24 @@
 
 import * as ccxt from "ccxt";
 import chalk from "chalk";
+import fs from "fs";
+import path from "path";
 import { initExchange, type ExchangeName } from "../exchange";
+import { MarketRules, formatRejections } from "../market-rules";
 import * as trading from "../trading";
 import * as account from "../account";
+import { StopOrderManager, formatStop } from "../stop-orders";
+import {
+    calculateIndicators,
+    type CandleData,
+    type TechnicalIndicators,
+} from "./indicators";
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-interface TradingConfig {
+export interface TradingConfig {
     exchange: ExchangeName;
     symbol: string;
     symbolToTrade: string;
@@ -26,49 +35,18 @@ interface TradingConfig {
     aiModel: string;
     stopLossPercent: number; // Stop loss percentage (e.g., 0.25 for 0.25%)
     takeProfitPercent: number; // Take profit percentage (e.g., 1 for 1%)
-    // Optional: Custom exchange API credentials
-    exchangeApiKey?: string;
-    exchangeSecret?: string;
-    exchangePassword?: string;
+    protectiveOrders: boolean; // Place a stop-loss/take-profit OCO after every BUY
+    decisionLogFile?: string; // Optional NDJSON file to record AI decisions for backtesting
 }
 
-interface CandleData {
-    timestamp: number;
-    open: number;
-    high: number;
-    low: number;
-    close: number;
-    volume: number;
-}
-
-interface OrderBookData {
+export interface OrderBookData {
     bids: Array<[number, number]>; // [price, amount]
     asks: Array<[number, number]>;
     spread: number;
     spreadPercent: number;
 }
 
-interface TechnicalIndicators {
-    sma20: number;
-    sma50: number;
-    ema12: number;
-    ema26: number;
-    rsi14: number;
-    macd: {
-        macd: number;
-        signal: number;
-        histogram: number;
-    };
-    bollinger: {
-        upper: number;
-        middle: number;
-        lower: number;
-    };
-    atr14: number;
-    momentum: number;
-}
-
-interface MarketData {
+export interface MarketData {
     candles: CandleData[];
     orderBook: OrderBookData;
     currentPrice: number;
@@ -80,7 +58,7 @@ interface MarketData {
     };
 }
 
-interface AIResponse {
+export interface AIResponse {
     action: "BUY" | "SELL" | "HOLD";
     confidence: number;
     reasoning: string;
@@ -92,184 +70,37 @@ interface AIResponse {
 // CONFIGURATION
 // ============================================================================
 
-const botConfig: TradingConfig = {
-    exchange: (process.env.EXCHANGE as ExchangeName) || "binance",
-    symbol: process.env.SYMBOL || "BTC/USDT",
-    symbolToTrade: process.env.SYMBOL_TO_TRADE || "btc_usdt",
-    timeframe: process.env.TIMEFRAME || "1m",
-    candleCount: parseInt(process.env.CANDLE_COUNT || "100"),
-    orderBookDepth: parseInt(process.env.ORDER_BOOK_DEPTH || "10"),
-    tradeAmount: parseFloat(process.env.TRADE_AMOUNT || "20"),
-    checkIntervalSeconds: parseFloat(
-        process.env.CHECK_INTERVAL_SECONDS || "60"
-    ),
-    openRouterApiKey: process.env.OPENROUTER_API_KEY || "",
-    aiModel:
-        process.env.AI_MODEL || "qwen/qwen3-coder",
-    stopLossPercent: parseFloat(process.env.STOP_LOSS_PERCENT || "0.25"),
-    takeProfitPercent: parseFloat(process.env.TAKE_PROFIT_PERCENT || "1"),
-    // Custom exchange credentials (optional)
-    exchangeApiKey: process.env.BINANCE_API_KEY || process.env.XT_API_KEY,
-    exchangeSecret: process.env.BINANCE_SECRET || process.env.XT_SECRET_KEY,
-    exchangePassword: process.env.EXCHANGE_PASSWORD,
-};
-
-// ============================================================================
-// TECHNICAL INDICATORS
-// ============================================================================
-
-/**
- * Calculate Simple Moving Average
- */
-function calculateSMA(data: number[], period: number): number {
-    if (data.length < period) return 0;
-    const slice = data.slice(-period);
-    return slice.reduce((sum, val) => sum + val, 0) / period;
-}
-
-/**
- * Calculate Exponential Moving Average
- */
-function calculateEMA(data: number[], period: number): number {
-    if (data.length < period) return 0;
-
-    const multiplier = 2 / (period + 1);
-    let ema = calculateSMA(data.slice(0, period), period);
-
-    for (let i = period; i < data.length; i++) {
-        ema = (data[i] - ema) * multiplier + ema;
-    }
-
-    return ema;
-}
-
-/**
- * Calculate RSI (Relative Strength Index)
- */
-function calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
-
-    const changes = [];
-    for (let i = 1; i < prices.length; i++) {
-        changes.push(prices[i] - prices[i - 1]);
-    }
-
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 0; i < period; i++) {
-        if (changes[i] > 0) gains += changes[i];
-        else losses -= changes[i];
-    }
-
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    for (let i = period; i < changes.length; i++) {
-        if (changes[i] > 0) {
-            avgGain = (avgGain * (period - 1) + changes[i]) / period;
-            avgLoss = (avgLoss * (period - 1)) / period;
-        } else {
-            avgGain = (avgGain * (period - 1)) / period;
-            avgLoss = (avgLoss * (period - 1) - changes[i]) / period;
-        }
-    }
-
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - 100 / (1 + rs);
-}
-
-/**
- * Calculate MACD
- */
-function calculateMACD(prices: number[]): {
-    macd: number;
-    signal: number;
-    histogram: number;
-} {
-    const ema12 = calculateEMA(prices, 12);
-    const ema26 = calculateEMA(prices, 26);
-    const macd = ema12 - ema26;
-
-    // Calculate signal line (9-period EMA of MACD)
-    const macdValues = [];
-    for (let i = 26; i <= prices.length; i++) {
-        const slice = prices.slice(0, i);
-        const e12 = calculateEMA(slice, 12);
-        const e26 = calculateEMA(slice, 26);
-        macdValues.push(e12 - e26);
-    }
-
-    const signal = calculateEMA(macdValues, 9);
-    const histogram = macd - signal;
-
-    return { macd, signal, histogram };
-}
-
 /**
- * Calculate Bollinger Bands
+ * Settings from environment variables (EXCHANGE, SYMBOL, TRADE_AMOUNT, AI_MODEL, STOP_LOSS_PERCENT, ...)
  */
-function calculateBollingerBands(
-    prices: number[],
-    period: number = 20,
-    stdDev: number = 2
-): { upper: number; middle: number; lower: number } {
-    const sma = calculateSMA(prices, period);
-    const slice = prices.slice(-period);
-
-    const variance =
-        slice.reduce((sum, val) => sum + Math.pow(val - sma, 2), 0) / period;
-    const standardDeviation = Math.sqrt(variance);
-
+export function aiSpotConfigFromEnv(): TradingConfig {
     return {
-        upper: sma + standardDeviation * stdDev,
-        middle: sma,
-        lower: sma - standardDeviation * stdDev,
+        exchange: (process.env.EXCHANGE as ExchangeName) || "binance",
+        symbol: process.env.SYMBOL || "BTC/USDT",
+        symbolToTrade: process.env.SYMBOL_TO_TRADE || "btc_usdt",
+        timeframe: process.env.TIMEFRAME || "1m",
+        candleCount: parseInt(process.env.CANDLE_COUNT || "100"),
+        orderBookDepth: parseInt(process.env.ORDER_BOOK_DEPTH || "10"),
+        tradeAmount: parseFloat(process.env.TRADE_AMOUNT || "20"),
+        checkIntervalSeconds: parseFloat(
+            process.env.CHECK_INTERVAL_SECONDS || "60"
+        ),
+        openRouterApiKey: process.env.OPENROUTER_API_KEY || "",
+        aiModel:
+            process.env.AI_MODEL || "qwen/qwen3-coder",
+        stopLossPercent: parseFloat(process.env.STOP_LOSS_PERCENT || "0.25"),
+        takeProfitPercent: parseFloat(process.env.TAKE_PROFIT_PERCENT || "1"),
+        protectiveOrders: process.env.PROTECTIVE_ORDERS === "true",
+        decisionLogFile: process.env.AI_DECISION_LOG,
     };
 }
 
-/**
- * Calculate ATR (Average True Range)
- */
-function calculateATR(candles: CandleData[], period: number = 14): number {
-    if (candles.length < period + 1) return 0;
-
-    const trueRanges = [];
-    for (let i = 1; i < candles.length; i++) {
-        const high = candles[i].high;
-        const low = candles[i].low;
-        const prevClose = candles[i - 1].close;
-
-        const tr = Math.max(
-            high - low,
-            Math.abs(high - prevClose),
-            Math.abs(low - prevClose)
-        );
-        trueRanges.push(tr);
-    }
-
-    return calculateSMA(trueRanges, period);
-}
+const botConfig = aiSpotConfigFromEnv();
 
 /**
- * Calculate all technical indicators
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
  */
-function calculateIndicators(candles: CandleData[]): TechnicalIndicators {
-    const closes = candles.map((c) => c.close);
-
-    return {
-        sma20: calculateSMA(closes, 20),
-        sma50: calculateSMA(closes, 50),
-        ema12: calculateEMA(closes, 12),
-        ema26: calculateEMA(closes, 26),
-        rsi14: calculateRSI(closes, 14),
-        macd: calculateMACD(closes),
-        bollinger: calculateBollingerBands(closes, 20, 2),
-        atr14: calculateATR(candles, 14),
-        momentum: closes[closes.length - 1] - closes[closes.length - 10],
-    };
-}
+const AI_BOT_TAG = "ai";
 
 // ============================================================================
 // DATA FETCHING
@@ -504,7 +335,9 @@ Based on this data, provide your analysis in the following JSON format ONLY (no
 {
   "action": "BUY" | "SELL" | "HOLD",
   "confidence": 0-100,
-  "reasoning": "Brief explanation of your decision"
+  "reasoning": "Brief explanation of your decision",
+  "stopLoss": optional stop-loss price for a BUY,
+  "takeProfit": optional take-profit price for a BUY
 }
 
 Consider:
@@ -573,10 +406,77 @@ Respond with ONLY the JSON object, nothing else.`;
     }
 }
 
+/**
+ * Append an AI decision to the decision log (NDJSON) so it can be replayed by the backtester
+ */
+function recordDecision(
+    filePath: string,
+    marketData: MarketData,
+    decision: AIResponse
+): void {
+    const lastCandle = marketData.candles[marketData.candles.length - 1];
+    const record = {
+        timestamp: lastCandle?.timestamp ?? Date.now(),
+        price: marketData.currentPrice,
+        ...decision,
+    };
+
+    try {
+        fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+        fs.appendFileSync(filePath, JSON.stringify(record) + "\n");
+    } catch (error: any) {
+        console.error(chalk.red(`❌ Failed to record AI decision: ${error.message}`));
+    }
+}
+
 // ============================================================================
 // TRADING EXECUTION
 // ============================================================================
 
+/**
+ * Protect a filled BUY with an OCO sell: the AI's stopLoss/takeProfit prices when they make
+ * sense for the fill, otherwise stopLossPercent/takeProfitPercent around the fill price
+ */
+async function placeProtectiveOrders(
+    exchange: ccxt.Exchange,
+    stops: StopOrderManager,
+    config: TradingConfig,
+    decision: AIResponse,
+    order: { filled?: number; average?: number; price?: number },
+    fallbackPrice: number
+): Promise<void> {
+    const [baseSymbol] = config.symbol.split("/");
+    const fillPrice = order.average || order.price || fallbackPrice;
+
+    // Fees charged in base leave less than order.filled to protect
+    const balance = await account.getCurrencyBalance(exchange, baseSymbol);
+    const amount = Math.min(order.filled || 0, balance.free);
+    if (!(amount > 0)) {
+        console.log(chalk.yellow(`⚠️  BUY not filled yet - no stop-loss/take-profit placed`));
+        return;
+    }
+
+    const stopPrice =
+        decision.stopLoss && decision.stopLoss > 0 && decision.stopLoss < fillPrice
+            ? decision.stopLoss
+            : fillPrice * (1 - config.stopLossPercent / 100);
+    const takeProfitPrice =
+        decision.takeProfit && decision.takeProfit > fillPrice
+            ? decision.takeProfit
+            : fillPrice * (1 + config.takeProfitPercent / 100);
+
+    try {
+        const oco = await stops.createOCO(config.symbol, "sell", amount, takeProfitPrice, stopPrice);
+        console.log(chalk.green(`🛡️  Protective order placed: ${formatStop(oco)}`));
+    } catch (error) {
+        console.error(
+            chalk.red(
+                `❌ Protective order failed: ${error instanceof Error ? error.message : String(error)}`
+            )
+        );
+    }
+}
+
 /**
  * Execute AI trading decision
  */
@@ -584,7 +484,8 @@ async function executeDecision(
     exchange: ccxt.Exchange,
     config: TradingConfig,
     marketData: MarketData,
-    decision: AIResponse
+    decision: AIResponse,
+    stops?: StopOrderManager
 ): Promise<void> {
     if (decision.action === "HOLD") {
         console.log(chalk.yellow(`⏸  AI recommends HOLD - no action taken`));
@@ -643,10 +544,11 @@ async function executeDecision(
             return;
         }
 
-        const minCost = market?.limits?.cost?.min || 1;
-        const minAmount = market?.limits?.amount?.min || 0;
-        const amountPrecision = market?.precision?.amount || 8;
-        const pricePrecision = market?.precision?.price || 8;
+        const rules = new MarketRules(market, exchange.precisionMode);
+        const minCost = rules.limits.cost.min ?? 0;
+        const minAmount = rules.limits.amount.min ?? 0;
+        const amountPrecision = market?.precision?.amount;
+        const pricePrecision = market?.precision?.price;
 
         console.log(chalk.yellow(`\n   📋 Market Constraints:`));
         console.log(chalk.white(`   Found Market: ${market.symbol} (ID: ${market.id})`));
@@ -663,36 +565,22 @@ async function executeDecision(
         console.log(chalk.white(`   Spot: ${market?.spot}`));
 
         // Use best ask price for limit order (will execute immediately)
-        let buyPrice = marketData.orderBook.asks[0]?.[0] || marketData.currentPrice;
-        let amount = config.tradeAmount / buyPrice;
-
-        // Apply precision using the EXACT same logic as mm-both-side.ts
-        const amountDecimals = amountPrecision < 1 ? -Math.log10(amountPrecision) : amountPrecision;
-        const priceDecimals = pricePrecision < 1 ? -Math.log10(pricePrecision) : pricePrecision;
-        const amountTickSize = amountPrecision < 1 ? amountPrecision : Math.pow(10, -amountPrecision);
-        const priceTickSize = pricePrecision < 1 ? pricePrecision : Math.pow(10, -pricePrecision);
-
-        // Round to exchange precision using tick size
-        buyPrice = Math.round(buyPrice / priceTickSize) * priceTickSize;
-        buyPrice = parseFloat(buyPrice.toFixed(priceDecimals));
-
-        amount = Math.round(amount / amountTickSize) * amountTickSize;
-        amount = parseFloat(amount.toFixed(amountDecimals));
+        const check = rules.normalizeQuote(
+            "buy",
+            marketData.orderBook.asks[0]?.[0] || marketData.currentPrice,
+            config.tradeAmount
+        );
+        const { price: buyPrice, amount, cost } = check.order;
 
         console.log(chalk.cyan(`\n   🔢 Precision Calculation:`));
-        console.log(chalk.white(`   Amount Decimals: ${amountDecimals}, Tick Size: ${amountTickSize}`));
-        console.log(chalk.white(`   Price Decimals: ${priceDecimals}, Tick Size: ${priceTickSize}`));
+        console.log(chalk.white(`   Amount Decimals: ${rules.amountDecimals}, Tick Size: ${rules.amountStep}`));
+        console.log(chalk.white(`   Price Decimals: ${rules.priceDecimals}, Tick Size: ${rules.priceStep}`));
         console.log(chalk.white(`   Final Amount: ${amount}`));
         console.log(chalk.white(`   Final Price: ${buyPrice}`));
 
-        // Check minimum constraints
-        const cost = amount * buyPrice;
-        if (cost < minCost) {
-            console.log(chalk.red(`❌ Order cost $${cost.toFixed(2)} below minimum $${minCost}`));
-            return;
-        }
-        if (amount < minAmount) {
-            console.log(chalk.red(`❌ Order amount ${amount} ${baseSymbol} below minimum ${minAmount}`));
+        // Check exchange limits
+        if (!check.ok) {
+            console.log(chalk.red(`❌ Order rejected: ${formatRejections(check.rejections)}`));
             return;
         }
 
@@ -719,7 +607,7 @@ async function executeDecision(
             console.log(chalk.white(`   Amount: ${amount} (type: ${typeof amount})`));
             console.log(chalk.white(`   Price: ${buyPrice} (type: ${typeof buyPrice})\n`));
 
-            // Place limit order at best ask price (no params, like mm-both-side.ts)
+            // Place limit order at best ask price (no params besides the clientOrderId tag, like mm-both-side.ts)
             console.log(chalk.yellow(`   📦 Order: ${amount} ${baseSymbol} @ $${buyPrice}\n`));
 
             const order = await trading.createLimitOrder(
@@ -727,7 +615,9 @@ async function executeDecision(
                 config.symbol,
                 "buy",
                 amount,
-                buyPrice
+                buyPrice,
+                {},
+                trading.orderTag(AI_BOT_TAG, "buy")
             );
 
             console.log(chalk.green(`✅ BUY Order executed!`));
@@ -743,6 +633,10 @@ async function executeDecision(
                 )
             );
             console.log(chalk.white(`   Reasoning: ${decision.reasoning}\n`));
+
+            if (stops) {
+                await placeProtectiveOrders(exchange, stops, config, decision, order, buyPrice);
+            }
         } catch (error: any) {
             console.error(chalk.red(`❌ BUY order failed: ${error.message}`));
             console.error(chalk.yellow(`\n   Debug Info:`));
@@ -753,6 +647,14 @@ async function executeDecision(
             console.error(chalk.white(`   Cost: $${(amount * buyPrice).toFixed(2)}`));
         }
     } else if (decision.action === "SELL") {
+        // Pull the protective orders first - their take-profit holds the base we are about to sell
+        if (stops) {
+            const cancelled = await stops.cancelAll(config.symbol);
+            if (cancelled.length > 0) {
+                console.log(chalk.yellow(`🛡️  Cancelled ${cancelled.length} protective order(s) before SELL`));
+            }
+        }
+
         // Fetch fresh balance to ensure we have the latest data
         console.log(chalk.cyan(`\n💰 Fetching current ${baseSymbol} balance...`));
         const currentBalance = await account.getCurrencyBalance(exchange, baseSymbol);
@@ -783,34 +685,28 @@ async function executeDecision(
             return;
         }
 
-        const amountPrecision = market?.precision?.amount || 8;
-        const pricePrecision = market?.precision?.price || 8;
-
-        // Use best bid price for limit order (will execute immediately)
-        let sellPrice = marketData.orderBook.bids[0]?.[0] || marketData.currentPrice;
-
-        // Use current balance instead of old balance
-        let amount = currentBaseAmount;
+        const rules = new MarketRules(market, exchange.precisionMode);
 
-        // Apply precision using the EXACT same logic as mm-both-side.ts
-        const amountDecimals = amountPrecision < 1 ? -Math.log10(amountPrecision) : amountPrecision;
-        const priceDecimals = pricePrecision < 1 ? -Math.log10(pricePrecision) : pricePrecision;
-        const amountTickSize = amountPrecision < 1 ? amountPrecision : Math.pow(10, -amountPrecision);
-        const priceTickSize = pricePrecision < 1 ? pricePrecision : Math.pow(10, -pricePrecision);
-
-        // Round to exchange precision using tick size
-        sellPrice = Math.round(sellPrice / priceTickSize) * priceTickSize;
-        sellPrice = parseFloat(sellPrice.toFixed(priceDecimals));
-
-        amount = Math.round(amount / amountTickSize) * amountTickSize;
-        amount = parseFloat(amount.toFixed(amountDecimals));
+        // Use best bid price for limit order (will execute immediately), selling the current balance
+        const check = rules.normalize(
+            "sell",
+            marketData.orderBook.bids[0]?.[0] || marketData.currentPrice,
+            currentBaseAmount
+        );
+        const { price: sellPrice, amount } = check.order;
 
         console.log(chalk.cyan(`\n   🔢 Precision Calculation:`));
-        console.log(chalk.white(`   Amount Decimals: ${amountDecimals}, Tick Size: ${amountTickSize}`));
-        console.log(chalk.white(`   Price Decimals: ${priceDecimals}, Tick Size: ${priceTickSize}`));
+        console.log(chalk.white(`   Amount Decimals: ${rules.amountDecimals}, Tick Size: ${rules.amountStep}`));
+        console.log(chalk.white(`   Price Decimals: ${rules.priceDecimals}, Tick Size: ${rules.priceStep}`));
         console.log(chalk.white(`   Final Amount: ${amount}`));
         console.log(chalk.white(`   Final Price: ${sellPrice}`));
 
+        // Check exchange limits
+        if (!check.ok) {
+            console.log(chalk.red(`❌ Order rejected: ${formatRejections(check.rejections)}`));
+            return;
+        }
+
         console.log(
             chalk.cyan(
                 `   Limit Order: ${amount.toFixed(8)} ${baseSymbol} @ $${sellPrice.toFixed(8)} (Best Bid)`
@@ -825,7 +721,9 @@ async function executeDecision(
                 config.symbol,
                 "sell",
                 amount,
-                sellPrice
+                sellPrice,
+                {},
+                trading.orderTag(AI_BOT_TAG, "sell")
             );
 
             console.log(chalk.green(`✅ SELL Order executed!`));
@@ -869,24 +767,10 @@ export async function startBot(
         process.exit(1);
     }
 
-    // Initialize exchange - use proper defaults with custom credentials
-    let exchange: ccxt.Exchange;
-
-    if (config.exchangeApiKey) {
-        // Custom credentials: create exchange with defaultConfig settings
-        const ExchangeClass = (ccxt as any)[config.exchange] as typeof ccxt.Exchange;
-        exchange = new ExchangeClass({
-            apiKey: config.exchangeApiKey,
-            secret: config.exchangeSecret,
-            password: config.exchangePassword,
-            enableRateLimit: true,
-            timeout: 30000,
-            recvWindow: 10000,
-        });
-        console.log(chalk.yellow(`🔑 Using custom API credentials (XT_API_KEY_2)\n`));
-    } else {
-        // Use standard initExchange for default credentials
-        exchange = initExchange(config.exchange);
+    // Credentials come from the exchange's key set in config.ts (KEY_SET picks e.g. XT_API_KEY_2)
+    const exchange = initExchange(config.exchange);
+    if (process.env.KEY_SET) {
+        console.log(chalk.yellow(`🔑 Using API key set "${process.env.KEY_SET}"\n`));
     }
 
     // Load markets immediately after initialization
@@ -909,6 +793,7 @@ export async function startBot(
     console.log(`Trade Amount:   $${config.tradeAmount}`);
     console.log(`Check Interval: ${config.checkIntervalSeconds}s`);
     console.log(`AI Model:       ${config.aiModel}`);
+    console.log(`Protective:     ${config.protectiveOrders ? `SL ${config.stopLossPercent}% / TP ${config.takeProfitPercent}%` : "off"}`);
     console.log(chalk.cyan(`${"=".repeat(60)}\n`));
 
     // Check initial balances
@@ -931,6 +816,23 @@ export async function startBot(
         console.error(chalk.red(`❌ Failed to fetch balances: ${error.message}\n`));
     }
 
+    // Stop-loss/take-profit orders (emulated ones are watched while the bot runs)
+    const stops = config.protectiveOrders
+        ? new StopOrderManager(exchange, { tag: trading.orderTag(AI_BOT_TAG, "stop") })
+        : undefined;
+    if (stops) {
+        stops.on("triggered", (stop) =>
+            console.log(chalk.red(`\n🛑 Stop-loss triggered @ ${stop.triggerPrice}: ${formatStop(stop)}`))
+        );
+        stops.on("takeProfit", (stop) =>
+            console.log(chalk.green(`\n🎯 Take-profit filled: ${formatStop(stop)}`))
+        );
+        stops.on("failed", (stop, error) =>
+            console.error(chalk.red(`\n❌ Stop-loss order failed (${formatStop(stop)}): ${error.message}`))
+        );
+        stops.start();
+    }
+
     // Main loop
     let cycleCount = 0;
 
@@ -951,8 +853,12 @@ export async function startBot(
 
             console.log("AI decision received:", decision);
 
+            if (config.decisionLogFile) {
+                recordDecision(config.decisionLogFile, marketData, decision);
+            }
+
             // 3. Execute decision
-            await executeDecision(exchange, config, marketData, decision);
+            await executeDecision(exchange, config, marketData, decision, stops);
 
             console.log(
                 chalk.cyan(
@@ -975,6 +881,11 @@ export async function startBot(
     process.on("SIGINT", async () => {
         console.log(chalk.yellow(`\n\n🛑 Shutting down AI Trading Bot...`));
         clearInterval(interval);
+        const unwatched = stops?.shutdown() ?? [];
+        if (unwatched.length > 0) {
+            console.log(chalk.yellow(`⚠️  ${unwatched.length} emulated stop(s) are no longer watched:`));
+            unwatched.forEach((stop) => console.log(chalk.yellow(`   ${formatStop(stop)}`)));
+        }
         console.log(chalk.green(`✅ Bot stopped\n`));
         process.exit(0);
     });
@@ -983,9 +894,9 @@ export async function startBot(
 /**
  * Run the bot
  */
-export async function runBot() {
+export async function runBot(config: TradingConfig = botConfig) {
     try {
-        await startBot(botConfig);
+        await startBot(config);
     } catch (error) {
         console.error(chalk.red("❌ Bot failed to start:"), error);
         process.exit(1);
@@ -5,30 +5,22 @@
 
 import * as ccxt from "ccxt";
 import chalk from "chalk";
-import dotenv from "dotenv";
-import path from "path";
-
-// Load environment variables - try multiple paths
-const envPaths = [
-    path.resolve(__dirname, '../../.env'),
-    path.resolve(process.cwd(), '.env'),
-    path.resolve(process.cwd(), '../../.env'),
-];
-
-for (const envPath of envPaths) {
-    const result = dotenv.config({ path: envPath });
-    if (!result.error) {
-        console.log(chalk.gray(`Loaded .env from: ${envPath}\n`));
-        break;
-    }
-}
+import { getExchangeConfig } from "../config";
+import { initExchange } from "../exchange";
+import { attachRiskManager } from "../risk";
+import * as trading from "../trading";
+import {
+    calculateIndicators,
+    type CandleData,
+    type TechnicalIndicators,
+} from "./indicators";
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-interface TradingConfig {
-    exchange: "binance";
+export interface TradingConfig {
+    exchange: "binance" | "mock"; // EXCHANGE=mock for offline runs
     symbol: string;
     timeframe: string;
     candleCount: number;
@@ -42,15 +34,6 @@ interface TradingConfig {
     takeProfitPercent: number;
 }
 
-interface CandleData {
-    timestamp: number;
-    open: number;
-    high: number;
-    low: number;
-    close: number;
-    volume: number;
-}
-
 interface OrderBookData {
     bids: Array<[number, number]>;
     asks: Array<[number, number]>;
@@ -58,18 +41,6 @@ interface OrderBookData {
     spreadPercent: number;
 }
 
-interface TechnicalIndicators {
-    sma20: number;
-    sma50: number;
-    ema12: number;
-    ema26: number;
-    rsi14: number;
-    macd: { macd: number; signal: number; histogram: number };
-    bollinger: { upper: number; middle: number; lower: number };
-    atr14: number;
-    momentum: number;
-}
-
 interface Position {
     symbol: string;
     side: "long" | "short" | "none";
@@ -100,123 +71,32 @@ interface AIResponse {
 // CONFIGURATION
 // ============================================================================
 
-const botConfig: TradingConfig = {
-    exchange: "binance",
-    symbol: process.env.SYMBOL || "BNB/USDT:USDT",
-    timeframe: process.env.TIMEFRAME || "1m",
-    candleCount: parseInt(process.env.CANDLE_COUNT || "100"),
-    orderBookDepth: parseInt(process.env.ORDER_BOOK_DEPTH || "10"),
-    positionSize: parseFloat(process.env.POSITION_SIZE || "10"),
-    leverage: parseInt(process.env.LEVERAGE || "10"),
-    checkIntervalSeconds: parseFloat(process.env.CHECK_INTERVAL_SECONDS || "60"),
-    openRouterApiKey: process.env.OPENROUTER_API_KEY || "",
-    aiModel: process.env.AI_MODEL || "qwen/qwen3-coder",
-    stopLossPercent: parseFloat(process.env.STOP_LOSS_PERCENT || "3"),
-    takeProfitPercent: parseFloat(process.env.TAKE_PROFIT_PERCENT || "9"),
-};
-
-// ============================================================================
-// TECHNICAL INDICATORS (Same as spot bot)
-// ============================================================================
-
-function calculateSMA(data: number[], period: number): number {
-    if (data.length < period) return 0;
-    const slice = data.slice(-period);
-    return slice.reduce((sum, val) => sum + val, 0) / period;
-}
-
-function calculateEMA(data: number[], period: number): number {
-    if (data.length < period) return 0;
-    const multiplier = 2 / (period + 1);
-    let ema = calculateSMA(data.slice(0, period), period);
-    for (let i = period; i < data.length; i++) {
-        ema = (data[i] - ema) * multiplier + ema;
-    }
-    return ema;
-}
-
-function calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
-    const changes = [];
-    for (let i = 1; i < prices.length; i++) {
-        changes.push(prices[i] - prices[i - 1]);
-    }
-    let gains = 0, losses = 0;
-    for (let i = 0; i < period; i++) {
-        if (changes[i] > 0) gains += changes[i];
-        else losses -= changes[i];
-    }
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-    for (let i = period; i < changes.length; i++) {
-        if (changes[i] > 0) {
-            avgGain = (avgGain * (period - 1) + changes[i]) / period;
-            avgLoss = (avgLoss * (period - 1)) / period;
-        } else {
-            avgGain = (avgGain * (period - 1)) / period;
-            avgLoss = (avgLoss * (period - 1) - changes[i]) / period;
-        }
-    }
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - 100 / (1 + rs);
-}
-
-function calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-    const ema12 = calculateEMA(prices, 12);
-    const ema26 = calculateEMA(prices, 26);
-    const macd = ema12 - ema26;
-    const macdValues = [];
-    for (let i = 26; i <= prices.length; i++) {
-        const slice = prices.slice(0, i);
-        const e12 = calculateEMA(slice, 12);
-        const e26 = calculateEMA(slice, 26);
-        macdValues.push(e12 - e26);
-    }
-    const signal = calculateEMA(macdValues, 9);
-    const histogram = macd - signal;
-    return { macd, signal, histogram };
-}
-
-function calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2): { upper: number; middle: number; lower: number } {
-    const sma = calculateSMA(prices, period);
-    const slice = prices.slice(-period);
-    const variance = slice.reduce((sum, val) => sum + Math.pow(val - sma, 2), 0) / period;
-    const standardDeviation = Math.sqrt(variance);
+/**
+ * Settings from environment variables (SYMBOL, POSITION_SIZE, LEVERAGE, AI_MODEL, STOP_LOSS_PERCENT, ...)
+ */
+export function aiFuturesConfigFromEnv(): TradingConfig {
     return {
-        upper: sma + standardDeviation * stdDev,
-        middle: sma,
-        lower: sma - standardDeviation * stdDev,
+        exchange: process.env.EXCHANGE === "mock" ? "mock" : "binance",
+        symbol: process.env.SYMBOL || "BNB/USDT:USDT",
+        timeframe: process.env.TIMEFRAME || "1m",
+        candleCount: parseInt(process.env.CANDLE_COUNT || "100"),
+        orderBookDepth: parseInt(process.env.ORDER_BOOK_DEPTH || "10"),
+        positionSize: parseFloat(process.env.POSITION_SIZE || "10"),
+        leverage: parseInt(process.env.LEVERAGE || "10"),
+        checkIntervalSeconds: parseFloat(process.env.CHECK_INTERVAL_SECONDS || "60"),
+        openRouterApiKey: process.env.OPENROUTER_API_KEY || "",
+        aiModel: process.env.AI_MODEL || "qwen/qwen3-coder",
+        stopLossPercent: parseFloat(process.env.STOP_LOSS_PERCENT || "3"),
+        takeProfitPercent: parseFloat(process.env.TAKE_PROFIT_PERCENT || "9"),
     };
 }
 
-function calculateATR(candles: CandleData[], period: number = 14): number {
-    if (candles.length < period + 1) return 0;
-    const trueRanges = [];
-    for (let i = 1; i < candles.length; i++) {
-        const high = candles[i].high;
-        const low = candles[i].low;
-        const prevClose = candles[i - 1].close;
-        const tr = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
-        trueRanges.push(tr);
-    }
-    return calculateSMA(trueRanges, period);
-}
+const botConfig = aiFuturesConfigFromEnv();
 
-function calculateIndicators(candles: CandleData[]): TechnicalIndicators {
-    const closes = candles.map((c) => c.close);
-    return {
-        sma20: calculateSMA(closes, 20),
-        sma50: calculateSMA(closes, 50),
-        ema12: calculateEMA(closes, 12),
-        ema26: calculateEMA(closes, 26),
-        rsi14: calculateRSI(closes, 14),
-        macd: calculateMACD(closes),
-        bollinger: calculateBollingerBands(closes, 20, 2),
-        atr14: calculateATR(candles, 14),
-        momentum: closes[closes.length - 1] - closes[closes.length - 10],
-    };
-}
+/**
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
+ */
+const FUTURES_BOT_TAG = "aifut";
 
 // ============================================================================
 // DATA FETCHING
@@ -444,7 +324,14 @@ async function executeDecision(exchange: ccxt.Exchange, config: TradingConfig, m
         console.log(chalk.white(`   Size: ${amount} contracts (~$${(amount * marketData.currentPrice / config.leverage).toFixed(2)})`));
 
         // Open position
-        const order = await exchange.createMarketOrder(config.symbol, side, amount);
+        const order = await trading.createMarketOrder(
+            exchange,
+            config.symbol,
+            side,
+            amount,
+            {},
+            trading.orderTag(FUTURES_BOT_TAG, isLong ? "long" : "short")
+        );
         const entryPrice = order.average || marketData.currentPrice;
 
         // Calculate TP/SL based on actual entry
@@ -526,7 +413,14 @@ async function monitorPositionUntilClosed(exchange: ccxt.Exchange, config: Tradi
                 const amount = parseFloat(position.contracts || position.info?.positionAmt || 0);
 
                 try {
-                    await exchange.createMarketOrder(config.symbol, closeSide, Math.abs(amount), { reduceOnly: true });
+                    await trading.createMarketOrder(
+                        exchange,
+                        config.symbol,
+                        closeSide,
+                        Math.abs(amount),
+                        { reduceOnly: true },
+                        trading.orderTag(FUTURES_BOT_TAG, "close")
+                    );
                     console.log(chalk.green(`✅ Position closed at profit!`));
                 } catch (closeError: any) {
                     console.error(chalk.red(`   ⚠️  Failed to close: ${closeError.message}`));
@@ -543,7 +437,14 @@ async function monitorPositionUntilClosed(exchange: ccxt.Exchange, config: Tradi
                 const amount = parseFloat(position.contracts || position.info?.positionAmt || 0);
 
                 try {
-                    await exchange.createMarketOrder(config.symbol, closeSide, Math.abs(amount), { reduceOnly: true });
+                    await trading.createMarketOrder(
+                        exchange,
+                        config.symbol,
+                        closeSide,
+                        Math.abs(amount),
+                        { reduceOnly: true },
+                        trading.orderTag(FUTURES_BOT_TAG, "close")
+                    );
                     console.log(chalk.red(`✅ Position closed at loss!`));
                 } catch (closeError: any) {
                     console.error(chalk.red(`   ⚠️  Failed to close: ${closeError.message}`));
@@ -571,12 +472,20 @@ export async function startBot(config: TradingConfig = botConfig): Promise<void>
         process.exit(1);
     }
 
-    const exchange = new ccxt.binance({
-        apiKey: process.env.BINANCE_API_KEY,
-        secret: process.env.BINANCE_SECRET,
-        enableRateLimit: true,
-        options: { defaultType: "future" },
-    });
+    // EXCHANGE=mock runs the loop offline against the in-memory spot exchange; otherwise the
+    // binance key set from config.ts (KEY_SET) is used on the futures API
+    const credentials = config.exchange === "mock" ? undefined : getExchangeConfig("binance");
+    const exchange = config.exchange === "mock"
+        ? initExchange("mock")
+        : new ccxt.binance({
+            apiKey: credentials.apiKey,
+            secret: credentials.secret,
+            enableRateLimit: true,
+            options: { defaultType: "future" },
+        });
+    if (config.exchange !== "mock") {
+        attachRiskManager(exchange);
+    }
 
     await exchange.loadMarkets();
     console.log(chalk.green(`✅ Connected to Binance Futures\n`));
@@ -637,9 +546,9 @@ export async function startBot(config: TradingConfig = botConfig): Promise<void>
     await mainLoop();
 }
 
-export async function runBot() {
+export async function runBot(config: TradingConfig = botConfig) {
     try {
-        await startBot(botConfig);
+        await startBot(config);
     } catch (error) {
         console.error(chalk.red("❌ Bot failed to start:"), error);
         process.exit(1);
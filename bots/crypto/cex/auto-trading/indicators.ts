@@ -0,0 +1,196 @@
+/**
+ * Technical Indicators
+ * Shared indicator pipeline for the AI trading bots and the OHLCV backtester
+ */
+
+export interface CandleData {
+    timestamp: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+export interface TechnicalIndicators {
+    sma20: number;
+    sma50: number;
+    ema12: number;
+    ema26: number;
+    rsi14: number;
+    macd: {
+        macd: number;
+        signal: number;
+        histogram: number;
+    };
+    bollinger: {
+        upper: number;
+        middle: number;
+        lower: number;
+    };
+    atr14: number;
+    momentum: number;
+}
+
+/**
+ * Calculate Simple Moving Average
+ */
+export function calculateSMA(data: number[], period: number): number {
+    if (data.length < period) return 0;
+    const slice = data.slice(-period);
+    return slice.reduce((sum, val) => sum + val, 0) / period;
+}
+
+/**
+ * Calculate Exponential Moving Average
+ */
+export function calculateEMA(data: number[], period: number): number {
+    if (data.length < period) return 0;
+
+    const multiplier = 2 / (period + 1);
+    let ema = calculateSMA(data.slice(0, period), period);
+
+    for (let i = period; i < data.length; i++) {
+        ema = (data[i] - ema) * multiplier + ema;
+    }
+
+    return ema;
+}
+
+/**
+ * Calculate RSI (Relative Strength Index)
+ */
+export function calculateRSI(prices: number[], period: number = 14): number {
+    if (prices.length < period + 1) return 50;
+
+    const changes = [];
+    for (let i = 1; i < prices.length; i++) {
+        changes.push(prices[i] - prices[i - 1]);
+    }
+
+    let gains = 0;
+    let losses = 0;
+
+    for (let i = 0; i < period; i++) {
+        if (changes[i] > 0) gains += changes[i];
+        else losses -= changes[i];
+    }
+
+    let avgGain = gains / period;
+    let avgLoss = losses / period;
+
+    for (let i = period; i < changes.length; i++) {
+        if (changes[i] > 0) {
+            avgGain = (avgGain * (period - 1) + changes[i]) / period;
+            avgLoss = (avgLoss * (period - 1)) / period;
+        } else {
+            avgGain = (avgGain * (period - 1)) / period;
+            avgLoss = (avgLoss * (period - 1) - changes[i]) / period;
+        }
+    }
+
+    if (avgLoss === 0) return 100;
+    const rs = avgGain / avgLoss;
+    return 100 - 100 / (1 + rs);
+}
+
+/**
+ * Calculate MACD
+ */
+export function calculateMACD(prices: number[]): {
+    macd: number;
+    signal: number;
+    histogram: number;
+} {
+    const ema12 = calculateEMA(prices, 12);
+    const ema26 = calculateEMA(prices, 26);
+    const macd = ema12 - ema26;
+
+    // Calculate signal line (9-period EMA of MACD)
+    const macdValues = [];
+    for (let i = 26; i <= prices.length; i++) {
+        const slice = prices.slice(0, i);
+        const e12 = calculateEMA(slice, 12);
+        const e26 = calculateEMA(slice, 26);
+        macdValues.push(e12 - e26);
+    }
+
+    const signal = calculateEMA(macdValues, 9);
+    const histogram = macd - signal;
+
+    return { macd, signal, histogram };
+}
+
+/**
+ * Calculate Bollinger Bands
+ */
+export function calculateBollingerBands(
+    prices: number[],
+    period: number = 20,
+    stdDev: number = 2
+): { upper: number; middle: number; lower: number } {
+    const sma = calculateSMA(prices, period);
+    const slice = prices.slice(-period);
+
+    const variance =
+        slice.reduce((sum, val) => sum + Math.pow(val - sma, 2), 0) / period;
+    const standardDeviation = Math.sqrt(variance);
+
+    return {
+        upper: sma + standardDeviation * stdDev,
+        middle: sma,
+        lower: sma - standardDeviation * stdDev,
+    };
+}
+
+/**
+ * Calculate ATR (Average True Range)
+ */
+export function calculateATR(candles: CandleData[], period: number = 14): number {
+    if (candles.length < period + 1) return 0;
+
+    const trueRanges = [];
+    for (let i = 1; i < candles.length; i++) {
+        const high = candles[i].high;
+        const low = candles[i].low;
+        const prevClose = candles[i - 1].close;
+
+        const tr = Math.max(
+            high - low,
+            Math.abs(high - prevClose),
+            Math.abs(low - prevClose)
+        );
+        trueRanges.push(tr);
+    }
+
+    return calculateSMA(trueRanges, period);
+}
+
+/**
+ * Calculate all technical indicators
+ */
+export function calculateIndicators(candles: CandleData[]): TechnicalIndicators {
+    const closes = candles.map((c) => c.close);
+
+    return {
+        sma20: calculateSMA(closes, 20),
+        sma50: calculateSMA(closes, 50),
+        ema12: calculateEMA(closes, 12),
+        ema26: calculateEMA(closes, 26),
+        rsi14: calculateRSI(closes, 14),
+        macd: calculateMACD(closes),
+        bollinger: calculateBollingerBands(closes, 20, 2),
+        atr14: calculateATR(candles, 14),
+        momentum: closes[closes.length - 1] - closes[closes.length - 10],
+    };
+}
+
+export default {
+    calculateSMA,
+    calculateEMA,
+    calculateRSI,
+    calculateMACD,
+    calculateBollingerBands,
+    calculateATR,
+    calculateIndicators,
+};
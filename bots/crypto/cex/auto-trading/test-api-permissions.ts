@@ -1,11 +1,8 @@
-import * as ccxt from "ccxt";
+import { initExchange } from "../exchange";
 
 async function testPermissions() {
-    const exchange = new ccxt.xt({
-        apiKey: process.env.XT_API_KEY_2,
-        secret: process.env.XT_SECRET_KEY_2,
-        enableRateLimit: true,
-    });
+    // Key set "2" of xt: XT_API_KEY_2 / XT_SECRET_KEY_2
+    const exchange = initExchange("xt", false, false, "2");
 
     console.log("Testing XT API permissions...\n");
 
@@ -1,4 +1,3 @@
-import * as ccxt from "ccxt";
 import { initExchange } from "../exchange";
 
 async function testOrder() {
@@ -11,13 +10,7 @@ async function testOrder() {
     
     // Test with custom credentials
     console.log("\nTesting with custom XT credentials...");
-    const exchange2 = new ccxt.xt({
-        apiKey: process.env.XT_API_KEY_2,
-        secret: process.env.XT_SECRET_KEY_2,
-        enableRateLimit: true,
-        timeout: 30000,
-        recvWindow: 10000,
-    });
+    const exchange2 = initExchange("xt", false, false, "2"); // XT_API_KEY_2 / XT_SECRET_KEY_2
     await exchange2.loadMarkets();
     const market2 = exchange2.markets["BNB/USDT"];
     console.log("Custom API - Market found:", market2?.symbol, "ID:", market2?.id);
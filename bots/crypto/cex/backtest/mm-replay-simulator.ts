@@ -0,0 +1,714 @@
+/**
+ * Order-Book Replay Simulator
+ * Replays recorded L2 snapshots and trade prints through the market-making monitoring loops
+ * (mono-side, both-side, spread) against a MockExchange. Resting orders fill by queue position:
+ * a trade print at our price only reaches us after the displayed size ahead of us is consumed.
+ * Reports inventory over time, realized spread capture, fees paid and cancel/replace cycles.
+ */
+
+import * as ccxt from "ccxt";
+import chalk from "chalk";
+import { readFileSync, statSync, writeFileSync } from "fs";
+import {
+    MockExchange,
+    defaultMockConfig,
+    type MockExchangeConfig,
+    type MockMarketConfig,
+    type MockOrder,
+    type MockOrderParams,
+    type MockTrade,
+} from "../mock-exchange";
+import * as monoSide from "../mm/mm-mono-side";
+import * as bothSide from "../mm/mm-both-side";
+import * as spread from "../mm/mm-spread";
+import { inventorySkewConfigFromEnv } from "../mm/inventory-skew";
+import { reconcileToleranceFromEnv, refreshModeFromEnv } from "../mm/ladder-reconciler";
+import { ladderConfigFromEnv } from "../mm/order-ladder";
+import { priceReferenceFromEnv, referencePriceOptionsFromEnv } from "../mm/reference-price";
+import { loadRecords, type GapRecord } from "../recorder/recording-store";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface BookSnapshotEvent {
+    type: "book";
+    timestamp: number;
+    bids: Array<[number, number]>; // [price, amount]
+    asks: Array<[number, number]>;
+}
+
+export interface TradePrintEvent {
+    type: "trade";
+    timestamp: number;
+    side: "buy" | "sell"; // Taker side
+    price: number;
+    amount: number;
+}
+
+/**
+ * A hole in the recorded data (recorder error, stall, restart). The simulator
+ * keeps the last book but counts the gap so results can be judged accordingly.
+ */
+export interface DataGapEvent {
+    type: "gap";
+    timestamp: number;
+    reason: GapRecord["reason"];
+}
+
+export type ReplayEvent = BookSnapshotEvent | TradePrintEvent | DataGapEvent;
+
+/**
+ * A strategy driven by the simulator - one call per monitoring cycle
+ */
+export interface ReplayStrategy {
+    name: string;
+    cycle(exchange: ccxt.Exchange, market: unknown): Promise<void>;
+}
+
+export interface ReplayConfig {
+    symbol: string;
+    monitorIntervalSeconds: number; // Simulated time between strategy cycles
+    balances: Record<string, number>;
+    market?: Partial<MockMarketConfig>; // Precision/limits/fee overrides for the replayed symbol
+    precisionMode?: MockExchangeConfig["precisionMode"];
+    verbose?: boolean; // Keep the strategy's console output
+}
+
+export interface ReplayFill extends MockTrade {
+    mid: number; // Mid price when the fill happened
+    edge: number; // Spread captured vs mid in quote (negative = paid)
+    feeQuote: number; // Fee converted to quote currency
+}
+
+export interface InventorySample {
+    timestamp: number;
+    base: number;
+    quote: number;
+    mid: number;
+    equity: number; // Quote + base marked at mid
+}
+
+export interface ReplayResult {
+    strategy: string;
+    symbol: string;
+    events: number;
+    gaps: number; // Data gaps inside the replayed range (excluding recorder start/stop)
+    cycles: number;
+    startTimestamp: number;
+    endTimestamp: number;
+    initialEquity: number;
+    finalEquity: number;
+    pnl: number;
+    fills: ReplayFill[];
+    buyVolume: number;
+    sellVolume: number;
+    spreadCapture: number; // Sum of fill edges vs mid (quote)
+    realizedSpread: number; // Matched volume x (avg sell - avg buy)
+    feesPaid: number; // Quote currency
+    ordersPlaced: number;
+    ordersCanceled: number;
+    cancelReplaceCycles: number;
+    openOrders: number;
+    inventory: InventorySample[];
+}
+
+// ============================================================================
+// EVENT LOADING
+// ============================================================================
+
+/**
+ * Normalize a raw record into a replay event. Book records carry bids/asks,
+ * trade records carry price/amount/side.
+ */
+export function toReplayEvent(record: Record<string, unknown>): ReplayEvent {
+    const timestamp = Number(record.timestamp);
+    if (isNaN(timestamp)) {
+        throw new Error(`Replay event without a timestamp: ${JSON.stringify(record)}`);
+    }
+
+    if (record.type === "gap") {
+        return { type: "gap", timestamp, reason: record.reason as GapRecord["reason"] };
+    }
+
+    if (record.type === "book" || (Array.isArray(record.bids) && Array.isArray(record.asks))) {
+        return {
+            type: "book",
+            timestamp,
+            bids: (record.bids as Array<[number, number]>).map(([p, a]) => [Number(p), Number(a)]),
+            asks: (record.asks as Array<[number, number]>).map(([p, a]) => [Number(p), Number(a)]),
+        };
+    }
+
+    if (record.type === "trade" || record.price !== undefined) {
+        const side = String(record.side).toLowerCase();
+        if (side !== "buy" && side !== "sell") {
+            throw new Error(`Trade event without a taker side: ${JSON.stringify(record)}`);
+        }
+        return {
+            type: "trade",
+            timestamp,
+            side,
+            price: Number(record.price),
+            amount: Number(record.amount),
+        };
+    }
+
+    throw new Error(`Unknown replay event: ${JSON.stringify(record)}`);
+}
+
+/**
+ * Load replay events from an NDJSON file (one book snapshot or trade print per line)
+ */
+export function loadReplayEvents(filePath: string): ReplayEvent[] {
+    return readFileSync(filePath, "utf8")
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== "")
+        .map((line) => toReplayEvent(JSON.parse(line)))
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Load replay events from a market-data recorder directory. Tickers and trades
+ * without a reported taker side are skipped - they can't be queued against.
+ */
+export function loadRecordedEvents(
+    dir: string,
+    exchange: string,
+    symbol: string,
+    from?: number,
+    to?: number
+): ReplayEvent[] {
+    const events: ReplayEvent[] = [];
+
+    for (const record of loadRecords({ dir, exchange, symbol, from, to, types: ["book", "trade", "gap"] })) {
+        if (record.type === "trade" && !record.side) continue;
+        events.push(toReplayEvent(record as unknown as Record<string, unknown>));
+    }
+
+    return events;
+}
+
+// ============================================================================
+// REPLAY EXCHANGE
+// ============================================================================
+
+/**
+ * MockExchange whose external liquidity comes from recorded snapshots.
+ * Tracks the displayed size ahead of each of our resting orders and fills them
+ * from trade prints in queue order instead of by immediate book crossing.
+ */
+export class ReplayExchange extends MockExchange {
+    mid = 0;
+    ordersPlaced = 0;
+    ordersCanceled = 0;
+
+    private replaySymbol: string;
+    private snapshot: BookSnapshotEvent = { type: "book", timestamp: 0, bids: [], asks: [] };
+    private queueAhead = new Map<string, number>();
+
+    constructor(config: MockExchangeConfig, symbol: string) {
+        super(config);
+        this.replaySymbol = symbol;
+    }
+
+    /**
+     * Like ccxt exchange classes, round to market precision before submitting
+     */
+    async createOrder(
+        symbol: string,
+        type: string,
+        side: string,
+        amount: number,
+        price?: number,
+        params: MockOrderParams = {}
+    ): Promise<MockOrder> {
+        const roundedAmount = parseFloat(this.amountToPrecision(symbol, amount));
+        const roundedPrice = price !== undefined ? parseFloat(this.priceToPrecision(symbol, price)) : undefined;
+        const order = await super.createOrder(symbol, type, side, roundedAmount, roundedPrice, params);
+
+        this.ordersPlaced++;
+        if (order.status === "open" && order.type === "limit") {
+            this.queueAhead.set(order.id, this.displayedSize(order.side, order.price));
+        }
+        return order;
+    }
+
+    async cancelOrder(id: string, symbol: string): Promise<MockOrder> {
+        const order = await super.cancelOrder(id, symbol);
+        this.queueAhead.delete(id);
+        this.ordersCanceled++;
+        return order;
+    }
+
+    async cancelAllOrders(symbol?: string): Promise<MockOrder[]> {
+        const cancelled = await super.cancelAllOrders(symbol);
+        for (const order of cancelled) {
+            this.queueAhead.delete(order.id);
+        }
+        this.ordersCanceled += cancelled.length;
+        return cancelled;
+    }
+
+    /**
+     * Apply a recorded snapshot: orders the new book trades through are filled at their price,
+     * queue estimates shrink to the displayed size left at each price, then the book is replaced
+     */
+    async applySnapshot(event: BookSnapshotEvent): Promise<void> {
+        const bestBid = event.bids[0]?.[0];
+        const bestAsk = event.asks[0]?.[0];
+        if (bestBid !== undefined && bestAsk !== undefined) {
+            this.mid = (bestBid + bestAsk) / 2;
+        }
+
+        for (const order of await this.fetchOpenOrders(this.replaySymbol)) {
+            const tradedThrough =
+                order.side === "buy"
+                    ? bestAsk !== undefined && bestAsk <= order.price
+                    : bestBid !== undefined && bestBid >= order.price;
+
+            if (tradedThrough) {
+                this.fillRestingOrder(order.id, order.remaining);
+                this.queueAhead.delete(order.id);
+                continue;
+            }
+
+            const ahead = this.queueAhead.get(order.id) ?? 0;
+            this.queueAhead.set(order.id, Math.min(ahead, this.levelSize(event, order.side, order.price)));
+        }
+
+        this.snapshot = event;
+        this.setExternalBook(this.replaySymbol, event.bids, event.asks);
+    }
+
+    /**
+     * Apply a recorded trade print: orders priced better than the print fill completely,
+     * orders at the print price fill with whatever volume is left after the queue ahead
+     */
+    async applyTrade(event: TradePrintEvent): Promise<void> {
+        this.recordExternalTrade(this.replaySymbol, event.side, event.price, event.amount);
+
+        // A taker sell hits bids, a taker buy lifts asks
+        const restingSide = event.side === "sell" ? "buy" : "sell";
+        const orders = (await this.fetchOpenOrders(this.replaySymbol))
+            .filter((o) => o.side === restingSide)
+            .sort((a, b) => (restingSide === "buy" ? b.price - a.price : a.price - b.price));
+
+        let volumeAtPrice = event.amount;
+        for (const order of orders) {
+            const through = restingSide === "buy" ? order.price > event.price : order.price < event.price;
+            if (through) {
+                this.fillRestingOrder(order.id, order.remaining);
+                this.queueAhead.delete(order.id);
+                continue;
+            }
+            if (order.price !== event.price || volumeAtPrice <= 0) continue;
+
+            const ahead = this.queueAhead.get(order.id) ?? 0;
+            const consumedAhead = Math.min(ahead, volumeAtPrice);
+            this.queueAhead.set(order.id, ahead - consumedAhead);
+            volumeAtPrice -= consumedAhead;
+
+            const fillAmount = Math.min(volumeAtPrice, order.remaining);
+            if (fillAmount > 0) {
+                const fill = this.fillRestingOrder(order.id, fillAmount);
+                volumeAtPrice -= fill?.amount ?? 0;
+            }
+        }
+    }
+
+    private displayedSize(side: "buy" | "sell", price: number): number {
+        return this.levelSize(this.snapshot, side, price);
+    }
+
+    private levelSize(book: BookSnapshotEvent, side: "buy" | "sell", price: number): number {
+        const levels = side === "buy" ? book.bids : book.asks;
+        return levels.find(([p]) => p === price)?.[1] ?? 0;
+    }
+}
+
+// ============================================================================
+// STRATEGIES
+// ============================================================================
+
+const noSleep = async (): Promise<void> => undefined;
+
+/**
+ * Mono-side ladder (mm-mono-side.ts runMonitorCycle)
+ */
+export function monoSideStrategy(config: monoSide.MonoSideMMConfig): ReplayStrategy {
+    const state: monoSide.MonoSideMonitorState = { activeOrderIds: [], cycleCount: 0 };
+    return {
+        name: `mono-side (${config.side})`,
+        cycle: (exchange, market) => monoSide.runMonitorCycle(config, exchange, market, state),
+    };
+}
+
+/**
+ * Two-sided ladder (mm-both-side.ts runMonitorCycle)
+ */
+export function bothSideStrategy(config: bothSide.BothSideMMConfig): ReplayStrategy {
+    const state: bothSide.BothSideMonitorState = {
+        activeBidOrderIds: [],
+        activeAskOrderIds: [],
+        expectedBidCount: 0,
+        expectedAskCount: 0,
+        cycleCount: 0,
+    };
+    return {
+        name: "both-side",
+        cycle: (exchange, market) => bothSide.runMonitorCycle(exchange, config, market, state, noSleep),
+    };
+}
+
+/**
+ * Spread ladder (mm-spread.ts runMonitorCycle)
+ */
+export function spreadStrategy(config: spread.SpreadMMConfig): ReplayStrategy {
+    const state: spread.SpreadMonitorState = { activeOrderIds: [] };
+    return {
+        name: "spread",
+        cycle: (exchange) => spread.runMonitorCycle(config, exchange, state, noSleep),
+    };
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Run a callback with console.log/console.warn silenced (strategy logs are per cycle)
+ */
+async function quietly<T>(enabled: boolean, fn: () => Promise<T>): Promise<T> {
+    if (!enabled) return fn();
+
+    const { log, warn } = console;
+    console.log = () => undefined;
+    console.warn = () => undefined;
+    try {
+        return await fn();
+    } finally {
+        console.log = log;
+        console.warn = warn;
+    }
+}
+
+function buildMarketConfig(config: ReplayConfig, initialPrice: number): MockMarketConfig {
+    const preset = defaultMockConfig.markets.find((m) => m.symbol === config.symbol);
+    return {
+        pricePrecision: 0.00000001,
+        amountPrecision: 0.00000001,
+        ...preset,
+        ...config.market,
+        symbol: config.symbol,
+        initialPrice,
+    };
+}
+
+/**
+ * Replay events through a strategy. The strategy cycle runs every `monitorIntervalSeconds`
+ * of simulated time, starting at the first book snapshot.
+ */
+export async function runReplay(
+    events: ReplayEvent[],
+    strategy: ReplayStrategy,
+    config: ReplayConfig
+): Promise<ReplayResult> {
+    const firstBook = events.find((e): e is BookSnapshotEvent => e.type === "book");
+    if (!firstBook || firstBook.bids.length === 0 || firstBook.asks.length === 0) {
+        throw new Error("Replay needs at least one two-sided book snapshot");
+    }
+
+    const [baseSymbol, quoteSymbol] = config.symbol.split("/");
+    const intervalMs = config.monitorIntervalSeconds * 1000;
+    let now = firstBook.timestamp;
+
+    const exchange = new ReplayExchange(
+        {
+            precisionMode: config.precisionMode,
+            markets: [buildMarketConfig(config, (firstBook.bids[0][0] + firstBook.asks[0][0]) / 2)],
+            balances: config.balances,
+            walk: { seed: 1, volatilityPercent: 0 },
+            clock: () => now,
+        },
+        config.symbol
+    );
+    const market = (await exchange.loadMarkets())[config.symbol];
+
+    const fills: ReplayFill[] = [];
+    const inventory: InventorySample[] = [];
+    let seenTrades = 0;
+    let cycles = 0;
+    let cancelReplaceCycles = 0;
+    let gaps = 0;
+
+    const collectFills = async () => {
+        const trades = await exchange.fetchMyTrades(config.symbol);
+        for (const trade of trades.slice(seenTrades)) {
+            const mid = exchange.mid;
+            const edge = (trade.side === "buy" ? mid - trade.price : trade.price - mid) * trade.amount;
+            const feeCost = trade.fee?.cost ?? 0;
+            const feeQuote = trade.fee?.currency === baseSymbol ? feeCost * trade.price : feeCost;
+            fills.push({ ...trade, mid, edge, feeQuote });
+        }
+        seenTrades = trades.length;
+    };
+
+    const sample = async () => {
+        const balance = (await exchange.fetchBalance()) as { total: Record<string, number> };
+        const base = balance.total[baseSymbol] || 0;
+        const quote = balance.total[quoteSymbol] || 0;
+        inventory.push({ timestamp: now, base, quote, mid: exchange.mid, equity: quote + base * exchange.mid });
+    };
+
+    const runCycle = async () => {
+        const placedBefore = exchange.ordersPlaced;
+        const canceledBefore = exchange.ordersCanceled;
+
+        await quietly(!config.verbose, () => strategy.cycle(exchange, market));
+        cycles++;
+
+        if (exchange.ordersCanceled > canceledBefore && exchange.ordersPlaced > placedBefore) {
+            cancelReplaceCycles++;
+        }
+        await collectFills();
+        await sample();
+    };
+
+    await exchange.applySnapshot(firstBook);
+    await sample();
+    const initialEquity = inventory[0].equity;
+    let nextCycleAt = firstBook.timestamp;
+
+    for (const event of events) {
+        if (event.timestamp < firstBook.timestamp || event === firstBook) continue;
+
+        while (nextCycleAt <= event.timestamp) {
+            now = nextCycleAt;
+            await runCycle();
+            nextCycleAt += intervalMs;
+        }
+
+        now = event.timestamp;
+        if (event.type === "gap") {
+            if (event.reason !== "start" && event.reason !== "stop") gaps++;
+            continue;
+        }
+        if (event.type === "book") {
+            await exchange.applySnapshot(event);
+        } else {
+            await exchange.applyTrade(event);
+        }
+        await collectFills();
+    }
+
+    await sample();
+    exchange.close();
+
+    const buys = fills.filter((f) => f.side === "buy");
+    const sells = fills.filter((f) => f.side === "sell");
+    const buyVolume = buys.reduce((sum, f) => sum + f.amount, 0);
+    const sellVolume = sells.reduce((sum, f) => sum + f.amount, 0);
+    const avgBuy = buyVolume > 0 ? buys.reduce((sum, f) => sum + f.cost, 0) / buyVolume : 0;
+    const avgSell = sellVolume > 0 ? sells.reduce((sum, f) => sum + f.cost, 0) / sellVolume : 0;
+    const finalEquity = inventory[inventory.length - 1].equity;
+
+    return {
+        strategy: strategy.name,
+        symbol: config.symbol,
+        events: events.length,
+        gaps,
+        cycles,
+        startTimestamp: firstBook.timestamp,
+        endTimestamp: now,
+        initialEquity,
+        finalEquity,
+        pnl: finalEquity - initialEquity,
+        fills,
+        buyVolume,
+        sellVolume,
+        spreadCapture: fills.reduce((sum, f) => sum + f.edge, 0),
+        realizedSpread: Math.min(buyVolume, sellVolume) * (avgSell - avgBuy),
+        feesPaid: fills.reduce((sum, f) => sum + f.feeQuote, 0),
+        ordersPlaced: exchange.ordersPlaced,
+        ordersCanceled: exchange.ordersCanceled,
+        cancelReplaceCycles,
+        openOrders: (await exchange.fetchOpenOrders(config.symbol)).length,
+        inventory,
+    };
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Print a replay summary
+ */
+export function printReplayReport(result: ReplayResult): void {
+    const [baseSymbol, quoteSymbol] = result.symbol.split("/");
+    const first = result.inventory[0];
+    const last = result.inventory[result.inventory.length - 1];
+    const pnlColor = result.pnl >= 0 ? chalk.green : chalk.red;
+    const bases = result.inventory.map((s) => s.base);
+
+    console.log(chalk.cyan(`\n${"=".repeat(60)}`));
+    console.log(chalk.cyan.bold(`📼 REPLAY REPORT - ${result.strategy} on ${result.symbol}`));
+    console.log(chalk.cyan(`${"=".repeat(60)}`));
+    console.log(`Period:          ${new Date(result.startTimestamp).toISOString()} → ${new Date(result.endTimestamp).toISOString()}`);
+    console.log(`Events:          ${result.events} | Cycles: ${result.cycles}${result.gaps > 0 ? chalk.yellow(` | Data gaps: ${result.gaps}`) : ""}`);
+    console.log(`Fills:           ${result.fills.length} (${chalk.green(`${result.buyVolume.toFixed(8)} bought`)} / ${chalk.red(`${result.sellVolume.toFixed(8)} sold`)} ${baseSymbol})`);
+    console.log(`Inventory:       ${first.base.toFixed(8)} → ${last.base.toFixed(8)} ${baseSymbol} (min ${Math.min(...bases).toFixed(8)}, max ${Math.max(...bases).toFixed(8)})`);
+    console.log(`Spread Capture:  ${result.spreadCapture.toFixed(8)} ${quoteSymbol} (vs mid at fill)`);
+    console.log(`Realized Spread: ${result.realizedSpread.toFixed(8)} ${quoteSymbol} (matched buy/sell volume)`);
+    console.log(`Fees Paid:       ${result.feesPaid.toFixed(8)} ${quoteSymbol}`);
+    console.log(pnlColor(`PnL (marked):    ${result.pnl.toFixed(8)} ${quoteSymbol}`));
+    console.log(`Orders:          ${result.ordersPlaced} placed, ${result.ordersCanceled} canceled, ${result.openOrders} still open`);
+    console.log(`Cancel/Replace:  ${result.cancelReplaceCycles} cycles`);
+    console.log(chalk.cyan(`${"=".repeat(60)}\n`));
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Build the strategy selected by REPLAY_STRATEGY from the same env vars the live bots read
+ */
+function strategyFromEnv(symbol: string, monitorIntervalSeconds: number): ReplayStrategy {
+    const name = process.env.REPLAY_STRATEGY || "mono";
+    const spreadPercent = parseFloat(process.env.SPREAD_PERCENT || "20");
+    const numberOfOrders = parseInt(process.env.NUMBER_OF_ORDERS || "20");
+    const priceReference = priceReferenceFromEnv();
+    const referenceOptions = referencePriceOptionsFromEnv();
+    const bidTotalQuoteAmount = parseFloat(process.env.BID_TOTAL_QUOTE_AMOUNT || process.env.TOTAL_QUOTE_AMOUNT || "5.5");
+    const askTotalQuoteAmount = parseFloat(process.env.ASK_TOTAL_QUOTE_AMOUNT || process.env.TOTAL_QUOTE_AMOUNT || "5.5");
+    const ladder = ladderConfigFromEnv();
+    const refreshMode = refreshModeFromEnv();
+    const refreshTolerance = reconcileToleranceFromEnv();
+
+    switch (name) {
+        case "mono":
+            return monoSideStrategy({
+                exchange: "mock",
+                symbol,
+                side: (process.env.SIDE as "bid" | "ask") || "ask",
+                totalQuoteAmount: parseFloat(process.env.TOTAL_QUOTE_AMOUNT || "5.5"),
+                spreadPercent,
+                numberOfOrders,
+                priceReference: priceReference || "first_ask",
+                referenceOptions,
+                driftThresholdPercent: parseFloat(process.env.DRIFT_THRESHOLD_PERCENT || String(spreadPercent)),
+                monitorIntervalSeconds,
+                ladder,
+                refreshMode,
+                refreshTolerance,
+            });
+        case "both":
+            return bothSideStrategy({
+                exchange: "mock",
+                symbol,
+                bidTotalQuoteAmount,
+                askTotalQuoteAmount,
+                spreadPercent,
+                numberOfOrders,
+                priceReference: priceReference || "mid",
+                referenceOptions,
+                driftThresholdPercent: parseFloat(process.env.DRIFT_THRESHOLD_PERCENT || String(spreadPercent)),
+                monitorIntervalSeconds,
+                ladder,
+                inventory: inventorySkewConfigFromEnv(),
+                refreshMode,
+                refreshTolerance,
+            });
+        case "spread":
+            return spreadStrategy({
+                exchange: "mock",
+                symbol,
+                bidTotalQuoteAmount,
+                askTotalQuoteAmount,
+                spreadPercent,
+                numberOfOrders,
+                priceReference: priceReference || "mid",
+                referenceOptions,
+                ladder,
+            });
+        default:
+            throw new Error(`Unknown REPLAY_STRATEGY "${name}" (expected mono, both or spread)`);
+    }
+}
+
+/**
+ * Run a replay from environment variables
+ */
+export async function runReplayFromEnv(): Promise<ReplayResult> {
+    const dataFile = process.env.REPLAY_DATA;
+    if (!dataFile) {
+        throw new Error("REPLAY_DATA environment variable is required (NDJSON file or recorder directory)");
+    }
+
+    const symbol = process.env.SYMBOL || "ORBD/USDT";
+    const [baseSymbol, quoteSymbol] = symbol.split("/");
+    const monitorIntervalSeconds = parseFloat(process.env.MONITOR_INTERVAL_SECONDS || "1");
+    const events = statSync(dataFile).isDirectory()
+        ? loadRecordedEvents(
+              dataFile,
+              process.env.REPLAY_EXCHANGE || process.env.EXCHANGE || "xt",
+              symbol,
+              process.env.REPLAY_FROM ? Date.parse(process.env.REPLAY_FROM) : undefined,
+              process.env.REPLAY_TO ? Date.parse(process.env.REPLAY_TO) : undefined
+          )
+        : loadReplayEvents(dataFile);
+    const strategy = strategyFromEnv(symbol, monitorIntervalSeconds);
+
+    const market: Partial<MockMarketConfig> = {};
+    if (process.env.PRICE_PRECISION) market.pricePrecision = parseFloat(process.env.PRICE_PRECISION);
+    if (process.env.AMOUNT_PRECISION) market.amountPrecision = parseFloat(process.env.AMOUNT_PRECISION);
+    if (process.env.MIN_AMOUNT) market.minAmount = parseFloat(process.env.MIN_AMOUNT);
+    if (process.env.MIN_COST) market.minCost = parseFloat(process.env.MIN_COST);
+    if (process.env.MAKER_FEE) market.maker = parseFloat(process.env.MAKER_FEE);
+    if (process.env.TAKER_FEE) market.taker = parseFloat(process.env.TAKER_FEE);
+
+    console.log(chalk.cyan(`\n📼 Replaying ${events.length} events from ${dataFile} through ${strategy.name}...`));
+
+    const result = await runReplay(events, strategy, {
+        symbol,
+        monitorIntervalSeconds,
+        balances: {
+            [baseSymbol]: parseFloat(process.env.INITIAL_BASE || "1000000"),
+            [quoteSymbol]: parseFloat(process.env.INITIAL_QUOTE || "10000"),
+        },
+        market,
+        verbose: process.env.REPLAY_VERBOSE === "true",
+    });
+
+    printReplayReport(result);
+
+    if (process.env.REPLAY_REPORT) {
+        writeFileSync(process.env.REPLAY_REPORT, JSON.stringify(result, null, 2));
+        console.log(chalk.green(`✅ Report written to ${process.env.REPLAY_REPORT}\n`));
+    }
+
+    return result;
+}
+
+// Run if executed directly
+if (require.main === module) {
+    runReplayFromEnv().catch((error) => {
+        console.error(chalk.red(`❌ Replay failed: ${error.message}`));
+        process.exit(1);
+    });
+}
+
+export default {
+    ReplayExchange,
+    loadReplayEvents,
+    loadRecordedEvents,
+    toReplayEvent,
+    monoSideStrategy,
+    bothSideStrategy,
+    spreadStrategy,
+    runReplay,
+    printReplayReport,
+    runReplayFromEnv,
+};
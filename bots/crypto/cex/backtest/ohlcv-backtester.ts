@@ -0,0 +1,612 @@
+/**
+ * OHLCV Backtester
+ * Replays historical candles bar-by-bar through the AI spot bot's indicator pipeline.
+ * A pluggable decision function (rule-based or a recorded AI decision log) produces
+ * BUY/SELL/HOLD, fills are simulated with fees and slippage, and the run is summarised
+ * as PnL, max drawdown, Sharpe, win rate and a trade list.
+ */
+
+import chalk from "chalk";
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { calculateIndicators, type CandleData } from "../auto-trading/indicators";
+import type {
+    AIResponse,
+    MarketData,
+    OrderBookData,
+} from "../auto-trading/auto-trading-ai-modal";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface BacktestConfig {
+    symbol: string;
+    candleCount: number; // Lookback window fed to the indicators (same as the bot's CANDLE_COUNT)
+    warmupBars: number; // Bars skipped before the first decision so indicators are populated
+    initialQuote: number;
+    initialBase: number;
+    tradeAmount: number; // Amount to buy per BUY signal in quote currency
+    feePercent: number; // Fee charged on every fill (e.g. 0.1 for 0.1%)
+    slippagePercent: number; // Adverse price move applied to every fill
+    spreadPercent: number; // Full spread of the synthetic order book built around each close
+    confidenceThreshold: number; // Minimum confidence to act (the live bot uses 75)
+}
+
+export interface DecisionContext {
+    index: number; // Bar index in the candle series
+    timestamp: number;
+    position: number; // Base currency currently held
+}
+
+export type DecisionFn = (
+    marketData: MarketData,
+    context: DecisionContext
+) => AIResponse | Promise<AIResponse>;
+
+export interface RecordedDecision extends AIResponse {
+    timestamp: number;
+    price?: number;
+}
+
+export interface BacktestTrade {
+    timestamp: number;
+    side: "buy" | "sell";
+    price: number;
+    amount: number;
+    cost: number;
+    fee: number;
+    confidence: number;
+    reasoning: string;
+    pnl?: number; // Realized PnL on sells (net of fees on both legs)
+}
+
+export interface EquityPoint {
+    timestamp: number;
+    equity: number;
+}
+
+export interface BacktestResult {
+    symbol: string;
+    bars: number;
+    startTimestamp: number;
+    endTimestamp: number;
+    initialEquity: number;
+    finalEquity: number;
+    pnl: number;
+    pnlPercent: number;
+    buyAndHoldPercent: number;
+    maxDrawdown: number;
+    maxDrawdownPercent: number;
+    sharpe: number;
+    winRate: number;
+    roundTrips: number;
+    wins: number;
+    losses: number;
+    totalFees: number;
+    skippedSignals: number;
+    finalBalance: {
+        base: number;
+        quote: number;
+    };
+    trades: BacktestTrade[];
+    equityCurve: EquityPoint[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const defaultBacktestConfig: BacktestConfig = {
+    symbol: "BTC/USDT",
+    candleCount: 100,
+    warmupBars: 50,
+    initialQuote: 1000,
+    initialBase: 0,
+    tradeAmount: 20,
+    feePercent: 0.1,
+    slippagePercent: 0.05,
+    spreadPercent: 0.02,
+    confidenceThreshold: 75,
+};
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// DATA LOADING
+// ============================================================================
+
+function parseTimestamp(value: unknown): number {
+    if (typeof value === "number") return value;
+    const text = String(value).trim();
+    const numeric = Number(text);
+    if (!isNaN(numeric)) return numeric;
+    const parsed = Date.parse(text);
+    if (isNaN(parsed)) {
+        throw new Error(`Invalid candle timestamp: ${text}`);
+    }
+    return parsed;
+}
+
+function toCandle(row: Record<string, unknown>): CandleData {
+    return {
+        timestamp: parseTimestamp(row.timestamp ?? row.time ?? row.date),
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        volume: Number(row.volume ?? 0),
+    };
+}
+
+function parseCsvCandles(content: string): CandleData[] {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+    if (lines.length === 0) return [];
+
+    const firstRow = lines[0].split(",").map((cell) => cell.trim());
+    const hasHeader = isNaN(Number(firstRow[0])) && isNaN(Date.parse(firstRow[0]));
+    const columns = hasHeader
+        ? firstRow.map((name) => name.toLowerCase())
+        : ["timestamp", "open", "high", "low", "close", "volume"];
+
+    return lines.slice(hasHeader ? 1 : 0).map((line) => {
+        const cells = line.split(",").map((cell) => cell.trim());
+        const row: Record<string, unknown> = {};
+        columns.forEach((name, i) => {
+            row[name] = cells[i];
+        });
+        return toCandle(row);
+    });
+}
+
+function parseJsonCandles(content: string): CandleData[] {
+    const data = JSON.parse(content);
+    const rows: unknown[] = Array.isArray(data) ? data : data.candles;
+
+    if (!Array.isArray(rows)) {
+        throw new Error("JSON candle file must be an array or { candles: [...] }");
+    }
+
+    return rows.map((row) => {
+        if (Array.isArray(row)) {
+            // ccxt OHLCV format: [timestamp, open, high, low, close, volume]
+            const [timestamp, open, high, low, close, volume] = row;
+            return toCandle({ timestamp, open, high, low, close, volume });
+        }
+        return toCandle(row as Record<string, unknown>);
+    });
+}
+
+/**
+ * Load candles from a CSV or JSON file, sorted by timestamp with duplicates removed
+ */
+export function loadCandles(filePath: string): CandleData[] {
+    const content = readFileSync(filePath, "utf8");
+    const candles =
+        path.extname(filePath).toLowerCase() === ".json"
+            ? parseJsonCandles(content)
+            : parseCsvCandles(content);
+
+    const invalid = candles.findIndex((c) =>
+        [c.timestamp, c.open, c.high, c.low, c.close, c.volume].some((v) => isNaN(v))
+    );
+    if (invalid !== -1) {
+        throw new Error(`Invalid candle at row ${invalid + 1} in ${filePath}`);
+    }
+
+    const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    return sorted.filter((c, i) => i === 0 || c.timestamp !== sorted[i - 1].timestamp);
+}
+
+/**
+ * Load a recorded AI decision log (NDJSON as written by AI_DECISION_LOG, or a JSON array)
+ */
+export function loadRecordedDecisions(filePath: string): RecordedDecision[] {
+    const content = readFileSync(filePath, "utf8").trim();
+    if (content === "") return [];
+
+    const records: RecordedDecision[] = content.startsWith("[")
+        ? JSON.parse(content)
+        : content
+              .split(/\r?\n/)
+              .filter((line) => line.trim() !== "")
+              .map((line) => JSON.parse(line));
+
+    return records
+        .map((record) => ({ ...record, timestamp: parseTimestamp(record.timestamp) }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ============================================================================
+// DECISION FUNCTIONS
+// ============================================================================
+
+/**
+ * Rule-based decision: counts bullish/bearish indicator votes (RSI, Bollinger, MACD, EMA cross)
+ * and acts when at least `minVotes` agree. Confidence is 25% per agreeing vote plus 25% (2 votes = 75%).
+ */
+export function createRuleBasedDecision(
+    options: { rsiOversold?: number; rsiOverbought?: number; minVotes?: number } = {}
+): DecisionFn {
+    const rsiOversold = options.rsiOversold ?? 30;
+    const rsiOverbought = options.rsiOverbought ?? 70;
+    const minVotes = options.minVotes ?? 2;
+
+    return (marketData) => {
+        const { indicators, currentPrice } = marketData;
+
+        const bullish = [
+            indicators.rsi14 < rsiOversold,
+            currentPrice < indicators.bollinger.lower,
+            indicators.macd.histogram > 0,
+            indicators.ema12 > indicators.ema26,
+        ].filter(Boolean).length;
+
+        const bearish = [
+            indicators.rsi14 > rsiOverbought,
+            currentPrice > indicators.bollinger.upper,
+            indicators.macd.histogram < 0,
+            indicators.ema12 < indicators.ema26,
+        ].filter(Boolean).length;
+
+        const summary = `RSI ${indicators.rsi14.toFixed(2)}, MACD hist ${indicators.macd.histogram.toFixed(8)}`;
+
+        if (bullish >= minVotes && bullish > bearish) {
+            return { action: "BUY", confidence: Math.min(100, (bullish + 1) * 25), reasoning: `${bullish}/4 bullish signals (${summary})` };
+        }
+        if (bearish >= minVotes && bearish > bullish) {
+            return { action: "SELL", confidence: Math.min(100, (bearish + 1) * 25), reasoning: `${bearish}/4 bearish signals (${summary})` };
+        }
+        return { action: "HOLD", confidence: 0, reasoning: `No consensus (${summary})` };
+    };
+}
+
+/**
+ * Replay recorded AI decisions: each record is applied on the first bar whose timestamp is at
+ * or after the record's timestamp. Bars without a new record HOLD.
+ */
+export function createRecordedDecision(records: RecordedDecision[]): DecisionFn {
+    const sorted = [...records].sort((a, b) => a.timestamp - b.timestamp);
+    let cursor = 0;
+
+    return (_marketData, context) => {
+        let latest: RecordedDecision | undefined;
+        while (cursor < sorted.length && sorted[cursor].timestamp <= context.timestamp) {
+            latest = sorted[cursor];
+            cursor++;
+        }
+
+        if (!latest) {
+            return { action: "HOLD", confidence: 0, reasoning: "No recorded decision for this bar" };
+        }
+
+        return {
+            action: latest.action,
+            confidence: latest.confidence,
+            reasoning: latest.reasoning,
+            stopLoss: latest.stopLoss,
+            takeProfit: latest.takeProfit,
+        };
+    };
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Build a synthetic single-level order book around the close (candles carry no depth)
+ */
+function buildOrderBook(candle: CandleData, spreadPercent: number): OrderBookData {
+    const halfSpread = spreadPercent / 2 / 100;
+    const bid = candle.close * (1 - halfSpread);
+    const ask = candle.close * (1 + halfSpread);
+
+    return {
+        bids: [[bid, candle.volume]],
+        asks: [[ask, candle.volume]],
+        spread: ask - bid,
+        spreadPercent,
+    };
+}
+
+/**
+ * Median spacing between candles, used to annualise the Sharpe ratio
+ */
+function medianInterval(candles: CandleData[]): number {
+    const intervals = candles
+        .slice(1)
+        .map((c, i) => c.timestamp - candles[i].timestamp)
+        .sort((a, b) => a - b);
+    return intervals.length > 0 ? intervals[Math.floor(intervals.length / 2)] : 0;
+}
+
+function calculateSharpe(equityCurve: EquityPoint[], barIntervalMs: number): number {
+    const returns = equityCurve
+        .slice(1)
+        .map((point, i) => (equityCurve[i].equity > 0 ? point.equity / equityCurve[i].equity - 1 : 0));
+    if (returns.length < 2 || barIntervalMs <= 0) return 0;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+    if (stdDev === 0) return 0;
+
+    return (mean / stdDev) * Math.sqrt(MS_PER_YEAR / barIntervalMs);
+}
+
+function calculateDrawdown(equityCurve: EquityPoint[]): { maxDrawdown: number; maxDrawdownPercent: number } {
+    let peak = -Infinity;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+
+    for (const { equity } of equityCurve) {
+        peak = Math.max(peak, equity);
+        const drawdown = peak - equity;
+        if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+        if (peak > 0 && (drawdown / peak) * 100 > maxDrawdownPercent) {
+            maxDrawdownPercent = (drawdown / peak) * 100;
+        }
+    }
+
+    return { maxDrawdown, maxDrawdownPercent };
+}
+
+/**
+ * Run a backtest. Decisions are made on each bar's close and filled at the next bar's open
+ * (plus half the spread and slippage) to avoid look-ahead. BUY spends `tradeAmount` quote,
+ * SELL closes the whole position - the same semantics as the live bot's executeDecision.
+ */
+export async function runBacktest(
+    candles: CandleData[],
+    decide: DecisionFn,
+    overrides: Partial<BacktestConfig> = {}
+): Promise<BacktestResult> {
+    const config: BacktestConfig = { ...defaultBacktestConfig, ...overrides };
+
+    if (candles.length < config.warmupBars + 2) {
+        throw new Error(
+            `Not enough candles: ${candles.length} (need at least ${config.warmupBars + 2})`
+        );
+    }
+
+    const feeRate = config.feePercent / 100;
+    const slippage = (config.spreadPercent / 2 + config.slippagePercent) / 100;
+
+    let base = config.initialBase;
+    let quote = config.initialQuote;
+    let costBasis = config.initialBase * candles[0].close; // Quote spent on the open position (incl. fees)
+    let totalFees = 0;
+    let skippedSignals = 0;
+    let pending: AIResponse | null = null;
+
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+
+    for (let i = 0; i < candles.length; i++) {
+        const candle = candles[i];
+
+        // 1. Fill the previous bar's decision at this bar's open
+        if (pending) {
+            const decision: AIResponse = pending;
+            pending = null;
+
+            if (decision.action === "BUY") {
+                const price = candle.open * (1 + slippage);
+                const amount = config.tradeAmount / price;
+                const cost = amount * price;
+                const fee = cost * feeRate;
+
+                if (quote >= config.tradeAmount + fee) {
+                    base += amount;
+                    quote -= cost + fee;
+                    costBasis += cost + fee;
+                    totalFees += fee;
+                    trades.push({
+                        timestamp: candle.timestamp,
+                        side: "buy",
+                        price,
+                        amount,
+                        cost,
+                        fee,
+                        confidence: decision.confidence,
+                        reasoning: decision.reasoning,
+                    });
+                } else {
+                    skippedSignals++;
+                }
+            } else if (decision.action === "SELL" && base > 0) {
+                const price = candle.open * (1 - slippage);
+                const amount = base;
+                const cost = amount * price;
+                const fee = cost * feeRate;
+                const pnl = cost - fee - costBasis;
+
+                quote += cost - fee;
+                base = 0;
+                costBasis = 0;
+                totalFees += fee;
+                trades.push({
+                    timestamp: candle.timestamp,
+                    side: "sell",
+                    price,
+                    amount,
+                    cost,
+                    fee,
+                    confidence: decision.confidence,
+                    reasoning: decision.reasoning,
+                    pnl,
+                });
+            } else {
+                skippedSignals++;
+            }
+        }
+
+        equityCurve.push({ timestamp: candle.timestamp, equity: quote + base * candle.close });
+
+        // 2. Decide on this bar's close (nothing to fill after the last bar)
+        if (i < config.warmupBars || i === candles.length - 1) continue;
+
+        const window = candles.slice(Math.max(0, i + 1 - config.candleCount), i + 1);
+        const marketData: MarketData = {
+            candles: window,
+            orderBook: buildOrderBook(candle, config.spreadPercent),
+            currentPrice: candle.close,
+            openTrades: [],
+            indicators: calculateIndicators(window),
+            balance: { base, quote },
+        };
+
+        const decision = await decide(marketData, {
+            index: i,
+            timestamp: candle.timestamp,
+            position: base,
+        });
+
+        if (decision.action !== "HOLD" && decision.confidence >= config.confidenceThreshold) {
+            pending = decision;
+        }
+    }
+
+    const first = candles[0];
+    const last = candles[candles.length - 1];
+    const initialEquity = config.initialQuote + config.initialBase * first.close;
+    const finalEquity = quote + base * last.close;
+    const sells = trades.filter((t) => t.side === "sell");
+    const wins = sells.filter((t) => (t.pnl ?? 0) > 0).length;
+
+    return {
+        symbol: config.symbol,
+        bars: candles.length,
+        startTimestamp: first.timestamp,
+        endTimestamp: last.timestamp,
+        initialEquity,
+        finalEquity,
+        pnl: finalEquity - initialEquity,
+        pnlPercent: initialEquity > 0 ? ((finalEquity - initialEquity) / initialEquity) * 100 : 0,
+        buyAndHoldPercent: ((last.close - first.close) / first.close) * 100,
+        ...calculateDrawdown(equityCurve),
+        sharpe: calculateSharpe(equityCurve, medianInterval(candles)),
+        winRate: sells.length > 0 ? (wins / sells.length) * 100 : 0,
+        roundTrips: sells.length,
+        wins,
+        losses: sells.length - wins,
+        totalFees,
+        skippedSignals,
+        finalBalance: { base, quote },
+        trades,
+        equityCurve,
+    };
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Print a backtest summary and trade list
+ */
+export function printBacktestReport(result: BacktestResult): void {
+    const [baseSymbol, quoteSymbol] = result.symbol.split("/");
+    const pnlColor = result.pnl >= 0 ? chalk.green : chalk.red;
+
+    console.log(chalk.cyan(`\n${"=".repeat(60)}`));
+    console.log(chalk.cyan.bold(`📊 BACKTEST REPORT - ${result.symbol}`));
+    console.log(chalk.cyan(`${"=".repeat(60)}`));
+    console.log(`Period:         ${new Date(result.startTimestamp).toISOString()} → ${new Date(result.endTimestamp).toISOString()}`);
+    console.log(`Bars:           ${result.bars}`);
+    console.log(`Initial Equity: ${result.initialEquity.toFixed(2)} ${quoteSymbol}`);
+    console.log(`Final Equity:   ${result.finalEquity.toFixed(2)} ${quoteSymbol}`);
+    console.log(pnlColor(`PnL:            ${result.pnl.toFixed(2)} ${quoteSymbol} (${result.pnlPercent.toFixed(2)}%)`));
+    console.log(`Buy & Hold:     ${result.buyAndHoldPercent.toFixed(2)}%`);
+    console.log(`Max Drawdown:   ${result.maxDrawdown.toFixed(2)} ${quoteSymbol} (${result.maxDrawdownPercent.toFixed(2)}%)`);
+    console.log(`Sharpe:         ${result.sharpe.toFixed(2)}`);
+    console.log(`Win Rate:       ${result.winRate.toFixed(2)}% (${result.wins}W / ${result.losses}L over ${result.roundTrips} round trips)`);
+    console.log(`Fees Paid:      ${result.totalFees.toFixed(4)} ${quoteSymbol}`);
+    console.log(`Skipped:        ${result.skippedSignals} signals (insufficient balance / nothing to sell)`);
+    console.log(`Final Balance:  ${result.finalBalance.base.toFixed(8)} ${baseSymbol} | ${result.finalBalance.quote.toFixed(2)} ${quoteSymbol}`);
+
+    if (result.trades.length > 0) {
+        console.log(chalk.cyan(`\n📋 Trades (${result.trades.length}):`));
+        for (const trade of result.trades) {
+            const side = trade.side === "buy" ? chalk.green("BUY ") : chalk.red("SELL");
+            const pnl = trade.pnl !== undefined
+                ? (trade.pnl >= 0 ? chalk.green : chalk.red)(` PnL ${trade.pnl.toFixed(4)}`)
+                : "";
+            console.log(
+                `   ${new Date(trade.timestamp).toISOString()} ${side} ${trade.amount.toFixed(8)} @ ${trade.price.toFixed(8)} ` +
+                `fee ${trade.fee.toFixed(4)} (${trade.confidence}%)${pnl}`
+            );
+        }
+    }
+    console.log(chalk.cyan(`${"=".repeat(60)}\n`));
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Run a backtest from environment variables
+ */
+export async function runBacktestFromEnv(): Promise<BacktestResult> {
+    const candlesFile = process.env.BACKTEST_CANDLES;
+    if (!candlesFile) {
+        throw new Error("BACKTEST_CANDLES environment variable is required (CSV or JSON candle file)");
+    }
+
+    const candles = loadCandles(candlesFile);
+    const decisionsFile = process.env.BACKTEST_DECISIONS;
+    const decide = decisionsFile
+        ? createRecordedDecision(loadRecordedDecisions(decisionsFile))
+        : createRuleBasedDecision({
+              rsiOversold: parseFloat(process.env.RSI_OVERSOLD || "30"),
+              rsiOverbought: parseFloat(process.env.RSI_OVERBOUGHT || "70"),
+              minVotes: parseInt(process.env.MIN_VOTES || "2"),
+          });
+
+    console.log(chalk.cyan(`\n🧪 Backtesting ${candles.length} candles from ${candlesFile}`));
+    console.log(chalk.white(`   Decisions: ${decisionsFile ? `recorded (${decisionsFile})` : "rule-based"}`));
+
+    const result = await runBacktest(candles, decide, {
+        symbol: process.env.SYMBOL || defaultBacktestConfig.symbol,
+        candleCount: parseInt(process.env.CANDLE_COUNT || String(defaultBacktestConfig.candleCount)),
+        warmupBars: parseInt(process.env.WARMUP_BARS || String(defaultBacktestConfig.warmupBars)),
+        initialQuote: parseFloat(process.env.INITIAL_QUOTE || String(defaultBacktestConfig.initialQuote)),
+        initialBase: parseFloat(process.env.INITIAL_BASE || String(defaultBacktestConfig.initialBase)),
+        tradeAmount: parseFloat(process.env.TRADE_AMOUNT || String(defaultBacktestConfig.tradeAmount)),
+        feePercent: parseFloat(process.env.FEE_PERCENT || String(defaultBacktestConfig.feePercent)),
+        slippagePercent: parseFloat(process.env.SLIPPAGE_PERCENT || String(defaultBacktestConfig.slippagePercent)),
+        spreadPercent: parseFloat(process.env.SPREAD_PERCENT || String(defaultBacktestConfig.spreadPercent)),
+        confidenceThreshold: parseFloat(
+            process.env.CONFIDENCE_THRESHOLD || String(defaultBacktestConfig.confidenceThreshold)
+        ),
+    });
+
+    printBacktestReport(result);
+
+    if (process.env.BACKTEST_REPORT) {
+        writeFileSync(process.env.BACKTEST_REPORT, JSON.stringify(result, null, 2));
+        console.log(chalk.green(`✅ Report written to ${process.env.BACKTEST_REPORT}\n`));
+    }
+
+    return result;
+}
+
+// Run if executed directly
+if (require.main === module) {
+    runBacktestFromEnv().catch((error) => {
+        console.error(chalk.red(`❌ Backtest failed: ${error.message}`));
+        process.exit(1);
+    });
+}
+
+export default {
+    loadCandles,
+    loadRecordedDecisions,
+    createRuleBasedDecision,
+    createRecordedDecision,
+    runBacktest,
+    printBacktestReport,
+    runBacktestFromEnv,
+};
@@ -0,0 +1,273 @@
+/**
+ * Bot State
+ * Persists what a bot instance owns (order ids, last reference price, fills) to a local JSON
+ * store so a restarted bot can reconcile against the exchange: adopt its own surviving
+ * orders and leave orders from other bots on the same account alone.
+ */
+
+import * as ccxt from 'ccxt';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { isTaggedOrder, type OrderTag } from './trading';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface BotFill {
+    orderId: string;
+    side?: 'buy' | 'sell';
+    price?: number;
+    amount: number; // Filled amount (base currency)
+    status?: string; // closed / canceled (partially filled)
+    timestamp: number;
+}
+
+export interface BotState {
+    instanceId: string;
+    bot: string; // Bot type, e.g. mm-mono-side
+    exchange: string;
+    symbol: string;
+    configHash: string;
+    orderIds: string[]; // Orders this instance placed and still considers open
+    lastReferencePrice?: number;
+    fills: BotFill[]; // Most recent fills, newest last
+    startedAt: number;
+    updatedAt: number;
+}
+
+export interface OpenOrder {
+    id: string;
+    clientOrderId?: string;
+    side: 'buy' | 'sell';
+    price: number;
+    amount: number;
+}
+
+export interface ReconcileResult {
+    adopted: OpenOrder[]; // Our orders still open on the exchange
+    gone: string[]; // Our orders no longer open (filled or cancelled while we were down)
+    foreign: number; // Open orders on the symbol that belong to someone else
+    configChanged: boolean; // Stored state was written with a different config
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_STATE_DIR = './state';
+const MAX_FILLS = 1000;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * JSON with sorted keys so equal configs always hash the same
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Short hash of a bot config - a changed hash means stored orders were placed with other settings
+ */
+export function hashConfig(config: object): string {
+    return createHash('sha256').update(stableStringify(config)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Stable instance id for a bot/exchange/symbol (plus e.g. side). BOT_INSTANCE_ID overrides it,
+ * which lets several instances of the same bot run side by side.
+ */
+export function instanceIdFor(bot: string, exchange: string, symbol: string, qualifier?: string): string {
+    if (process.env.BOT_INSTANCE_ID) return process.env.BOT_INSTANCE_ID;
+    return [bot, exchange, symbol.replace(/[/:]/g, '-'), qualifier].filter(Boolean).join('_');
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+/**
+ * One JSON file per bot instance under BOT_STATE_DIR (default ./state)
+ */
+export class BotStateStore {
+    readonly dir: string;
+
+    constructor(dir: string = process.env.BOT_STATE_DIR || DEFAULT_STATE_DIR) {
+        this.dir = dir;
+    }
+
+    private fileFor(instanceId: string): string {
+        return path.join(this.dir, `${instanceId}.json`);
+    }
+
+    load(instanceId: string): BotState | undefined {
+        const file = this.fileFor(instanceId);
+        if (!existsSync(file)) return undefined;
+
+        try {
+            return JSON.parse(readFileSync(file, 'utf8'));
+        } catch (error) {
+            console.error(`⚠️  Ignoring unreadable bot state ${file}:`, error instanceof Error ? error.message : error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Write via a temp file + rename so a crash never leaves half a state file
+     */
+    save(state: BotState): void {
+        mkdirSync(this.dir, { recursive: true });
+        const file = this.fileFor(state.instanceId);
+        const tmp = `${file}.tmp`;
+        writeFileSync(tmp, JSON.stringify(state, null, 2));
+        renameSync(tmp, file);
+    }
+}
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+/**
+ * A running bot instance's view of its persisted state
+ */
+export class BotSession {
+    readonly state: BotState;
+    readonly configChanged: boolean;
+    private store: BotStateStore;
+
+    private constructor(state: BotState, store: BotStateStore, configChanged: boolean) {
+        this.state = state;
+        this.store = store;
+        this.configChanged = configChanged;
+    }
+
+    /**
+     * Load the stored state for this bot instance, or start a fresh one
+     */
+    static open(
+        bot: string,
+        exchange: string,
+        symbol: string,
+        config: object,
+        options: { qualifier?: string; store?: BotStateStore } = {}
+    ): BotSession {
+        const store = options.store || new BotStateStore();
+        const instanceId = instanceIdFor(bot, exchange, symbol, options.qualifier);
+        const configHash = hashConfig(config);
+        const now = Date.now();
+        const stored = store.load(instanceId);
+
+        if (stored && (stored.exchange !== exchange || stored.symbol !== symbol)) {
+            throw new Error(
+                `Bot state ${instanceId} belongs to ${stored.exchange} ${stored.symbol} - set a different BOT_INSTANCE_ID`
+            );
+        }
+
+        const state: BotState = stored
+            ? { ...stored, configHash, startedAt: now, updatedAt: now }
+            : { instanceId, bot, exchange, symbol, configHash, orderIds: [], fills: [], startedAt: now, updatedAt: now };
+
+        return new BotSession(state, store, !!stored && stored.configHash !== configHash);
+    }
+
+    get orderIds(): string[] {
+        return this.state.orderIds;
+    }
+
+    /**
+     * Replace the owned order ids; only writes to disk when they changed
+     */
+    setOrders(orderIds: string[]): void {
+        const current = this.state.orderIds;
+        if (current.length === orderIds.length && current.every((id, i) => id === orderIds[i])) return;
+
+        this.state.orderIds = [...orderIds];
+        this.save();
+    }
+
+    setReferencePrice(price: number): void {
+        if (price > 0) this.state.lastReferencePrice = price;
+    }
+
+    /**
+     * Look up orders that left the book and record the ones that (partially) filled
+     */
+    async recordFills(exchange: ccxt.Exchange, orderIds: string[]): Promise<BotFill[]> {
+        const fills: BotFill[] = [];
+
+        for (const orderId of orderIds) {
+            try {
+                const order = await exchange.fetchOrder(orderId, this.state.symbol);
+                if (!order?.filled) continue;
+                fills.push({
+                    orderId,
+                    side: order.side,
+                    price: order.average ?? order.price,
+                    amount: order.filled,
+                    status: order.status,
+                    timestamp: order.lastTradeTimestamp ?? order.timestamp ?? Date.now(),
+                });
+            } catch {
+                // Some exchanges drop closed orders from fetchOrder - keep what we know
+                fills.push({ orderId, amount: 0, status: 'unknown', timestamp: Date.now() });
+            }
+        }
+
+        if (fills.length > 0) {
+            this.state.fills = [...this.state.fills, ...fills].slice(-MAX_FILLS);
+            this.save();
+        }
+        return fills;
+    }
+
+    /**
+     * Compare stored order ids with the exchange's open orders. Our surviving orders are adopted,
+     * vanished ones are checked for fills, and everything else on the symbol is left alone.
+     * With a tag, open orders carrying it are adopted too (e.g. placed just before a crash).
+     */
+    async reconcile(exchange: ccxt.Exchange, tag?: OrderTag): Promise<ReconcileResult> {
+        const openOrders: OpenOrder[] = await exchange.fetchOpenOrders(this.state.symbol);
+        const owned = new Set(this.state.orderIds);
+
+        const adopted = openOrders.filter((o) => owned.has(o.id) || (tag && isTaggedOrder(exchange, o, tag)));
+        const openIds = new Set(adopted.map((o) => o.id));
+        const gone = this.state.orderIds.filter((id) => !openIds.has(id));
+
+        if (gone.length > 0) {
+            await this.recordFills(exchange, gone);
+        }
+        this.setOrders(adopted.map((o) => o.id));
+
+        return {
+            adopted,
+            gone,
+            foreign: openOrders.length - adopted.length,
+            configChanged: this.configChanged,
+        };
+    }
+
+    save(): void {
+        this.state.updatedAt = Date.now();
+        try {
+            this.store.save(this.state);
+        } catch (error) {
+            console.error(`⚠️  Failed to save bot state ${this.state.instanceId}:`, error instanceof Error ? error.message : error);
+        }
+    }
+}
+
+export default { BotStateStore, BotSession, hashConfig, instanceIdFor };
@@ -0,0 +1,1094 @@
+/**
+ * algo-vista CLI
+ * One entry point for the bots and the account utilities. Flags and config files (YAML/JSON) resolve
+ * onto the environment variables the bots already read, so
+ *
+ *   algo-vista mm mono --exchange xt --symbol ORBD/USDT --side ask --spread-percent 20
+ *
+ * runs the same bot as EXCHANGE=xt SYMBOL=ORBD/USDT SIDE=ask SPREAD_PERCENT=20 npx tsx mm/mm-mono-side.ts.
+ * Precedence: flags > environment > bot instance (--profile / --config) > exchange settings > defaults
+ * (the last three from the config profiles, see config.ts) > bot defaults. Commands that talk to an
+ * exchange unlock the credential vault (vault.ts) first when there is one.
+ */
+
+import { createInterface, type Interface } from 'readline';
+import { parseArgs } from 'util';
+import * as ccxt from 'ccxt';
+import * as yaml from 'js-yaml';
+import * as account from './account';
+import {
+    getConfigProfiles,
+    getExchangeConfig,
+    isConfiguredExchange,
+    listExchanges,
+    loadBotSettingsFile,
+    maskSecret,
+    redactSecrets,
+    resolveSecret,
+    type BotSettings,
+} from './config';
+import { ConfigError } from './config-schema';
+import { initExchange, type ExchangeName } from './exchange';
+import * as marketData from './market-data';
+import * as trading from './trading';
+import * as aiSpot from './auto-trading/auto-trading-ai-modal';
+import * as aiFutures from './auto-trading/auto-trading-futures-binance';
+import * as gridBot from './mm/grid-bot';
+import * as mmBothSide from './mm/mm-both-side';
+import * as mmLargeOrders from './mm/mm-large-orders';
+import * as mmMonoSide from './mm/mm-mono-side';
+import * as mmSpread from './mm/mm-spread';
+import { PRICE_REFERENCES } from './mm/reference-price';
+import {
+    CredentialVault,
+    getUnlockedVault,
+    isVaultLocked,
+    unlockVault,
+    VAULT_PASSPHRASE_ENV,
+    VaultError,
+    vaultExists,
+    vaultFilePath,
+    type CredentialInput,
+} from './vault';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type OptionKind = 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * A command-line flag. Config files may use the flag name, its camelCase form or the env name
+ */
+export interface OptionSpec {
+    name: string; // --flag, kebab-case
+    kind: OptionKind; // number / integer must be positive
+    description: string;
+    env?: string; // Environment variable the bot reads (unset: flag and config file only)
+    choices?: readonly string[];
+}
+
+export interface ResolvedSettings {
+    values: Record<string, string>; // By option name
+    env: Record<string, string>; // Environment variables for the bot (options with env + UPPER_CASE config keys)
+}
+
+/**
+ * Bot settings from one config file layer
+ */
+export interface SettingsLayer {
+    source: string; // For messages, e.g. "bots.orbd-ask in algo-vista.yaml"
+    values: BotSettings;
+    strict: boolean; // Every key must be an option of this command (otherwise options of other commands are skipped)
+}
+
+export interface CommandContext {
+    settings: ResolvedSettings;
+    dryRun: boolean;
+}
+
+export interface Command {
+    summary: string;
+    options: OptionSpec[];
+    run(context: CommandContext): Promise<void>;
+}
+
+interface BotSpec<T extends { exchange: string; symbol: string }> {
+    summary: string;
+    options: OptionSpec[]; // Replace the common options of the same name
+    fromEnv: () => T;
+    check?: (config: T) => string[]; // Problems the option kinds cannot catch
+    run: (config: T) => Promise<void>;
+}
+
+/**
+ * Bad flags, config file or settings - exit code 2
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+const GLOBAL_OPTIONS = {
+    config: { type: 'string', short: 'c' },
+    profile: { type: 'string', short: 'p' },
+    'dry-run': { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+const ENV_NAME = /^[A-Z][A-Z0-9_]*$/;
+const RESERVED_KEYS = ['command'];
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const camelCase = (name: string) => name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * Check a raw value against the option kind and return it in the form the bots parse
+ */
+function normalizeValue(option: OptionSpec, raw: unknown, source: string): string {
+    const fail = (expected: string) =>
+        new UsageError(`--${option.name} (${source}) must be ${expected}, got "${String(raw)}"`);
+
+    switch (option.kind) {
+        case 'boolean':
+            if (raw === true || raw === 'true') return 'true';
+            if (raw === false || raw === 'false') return 'false';
+            throw fail('true or false');
+        case 'number':
+        case 'integer': {
+            const value = typeof raw === 'number' ? raw : Number(String(raw).trim() || NaN);
+            if (!Number.isFinite(value) || value <= 0) throw fail('a positive number');
+            if (option.kind === 'integer' && !Number.isInteger(value)) throw fail('a positive integer');
+            return String(value);
+        }
+        case 'string': {
+            const value = Array.isArray(raw) ? raw.join(',') : String(raw ?? '').trim();
+            if (!value) throw fail('a non-empty string');
+            if (option.choices && !option.choices.includes(value)) throw fail(`one of ${option.choices.join(', ')}`);
+            return value;
+        }
+    }
+}
+
+/**
+ * Config file keys of the options: flag name, camelCase flag name and env name
+ */
+function optionAliases(options: OptionSpec[]): Map<string, OptionSpec> {
+    const aliases = new Map<string, OptionSpec>();
+    for (const option of options) {
+        for (const alias of [option.name, camelCase(option.name), option.env]) {
+            if (alias) aliases.set(alias, option);
+        }
+    }
+    return aliases;
+}
+
+/**
+ * Merge flags, environment and config file layers (in that order of precedence, layers highest first)
+ * and validate every value. UPPER_CASE keys that are no option pass through to the environment unless
+ * it already has them (LADDER_*, REFERENCE_*, RISK_*, ...)
+ */
+export function resolveSettings(
+    options: OptionSpec[],
+    flags: Record<string, unknown>,
+    layers: SettingsLayer[] = []
+): ResolvedSettings {
+    const settings: ResolvedSettings = { values: {}, env: {} };
+    const aliases = optionAliases(options);
+    const knownKeys = optionAliases(Object.values(COMMANDS).flatMap((command) => command.options));
+
+    const layerValues = layers.map((layer) => {
+        const values = new Map<OptionSpec, unknown>();
+        for (const [key, raw] of Object.entries(layer.values)) {
+            if (RESERVED_KEYS.includes(key) || raw === null || raw === undefined) continue;
+
+            const option = aliases.get(key);
+            if (option) {
+                if (!values.has(option)) values.set(option, raw);
+            } else if (ENV_NAME.test(key)) {
+                if (!process.env[key] && settings.env[key] === undefined) {
+                    settings.env[key] = Array.isArray(raw) ? raw.join(',') : String(raw);
+                }
+            } else if (layer.strict || !knownKeys.has(key)) {
+                throw new UsageError(`Unknown setting "${key}" in ${layer.source}`);
+            }
+        }
+        return { source: layer.source, values };
+    });
+
+    for (const option of options) {
+        const layer = layerValues.find((candidate) => candidate.values.has(option));
+        let raw: unknown;
+        let source: string;
+        if (flags[option.name] !== undefined) {
+            [raw, source] = [flags[option.name], 'flag'];
+        } else if (option.env && process.env[option.env]) {
+            [raw, source] = [process.env[option.env], option.env];
+        } else if (layer) {
+            [raw, source] = [layer.values.get(option), layer.source];
+        } else {
+            continue;
+        }
+
+        const value = normalizeValue(option, raw, source);
+        settings.values[option.name] = value;
+        if (option.env) settings.env[option.env] = value;
+    }
+
+    return settings;
+}
+
+/**
+ * Config file layers of a command, highest precedence first: the bot instance (--config file or
+ * --profile from the config profiles), the settings of its exchange, the defaults
+ */
+function settingsLayers(name: string, command: Command, flags: Record<string, unknown>): SettingsLayer[] {
+    const profiles = getConfigProfiles();
+    const file = profiles.source || 'config file';
+    const configPath = flags.config as string | undefined;
+    const profileName = flags.profile as string | undefined;
+
+    let instance: SettingsLayer | undefined;
+    if (configPath && profileName) {
+        throw new UsageError('Pass either --config or --profile, not both');
+    } else if (configPath) {
+        instance = { source: configPath, values: loadBotSettingsFile(configPath), strict: true };
+    } else if (profileName) {
+        const values = profiles.bots[profileName];
+        if (!values) {
+            throw new UsageError(
+                `Unknown bot profile "${profileName}" ` +
+                    (profiles.source ? `(${file} has ${Object.keys(profiles.bots).join(', ') || 'none'})` : '(no config file found)')
+            );
+        }
+        if (values.command && values.command !== name) {
+            throw new UsageError(`Bot profile "${profileName}" is a "${values.command}" profile, not "${name}"`);
+        }
+        instance = { source: `bots.${profileName} in ${file}`, values, strict: true };
+    }
+    const defaults: SettingsLayer = { source: `defaults in ${file}`, values: profiles.defaults, strict: false };
+
+    // The exchange picks the exchange layer, so it is resolved from the other layers first
+    const exchangeKeys = [...optionAliases(command.options.filter((option) => option.name === 'exchange')).keys()];
+    const exchange = [flags.exchange, process.env.EXCHANGE, instance?.values, defaults.values]
+        .map((candidate) =>
+            candidate && typeof candidate === 'object'
+                ? exchangeKeys.map((key) => (candidate as BotSettings)[key]).find((value) => value !== undefined)
+                : candidate
+        )
+        .find((value) => value !== undefined && value !== '');
+    const exchangeSettings = typeof exchange === 'string' ? profiles.exchanges[exchange]?.settings : undefined;
+
+    return [
+        ...(instance ? [instance] : []),
+        ...(exchangeSettings ? [{ source: `exchanges.${exchange}.settings in ${file}`, values: exchangeSettings, strict: false }] : []),
+        defaults,
+    ];
+}
+
+function printConfig(title: string, config: object): void {
+    console.log(`\n⚙️  ${title}`);
+    console.log('-'.repeat(60));
+    console.log(yaml.dump(redactSecrets(config), { lineWidth: 120, skipInvalid: true }).trimEnd());
+    console.log('-'.repeat(60));
+}
+
+function printTable(rows: string[][]): void {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    for (const row of rows) {
+        console.log('   ' + row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+    }
+}
+
+const requireValue = (settings: ResolvedSettings, name: string) => {
+    const value = settings.values[name];
+    if (!value) throw new UsageError(`--${name} is required`);
+    return value;
+};
+
+/**
+ * Problem with the exchange or its key set, undefined when it can be used
+ */
+function exchangeProblem(exchangeName: string, keySet?: string): string | undefined {
+    if (exchangeName === 'mock') return undefined;
+    if (!isConfiguredExchange(exchangeName)) {
+        return `Exchange "${exchangeName}" is not configured (available: ${[...listExchanges(), 'mock'].join(', ')})`;
+    }
+    try {
+        getExchangeConfig(exchangeName, keySet);
+        return undefined;
+    } catch (error) {
+        return errorMessage(error);
+    }
+}
+
+/**
+ * Exchange of a utility command, with its --key-set
+ */
+function utilityExchange(settings: ResolvedSettings) {
+    const exchangeName = requireValue(settings, 'exchange');
+    const keySet = settings.values['key-set'];
+    const problem = exchangeProblem(exchangeName, keySet);
+    if (problem) throw new UsageError(problem);
+    return initExchange(exchangeName, false, false, keySet);
+}
+
+// ============================================================================
+// BOT COMMANDS
+// ============================================================================
+
+const KEY_SET_OPTION: OptionSpec = {
+    name: 'key-set',
+    env: 'KEY_SET',
+    kind: 'string',
+    description: 'API key set of the exchange (default: default, see config show)',
+};
+
+const COMMON_BOT_OPTIONS: OptionSpec[] = [
+    { name: 'exchange', env: 'EXCHANGE', kind: 'string', description: 'Exchange to trade on (configured exchange or mock)' },
+    KEY_SET_OPTION,
+    { name: 'symbol', env: 'SYMBOL', kind: 'string', description: 'Market, e.g. ORBD/USDT' },
+    { name: 'bot-tag', env: 'BOT_TAG', kind: 'string', description: 'clientOrderId tag (tells two instances apart)' },
+];
+
+const PRICE_REFERENCE_OPTION: OptionSpec = {
+    name: 'price-reference',
+    env: 'PRICE_REFERENCE',
+    kind: 'string',
+    choices: PRICE_REFERENCES,
+    description: 'Reference price the ladder is built around',
+};
+
+const LADDER_OPTIONS: OptionSpec[] = [
+    { name: 'spread-percent', env: 'SPREAD_PERCENT', kind: 'number', description: 'Spread from the reference price (%)' },
+    { name: 'orders', env: 'NUMBER_OF_ORDERS', kind: 'integer', description: 'Orders per side' },
+    PRICE_REFERENCE_OPTION,
+];
+
+const MONITOR_OPTIONS: OptionSpec[] = [
+    { name: 'drift-threshold-percent', env: 'DRIFT_THRESHOLD_PERCENT', kind: 'number', description: 'Price drift that refreshes the ladder (%)' },
+    { name: 'monitor-interval', env: 'MONITOR_INTERVAL_SECONDS', kind: 'number', description: 'Seconds between monitor cycles' },
+    { name: 'refresh-mode', env: 'REFRESH_MODE', kind: 'string', choices: ['incremental', 'replace'], description: 'How the ladder is refreshed' },
+    { name: 'stream', env: 'MARKET_STREAM', kind: 'boolean', description: 'Run cycles on WebSocket updates' },
+];
+
+const SIDE_AMOUNT_OPTIONS: OptionSpec[] = [
+    { name: 'total-quote-amount', env: 'TOTAL_QUOTE_AMOUNT', kind: 'number', description: 'Quote amount per side' },
+    { name: 'bid-amount', env: 'BID_TOTAL_QUOTE_AMOUNT', kind: 'number', description: 'Quote amount on the bid side' },
+    { name: 'ask-amount', env: 'ASK_TOTAL_QUOTE_AMOUNT', kind: 'number', description: 'Quote amount on the ask side' },
+];
+
+const AI_OPTIONS: OptionSpec[] = [
+    { name: 'timeframe', env: 'TIMEFRAME', kind: 'string', description: 'Candle timeframe, e.g. 1m' },
+    { name: 'candles', env: 'CANDLE_COUNT', kind: 'integer', description: 'Candles sent to the model' },
+    { name: 'check-interval', env: 'CHECK_INTERVAL_SECONDS', kind: 'number', description: 'Seconds between decisions' },
+    { name: 'model', env: 'AI_MODEL', kind: 'string', description: 'OpenRouter model id' },
+    { name: 'stop-loss-percent', env: 'STOP_LOSS_PERCENT', kind: 'number', description: 'Stop-loss distance (%)' },
+    { name: 'take-profit-percent', env: 'TAKE_PROFIT_PERCENT', kind: 'number', description: 'Take-profit distance (%)' },
+];
+
+const requireOpenRouterKey = (config: { openRouterApiKey: string }) =>
+    config.openRouterApiKey ? [] : ['OPENROUTER_API_KEY is not set'];
+
+/**
+ * Market exists (and balances, where the credentials allow) - the dry-run check against the exchange
+ */
+async function checkMarket(exchangeName: ExchangeName, symbol: string): Promise<void> {
+    const exchange = initExchange(exchangeName);
+    const market = await marketData.getMarketInfo(exchange, symbol);
+
+    console.log(
+        `✅ ${market.symbol} on ${exchange.id}: ${market.active === false ? 'INACTIVE' : 'active'}` +
+            ` | min amount ${market.limits?.amount?.min ?? '-'} | min cost ${market.limits?.cost?.min ?? '-'}`
+    );
+
+    try {
+        const balance = await account.fetchBalance(exchange);
+        const line = (currency: string) =>
+            `${currency} ${balance.free?.[currency] ?? 0} free / ${balance.total?.[currency] ?? 0} total`;
+        console.log(`💰 ${line(market.base)} | ${line(market.quote)}`);
+    } catch (error) {
+        console.log(`⚠️  Balance unavailable: ${errorMessage(error)}`);
+    }
+}
+
+function botCommand<T extends { exchange: string; symbol: string }>(bot: BotSpec<T>): Command {
+    return {
+        summary: bot.summary,
+        options: [
+            ...COMMON_BOT_OPTIONS.filter((common) => !bot.options.some((option) => option.name === common.name)),
+            ...bot.options,
+        ],
+        run: async ({ settings, dryRun }) => {
+            Object.assign(process.env, settings.env);
+
+            let config: T;
+            try {
+                config = bot.fromEnv();
+            } catch (error) {
+                throw new UsageError(errorMessage(error));
+            }
+            const problems = [
+                exchangeProblem(config.exchange),
+                ...(config.symbol.includes('/') ? [] : [`--symbol must look like BASE/QUOTE, got "${config.symbol}"`]),
+                ...(bot.check?.(config) || []),
+            ].filter(Boolean);
+            if (problems.length > 0) {
+                throw new UsageError(problems.join('\n   '));
+            }
+
+            printConfig(`${bot.summary}${dryRun ? ' (dry-run)' : ''}`, config);
+            if (config.exchange !== 'mock') {
+                console.log(`🔑 Key set: ${process.env.KEY_SET || 'default'}`);
+            }
+
+            if (dryRun) {
+                await checkMarket(config.exchange as ExchangeName, config.symbol);
+                console.log('🧪 Dry run - bot not started\n');
+                return;
+            }
+            await bot.run(config);
+        },
+    };
+}
+
+// ============================================================================
+// UTILITY COMMANDS
+// ============================================================================
+
+const EXCHANGE_OPTIONS: OptionSpec[] = [{ ...COMMON_BOT_OPTIONS[0], description: 'Exchange to query' }, KEY_SET_OPTION];
+
+const balanceCommand: Command = {
+    summary: 'Account balances',
+    options: [
+        ...EXCHANGE_OPTIONS,
+        { name: 'currency', kind: 'string', description: 'Comma-separated currencies (default: all non-zero)' },
+    ],
+    run: async ({ settings }) => {
+        const exchange = utilityExchange(settings);
+        const balance = await account.fetchBalance(exchange);
+
+        const currencies = settings.values.currency
+            ? settings.values.currency.split(',').map((currency) => currency.trim().toUpperCase())
+            : Object.keys(balance.total || {}).filter((currency) => balance.total[currency] > 0).sort();
+        if (currencies.length === 0) {
+            console.log(`💰 No balances on ${exchange.id}`);
+            return;
+        }
+
+        console.log(`\n💰 Balances on ${exchange.id}`);
+        printTable([
+            ['CURRENCY', 'FREE', 'USED', 'TOTAL'],
+            ...currencies.map((currency) => [
+                currency,
+                String(balance.free?.[currency] ?? 0),
+                String(balance.used?.[currency] ?? 0),
+                String(balance.total?.[currency] ?? 0),
+            ]),
+        ]);
+        console.log('');
+    },
+};
+
+const ORDER_FILTER_OPTIONS: OptionSpec[] = [
+    ...EXCHANGE_OPTIONS,
+    { name: 'symbol', env: 'SYMBOL', kind: 'string', description: 'Only this market' },
+    { name: 'bot', kind: 'string', description: 'Only orders tagged by this bot (e.g. mono, both, grid)' },
+];
+
+/**
+ * The parts of a ccxt order the order commands print
+ */
+interface ListedOrder {
+    id: string;
+    symbol: string;
+    side: string;
+    price?: number;
+    amount?: number;
+    filled?: number;
+    clientOrderId?: string;
+}
+
+/**
+ * Open orders matching the --symbol / --bot filters
+ */
+async function findOrders(settings: ResolvedSettings): Promise<{ exchange: ccxt.Exchange; orders: ListedOrder[] }> {
+    const exchange = utilityExchange(settings);
+    const { symbol, bot } = settings.values;
+    const orders = bot
+        ? await trading.fetchBotOpenOrders(exchange, { bot }, symbol)
+        : await trading.fetchOpenOrders(exchange, symbol);
+    return { exchange, orders };
+}
+
+function printOrders(exchange: ccxt.Exchange, orders: ListedOrder[]): void {
+    printTable([
+        ['ID', 'SYMBOL', 'SIDE', 'PRICE', 'AMOUNT', 'FILLED', 'BOT'],
+        ...orders.map((order) => [
+            String(order.id),
+            order.symbol,
+            order.side,
+            String(order.price ?? '-'),
+            String(order.amount ?? '-'),
+            String(order.filled ?? 0),
+            trading.parseOrderTag(exchange, order.clientOrderId)?.bot || '-',
+        ]),
+    ]);
+}
+
+const ordersListCommand: Command = {
+    summary: 'List open orders',
+    options: ORDER_FILTER_OPTIONS,
+    run: async ({ settings }) => {
+        const { exchange, orders } = await findOrders(settings);
+        console.log(`\n📋 ${orders.length} open order(s) on ${exchange.id}`);
+        if (orders.length > 0) printOrders(exchange, orders);
+        console.log('');
+    },
+};
+
+const ordersCancelCommand: Command = {
+    summary: 'Cancel open orders of one bot (--bot) or all of them (--all)',
+    options: [...ORDER_FILTER_OPTIONS, { name: 'all', kind: 'boolean', description: 'Cancel every open order, manual ones included' }],
+    run: async ({ settings, dryRun }) => {
+        if (!settings.values.bot && settings.values.all !== 'true') {
+            throw new UsageError('Pass --bot <tag> to cancel one bot\'s orders or --all to cancel every open order');
+        }
+
+        const { exchange, orders } = await findOrders(settings);
+        if (orders.length === 0) {
+            console.log(`✅ No matching open orders on ${exchange.id}`);
+            return;
+        }
+
+        console.log(`\n🗑️  ${dryRun ? 'Would cancel' : 'Cancelling'} ${orders.length} order(s) on ${exchange.id}`);
+        printOrders(exchange, orders);
+        if (dryRun) {
+            console.log('🧪 Dry run - nothing cancelled\n');
+            return;
+        }
+
+        const bySymbol = new Map<string, string[]>();
+        for (const order of orders) {
+            bySymbol.set(order.symbol, [...(bySymbol.get(order.symbol) || []), order.id]);
+        }
+        for (const [symbol, ids] of bySymbol) {
+            const result = await trading.cancelOrders(exchange, ids, symbol);
+            console.log(
+                `✅ ${symbol}: ${result.cancelled.length} cancelled, ${result.alreadyGone.length} already gone` +
+                    (result.failed.length > 0 ? `, ${result.failed.length} failed` : '')
+            );
+            if (result.failed.length > 0) process.exitCode = 1;
+        }
+        console.log('');
+    },
+};
+
+const marketsCommand: Command = {
+    summary: 'List markets with their limits',
+    options: [
+        ...EXCHANGE_OPTIONS,
+        { name: 'base', kind: 'string', description: 'Only this base currency' },
+        { name: 'quote', kind: 'string', description: 'Only this quote currency' },
+        { name: 'type', kind: 'string', choices: ['spot', 'margin', 'swap', 'future', 'option'], description: 'Only this market type' },
+        { name: 'limit', kind: 'integer', description: 'Rows to print (default: 50)' },
+    ],
+    run: async ({ settings }) => {
+        const exchange = utilityExchange(settings);
+        const { base, quote, type } = settings.values;
+        const limit = parseInt(settings.values.limit || '50');
+
+        const markets = (await marketData.fetchMarkets(exchange))
+            .filter((market) => !base || market.base === base.toUpperCase())
+            .filter((market) => !quote || market.quote === quote.toUpperCase())
+            .filter((market) => !type || market.type === type)
+            .sort((a, b) => String(a.symbol).localeCompare(String(b.symbol)));
+
+        console.log(`\n🏪 ${markets.length} market(s) on ${exchange.id}${markets.length > limit ? ` (first ${limit})` : ''}`);
+        if (markets.length === 0) return;
+        printTable([
+            ['SYMBOL', 'TYPE', 'ACTIVE', 'PRICE STEP', 'AMOUNT STEP', 'MIN AMOUNT', 'MIN COST'],
+            ...markets.slice(0, limit).map((market) => [
+                market.symbol,
+                String(market.type ?? '-'),
+                market.active === false ? 'no' : 'yes',
+                String(market.precision?.price ?? '-'),
+                String(market.precision?.amount ?? '-'),
+                String(market.limits?.amount?.min ?? '-'),
+                String(market.limits?.cost?.min ?? '-'),
+            ]),
+        ]);
+        console.log('');
+    },
+};
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const configShowCommand: Command = {
+    summary: 'Merged config profiles: exchanges, key sets, defaults and bot instances',
+    options: [],
+    run: async () => {
+        const profiles = getConfigProfiles();
+        console.log(`\n📄 Config file: ${profiles.source || 'none (ALGO_VISTA_CONFIG or bots/algo-vista.yaml)'}`);
+
+        // Env names and whether they are set, never the values themselves
+        const refState = (name?: string) =>
+            name ? `${name} (${process.env[name] ? maskSecret(process.env[name] as string) : 'missing'})` : '-';
+        const vault = getUnlockedVault();
+
+        console.log('\n🔑 Exchanges');
+        printTable([
+            ['EXCHANGE', 'KEY SET', 'SOURCE', 'API KEY', 'SECRET', 'PASSWORD'],
+            ...Object.entries(profiles.exchanges).flatMap(([exchangeName, profile]) =>
+                Object.entries(profile.keys)
+                    .filter(([keySet]) => !vault?.get(exchangeName, keySet))
+                    .map(([keySet, refs]) => [
+                        exchangeName,
+                        keySet,
+                        'env',
+                        refState(refs.apiKey),
+                        refState(refs.secret),
+                        refState(refs.password),
+                    ])
+            ),
+            ...(vault?.list() || []).map(({ exchange, account, credentials }) => [
+                exchange,
+                account,
+                'vault',
+                maskSecret(credentials.apiKey),
+                maskSecret(credentials.secret),
+                credentials.password ? maskSecret(credentials.password) : '-',
+            ]),
+        ]);
+        if (isVaultLocked()) console.log(`\n🔒 Vault ${vaultFilePath()} is locked - its accounts are not listed`);
+
+        const configured = Object.fromEntries(
+            Object.entries(profiles.exchanges)
+                .filter(([, profile]) => Object.keys(profile.options || {}).length > 0 || Object.keys(profile.settings || {}).length > 0)
+                .map(([exchangeName, profile]) => [exchangeName, { options: profile.options, settings: profile.settings }])
+        );
+        if (Object.keys(configured).length > 0) printConfig('Exchange options and settings', configured);
+        if (Object.keys(profiles.defaults).length > 0) printConfig('Defaults', profiles.defaults);
+        if (Object.keys(profiles.bots).length > 0) printConfig('Bots (algo-vista run <name>)', profiles.bots);
+        console.log('');
+    },
+};
+
+// ============================================================================
+// VAULT
+// ============================================================================
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+function promptHidden(question: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+        return Promise.reject(new UsageError(`"${question.trim()}" needs a terminal (or ${VAULT_PASSPHRASE_ENV} / --from-env)`));
+    }
+
+    return new Promise((resolve, reject) => {
+        const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: true }) as Interface & {
+            _writeToOutput: (text: string) => void;
+        };
+        let muted = false;
+        rl._writeToOutput = (text) => {
+            if (!muted) process.stdout.write(text);
+        };
+        rl.on('SIGINT', () => {
+            rl.close();
+            process.stdout.write('\n');
+            reject(new UsageError('Cancelled'));
+        });
+        rl.question(question, (answer) => {
+            rl.close();
+            process.stdout.write('\n');
+            resolve(answer.trim());
+        });
+        muted = true;
+    });
+}
+
+/**
+ * ALGO_VISTA_VAULT_PASSPHRASE, else a prompt (twice for a new vault)
+ */
+async function vaultPassphrase(confirm = false): Promise<string> {
+    if (process.env[VAULT_PASSPHRASE_ENV]) return process.env[VAULT_PASSPHRASE_ENV] as string;
+
+    const passphrase = await promptHidden('🔐 Vault passphrase: ');
+    if (confirm && (await promptHidden('🔐 Repeat the passphrase: ')) !== passphrase) {
+        throw new UsageError('The passphrases do not match');
+    }
+    return passphrase;
+}
+
+/**
+ * Unlock the vault before a command talks to an exchange. Without a passphrase or a terminal the
+ * vault stays locked and the credentials come from the environment
+ */
+async function unlockVaultAtStartup(): Promise<void> {
+    if (!vaultExists() || getUnlockedVault()) return;
+
+    if (!process.stdin.isTTY) {
+        console.warn(`🔒 Vault ${vaultFilePath()} is locked (no ${VAULT_PASSPHRASE_ENV}) - using environment credentials`);
+        return;
+    }
+    unlockVault(await vaultPassphrase());
+    console.log(`🔓 Vault unlocked (${vaultFilePath()})`);
+}
+
+/**
+ * The vault to change, created on the first add
+ */
+async function openVault(create: boolean): Promise<CredentialVault> {
+    if (vaultExists()) return getUnlockedVault() || unlockVault(await vaultPassphrase());
+    if (!create) throw new UsageError(`No vault at ${vaultFilePath()} - create it with vault add`);
+
+    console.log(`🆕 Creating vault ${vaultFilePath()}`);
+    return CredentialVault.create(await vaultPassphrase(true));
+}
+
+const VAULT_ENTRY_OPTIONS: OptionSpec[] = [
+    { name: 'exchange', kind: 'string', description: 'Exchange id (ccxt), e.g. xt' },
+    { name: 'account', kind: 'string', description: 'Account - the key set name (default: default)' },
+];
+
+const FROM_ENV_OPTION: OptionSpec = {
+    name: 'from-env',
+    kind: 'boolean',
+    description: 'Copy the key set from its environment variables (see config show) instead of prompting',
+};
+
+function vaultEntry(settings: ResolvedSettings): { exchange: string; account: string } {
+    const exchange = requireValue(settings, 'exchange');
+    if (!ccxt.exchanges.includes(exchange) && !isConfiguredExchange(exchange)) {
+        throw new UsageError(`"${exchange}" is not a ccxt exchange id`);
+    }
+    return { exchange, account: settings.values.account || 'default' };
+}
+
+/**
+ * New credentials from the key set's environment variables or hidden prompts
+ */
+async function readCredentials(exchange: string, account: string, fromEnv: boolean): Promise<CredentialInput> {
+    if (fromEnv) {
+        const refs = getConfigProfiles().exchanges[exchange]?.keys[account];
+        if (!refs) throw new UsageError(`No key set "${account}" for ${exchange} in the environment (see config show)`);
+
+        const input = {
+            apiKey: resolveSecret(refs.apiKey),
+            secret: resolveSecret(refs.secret),
+            password: refs.password && resolveSecret(refs.password),
+            uid: refs.uid && resolveSecret(refs.uid),
+        };
+        if (!input.apiKey || !input.secret) throw new UsageError(`${refs.apiKey} and ${refs.secret} must be set`);
+        console.log(`📥 ${exchange}/${account} from ${[refs.apiKey, refs.secret, refs.password, refs.uid].filter(Boolean).join(', ')}`);
+        return input;
+    }
+
+    console.log(`Credentials for ${exchange}/${account} (hidden input, Enter skips optional fields)`);
+    return {
+        apiKey: await promptHidden('   API key: '),
+        secret: await promptHidden('   Secret: '),
+        password: await promptHidden('   Password / passphrase (optional): '),
+        uid: await promptHidden('   UID (optional): '),
+    };
+}
+
+const vaultAddCommand: Command = {
+    summary: 'Add an exchange account to the credential vault (creates the vault)',
+    options: [...VAULT_ENTRY_OPTIONS, FROM_ENV_OPTION],
+    run: async ({ settings }) => {
+        const { exchange, account } = vaultEntry(settings);
+        const vault = await openVault(true);
+        if (vault.get(exchange, account)) throw new UsageError(`${exchange}/${account} is already in the vault - use vault rotate`);
+
+        const input = await readCredentials(exchange, account, settings.values['from-env'] === 'true');
+        vault.add(exchange, account, input);
+        vault.save();
+        console.log(`✅ Added ${exchange}/${account} (API key ${maskSecret(input.apiKey)}) to ${vault.file}`);
+        if (settings.values['from-env'] === 'true') {
+            console.log('   The vault wins over the environment from now on - remove the keys from .env');
+        }
+    },
+};
+
+const vaultRotateCommand: Command = {
+    summary: 'Replace the credentials of a vault account',
+    options: [...VAULT_ENTRY_OPTIONS, FROM_ENV_OPTION],
+    run: async ({ settings }) => {
+        const { exchange, account } = vaultEntry(settings);
+        const vault = await openVault(false);
+        const current = vault.get(exchange, account);
+        if (!current) throw new UsageError(`${exchange}/${account} is not in the vault - use vault add`);
+
+        const input = await readCredentials(exchange, account, settings.values['from-env'] === 'true');
+        vault.rotate(exchange, account, input);
+        vault.save();
+        console.log(`🔄 Rotated ${exchange}/${account}: API key ${maskSecret(current.apiKey)} → ${maskSecret(input.apiKey)}`);
+    },
+};
+
+const vaultRemoveCommand: Command = {
+    summary: 'Remove an account from the credential vault',
+    options: VAULT_ENTRY_OPTIONS,
+    run: async ({ settings, dryRun }) => {
+        const { exchange, account } = vaultEntry(settings);
+        const vault = await openVault(false);
+        if (!vault.get(exchange, account)) throw new UsageError(`${exchange}/${account} is not in the vault`);
+        if (dryRun) {
+            console.log(`🧪 Dry run - would remove ${exchange}/${account}`);
+            return;
+        }
+
+        vault.remove(exchange, account);
+        vault.save();
+        console.log(`🗑️  Removed ${exchange}/${account} from ${vault.file}`);
+    },
+};
+
+const vaultListCommand: Command = {
+    summary: 'Accounts in the credential vault (keys masked)',
+    options: [{ name: 'exchange', kind: 'string', description: 'Only this exchange' }],
+    run: async ({ settings }) => {
+        const vault = await openVault(false);
+        const entries = vault.list().filter(({ exchange }) => !settings.values.exchange || exchange === settings.values.exchange);
+        if (entries.length === 0) {
+            console.log(`🔐 No accounts in ${vault.file}`);
+            return;
+        }
+
+        console.log(`\n🔐 ${vault.file}`);
+        printTable([
+            ['EXCHANGE', 'ACCOUNT', 'API KEY', 'SECRET', 'PASSWORD', 'UID', 'UPDATED'],
+            ...entries.map(({ exchange, account, credentials }) => [
+                exchange,
+                account,
+                maskSecret(credentials.apiKey),
+                maskSecret(credentials.secret),
+                credentials.password ? maskSecret(credentials.password) : '-',
+                credentials.uid ? maskSecret(credentials.uid) : '-',
+                new Date(credentials.updatedAt).toISOString().slice(0, 19).replace('T', ' '),
+            ]),
+        ]);
+        console.log('');
+    },
+};
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+export const COMMANDS: Record<string, Command> = {
+    'mm mono': botCommand({
+        summary: 'Mono-side market maker (one ladder on the bid or ask side)',
+        options: [
+            { name: 'side', env: 'SIDE', kind: 'string', choices: ['bid', 'ask'], description: 'Side to quote' },
+            SIDE_AMOUNT_OPTIONS[0],
+            ...LADDER_OPTIONS,
+            ...MONITOR_OPTIONS,
+        ],
+        fromEnv: mmMonoSide.monoSideConfigFromEnv,
+        run: mmMonoSide.runBot,
+    }),
+    'mm both': botCommand({
+        summary: 'Two-sided market maker with inventory skew',
+        options: [...SIDE_AMOUNT_OPTIONS, ...LADDER_OPTIONS, ...MONITOR_OPTIONS],
+        fromEnv: mmBothSide.bothSideConfigFromEnv,
+        run: mmBothSide.runBot,
+    }),
+    'mm spread': botCommand({
+        summary: 'Spread market maker (fixed ladder on both sides)',
+        options: [...SIDE_AMOUNT_OPTIONS, ...LADDER_OPTIONS],
+        fromEnv: mmSpread.spreadConfigFromEnv,
+        run: mmSpread.runBot,
+    }),
+    'mm large-orders': botCommand({
+        summary: 'Large order (wall) detection market maker',
+        options: [
+            { name: 'threshold', env: 'LARGE_ORDER_THRESHOLD', kind: 'number', description: 'Minimum wall size (base)' },
+            { name: 'order-amount', env: 'ORDER_AMOUNT', kind: 'number', description: 'Amount per order (base)' },
+            { name: 'spread-multiplier', env: 'SPREAD_MULTIPLIER', kind: 'number', description: 'Spread multiplier next to a wall' },
+            { name: 'min-spread-percent', env: 'MIN_SPREAD_PERCENT', kind: 'number', description: 'Minimum spread (%)' },
+            { name: 'max-distance-percent', env: 'MAX_DISTANCE_PERCENT', kind: 'number', description: 'Walls further from mid are ignored (%)' },
+            { name: 'refresh-interval', env: 'REFRESH_INTERVAL_SECONDS', kind: 'number', description: 'Seconds between book checks' },
+            { name: 'book-depth', env: 'BOOK_DEPTH', kind: 'integer', description: 'Order book levels to maintain' },
+            { name: 'stream', env: 'MARKET_STREAM', kind: 'boolean', description: 'Maintain the book from the WebSocket stream' },
+            { name: 'pnl-interval', env: 'PNL_INTERVAL_SECONDS', kind: 'number', description: 'Max seconds between PnL updates without a fill' },
+        ],
+        fromEnv: mmLargeOrders.largeOrderConfigFromEnv,
+        run: mmLargeOrders.runBot,
+    }),
+    'mm grid': botCommand({
+        summary: 'Grid trading bot',
+        options: [
+            { name: 'lower-price', env: 'GRID_LOWER_PRICE', kind: 'number', description: 'Bottom of the grid range' },
+            { name: 'upper-price', env: 'GRID_UPPER_PRICE', kind: 'number', description: 'Top of the grid range' },
+            { name: 'grids', env: 'GRID_COUNT', kind: 'integer', description: 'Number of grids' },
+            { name: 'spacing', env: 'GRID_SPACING', kind: 'string', choices: ['arithmetic', 'geometric'], description: 'Grid spacing' },
+            { name: 'investment', env: 'GRID_INVESTMENT', kind: 'number', description: 'Quote amount across the grid' },
+            { name: 'trailing', env: 'GRID_TRAILING', kind: 'boolean', description: 'Move the grid when the price leaves the range' },
+            { name: 'stop-loss-price', env: 'GRID_STOP_LOSS_PRICE', kind: 'number', description: 'Stop out below this price' },
+            { name: 'take-profit-price', env: 'GRID_TAKE_PROFIT_PRICE', kind: 'number', description: 'Stop out above this price' },
+            { name: 'sell-on-stop', env: 'GRID_SELL_ON_STOP', kind: 'boolean', description: 'Market-sell the held base when stopped out' },
+            { name: 'monitor-interval', env: 'MONITOR_INTERVAL_SECONDS', kind: 'number', description: 'Seconds between monitor cycles' },
+        ],
+        fromEnv: gridBot.gridConfigFromEnv,
+        check: (config) =>
+            config.upperPrice > config.lowerPrice && config.lowerPrice > 0
+                ? []
+                : [`Grid range needs 0 < --lower-price < --upper-price, got ${config.lowerPrice} - ${config.upperPrice}`],
+        run: gridBot.runBot,
+    }),
+    'ai spot': botCommand({
+        summary: 'AI spot trading bot (OpenRouter)',
+        options: [
+            { name: 'trade-amount', env: 'TRADE_AMOUNT', kind: 'number', description: 'Quote amount per trade' },
+            ...AI_OPTIONS,
+            { name: 'protective-orders', env: 'PROTECTIVE_ORDERS', kind: 'string', choices: ['true', 'false'], description: 'Stop-loss/take-profit OCO after every BUY (default: false)' },
+            { name: 'decision-log', env: 'AI_DECISION_LOG', kind: 'string', description: 'NDJSON file to record decisions in' },
+        ],
+        fromEnv: aiSpot.aiSpotConfigFromEnv,
+        check: (config) => requireOpenRouterKey(config),
+        run: aiSpot.runBot,
+    }),
+    'ai futures': botCommand({
+        summary: 'AI futures trading bot (Binance, OpenRouter)',
+        options: [
+            { name: 'exchange', env: 'EXCHANGE', kind: 'string', choices: ['binance', 'mock'], description: 'binance, or mock for offline runs' },
+            { name: 'position-size', env: 'POSITION_SIZE', kind: 'number', description: 'Position size (USDT)' },
+            { name: 'leverage', env: 'LEVERAGE', kind: 'integer', description: 'Leverage' },
+            ...AI_OPTIONS,
+        ],
+        fromEnv: aiFutures.aiFuturesConfigFromEnv,
+        check: (config) => requireOpenRouterKey(config),
+        run: aiFutures.runBot,
+    }),
+    balance: balanceCommand,
+    'orders list': ordersListCommand,
+    'orders cancel': ordersCancelCommand,
+    markets: marketsCommand,
+    'config show': configShowCommand,
+    'vault add': vaultAddCommand,
+    'vault rotate': vaultRotateCommand,
+    'vault remove': vaultRemoveCommand,
+    'vault list': vaultListCommand,
+};
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function printHelp(): void {
+    console.log('🤖 Algo Vista Bots\n');
+    console.log('Usage: algo-vista <command> [options]\n');
+    console.log('Commands:');
+    printTable([
+        ...Object.entries(COMMANDS).map(([name, command]) => [name, command.summary]),
+        ['run <profile>', 'Bot instance from the config profiles (same as <its command> --profile <profile>)'],
+    ]);
+    console.log('\nGlobal options:');
+    printTable([
+        ['-c, --config <file>', 'YAML/JSON settings (flag names, camelCase or env names as keys)'],
+        ['-p, --profile <name>', 'Bot instance from the config profiles (see config show)'],
+        ['--dry-run', 'Validate and print the resolved config, check the market, do not trade'],
+        ['-h, --help', 'Help for a command'],
+    ]);
+    console.log('');
+}
+
+function printCommandHelp(name: string, command: Command): void {
+    console.log(`Usage: algo-vista ${name} [options]\n`);
+    console.log(`${command.summary}\n`);
+    console.log('Options:');
+    printTable(
+        command.options.map((option) => [
+            `--${option.name}${option.kind === 'boolean' ? '' : ` <${option.kind}>`}`,
+            option.env ? `[${option.env}]` : '',
+            option.choices ? `${option.description} (${option.choices.join(', ')})` : option.description,
+        ])
+    );
+    console.log('');
+}
+
+/**
+ * Command for the first one or two arguments. "run <profile>" is the profile's command with --profile
+ */
+function findCommand(argv: string[]): { name?: string; command?: Command; rest: string[] } {
+    if (argv[0] === 'run' && argv[1] && !argv[1].startsWith('-')) {
+        const profileName = argv[1];
+        const profile = getConfigProfiles().bots[profileName];
+        const name = typeof profile?.command === 'string' ? profile.command : undefined;
+        if (!profile) throw new UsageError(`Unknown bot profile "${profileName}" (see algo-vista config show)`);
+        if (!name || !COMMANDS[name]) {
+            throw new UsageError(`Bot profile "${profileName}" needs a command (one of ${Object.keys(COMMANDS).join(', ')})`);
+        }
+        return { name, command: COMMANDS[name], rest: [...argv.slice(2), '--profile', profileName] };
+    }
+
+    const twoWords = argv.slice(0, 2).join(' ');
+    if (COMMANDS[twoWords]) return { name: twoWords, command: COMMANDS[twoWords], rest: argv.slice(2) };
+    if (argv[0] && COMMANDS[argv[0]]) return { name: argv[0], command: COMMANDS[argv[0]], rest: argv.slice(1) };
+    return { rest: argv };
+}
+
+/**
+ * Run the CLI. Sets process.exitCode: 2 for usage errors, 1 for failed commands
+ */
+export async function main(argv: string[] = process.argv.slice(2)): Promise<void> {
+    let found: ReturnType<typeof findCommand>;
+    try {
+        found = findCommand(argv);
+    } catch (error) {
+        console.error(`❌ ${errorMessage(error)}`);
+        process.exitCode = 2;
+        return;
+    }
+
+    const { name, command, rest } = found;
+    if (!name || !command) {
+        printHelp();
+        if (argv.length > 0 && !['-h', '--help', 'help'].includes(argv[0])) {
+            console.error(`❌ Unknown command: ${argv.join(' ')}`);
+            process.exitCode = 2;
+        }
+        return;
+    }
+
+    try {
+        let flags: Record<string, unknown>;
+        try {
+            flags = parseArgs({
+                args: rest,
+                options: {
+                    ...Object.fromEntries(
+                        command.options.map((option) => [
+                            option.name,
+                            { type: option.kind === 'boolean' ? ('boolean' as const) : ('string' as const) },
+                        ])
+                    ),
+                    ...GLOBAL_OPTIONS,
+                },
+                strict: true,
+                allowPositionals: false,
+            }).values;
+        } catch (error) {
+            throw new UsageError(errorMessage(error));
+        }
+
+        if (flags.help) {
+            printCommandHelp(name, command);
+            return;
+        }
+
+        const settings = resolveSettings(command.options, flags, settingsLayers(name, command, flags));
+        if (!name.startsWith('vault ') && settings.values.exchange !== 'mock') {
+            await unlockVaultAtStartup();
+        }
+        await command.run({ settings, dryRun: flags['dry-run'] === true });
+    } catch (error) {
+        if (error instanceof UsageError || error instanceof ConfigError || error instanceof VaultError) {
+            console.error(`❌ ${error.message}`);
+            console.error(`   Usage: algo-vista ${name} --help`);
+            process.exitCode = 2;
+            return;
+        }
+        console.error(`❌ ${name} failed: ${errorMessage(error)}`);
+        process.exitCode = 1;
+    }
+}
+
+// Auto-run when executed directly
+if (require.main === module) {
+    main().catch(console.error);
+}
+
+export default { COMMANDS, main, resolveSettings };
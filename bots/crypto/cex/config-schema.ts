@@ -0,0 +1,112 @@
+/**
+ * Config Schema
+ * Small structural validator for the config files. Every problem is reported with its path
+ * (e.g. exchanges.xt.keys.main.secret) instead of stopping at the first one.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type Schema =
+    | { type: 'string'; enum?: readonly string[]; pattern?: RegExp; hint?: string; sensitive?: boolean } // sensitive: never echo the value
+    | { type: 'number'; min?: number; integer?: boolean }
+    | { type: 'boolean' }
+    | { type: 'scalar' } // string, number, boolean or a list of them (bot settings)
+    | { type: 'object'; properties: Record<string, Schema>; required?: string[]; additional?: Schema; description?: string }
+    | { type: 'record'; values: Schema; keys?: { pattern?: RegExp; enum?: readonly string[]; hint?: string } };
+
+/**
+ * A config file failed to load or validate - one entry per problem
+ */
+export class ConfigError extends Error {
+    readonly problems: string[];
+
+    constructor(source: string, problems: string[]) {
+        super(`Invalid config in ${source}:\n${problems.map((problem) => `   - ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+        this.problems = problems;
+    }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const describe = (value: unknown) =>
+    value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value === 'string' ? `"${value}"` : typeof value;
+
+const isScalar = (value: unknown) => ['string', 'number', 'boolean'].includes(typeof value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Problems of a value against a schema, empty when it is valid
+ */
+export function validateSchema(value: unknown, schema: Schema, path = ''): string[] {
+    const at = path || '(root)';
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return [`${at}: expected a string, got ${describe(value)}`];
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [`${at}: expected one of ${schema.enum.join(', ')}, got "${value}"`];
+            }
+            if (schema.pattern && !schema.pattern.test(value)) {
+                const got = schema.sensitive ? '' : `, got "${value}"`;
+                return [`${at}: ${schema.hint || `does not match ${schema.pattern}`}${got}`];
+            }
+            return [];
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) return [`${at}: expected a number, got ${describe(value)}`];
+            if (schema.integer && !Number.isInteger(value)) return [`${at}: expected an integer, got ${value}`];
+            if (schema.min !== undefined && value < schema.min) return [`${at}: must be at least ${schema.min}, got ${value}`];
+            return [];
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${at}: expected true or false, got ${describe(value)}`];
+        case 'scalar':
+            if (isScalar(value) || (Array.isArray(value) && value.every(isScalar))) return [];
+            return [`${at}: expected a string, number, boolean or list of them, got ${describe(value)}`];
+        case 'object': {
+            if (!isPlainObject(value)) return [`${at}: expected ${schema.description || 'a mapping'}, got ${describe(value)}`];
+
+            const problems: string[] = [];
+            for (const key of schema.required || []) {
+                if (value[key] === undefined || value[key] === null) problems.push(`${path ? `${path}.` : ''}${key}: is required`);
+            }
+            for (const [key, entry] of Object.entries(value)) {
+                if (entry === undefined || entry === null) continue;
+                const entryPath = path ? `${path}.${key}` : key;
+                const entrySchema = schema.properties[key] || schema.additional;
+                if (!entrySchema) {
+                    problems.push(`${entryPath}: unknown key (expected ${Object.keys(schema.properties).join(', ')})`);
+                    continue;
+                }
+                problems.push(...validateSchema(entry, entrySchema, entryPath));
+            }
+            return problems;
+        }
+        case 'record': {
+            if (!isPlainObject(value)) return [`${at}: expected a mapping, got ${describe(value)}`];
+
+            const problems: string[] = [];
+            for (const [key, entry] of Object.entries(value)) {
+                const entryPath = path ? `${path}.${key}` : key;
+                const keys = schema.keys;
+                if (keys?.enum && !keys.enum.includes(key)) {
+                    problems.push(`${entryPath}: ${keys.hint || `unknown key (expected ${keys.enum.join(', ')})`}`);
+                    continue;
+                }
+                if (keys?.pattern && !keys.pattern.test(key)) {
+                    problems.push(`${entryPath}: ${keys.hint || `key does not match ${keys.pattern}`}`);
+                    continue;
+                }
+                problems.push(...validateSchema(entry, schema.values, entryPath));
+            }
+            return problems;
+        }
+    }
+}
+
+export default { validateSchema, ConfigError };
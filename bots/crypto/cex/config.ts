@@ -1,17 +1,31 @@
 /**
  * CEX Configuration
- * Store your exchange API credentials here (use environment variables)
+ * Exchange credentials and bot settings in layers: built-in exchange definitions, then the config
+ * file (defaults → exchange → bot instance), then environment variables. Config files reference API
+ * keys by the name of the environment variable holding them, never by value, and an exchange can
+ * have several key sets (KEY_SET picks one). Accounts in the unlocked credential vault (vault.ts)
+ * are key sets too and win over the environment. Secret values are masked in everything logged.
  */
 
-import { config } from 'dotenv';
-import { resolve } from 'path';
+import { config as loadDotenv } from "dotenv";
+import { existsSync, readFileSync } from "fs";
+import { extname, resolve } from "path";
+import { format } from "util";
+import * as ccxt from "ccxt";
+import * as yaml from "js-yaml";
+import { ConfigError, validateSchema, type Schema } from "./config-schema";
+import { getUnlockedVault, isVaultLocked, VAULT_PASSPHRASE_ENV } from "./vault";
 
-// Load .env from bots directory regardless of where script is run from
-config({ path: resolve(__dirname, '../../.env') });
-import dotenv from "dotenv";
+// Load .env from the bots directory regardless of where the script is run from, then the working directory's
+loadDotenv({ path: [resolve(__dirname, "../../.env"), resolve(process.cwd(), ".env")] });
 
-dotenv.config();
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
 
+/**
+ * Resolved settings of one exchange with the credentials of one key set
+ */
 export interface ExchangeConfig {
     apiKey: string;
     secret: string;
@@ -19,67 +33,409 @@ export interface ExchangeConfig {
     uid?: string;
     enableRateLimit: boolean;
     sandbox?: boolean;
+    timeout?: number;
+    recvWindow?: number;
 }
 
-export const exchangeConfigs: Record<string, ExchangeConfig> = {
-    binance: {
-        apiKey: process.env.BINANCE_API_KEY || "",
-        secret: process.env.BINANCE_SECRET || "",
-        enableRateLimit: true,
-        sandbox: false
-    },
+/**
+ * Names of the environment variables holding one API key set
+ */
+export interface KeySetRefs {
+    apiKey: string;
+    secret: string;
+    password?: string;
+    uid?: string;
+}
+
+export interface ExchangeOptions {
+    enableRateLimit?: boolean;
+    sandbox?: boolean;
+    timeout?: number; // ms
+    recvWindow?: number; // ms
+}
+
+export type SettingValue = string | number | boolean | Array<string | number | boolean>;
+
+/**
+ * Bot settings by flag name, camelCase flag name or environment variable (see cli.ts)
+ */
+export type BotSettings = Record<string, SettingValue>;
+
+export interface ExchangeProfile {
+    keys: Record<string, KeySetRefs>; // Key sets by name - "default" unless KEY_SET picks another
+    options?: ExchangeOptions;
+    settings?: BotSettings; // Bot settings for every bot on this exchange
+}
+
+export interface ConfigProfiles {
+    source?: string; // Config file the profiles were merged from
+    defaults: BotSettings; // Bot settings for every bot
+    exchanges: Record<string, ExchangeProfile>;
+    bots: Record<string, BotSettings>; // Bot instances, each with a `command` (e.g. "mm mono") and its settings
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const BUILTIN_EXCHANGES: Record<string, ExchangeProfile> = {
+    binance: { keys: { default: { apiKey: "BINANCE_API_KEY", secret: "BINANCE_SECRET" } } },
     coinbase: {
-        apiKey: process.env.COINBASE_API_KEY || "",
-        secret: process.env.COINBASE_SECRET || "",
-        password: process.env.COINBASE_PASSWORD || "",
-        enableRateLimit: true,
-        sandbox: false
-    },
-    kraken: {
-        apiKey: process.env.KRAKEN_API_KEY || "",
-        secret: process.env.KRAKEN_SECRET || "",
-        enableRateLimit: true,
-        sandbox: false
-    },
-    bybit: {
-        apiKey: process.env.BYBIT_API_KEY || "",
-        secret: process.env.BYBIT_SECRET || "",
-        enableRateLimit: true,
-        sandbox: false
-    },
-    okx: {
-        apiKey: process.env.OKX_API_KEY || "",
-        secret: process.env.OKX_SECRET || "",
-        password: process.env.OKX_PASSWORD || "",
-        enableRateLimit: true,
-        sandbox: false
-    },
-    xt: {
-        apiKey: process.env.XT_API_KEY || "",
-        secret: process.env.XT_SECRET_KEY || "",
-        enableRateLimit: true,
-        sandbox: false
+        keys: { default: { apiKey: "COINBASE_API_KEY", secret: "COINBASE_SECRET", password: "COINBASE_PASSWORD" } }
     },
+    kraken: { keys: { default: { apiKey: "KRAKEN_API_KEY", secret: "KRAKEN_SECRET" } } },
+    bybit: { keys: { default: { apiKey: "BYBIT_API_KEY", secret: "BYBIT_SECRET" } } },
+    okx: { keys: { default: { apiKey: "OKX_API_KEY", secret: "OKX_SECRET", password: "OKX_PASSWORD" } } },
+    xt: { keys: { default: { apiKey: "XT_API_KEY", secret: "XT_SECRET_KEY" } } },
     bitmart: {
-        apiKey: process.env.BITMART_API_KEY || "",
-        secret: process.env.BITMART_SECRET || "",
-        password: process.env.BITMART_PASSWORD || "",
-        uid: process.env.BITMART_UID || "",
-        enableRateLimit: true,
-        sandbox: false
+        keys: {
+            default: { apiKey: "BITMART_API_KEY", secret: "BITMART_SECRET", password: "BITMART_PASSWORD", uid: "BITMART_UID" }
+        }
     },
-    p2pb2b: {
-        apiKey: process.env.P2PB2B_API_KEY || "",
-        secret: process.env.P2PB2B_SECRET || "",
-        enableRateLimit: true,
-        sandbox: false
-    }
+    p2pb2b: { keys: { default: { apiKey: "P2PB2B_API_KEY", secret: "P2PB2B_SECRET" } } }
 };
 
-console.log(exchangeConfigs)
-
 export const defaultConfig = {
     enableRateLimit: true,
     timeout: 30000,
     recvWindow: 10000
 };
+
+const CONFIG_FILE_NAMES = ["algo-vista.yaml", "algo-vista.yml", "algo-vista.json"];
+const DEFAULT_KEY_SET = "default";
+
+const ENV_NAME = /^[A-Z][A-Z0-9_]*$/;
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+const secretRef: Schema = {
+    type: "string",
+    pattern: ENV_NAME,
+    hint: "must name the environment variable holding the secret (e.g. XT_SECRET_KEY_2), not the secret itself",
+    sensitive: true
+};
+
+const settingsSchema: Schema = { type: "record", values: { type: "scalar" } };
+
+const profilesSchema: Schema = {
+    type: "object",
+    description: "a mapping with defaults, exchanges and bots",
+    properties: {
+        defaults: settingsSchema,
+        exchanges: {
+            type: "record",
+            keys: { enum: [...ccxt.exchanges, ...Object.keys(BUILTIN_EXCHANGES)], hint: "not a ccxt exchange id" },
+            values: {
+                type: "object",
+                properties: {
+                    keys: {
+                        type: "record",
+                        keys: { pattern: PROFILE_NAME, hint: "key set names may only use letters, digits, - and _" },
+                        values: {
+                            type: "object",
+                            properties: { apiKey: secretRef, secret: secretRef, password: secretRef, uid: secretRef },
+                            required: ["apiKey", "secret"]
+                        }
+                    },
+                    options: {
+                        type: "object",
+                        properties: {
+                            enableRateLimit: { type: "boolean" },
+                            sandbox: { type: "boolean" },
+                            timeout: { type: "number", min: 1 },
+                            recvWindow: { type: "number", min: 1 }
+                        }
+                    },
+                    settings: settingsSchema
+                }
+            }
+        },
+        bots: {
+            type: "record",
+            keys: { pattern: PROFILE_NAME, hint: "bot instance names may only use letters, digits, - and _" },
+            values: { type: "object", properties: { command: { type: "string" } }, additional: { type: "scalar" } }
+        }
+    }
+};
+
+// ============================================================================
+// SECRET REDACTION
+// ============================================================================
+
+const SECRET_ENV_NAME = /(_KEY|_KEY_\d+|SECRET|PASSWORD|PASSPHRASE|TOKEN)/;
+const MIN_SECRET_LENGTH = 8;
+const LOG_METHODS = ["log", "info", "warn", "error", "debug"] as const;
+
+const secretValues = new Set<string>();
+let redactingLogs = false;
+
+/**
+ * "****" plus the last 4 characters of longer secrets
+ */
+export function maskSecret(value: string): string {
+    return value.length > 12 ? `****${value.slice(-4)}` : "****";
+}
+
+/**
+ * Replace every known secret value in the text
+ */
+export function redactText(text: string): string {
+    let redacted = text;
+    for (const secret of secretValues) {
+        if (redacted.includes(secret)) redacted = redacted.split(secret).join(maskSecret(secret));
+    }
+    return redacted;
+}
+
+/**
+ * Copy for printing: values under key-, secret- and password-like names masked, known secrets replaced
+ */
+export function redactSecrets(value: unknown): unknown {
+    if (typeof value === "string") return redactText(value);
+    if (Array.isArray(value)) return value.map(redactSecrets);
+    if (!value || typeof value !== "object") return value;
+
+    return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [
+            key,
+            /key|secret|password|token/i.test(key) && typeof entry === "string" && entry && !ENV_NAME.test(entry)
+                ? maskSecret(entry)
+                : redactSecrets(entry)
+        ])
+    );
+}
+
+/**
+ * Wrap the console methods once so no registered secret reaches a log line
+ */
+function redactLogs(): void {
+    if (redactingLogs) return;
+    redactingLogs = true;
+
+    for (const method of LOG_METHODS) {
+        const original = console[method].bind(console);
+        console[method] = (...args: unknown[]) => {
+            const text = format(...args);
+            const redacted = redactText(text);
+            if (redacted === text) original(...args);
+            else original(redacted);
+        };
+    }
+}
+
+/**
+ * Mask this value in all logs from now on (short values are ignored - they would mask ordinary words)
+ */
+export function registerSecret(value?: string): void {
+    if (!value || value.length < MIN_SECRET_LENGTH) return;
+    secretValues.add(value);
+    redactLogs();
+}
+
+// Secrets already in the environment (API keys, secrets, tokens) are masked from the start
+for (const [name, value] of Object.entries(process.env)) {
+    if (SECRET_ENV_NAME.test(name)) registerSecret(value);
+}
+
+// ============================================================================
+// CONFIG FILES
+// ============================================================================
+
+/**
+ * ALGO_VISTA_CONFIG, else algo-vista.yaml / .yml / .json in the bots directory (undefined without one)
+ */
+export function configFilePath(): string | undefined {
+    if (process.env.ALGO_VISTA_CONFIG) return resolve(process.env.ALGO_VISTA_CONFIG);
+    return CONFIG_FILE_NAMES.map((name) => resolve(__dirname, "../..", name)).find((path) => existsSync(path));
+}
+
+/**
+ * Parsed YAML or JSON (by extension) of a config file
+ */
+export function readConfigFile(path: string): unknown {
+    let text: string;
+    try {
+        text = readFileSync(path, "utf8");
+    } catch (error) {
+        throw new ConfigError(path, [`cannot read the file: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+
+    try {
+        return extname(path).toLowerCase() === ".json" ? JSON.parse(text) : yaml.load(text, { filename: path });
+    } catch (error) {
+        throw new ConfigError(path, [`cannot parse the file: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+}
+
+/**
+ * Bot settings from a flat config file (one bot instance)
+ */
+export function loadBotSettingsFile(path: string): BotSettings {
+    const data = readConfigFile(path);
+    const problems = validateSchema(data, settingsSchema);
+    if (problems.length > 0) throw new ConfigError(path, problems);
+    return data as BotSettings;
+}
+
+/**
+ * Key sets "2", "3", ... for every <API_KEY>_<n> variable in the environment next to a default key set
+ * (XT_API_KEY_2 + XT_SECRET_KEY_2 become key set "2" of xt)
+ */
+function discoverNumberedKeySets(profile: ExchangeProfile): void {
+    const base = profile.keys[DEFAULT_KEY_SET];
+    if (!base) return;
+
+    for (const name of Object.keys(process.env)) {
+        const match = name.match(new RegExp(`^${base.apiKey}_(\\d+)$`));
+        if (!match || profile.keys[match[1]]) continue;
+
+        const suffix = `_${match[1]}`;
+        profile.keys[match[1]] = {
+            apiKey: base.apiKey + suffix,
+            secret: base.secret + suffix,
+            password: base.password && base.password + suffix,
+            uid: base.uid && base.uid + suffix
+        };
+    }
+}
+
+/**
+ * Built-in exchanges merged with a config file. The file is validated as a whole and every problem
+ * is reported in one ConfigError
+ */
+export function loadConfigProfiles(path: string | undefined = configFilePath()): ConfigProfiles {
+    const profiles: ConfigProfiles = {
+        defaults: {},
+        exchanges: Object.fromEntries(
+            Object.entries(BUILTIN_EXCHANGES).map(([name, profile]) => [name, { keys: { ...profile.keys } }])
+        ),
+        bots: {}
+    };
+
+    if (path) {
+        const data = readConfigFile(path);
+        const problems = validateSchema(data, profilesSchema);
+        if (problems.length > 0) throw new ConfigError(path, problems);
+
+        const file = (data || {}) as Partial<ConfigProfiles>;
+        profiles.source = path;
+        profiles.defaults = { ...file.defaults };
+        profiles.bots = { ...file.bots };
+        for (const [name, profile] of Object.entries(file.exchanges || {})) {
+            const builtin = profiles.exchanges[name];
+            profiles.exchanges[name] = {
+                keys: { ...builtin?.keys, ...profile.keys },
+                options: { ...builtin?.options, ...profile.options },
+                settings: { ...builtin?.settings, ...profile.settings }
+            };
+        }
+    }
+
+    for (const profile of Object.values(profiles.exchanges)) {
+        discoverNumberedKeySets(profile);
+    }
+    return profiles;
+}
+
+let cachedProfiles: ConfigProfiles | undefined;
+
+/**
+ * Profiles of the default config file, loaded on first use
+ */
+export function getConfigProfiles(): ConfigProfiles {
+    if (!cachedProfiles) cachedProfiles = loadConfigProfiles();
+    return cachedProfiles;
+}
+
+// ============================================================================
+// EXCHANGES
+// ============================================================================
+
+/**
+ * Exchanges with credentials configured (built-in, config file and unlocked vault)
+ */
+export function listExchanges(): string[] {
+    const vaulted = getUnlockedVault()?.exchanges() || [];
+    return [...new Set([...Object.keys(getConfigProfiles().exchanges), ...vaulted])];
+}
+
+export function isConfiguredExchange(exchangeName: string): boolean {
+    return listExchanges().includes(exchangeName);
+}
+
+/**
+ * Key set names of an exchange, vault accounts included
+ */
+export function listKeySets(exchangeName: string): string[] {
+    const fromEnv = Object.keys(getConfigProfiles().exchanges[exchangeName]?.keys || {});
+    return [...new Set([...fromEnv, ...(getUnlockedVault()?.accounts(exchangeName) || [])])];
+}
+
+/**
+ * Value of a secret reference ("" when unset), masked in logs from then on
+ */
+export function resolveSecret(name: string): string {
+    const value = process.env[name] || "";
+    registerSecret(value);
+    return value;
+}
+
+/**
+ * Settings and credentials of an exchange. The key set defaults to KEY_SET, else "default"; a vault
+ * account of that name wins over the environment variables of the key set
+ */
+export function getExchangeConfig(
+    exchangeName: string,
+    keySet: string = process.env.KEY_SET || DEFAULT_KEY_SET
+): ExchangeConfig {
+    const profile = getConfigProfiles().exchanges[exchangeName];
+    const vaulted = getUnlockedVault()?.get(exchangeName, keySet);
+    const locked = isVaultLocked() ? ` - the vault is locked, set ${VAULT_PASSPHRASE_ENV} or run it through the CLI` : "";
+    if (!profile && !vaulted) {
+        throw new Error(`Exchange ${exchangeName} not configured${locked}`);
+    }
+
+    const refs = profile?.keys[keySet];
+    if (!refs && !vaulted) {
+        throw new Error(
+            `Unknown key set "${keySet}" for ${exchangeName} (available: ${listKeySets(exchangeName).join(", ")})${locked}`
+        );
+    }
+
+    for (const value of vaulted ? [vaulted.apiKey, vaulted.secret, vaulted.password, vaulted.uid] : []) {
+        registerSecret(value);
+    }
+    const credentials = vaulted || {
+        apiKey: resolveSecret(refs.apiKey),
+        secret: resolveSecret(refs.secret),
+        password: refs.password ? resolveSecret(refs.password) : undefined,
+        uid: refs.uid ? resolveSecret(refs.uid) : undefined
+    };
+
+    return {
+        apiKey: credentials.apiKey,
+        secret: credentials.secret,
+        password: credentials.password,
+        uid: credentials.uid,
+        enableRateLimit: profile?.options?.enableRateLimit ?? true,
+        sandbox: profile?.options?.sandbox ?? false,
+        timeout: profile?.options?.timeout,
+        recvWindow: profile?.options?.recvWindow
+    };
+}
+
+const hasDefaultKeySet = (name: string | symbol): name is string =>
+    typeof name === "string" && listKeySets(name).includes(DEFAULT_KEY_SET);
+
+/**
+ * @deprecated Use getExchangeConfig (key sets, vault) and listExchanges. Kept for existing imports:
+ * the default key set of every exchange that has one, resolved on access
+ */
+export const exchangeConfigs: Record<string, ExchangeConfig> = new Proxy({} as Record<string, ExchangeConfig>, {
+    get: (_target, name) => (hasDefaultKeySet(name) ? getExchangeConfig(name, DEFAULT_KEY_SET) : undefined),
+    has: (_target, name) => hasDefaultKeySet(name),
+    ownKeys: () => listExchanges().filter(hasDefaultKeySet),
+    getOwnPropertyDescriptor: (_target, name) =>
+        hasDefaultKeySet(name)
+            ? { value: getExchangeConfig(name, DEFAULT_KEY_SET), enumerable: true, configurable: true }
+            : undefined,
+});
@@ -0,0 +1,263 @@
+/**
+ * Trading Errors
+ * Maps ccxt errors and exchange-specific codes to a small set of categories and retries
+ * the transient ones with per-category backoff. Used inside the trading, market-data and
+ * account wrappers so callers branch on `category` instead of sniffing error messages.
+ */
+
+import * as ccxt from 'ccxt';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type ErrorCategory =
+    | 'RateLimited'
+    | 'InsufficientFunds'
+    | 'OrderNotFound'
+    | 'InvalidPrecision'
+    | 'InvalidOrder'
+    | 'AuthFailed'
+    | 'Network'
+    | 'ExchangeMaintenance'
+    | 'RiskRejected'
+    | 'Unknown';
+
+export interface RetryPolicy {
+    retries: number; // Attempts after the first one
+    baseDelayMs: number; // Delay before the first retry, doubled on each further retry
+    maxDelayMs: number;
+    safeForWrites: boolean; // Whether the request certainly did not go through (safe to resend an order)
+}
+
+export interface RetryOptions {
+    operation: string; // For logs, e.g. fetchTicker
+    exchange?: ccxt.Exchange;
+    write?: boolean; // Non-idempotent request (create order, withdraw)
+    policies?: Partial<Record<ErrorCategory, RetryPolicy>>;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+export class TradingError extends Error {
+    readonly category: ErrorCategory;
+    readonly exchange?: string;
+    readonly operation?: string;
+    readonly code?: string; // Exchange error code when one was recognised
+    readonly cause: unknown;
+
+    constructor(
+        message: string,
+        category: ErrorCategory,
+        details: { exchange?: string; operation?: string; code?: string; cause?: unknown } = {}
+    ) {
+        super(message);
+        this.name = 'TradingError';
+        this.category = category;
+        this.exchange = details.exchange;
+        this.operation = details.operation;
+        this.code = details.code;
+        this.cause = details.cause;
+    }
+
+    get retryable(): boolean {
+        return (retryPolicies[this.category]?.retries ?? 0) > 0;
+    }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Exchange error codes ccxt maps too coarsely (or not at all), by exchange id. HTTP statuses
+ * (429, 503) are left to ccxt, which raises RateLimitExceeded / ExchangeNotAvailable for them.
+ */
+const EXCHANGE_ERROR_CODES: Record<string, Record<string, ErrorCategory>> = {
+    xt: {
+        ORDER_002: 'InsufficientFunds',
+        ORDER_005: 'OrderNotFound', // Order not exist (ccxt: InvalidOrder)
+        ORDER_F0103: 'InvalidPrecision', // Price filter - step value
+        ORDER_F0203: 'InvalidPrecision', // Quantity filter - step value
+        AUTH_101: 'AuthFailed',
+        AUTH_102: 'AuthFailed',
+        AUTH_103: 'AuthFailed',
+        AUTH_104: 'AuthFailed',
+        AUTH_105: 'AuthFailed',
+        AUTH_106: 'AuthFailed',
+    },
+    binance: {
+        '-1001': 'Network', // Internal error; unable to process your request
+        '-1003': 'RateLimited',
+        '-1015': 'RateLimited', // Too many new orders
+        '-1021': 'Network', // Timestamp outside recvWindow (clock drift)
+        '-1022': 'AuthFailed',
+        '-1111': 'InvalidPrecision',
+        '-2011': 'OrderNotFound', // Cancel rejected - unknown order
+        '-2013': 'OrderNotFound',
+        '-2014': 'AuthFailed',
+        '-2015': 'AuthFailed',
+    },
+    bitmart: {
+        '30005': 'AuthFailed', // Signature error
+        '30013': 'RateLimited',
+        '50005': 'OrderNotFound',
+    },
+};
+
+/**
+ * Last-resort message patterns for errors that carry no usable code or class
+ */
+const MESSAGE_PATTERNS: Array<[RegExp, ErrorCategory]> = [
+    [/maintenance/i, 'ExchangeMaintenance'],
+    [/too many requests|rate limit/i, 'RateLimited'],
+    [/insufficient|not enough balance|balance not enough/i, 'InsufficientFunds'],
+    [/order (does )?not exist|order not found|unknown order/i, 'OrderNotFound'],
+    [/precision|step size|tick size|LOT_SIZE|PRICE_FILTER/i, 'InvalidPrecision'],
+    [/ETIMEDOUT|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up|fetch failed/i, 'Network'],
+];
+
+export const retryPolicies: Record<ErrorCategory, RetryPolicy | undefined> = {
+    RateLimited: { retries: 5, baseDelayMs: 1000, maxDelayMs: 15000, safeForWrites: true },
+    ExchangeMaintenance: { retries: 3, baseDelayMs: 5000, maxDelayMs: 60000, safeForWrites: true },
+    Network: { retries: 3, baseDelayMs: 500, maxDelayMs: 5000, safeForWrites: false },
+    InsufficientFunds: undefined,
+    OrderNotFound: undefined,
+    InvalidPrecision: undefined,
+    InvalidOrder: undefined,
+    AuthFailed: undefined,
+    RiskRejected: undefined,
+    Unknown: undefined,
+};
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Find a known exchange code in the error text (ccxt puts the raw response body in the message).
+ * Numeric codes only count as the value of a code field - as bare numbers they would match prices
+ * and amounts in the message.
+ */
+function matchExchangeCode(message: string, exchangeId?: string): [string, ErrorCategory] | undefined {
+    const id = exchangeId || message.split(' ')[0];
+    const codes = EXCHANGE_ERROR_CODES[id];
+    if (!codes) return undefined;
+
+    for (const [code, category] of Object.entries(codes)) {
+        const pattern = /^-?\d+$/.test(code)
+            ? `"(code|rc|mc)"\\s*:\\s*"?${code}"?($|[^\\w])`
+            : `(^|[^\\w-])${code}($|[^\\w])`;
+        if (new RegExp(pattern).test(message)) {
+            return [code, category];
+        }
+    }
+    return undefined;
+}
+
+function categoryFromClass(error: unknown): ErrorCategory | undefined {
+    if (error instanceof ccxt.OrderNotFound) return 'OrderNotFound';
+    if (error instanceof ccxt.InsufficientFunds) return 'InsufficientFunds';
+    if (error instanceof ccxt.AuthenticationError) return 'AuthFailed';
+    if (error instanceof ccxt.OnMaintenance) return 'ExchangeMaintenance';
+    if (error instanceof ccxt.RateLimitExceeded || error instanceof ccxt.DDoSProtection) return 'RateLimited';
+    // Includes ExchangeNotAvailable (HTTP 5xx, 404, 409, 410) - the request may have gone through
+    if (error instanceof ccxt.NetworkError) return 'Network';
+    if (error instanceof ccxt.InvalidOrder) return 'InvalidOrder';
+    return undefined;
+}
+
+/**
+ * Category of any thrown value: exchange codes first, then the ccxt class, then the message
+ */
+export function classifyError(error: unknown, exchangeId?: string): ErrorCategory {
+    if (error instanceof TradingError) return error.category;
+
+    const message = errorMessage(error);
+    const byCode = matchExchangeCode(message, exchangeId);
+    if (byCode) return byCode[1];
+
+    const byClass = categoryFromClass(error);
+    if (byClass && byClass !== 'InvalidOrder') return byClass;
+
+    const byMessage = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+    if (byMessage) return byMessage[1];
+
+    return byClass || 'Unknown';
+}
+
+/**
+ * Wrap any thrown value in a TradingError (returned as is when it already is one)
+ */
+export function toTradingError(error: unknown, exchangeId?: string, operation?: string): TradingError {
+    if (error instanceof TradingError) return error;
+
+    const message = errorMessage(error);
+    const code = matchExchangeCode(message, exchangeId)?.[0];
+    return new TradingError(message, classifyError(error, exchangeId), {
+        exchange: exchangeId,
+        operation,
+        code,
+        cause: error,
+    });
+}
+
+export function isErrorCategory(error: unknown, category: ErrorCategory, exchangeId?: string): boolean {
+    return classifyError(error, exchangeId) === category;
+}
+
+// ============================================================================
+// RETRY
+// ============================================================================
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with jitter (50-100% of the capped delay)
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+    const capped = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+    return Math.round(capped * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Run a request, retrying transient failures per category. Writes are only retried when the
+ * failure guarantees the request was rejected (rate limit, maintenance), never on timeouts.
+ * Whatever is finally thrown is a TradingError.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+    const exchangeId = options.exchange?.id;
+    const sleep = options.sleep || defaultSleep;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            const tradingError = toTradingError(error, exchangeId, options.operation);
+            const policy = options.policies?.[tradingError.category] ?? retryPolicies[tradingError.category];
+
+            if (!policy || attempt >= policy.retries || (options.write && !policy.safeForWrites)) {
+                throw tradingError;
+            }
+
+            const wait = backoffDelay(policy, attempt);
+            console.warn(
+                `⏳ ${options.operation} failed (${tradingError.category}) - retry ${attempt + 1}/${policy.retries} in ${wait}ms`
+            );
+            await sleep(wait);
+        }
+    }
+}
+
+export default {
+    TradingError,
+    classifyError,
+    toTradingError,
+    isErrorCategory,
+    withRetry,
+    backoffDelay,
+    retryPolicies,
+};
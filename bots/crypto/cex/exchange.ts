@@ -3,23 +3,40 @@
  */
 
 import * as ccxt from "ccxt";
-import { exchangeConfigs, defaultConfig } from "./config";
+import { defaultConfig, getExchangeConfig } from "./config";
+import { createMockExchange } from "./mock-exchange";
+import { attachRiskManager } from "./risk";
 
-export type ExchangeName = keyof typeof exchangeConfigs;
+export type ExchangeName = string; // ccxt id configured in config.ts (built-in or config file), or "mock"
 
+/**
+ * Create a configured exchange instance. With streaming = true the ccxt.pro class is used,
+ * which adds the watch* WebSocket methods on top of the REST API. keySet picks one of the exchange's
+ * API key sets (default: KEY_SET, else "default" - see config.ts), taken from the unlocked credential
+ * vault when it has that account (vault.ts). Orders placed through the trading wrappers are gated
+ * by a risk manager with the RISK_* limits (see risk.ts).
+ */
 export function initExchange(
     exchangeName: ExchangeName,
-    testnet = false
+    testnet = false,
+    streaming = false,
+    keySet?: string
 ): ccxt.Exchange {
-    const config = exchangeConfigs[exchangeName];
+    // Offline in-memory exchange - no credentials, no network (streams are simulated)
+    if (exchangeName === "mock") {
+        const mock = createMockExchange();
+        attachRiskManager(mock);
+        return mock;
+    }
+
+    const config = getExchangeConfig(exchangeName, keySet);
 
-    if (!config) {
-        throw new Error(`Exchange ${exchangeName} not configured`);
+    if (streaming && !ccxt.pro[exchangeName]) {
+        console.warn(`⚠️  ${exchangeName} has no WebSocket support in ccxt.pro - using REST only`);
     }
 
-    const ExchangeClass = ccxt[
-        exchangeName as keyof typeof ccxt
-    ] as typeof ccxt.Exchange;
+    const ExchangeClass = ((streaming && ccxt.pro[exchangeName]) ||
+        ccxt[exchangeName as keyof typeof ccxt]) as typeof ccxt.Exchange;
 
     const exchange = new ExchangeClass({
         ...defaultConfig,
@@ -27,13 +44,16 @@ export function initExchange(
         secret: config.secret,
         password: config.password,
         uid: config.uid,
-        enableRateLimit: config.enableRateLimit
+        enableRateLimit: config.enableRateLimit,
+        timeout: config.timeout ?? defaultConfig.timeout,
+        recvWindow: config.recvWindow ?? defaultConfig.recvWindow
     });
 
-    if (testnet && exchange.urls["test"]) {
+    if ((testnet || config.sandbox) && exchange.urls["test"]) {
         exchange.setSandboxMode(true);
     }
 
+    attachRiskManager(exchange);
     return exchange;
 }
 
@@ -0,0 +1,745 @@
+/**
+ * Execution Algorithms
+ * Works a large order as a sequence of child orders: TWAP (equal slices over a duration), VWAP
+ * (slices weighted by the historical intraday volume profile), Iceberg (only a visible clip rests
+ * on the book at a time) and DCA (a fixed quote amount on a recurring interval). Each algo runs as
+ * an ExecutionJob that reports progress and average fill price and can be paused, resumed and
+ * cancelled while it runs.
+ */
+
+import * as ccxt from 'ccxt';
+import { EventEmitter } from 'events';
+import * as marketData from './market-data';
+import { MarketRules, formatRejections } from './market-rules';
+import * as trading from './trading';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type ExecutionAlgo = 'twap' | 'vwap' | 'iceberg' | 'dca';
+export type JobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+export type SliceStatus = 'filled' | 'partial' | 'unfilled' | 'skipped' | 'failed';
+
+export interface ExecutionOptions {
+    orderType?: 'market' | 'limit'; // limit: IOC at the touch ± limitOffsetPercent (default: market)
+    limitOffsetPercent?: number; // How far through the touch a limit slice may trade (default: 0.1)
+    limitPrice?: number; // Never buy above / sell below this; slices are skipped meanwhile
+    maxConsecutiveFailures?: number; // Fail the job after this many erroring slices (default: 3)
+    tag?: trading.OrderTag; // clientOrderId tag (default: exec_<algo>)
+}
+
+export interface TwapParams extends ExecutionOptions {
+    symbol: string;
+    side: trading.OrderSide;
+    amount: number; // Base amount to execute
+    durationMs: number;
+    slices: number;
+}
+
+export interface VwapParams extends TwapParams {
+    timeframe?: string; // Candle size of the volume profile (default: 1h)
+    lookbackDays?: number; // History the profile is averaged over (default: 7)
+}
+
+export interface IcebergParams extends Omit<ExecutionOptions, 'orderType' | 'limitOffsetPercent'> {
+    symbol: string;
+    side: trading.OrderSide;
+    amount: number; // Total base amount
+    visibleAmount: number; // Base amount resting on the book at a time
+    price?: number; // Fixed limit price (default: join the touch, capped by limitPrice)
+    repriceAfterMs?: number; // Without a fixed price, move an unfilled clip to the new touch after this long
+    pollIntervalMs?: number; // How often a resting clip is checked (default: 2000)
+}
+
+export interface DcaParams extends ExecutionOptions {
+    symbol: string;
+    side: trading.OrderSide;
+    quoteAmount: number; // Quote spent (or received) per order
+    intervalMs: number;
+    count?: number; // Number of orders (default: until cancelled)
+}
+
+export interface ExecutionSlice {
+    index: number;
+    scheduledAt: number;
+    executedAt: number;
+    amount: number; // Base amount requested (after rounding)
+    orderId?: string;
+    price?: number; // Limit price, for limit slices and clips
+    filled: number;
+    cost: number;
+    status: SliceStatus;
+    error?: string;
+}
+
+export interface ExecutionProgress {
+    id: string;
+    algo: ExecutionAlgo;
+    symbol: string;
+    side: trading.OrderSide;
+    status: JobStatus;
+    target?: number; // In targetUnit; undefined for open-ended DCA
+    targetUnit: 'base' | 'quote';
+    filled: number; // Base
+    cost: number; // Quote
+    averagePrice: number;
+    percent?: number;
+    slicesDone: number;
+    slicesTotal?: number;
+    startedAt?: number;
+    finishedAt?: number;
+    nextSliceAt?: number;
+    error?: string;
+}
+
+export interface ExecutionJobEvents {
+    slice: [slice: ExecutionSlice, progress: ExecutionProgress];
+    status: [status: JobStatus, progress: ExecutionProgress];
+    sliceFailed: [slice: ExecutionSlice, error: Error];
+    done: [progress: ExecutionProgress];
+}
+
+/**
+ * The next child order of a job; undefined when the job is complete
+ */
+interface SlicePlan {
+    at: number;
+    amount: number; // Base
+    quote?: number; // Quote to convert to base at execution time (DCA)
+    resting?: boolean; // Iceberg clip: rest a limit order until it fills
+    final?: boolean; // Last slice: a remainder below the market minimum ends the job
+}
+
+type SlicePlanner = (job: ExecutionJob) => Promise<SlicePlan | undefined> | SlicePlan | undefined;
+
+interface JobDefinition {
+    algo: ExecutionAlgo;
+    symbol: string;
+    side: trading.OrderSide;
+    target?: number;
+    targetUnit: 'base' | 'quote';
+    slicesTotal?: number;
+    options: ExecutionOptions & Pick<IcebergParams, 'price' | 'repriceAfterMs' | 'pollIntervalMs'>;
+    planner: SlicePlanner;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const defaultExecutionOptions = {
+    limitOffsetPercent: 0.1,
+    maxConsecutiveFailures: 3,
+    pollIntervalMs: 2000,
+    timeframe: '1h',
+    lookbackDays: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let jobCounter = 0;
+
+// ============================================================================
+// EXECUTION JOB
+// ============================================================================
+
+export class ExecutionJob extends EventEmitter<ExecutionJobEvents> {
+    readonly id: string;
+    readonly exchange: ccxt.Exchange;
+    readonly algo: ExecutionAlgo;
+    readonly symbol: string;
+    readonly side: trading.OrderSide;
+    private definition: JobDefinition;
+    private rules?: MarketRules;
+    private state: JobStatus = 'pending';
+    private stopping = false;
+    private history: ExecutionSlice[] = [];
+    private filledAmount = 0;
+    private filledCost = 0;
+    private failures = 0;
+    private startedAt?: number;
+    private finishedAt?: number;
+    private nextSliceAt?: number;
+    private pausedAt?: number;
+    private pausedTotal = 0;
+    private strandedOrder?: string; // Error recovery could not settle this order - it may still be working
+    private lastError?: string;
+    private wake?: () => void;
+    private finished: Promise<ExecutionProgress>;
+    private resolveFinished!: (progress: ExecutionProgress) => void;
+
+    constructor(exchange: ccxt.Exchange, definition: JobDefinition) {
+        super();
+        this.id = `${definition.algo}-${Date.now().toString(36)}-${++jobCounter}`;
+        this.exchange = exchange;
+        this.algo = definition.algo;
+        this.symbol = definition.symbol;
+        this.side = definition.side;
+        this.definition = definition;
+        this.finished = new Promise((resolve) => (this.resolveFinished = resolve));
+    }
+
+    get status(): JobStatus {
+        return this.state;
+    }
+
+    get slices(): ExecutionSlice[] {
+        return this.history.map((s) => ({ ...s }));
+    }
+
+    get filled(): number {
+        return this.filledAmount;
+    }
+
+    get cost(): number {
+        return this.filledCost;
+    }
+
+    get remaining(): number {
+        const { target, targetUnit } = this.definition;
+        if (target === undefined) return Infinity;
+        return Math.max(0, target - (targetUnit === 'base' ? this.filledAmount : this.filledCost));
+    }
+
+    get started(): number {
+        return this.startedAt ?? Date.now();
+    }
+
+    /**
+     * Time spent paused so far - schedules shift by it instead of catching up after resume()
+     */
+    get pausedMs(): number {
+        return this.pausedTotal + (this.pausedAt !== undefined ? Date.now() - this.pausedAt : 0);
+    }
+
+    /**
+     * Start working the order in the background
+     */
+    start(): this {
+        if (this.state !== 'pending') return this;
+        this.startedAt = Date.now();
+        this.setStatus('running');
+        void this.run();
+        return this;
+    }
+
+    /**
+     * Stop placing slices; a resting iceberg clip is pulled until resume()
+     */
+    pause(): void {
+        if (this.state !== 'running') return;
+        this.pausedAt = Date.now();
+        this.setStatus('paused');
+        this.wake?.();
+    }
+
+    resume(): void {
+        if (this.state !== 'paused') return;
+        this.pausedTotal = this.pausedMs;
+        this.pausedAt = undefined;
+        this.setStatus('running');
+        this.wake?.();
+    }
+
+    /**
+     * Stop for good; resolves once any working order is cancelled and booked
+     */
+    async cancel(): Promise<ExecutionProgress> {
+        if (this.finishedAt !== undefined) return this.progress();
+        if (this.state === 'pending') {
+            this.finish('cancelled');
+        } else {
+            this.stopping = true;
+            this.wake?.();
+        }
+        return this.finished;
+    }
+
+    /**
+     * Resolves with the final progress when the job completes, fails or is cancelled
+     */
+    done(): Promise<ExecutionProgress> {
+        return this.finished;
+    }
+
+    progress(): ExecutionProgress {
+        const { target, targetUnit, slicesTotal } = this.definition;
+        const done = targetUnit === 'base' ? this.filledAmount : this.filledCost;
+        return {
+            id: this.id,
+            algo: this.algo,
+            symbol: this.symbol,
+            side: this.side,
+            status: this.state,
+            target,
+            targetUnit,
+            filled: this.filledAmount,
+            cost: this.filledCost,
+            averagePrice: this.filledAmount > 0 ? this.filledCost / this.filledAmount : 0,
+            percent: target ? Math.min(100, (done / target) * 100) : undefined,
+            slicesDone: this.history.length,
+            slicesTotal,
+            startedAt: this.startedAt,
+            finishedAt: this.finishedAt,
+            nextSliceAt: this.finishedAt !== undefined ? undefined : this.nextSliceAt,
+            error: this.lastError,
+        };
+    }
+
+    private setStatus(status: JobStatus): void {
+        this.state = status;
+        this.emit('status', status, this.progress());
+    }
+
+    private finish(status: JobStatus): void {
+        this.finishedAt = Date.now();
+        this.setStatus(status);
+        const progress = this.progress();
+        this.emit('done', progress);
+        this.resolveFinished(progress);
+    }
+
+    /**
+     * Sleep until `until`, returning early on pause/resume/cancel
+     */
+    private wait(until: number): Promise<void> {
+        const ms = until - Date.now();
+        if (ms <= 0) return Promise.resolve();
+        return new Promise((resolve) => {
+            const done = () => {
+                clearTimeout(timer);
+                this.wake = undefined;
+                resolve();
+            };
+            const timer = setTimeout(done, ms);
+            this.wake = done;
+        });
+    }
+
+    private async waitWhilePaused(): Promise<void> {
+        while (this.state === 'paused' && !this.stopping) {
+            await this.wait(Date.now() + DAY_MS);
+        }
+    }
+
+    private async run(): Promise<void> {
+        try {
+            this.rules = await MarketRules.fromExchange(this.exchange, this.symbol);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            this.finish('failed');
+            return;
+        }
+
+        while (!this.stopping) {
+            await this.waitWhilePaused();
+            if (this.stopping) break;
+
+            let plan: SlicePlan | undefined;
+            try {
+                plan = await this.definition.planner(this);
+            } catch (error) {
+                this.lastError = error instanceof Error ? error.message : String(error);
+                this.finish('failed');
+                return;
+            }
+            if (!plan) {
+                this.finish('completed');
+                return;
+            }
+
+            this.nextSliceAt = plan.at;
+            await this.wait(plan.at);
+            if (this.stopping) break;
+            if (this.state === 'paused') continue;
+
+            const slice = await this.executeSlice(plan);
+            this.history.push(slice);
+            this.filledAmount += slice.filled;
+            this.filledCost += slice.cost;
+            this.emit('slice', { ...slice }, this.progress());
+
+            if (this.strandedOrder) {
+                // Placing more would risk filling past the target
+                this.lastError = `order ${this.strandedOrder} could not be cancelled or fetched: ${slice.error}`;
+                this.finish('failed');
+                return;
+            }
+
+            if (slice.status === 'failed') {
+                this.failures++;
+                this.emit('sliceFailed', { ...slice }, new Error(slice.error));
+                if (this.failures >= (this.definition.options.maxConsecutiveFailures ?? defaultExecutionOptions.maxConsecutiveFailures)) {
+                    this.lastError = slice.error;
+                    this.finish('failed');
+                    return;
+                }
+            } else {
+                this.failures = 0;
+            }
+
+            if (plan.final && slice.status === 'skipped' && this.remaining > 0 && this.definition.targetUnit === 'base') {
+                // The remainder is below what the market accepts
+                this.finish('completed');
+                return;
+            }
+        }
+
+        this.finish('cancelled');
+    }
+
+    /**
+     * Best price on our side of the book's opposite touch (ask for buys, bid for sells)
+     */
+    private async touch(passive = false): Promise<number> {
+        const ticker = await marketData.fetchTicker(this.exchange, this.symbol);
+        const buyTouch = passive ? ticker.bid : ticker.ask;
+        const sellTouch = passive ? ticker.ask : ticker.bid;
+        return (this.side === 'buy' ? buyTouch : sellTouch) || ticker.last || 0;
+    }
+
+    private withinLimit(price: number): boolean {
+        const limit = this.definition.options.limitPrice;
+        if (limit === undefined) return true;
+        return this.side === 'buy' ? price <= limit : price >= limit;
+    }
+
+    private async executeSlice(plan: SlicePlan): Promise<ExecutionSlice> {
+        const rules = this.rules!;
+        const options = this.definition.options;
+        const slice: ExecutionSlice = {
+            index: this.history.length,
+            scheduledAt: plan.at,
+            executedAt: Date.now(),
+            amount: 0,
+            filled: 0,
+            cost: 0,
+            status: 'skipped',
+        };
+        const tag = options.tag || trading.orderTag('exec', this.algo, slice.index % 1000);
+
+        try {
+            if (plan.resting) return await this.restClip(plan, slice, tag);
+
+            const touch = await this.touch();
+            if (!touch || !this.withinLimit(touch)) {
+                slice.error = `price ${touch} beyond the limit ${options.limitPrice}`;
+                return slice;
+            }
+
+            slice.amount = rules.roundAmount(plan.quote !== undefined ? plan.quote / touch : plan.amount);
+
+            if (options.orderType === 'limit') {
+                const offset = (options.limitOffsetPercent ?? defaultExecutionOptions.limitOffsetPercent) / 100;
+                let price = rules.roundPrice(touch * (this.side === 'buy' ? 1 + offset : 1 - offset), this.side);
+                if (options.limitPrice !== undefined) {
+                    price = this.side === 'buy' ? Math.min(price, options.limitPrice) : Math.max(price, options.limitPrice);
+                }
+                slice.price = price;
+            }
+
+            const rejections = rules.validate(slice.price ?? touch, slice.amount);
+            if (rejections.length > 0) {
+                slice.error = formatRejections(rejections);
+                return slice;
+            }
+
+            let order = slice.price !== undefined
+                ? await trading.createLimitOrder(this.exchange, this.symbol, this.side, slice.amount, slice.price, { timeInForce: 'IOC' }, tag)
+                : await trading.createMarketOrder(this.exchange, this.symbol, this.side, slice.amount, {}, tag);
+            slice.orderId = order.id;
+
+            if (order.status === 'open') {
+                // Venue ignored IOC - pull the remainder
+                order = await this.cancelAndFetch(order.id);
+            }
+            this.book(slice, order);
+        } catch (error) {
+            slice.error = error instanceof Error ? error.message : String(error);
+            if (slice.orderId) await this.settleAfterError(slice);
+            slice.status = 'failed';
+        }
+
+        return slice;
+    }
+
+    /**
+     * An error while an order was working: pull it and book what it filled, so the next slice does not
+     * trade the same amount again. When that fails too the order is left stranded and the job stops.
+     */
+    private async settleAfterError(slice: ExecutionSlice): Promise<void> {
+        try {
+            this.book(slice, await this.cancelAndFetch(slice.orderId!));
+        } catch (error) {
+            this.strandedOrder = slice.orderId;
+            slice.filled = 0;
+            slice.cost = 0;
+            console.error(
+                `⚠️  ${this.id}: order ${slice.orderId} may still be working: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Rest an iceberg clip until it fills, the job is paused/cancelled (the clip is pulled)
+     * or it is due for a reprice
+     */
+    private async restClip(plan: SlicePlan, slice: ExecutionSlice, tag: trading.OrderTag): Promise<ExecutionSlice> {
+        const rules = this.rules!;
+        const options = this.definition.options;
+        const pollMs = options.pollIntervalMs ?? defaultExecutionOptions.pollIntervalMs;
+
+        let price = options.price ?? (await this.touch(true));
+        if (options.price === undefined && options.limitPrice !== undefined) {
+            price = this.side === 'buy' ? Math.min(price, options.limitPrice) : Math.max(price, options.limitPrice);
+        }
+        slice.price = rules.roundPrice(price, this.side);
+        slice.amount = rules.roundAmount(plan.amount);
+
+        const rejections = rules.validate(slice.price, slice.amount);
+        if (rejections.length > 0) {
+            // Only the final remainder may be too small; a full clip the market refuses never gets better
+            slice.error = formatRejections(rejections);
+            if (!plan.final) slice.status = 'failed';
+            return slice;
+        }
+
+        let order = await trading.createLimitOrder(this.exchange, this.symbol, this.side, slice.amount, slice.price, {}, tag);
+        slice.orderId = order.id;
+        const placedAt = Date.now();
+
+        while (order.status === 'open') {
+            await this.wait(Date.now() + pollMs);
+
+            const reprice = options.price === undefined && options.repriceAfterMs !== undefined && Date.now() - placedAt >= options.repriceAfterMs;
+            if (this.stopping || this.state === 'paused' || reprice) {
+                order = await this.cancelAndFetch(order.id);
+                break;
+            }
+            order = await trading.fetchOrder(this.exchange, order.id, this.symbol);
+        }
+
+        this.book(slice, order);
+        return slice;
+    }
+
+    /**
+     * Cancel an order and return its final state (an order that filled meanwhile is just fetched).
+     * Throws when the order is still open afterwards - its fills are not final yet
+     */
+    private async cancelAndFetch(orderId: string) {
+        const cancel = await trading.cancelOrders(this.exchange, [orderId], this.symbol);
+        const order = await trading.fetchOrder(this.exchange, orderId, this.symbol);
+        if (order.status === 'open') {
+            throw new Error(`order ${orderId} still open after the cancel: ${cancel.failed[0]?.error || 'unknown'}`);
+        }
+        return order;
+    }
+
+    private book(slice: ExecutionSlice, order: { filled?: number; cost?: number; average?: number; price?: number }): void {
+        slice.filled = order.filled || 0;
+        slice.cost = order.cost ?? slice.filled * (order.average || order.price || 0);
+        slice.status = slice.filled <= 0 ? 'unfilled' : slice.filled < slice.amount ? 'partial' : 'filled';
+    }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function validatePositive(checks: Record<string, number | undefined>): void {
+    for (const [name, value] of Object.entries(checks)) {
+        if (value !== undefined && !(value > 0)) {
+            throw new Error(`Execution ${name} must be positive (got ${value})`);
+        }
+    }
+}
+
+/**
+ * ccxt timeframe (1m, 15m, 1h, 1d...) in milliseconds
+ */
+function timeframeMs(timeframe: string): number {
+    const match = /^(\d+)([smhdw])$/.exec(timeframe);
+    if (!match) throw new Error(`Unsupported timeframe ${timeframe}`);
+    const units: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS };
+    return parseInt(match[1]) * units[match[2]];
+}
+
+/**
+ * Share of traded volume per time-of-day bucket, averaged over the lookback; empty when the
+ * exchange has no candles
+ */
+export async function volumeProfile(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    timeframe = defaultExecutionOptions.timeframe,
+    lookbackDays = defaultExecutionOptions.lookbackDays
+): Promise<Map<number, number>> {
+    const bucketMs = timeframeMs(timeframe);
+    const candles: number[][] = await marketData.fetchOHLCV(exchange, symbol, timeframe, Date.now() - lookbackDays * DAY_MS);
+
+    const totals = new Map<number, number>();
+    let total = 0;
+    for (const [timestamp, , , , , volume] of candles) {
+        const bucket = Math.floor((timestamp % DAY_MS) / bucketMs);
+        totals.set(bucket, (totals.get(bucket) || 0) + (volume || 0));
+        total += volume || 0;
+    }
+
+    const profile = new Map<number, number>();
+    if (total > 0) {
+        totals.forEach((volume, bucket) => profile.set(bucket, volume / total));
+    }
+    return profile;
+}
+
+/**
+ * Evenly spaced slices over the duration; each takes its weight's share of what is still left,
+ * so unfilled or skipped slices roll into the later ones. A pause moves the rest of the schedule
+ * back by its length.
+ */
+function scheduledPlanner(params: TwapParams, weights: number[]): SlicePlanner {
+    const interval = params.durationMs / params.slices;
+
+    return (job) => {
+        const index = job.slices.length;
+        const remaining = job.remaining;
+        if (index >= params.slices || remaining <= 0) return undefined;
+
+        const weightLeft = weights.slice(index).reduce((sum, w) => sum + w, 0);
+        const final = index === params.slices - 1;
+        return {
+            at: job.started + job.pausedMs + index * interval,
+            amount: final || weightLeft <= 0 ? remaining : (remaining * weights[index]) / weightLeft,
+            final,
+        };
+    };
+}
+
+// ============================================================================
+// ALGORITHMS
+// ============================================================================
+
+/**
+ * Time-weighted: `slices` equal child orders spread evenly over `durationMs`
+ */
+export function startTwap(exchange: ccxt.Exchange, params: TwapParams): ExecutionJob {
+    validatePositive({ amount: params.amount, durationMs: params.durationMs, slices: params.slices });
+
+    return new ExecutionJob(exchange, {
+        algo: 'twap',
+        symbol: params.symbol,
+        side: params.side,
+        target: params.amount,
+        targetUnit: 'base',
+        slicesTotal: params.slices,
+        options: params,
+        planner: scheduledPlanner(params, new Array(params.slices).fill(1)),
+    }).start();
+}
+
+/**
+ * Volume-weighted: like TWAP, but each slice is sized by the historical volume of its time
+ * of day (equal sizes when the exchange has no candles)
+ */
+export function startVwap(exchange: ccxt.Exchange, params: VwapParams): ExecutionJob {
+    validatePositive({ amount: params.amount, durationMs: params.durationMs, slices: params.slices });
+
+    let planner: SlicePlanner | undefined;
+    const interval = params.durationMs / params.slices;
+
+    return new ExecutionJob(exchange, {
+        algo: 'vwap',
+        symbol: params.symbol,
+        side: params.side,
+        target: params.amount,
+        targetUnit: 'base',
+        slicesTotal: params.slices,
+        options: params,
+        planner: async (job) => {
+            if (!planner) {
+                const timeframe = params.timeframe || defaultExecutionOptions.timeframe;
+                const bucketMs = timeframeMs(timeframe);
+                const profile = await volumeProfile(exchange, params.symbol, timeframe, params.lookbackDays);
+                const weights = Array.from({ length: params.slices }, (_, i) => {
+                    const at = job.started + i * interval;
+                    return profile.size > 0 ? profile.get(Math.floor((at % DAY_MS) / bucketMs)) || 0 : 1;
+                });
+                planner = scheduledPlanner(params, weights.some((w) => w > 0) ? weights : weights.map(() => 1));
+            }
+            return planner(job);
+        },
+    }).start();
+}
+
+/**
+ * Iceberg: rest `visibleAmount` at a time at `price` (or the touch) until `amount` is done
+ */
+export function startIceberg(exchange: ccxt.Exchange, params: IcebergParams): ExecutionJob {
+    validatePositive({ amount: params.amount, visibleAmount: params.visibleAmount, price: params.price });
+
+    return new ExecutionJob(exchange, {
+        algo: 'iceberg',
+        symbol: params.symbol,
+        side: params.side,
+        target: params.amount,
+        targetUnit: 'base',
+        slicesTotal: undefined,
+        options: params,
+        planner: (job) => {
+            const remaining = job.remaining;
+            if (remaining <= 0) return undefined;
+            const final = remaining <= params.visibleAmount;
+
+            // Back off after a clip that could not be placed instead of hammering the ticker
+            const last = job.slices[job.slices.length - 1];
+            const pollMs = params.pollIntervalMs ?? defaultExecutionOptions.pollIntervalMs;
+            const at = last && (last.status === 'failed' || last.status === 'skipped') ? last.executedAt + pollMs : Date.now();
+            return { at, amount: Math.min(params.visibleAmount, remaining), resting: true, final };
+        },
+    }).start();
+}
+
+/**
+ * Dollar-cost averaging: `quoteAmount` every `intervalMs`, `count` times or until cancelled.
+ * The first order goes out immediately; after a pause the schedule continues from the last
+ * order rather than catching up.
+ */
+export function startDca(exchange: ccxt.Exchange, params: DcaParams): ExecutionJob {
+    validatePositive({ quoteAmount: params.quoteAmount, intervalMs: params.intervalMs, count: params.count });
+
+    return new ExecutionJob(exchange, {
+        algo: 'dca',
+        symbol: params.symbol,
+        side: params.side,
+        target: params.count !== undefined ? params.quoteAmount * params.count : undefined,
+        targetUnit: 'quote',
+        slicesTotal: params.count,
+        options: params,
+        planner: (job) => {
+            const index = job.slices.length;
+            if (params.count !== undefined && index >= params.count) return undefined;
+            const last = job.slices[index - 1];
+            return { at: last ? last.executedAt + params.intervalMs : Date.now(), amount: 0, quote: params.quoteAmount };
+        },
+    }).start();
+}
+
+/**
+ * One-line progress summary for logs
+ */
+export function formatExecutionProgress(progress: ExecutionProgress): string {
+    const [base, quote] = progress.symbol.split('/');
+    const target = progress.target !== undefined ? ` / ${progress.target} ${progress.targetUnit === 'base' ? base : quote}` : '';
+    const percent = progress.percent !== undefined ? ` (${progress.percent.toFixed(1)}%)` : '';
+    const slices = `${progress.slicesDone}${progress.slicesTotal !== undefined ? `/${progress.slicesTotal}` : ''} slice(s)`;
+
+    return (
+        `${progress.algo.toUpperCase()} ${progress.side.toUpperCase()} ${progress.symbol} [${progress.status}]: ` +
+        `${progress.filled} ${base} for ${progress.cost.toFixed(8)} ${quote}${target}${percent}, ` +
+        `avg ${progress.averagePrice.toFixed(8)}, ${slices}`
+    );
+}
+
+export default { ExecutionJob, startTwap, startVwap, startIceberg, startDca, volumeProfile, formatExecutionProgress };
@@ -3,7 +3,18 @@
  */
 
 export * from './config';
+export * from './config-schema';
+export * from './vault';
 export * from './exchange';
+export * from './mock-exchange';
+export * from './market-rules';
+export * from './errors';
+export * from './market-stream';
+export * from './order-book';
+export * from './execution';
+export * from './stop-orders';
+export * from './risk';
+export * from './ledger';
 export * as marketData from './market-data';
 export * as trading from './trading';
 export * as account from './account';
@@ -0,0 +1,498 @@
+/**
+ * Fill Ledger
+ * Pulls our trades from fetchMyTrades into a local NDJSON ledger (one file per exchange),
+ * deduplicated by trade id. Each fill carries its fee converted to the quote currency and the
+ * bot that placed it (from the order's clientOrderId tag). PnL is replayed from the fills:
+ * realized with FIFO or average cost basis, unrealized marked to the current mid, plus turnover
+ * and fees - per bot, per symbol and for any time range.
+ */
+
+import * as ccxt from 'ccxt';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { withRetry } from './errors';
+import * as marketData from './market-data';
+import * as trading from './trading';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface LedgerFill {
+    id: string; // Exchange trade id
+    orderId?: string;
+    clientOrderId?: string;
+    bot: string; // Bot id from the clientOrderId tag, 'untagged' for manual/foreign orders
+    strategy?: string;
+    symbol: string;
+    side: trading.OrderSide;
+    price: number;
+    amount: number; // Base
+    cost: number; // Quote (price × amount)
+    fee: number; // Quote value of the fee
+    feeCost?: number; // Fee as charged
+    feeCurrency?: string;
+    takerOrMaker?: 'taker' | 'maker';
+    timestamp: number;
+}
+
+export interface LedgerQuery {
+    bot?: string;
+    symbol?: string;
+    since?: number; // Inclusive
+    until?: number; // Exclusive
+}
+
+/**
+ * Amounts in the quote currency of the symbols involved - keep one quote per query when summing
+ * across symbols
+ */
+export interface PnLSummary {
+    bot?: string;
+    symbol?: string;
+    fills: number;
+    bought: number; // Base
+    sold: number; // Base
+    turnover: number;
+    fees: number;
+    realizedPnl: number; // Net of fees
+    position: number; // Base still held from these fills (negative: sold more than bought)
+    averageCost?: number; // Cost basis per unit of the position
+    unrealizedPnl: number; // Position marked to mid
+    totalPnl: number;
+}
+
+export interface FillLedgerOptions {
+    costBasis?: CostBasisMethod; // Default: fifo
+    file?: string; // Default: <BOT_STATE_DIR or ./state>/fills-<exchange id>.ndjson
+    since?: number; // Where the first sync of a symbol starts (default: the exchange's default window)
+    pageSize?: number; // fetchMyTrades limit per request (default: 500)
+    tags?: trading.OrderTag[]; // Bots to match where clientOrderIds cannot be parsed (e.g. OKX)
+}
+
+/**
+ * The fields of a ccxt trade the ledger reads
+ */
+interface ExchangeTrade {
+    id: string | number;
+    order?: string | number;
+    side: trading.OrderSide;
+    price: number;
+    amount: number;
+    cost?: number;
+    fee?: { cost?: number; currency?: string };
+    takerOrMaker?: 'taker' | 'maker';
+    timestamp: number;
+}
+
+interface Lot {
+    amount: number; // Signed base: positive long, negative short
+    price: number; // Per unit, fees included
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const UNTAGGED_BOT = 'untagged';
+const DEFAULT_PAGE_SIZE = 500;
+
+const defaultLedgerFile = (exchange: ccxt.Exchange) =>
+    path.join(process.env.BOT_STATE_DIR || './state', `fills-${exchange.id}.ndjson`);
+
+const fillKey = (fill: { symbol: string; id: string }) => `${fill.symbol}|${fill.id}`;
+
+// ============================================================================
+// COST BASIS
+// ============================================================================
+
+/**
+ * Open lots of one bot on one symbol. Fills that reduce the position close lots (oldest first
+ * with FIFO, at the running average otherwise) and realize the difference.
+ */
+class CostBasis {
+    lots: Lot[] = [];
+    realized = 0;
+
+    constructor(private method: CostBasisMethod) {}
+
+    /**
+     * Signed base amount at a fee-inclusive unit price
+     */
+    apply(amount: number, price: number): number {
+        const before = this.realized;
+        let remaining = amount;
+
+        while (remaining !== 0 && this.lots.length > 0 && Math.sign(this.lots[0].amount) !== Math.sign(remaining)) {
+            const lot = this.lots[0];
+            const closed = Math.min(Math.abs(remaining), Math.abs(lot.amount)) * Math.sign(lot.amount);
+
+            this.realized += closed * (price - lot.price);
+            lot.amount -= closed;
+            remaining += closed;
+            if (Math.abs(lot.amount) < 1e-12) this.lots.shift();
+        }
+
+        if (Math.abs(remaining) > 1e-12) {
+            if (this.method === 'average' && this.lots.length > 0) {
+                const lot = this.lots[0];
+                const total = lot.amount + remaining;
+                lot.price = (lot.amount * lot.price + remaining * price) / total;
+                lot.amount = total;
+            } else {
+                this.lots.push({ amount: remaining, price });
+            }
+        }
+
+        return this.realized - before;
+    }
+
+    get position(): number {
+        return this.lots.reduce((sum, lot) => sum + lot.amount, 0);
+    }
+
+    get averageCost(): number | undefined {
+        const position = this.position;
+        if (position === 0) return undefined;
+        return this.lots.reduce((sum, lot) => sum + lot.amount * lot.price, 0) / position;
+    }
+
+    unrealized(mark: number): number {
+        return this.lots.reduce((sum, lot) => sum + lot.amount * (mark - lot.price), 0);
+    }
+}
+
+/**
+ * Signed base amount and fee-inclusive unit price a fill moves the position by. A fee taken in base
+ * shrinks what a buy delivers; any other fee raises the buy price or lowers the sell proceeds.
+ */
+function positionChange(fill: LedgerFill, base: string): [number, number] {
+    const feeInBase = fill.feeCurrency === base ? fill.feeCost || 0 : 0;
+
+    if (fill.side === 'buy') {
+        const received = fill.amount - feeInBase;
+        const paid = fill.cost + (feeInBase ? 0 : fill.fee);
+        return [received, received > 0 ? paid / received : fill.price];
+    }
+
+    const delivered = fill.amount + feeInBase;
+    const proceeds = fill.cost - (feeInBase ? 0 : fill.fee);
+    return [-delivered, delivered > 0 ? proceeds / delivered : fill.price];
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+export class FillLedger {
+    readonly exchange: ccxt.Exchange;
+    readonly file: string;
+    private options: FillLedgerOptions;
+    private entries: LedgerFill[] = [];
+    private keys = new Set<string>();
+    private orderTags = new Map<string, { clientOrderId?: string; tag?: trading.OrderTag }>();
+
+    constructor(exchange: ccxt.Exchange, options: FillLedgerOptions = {}) {
+        this.exchange = exchange;
+        this.options = options;
+        this.file = options.file || defaultLedgerFile(exchange);
+        this.load();
+    }
+
+    /**
+     * Fetch trades newer than the last recorded fill of each symbol and append the new ones
+     */
+    async sync(symbols: string[]): Promise<LedgerFill[]> {
+        const added: LedgerFill[] = [];
+
+        for (const symbol of symbols) {
+            const pageSize = this.options.pageSize || DEFAULT_PAGE_SIZE;
+            let since = this.lastTimestamp(symbol) ?? this.options.since;
+
+            for (;;) {
+                const trades: ExchangeTrade[] = await withRetry(() => this.exchange.fetchMyTrades(symbol, since, pageSize), {
+                    operation: 'fetchMyTrades',
+                    exchange: this.exchange,
+                });
+                const fresh = trades.filter((trade) => !this.keys.has(fillKey({ symbol, id: String(trade.id) })));
+                if (fresh.length === 0) break;
+
+                for (const trade of fresh) {
+                    const fill = await this.toFill(symbol, trade);
+                    this.keys.add(fillKey(fill));
+                    added.push(fill);
+                }
+
+                const last = Math.max(...trades.map((trade) => trade.timestamp));
+                if (trades.length < pageSize || since === last) break;
+                since = last;
+            }
+        }
+
+        if (added.length > 0) {
+            added.sort((a, b) => a.timestamp - b.timestamp);
+            this.entries.push(...added);
+            this.entries.sort((a, b) => a.timestamp - b.timestamp);
+            this.append(added);
+        }
+        return added;
+    }
+
+    /**
+     * Recorded fills matching the query, oldest first
+     */
+    fills(query: LedgerQuery = {}): LedgerFill[] {
+        return this.entries.filter(
+            (fill) =>
+                this.matchesBot(fill, query.bot) &&
+                (query.symbol === undefined || fill.symbol === query.symbol) &&
+                (query.since === undefined || fill.timestamp >= query.since) &&
+                (query.until === undefined || fill.timestamp < query.until)
+        );
+    }
+
+    /**
+     * PnL of the fills matching the query. The cost basis is built from all earlier fills too, so a
+     * range realizes against positions opened before it; the position left at `until` is marked to
+     * the current mid.
+     */
+    async pnl(query: LedgerQuery = {}): Promise<PnLSummary> {
+        const parts = await this.pnlParts(query);
+        const summary = this.emptySummary(query.bot, query.symbol);
+        const singleSymbol = new Set(parts.map((part) => part.symbol)).size === 1; // Positions only add up within a symbol
+        let positionCost = 0;
+        for (const part of parts) {
+            summary.fills += part.fills;
+            summary.bought += part.bought;
+            summary.sold += part.sold;
+            summary.turnover += part.turnover;
+            summary.fees += part.fees;
+            summary.realizedPnl += part.realizedPnl;
+            summary.unrealizedPnl += part.unrealizedPnl;
+            summary.totalPnl += part.totalPnl;
+            if (singleSymbol) {
+                summary.position += part.position;
+                positionCost += part.position * (part.averageCost ?? 0);
+            }
+        }
+        if (summary.position !== 0) summary.averageCost = positionCost / summary.position;
+        return summary;
+    }
+
+    /**
+     * PnL per bot or per symbol
+     */
+    async pnlBy(key: 'bot' | 'symbol', query: LedgerQuery = {}): Promise<PnLSummary[]> {
+        const values = [...new Set(this.fills(query).map((fill) => fill[key]))].sort();
+        const summaries: PnLSummary[] = [];
+        for (const value of values) {
+            summaries.push(await this.pnl({ ...query, [key]: value }));
+        }
+        return summaries;
+    }
+
+    // ------------------------------------------------------------------------
+    // Internals
+    // ------------------------------------------------------------------------
+
+    /**
+     * One summary per bot × symbol stream (positions never net across bots)
+     */
+    private async pnlParts(query: LedgerQuery): Promise<PnLSummary[]> {
+        const history = this.fills({ bot: query.bot, symbol: query.symbol, until: query.until });
+        const streams = new Map<string, LedgerFill[]>();
+        for (const fill of history) {
+            const key = `${fill.bot}|${fill.symbol}`;
+            streams.set(key, [...(streams.get(key) || []), fill]);
+        }
+
+        const markets = await this.exchange.loadMarkets();
+        const marks = new Map<string, number>();
+        const parts: PnLSummary[] = [];
+
+        for (const fills of streams.values()) {
+            const { bot, symbol } = fills[0];
+            const base = markets[symbol]?.base || symbol.split('/')[0];
+            const basis = new CostBasis(this.options.costBasis || 'fifo');
+            const part = this.emptySummary(bot, symbol);
+
+            for (const fill of fills) {
+                const realized = basis.apply(...positionChange(fill, base));
+                if (query.since !== undefined && fill.timestamp < query.since) continue;
+
+                part.fills++;
+                part.realizedPnl += realized;
+                part.turnover += fill.cost;
+                part.fees += fill.fee;
+                if (fill.side === 'buy') part.bought += fill.amount;
+                else part.sold += fill.amount;
+            }
+
+            part.position = basis.position;
+            part.averageCost = basis.averageCost;
+            if (part.position !== 0) {
+                if (!marks.has(symbol)) marks.set(symbol, await this.mid(symbol));
+                part.unrealizedPnl = basis.unrealized(marks.get(symbol)!);
+            }
+            part.totalPnl = part.realizedPnl + part.unrealizedPnl;
+            parts.push(part);
+        }
+        return parts;
+    }
+
+    private emptySummary(bot?: string, symbol?: string): PnLSummary {
+        return {
+            bot,
+            symbol,
+            fills: 0,
+            bought: 0,
+            sold: 0,
+            turnover: 0,
+            fees: 0,
+            realizedPnl: 0,
+            position: 0,
+            unrealizedPnl: 0,
+            totalPnl: 0,
+        };
+    }
+
+    private matchesBot(fill: LedgerFill, bot?: string): boolean {
+        if (bot === undefined || fill.bot === bot) return true;
+        return !!fill.clientOrderId && trading.isTaggedOrder(this.exchange, fill, { bot });
+    }
+
+    private lastTimestamp(symbol: string): number | undefined {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            if (this.entries[i].symbol === symbol) return this.entries[i].timestamp;
+        }
+        return undefined;
+    }
+
+    private async mid(symbol: string): Promise<number> {
+        const ticker = await marketData.fetchTicker(this.exchange, symbol);
+        return ticker.bid && ticker.ask ? (ticker.bid + ticker.ask) / 2 : ticker.last || 0;
+    }
+
+    private async toFill(symbol: string, trade: ExchangeTrade): Promise<LedgerFill> {
+        const markets = await this.exchange.loadMarkets();
+        const market = markets[symbol];
+        const [base, quote] = market ? [market.base, market.quote] : symbol.split('/');
+
+        const price = trade.price;
+        const amount = trade.amount;
+        const feeCost = trade.fee?.cost ?? 0;
+        const feeCurrency = trade.fee?.currency;
+        let fee = 0;
+        if (feeCost && feeCurrency === quote) fee = feeCost;
+        else if (feeCost && feeCurrency === base) fee = feeCost * price;
+        else if (feeCost && feeCurrency) fee = feeCost * (await this.feeRate(feeCurrency, quote));
+
+        const orderId = trade.order ? String(trade.order) : undefined;
+        const { clientOrderId, tag } = orderId ? await this.tagOf(orderId, symbol) : {};
+
+        return {
+            id: String(trade.id),
+            orderId,
+            clientOrderId,
+            bot: tag?.bot || UNTAGGED_BOT,
+            strategy: tag?.strategy,
+            symbol,
+            side: trade.side,
+            price,
+            amount,
+            cost: trade.cost ?? price * amount,
+            fee,
+            feeCost: feeCost || undefined,
+            feeCurrency,
+            takerOrMaker: trade.takerOrMaker,
+            timestamp: trade.timestamp,
+        };
+    }
+
+    /**
+     * Quote value of one unit of a third fee currency (e.g. BNB) at today's price - 0 when unknown
+     */
+    private async feeRate(currency: string, quote: string): Promise<number> {
+        const markets = await this.exchange.loadMarkets();
+        if (markets[`${currency}/${quote}`]) return this.mid(`${currency}/${quote}`);
+        if (markets[`${quote}/${currency}`]) {
+            const price = await this.mid(`${quote}/${currency}`);
+            return price ? 1 / price : 0;
+        }
+        console.warn(`⚠️  No ${currency}/${quote} market - fee in ${currency} left out of PnL`);
+        return 0;
+    }
+
+    /**
+     * clientOrderId and tag of an order (fetched once per order; unknown when the exchange no
+     * longer returns it)
+     */
+    private async tagOf(orderId: string, symbol: string): Promise<{ clientOrderId?: string; tag?: trading.OrderTag }> {
+        const known = this.orderTags.get(orderId);
+        if (known) return known;
+
+        let result: { clientOrderId?: string; tag?: trading.OrderTag } = {};
+        try {
+            const order = await withRetry(() => this.exchange.fetchOrder(orderId, symbol), {
+                operation: 'fetchOrder',
+                exchange: this.exchange,
+            });
+            const clientOrderId: string | undefined = order?.clientOrderId || undefined;
+            const tag =
+                trading.parseOrderTag(this.exchange, clientOrderId) ||
+                (this.options.tags || []).find((candidate) => trading.isTaggedOrder(this.exchange, { clientOrderId }, candidate));
+            result = { clientOrderId, tag };
+        } catch {
+            // Old orders drop out of fetchOrder on some exchanges - the fill stays untagged
+        }
+
+        this.orderTags.set(orderId, result);
+        return result;
+    }
+
+    private load(): void {
+        if (!existsSync(this.file)) return;
+
+        const lines = readFileSync(this.file, 'utf8').split('\n');
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                const fill: LedgerFill = JSON.parse(line);
+                if (this.keys.has(fillKey(fill))) continue;
+                this.keys.add(fillKey(fill));
+                this.entries.push(fill);
+                if (fill.orderId) {
+                    this.orderTags.set(fill.orderId, {
+                        clientOrderId: fill.clientOrderId,
+                        tag: fill.bot !== UNTAGGED_BOT ? { bot: fill.bot, strategy: fill.strategy } : undefined,
+                    });
+                }
+            } catch {
+                console.error(`⚠️  Skipping unreadable ledger line in ${this.file}`);
+            }
+        }
+        this.entries.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    private append(fills: LedgerFill[]): void {
+        mkdirSync(path.dirname(this.file), { recursive: true });
+        appendFileSync(this.file, fills.map((fill) => JSON.stringify(fill)).join('\n') + '\n');
+    }
+}
+
+/**
+ * One-line PnL summary for logs
+ */
+export function formatPnL(summary: PnLSummary, decimals = 2): string {
+    const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(decimals)}`;
+    const label = [summary.bot, summary.symbol].filter(Boolean).join(' ') || 'all';
+    return (
+        `${label}: realized ${signed(summary.realizedPnl)}, unrealized ${signed(summary.unrealizedPnl)}, ` +
+        `fees ${summary.fees.toFixed(decimals)}, turnover ${summary.turnover.toFixed(decimals)}, ` +
+        `${summary.fills} fill(s), position ${summary.position}`
+    );
+}
+
+export default { FillLedger, formatPnL };
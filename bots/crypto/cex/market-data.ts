@@ -3,10 +3,11 @@
  */
 
 import * as ccxt from 'ccxt';
+import { toTradingError, withRetry } from './errors';
 
 export async function fetchTicker(exchange: ccxt.Exchange, symbol: string) {
     try {
-        return await exchange.fetchTicker(symbol);
+        return await withRetry(() => exchange.fetchTicker(symbol), { operation: 'fetchTicker', exchange });
     } catch (error) {
         console.error(`Error fetching ticker for ${symbol}:`, error);
         throw error;
@@ -15,7 +16,7 @@ export async function fetchTicker(exchange: ccxt.Exchange, symbol: string) {
 
 export async function fetchOrderBook(exchange: ccxt.Exchange, symbol: string, limit = 20) {
     try {
-        return await exchange.fetchOrderBook(symbol, limit);
+        return await withRetry(() => exchange.fetchOrderBook(symbol, limit), { operation: 'fetchOrderBook', exchange });
     } catch (error) {
         console.error(`Error fetching orderbook for ${symbol}:`, error);
         throw error;
@@ -30,7 +31,7 @@ export async function fetchOHLCV(
     limit?: number
 ) {
     try {
-        return await exchange.fetchOHLCV(symbol, timeframe, since, limit);
+        return await withRetry(() => exchange.fetchOHLCV(symbol, timeframe, since, limit), { operation: 'fetchOHLCV', exchange });
     } catch (error) {
         console.error(`Error fetching OHLCV for ${symbol}:`, error);
         throw error;
@@ -44,7 +45,7 @@ export async function fetchTrades(
     limit?: number
 ) {
     try {
-        return await exchange.fetchTrades(symbol, since, limit);
+        return await withRetry(() => exchange.fetchTrades(symbol, since, limit), { operation: 'fetchTrades', exchange });
     } catch (error) {
         console.error(`Error fetching trades for ${symbol}:`, error);
         throw error;
@@ -53,7 +54,7 @@ export async function fetchTrades(
 
 export async function fetchMarkets(exchange: ccxt.Exchange) {
     try {
-        return await exchange.fetchMarkets();
+        return await withRetry(() => exchange.fetchMarkets(), { operation: 'fetchMarkets', exchange });
     } catch (error) {
         console.error('Error fetching markets:', error);
         throw error;
@@ -62,7 +63,7 @@ export async function fetchMarkets(exchange: ccxt.Exchange) {
 
 export async function getMarketInfo(exchange: ccxt.Exchange, symbol: string) {
     try {
-        await exchange.loadMarkets();
+        await withRetry(() => exchange.loadMarkets(), { operation: 'loadMarkets', exchange });
         return exchange.market(symbol);
     } catch (error) {
         console.error(`Error getting market info for ${symbol}:`, error);
@@ -70,6 +71,29 @@ export async function getMarketInfo(exchange: ccxt.Exchange, symbol: string) {
     }
 }
 
+/**
+ * Next order book update over WebSocket (exchange from ccxt.pro, see initExchange).
+ * Not retried here - MarketStream owns reconnects; errors are thrown as TradingError
+ */
+export async function watchOrderBook(exchange: ccxt.Exchange, symbol: string, limit?: number) {
+    try {
+        return await exchange.watchOrderBook(symbol, limit);
+    } catch (error) {
+        throw toTradingError(error, exchange.id, 'watchOrderBook');
+    }
+}
+
+/**
+ * Public trades received since the previous call over WebSocket
+ */
+export async function watchTrades(exchange: ccxt.Exchange, symbol: string, since?: number, limit?: number) {
+    try {
+        return await exchange.watchTrades(symbol, since, limit);
+    } catch (error) {
+        throw toTradingError(error, exchange.id, 'watchTrades');
+    }
+}
+
 export default {
     fetchTicker,
     fetchOrderBook,
@@ -77,4 +101,6 @@ export default {
     fetchTrades,
     fetchMarkets,
     getMarketInfo,
+    watchOrderBook,
+    watchTrades,
 };
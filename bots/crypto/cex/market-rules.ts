@@ -0,0 +1,252 @@
+/**
+ * Market Rules
+ * Price/amount rounding and limit validation for a ccxt market.
+ * Every bot normalizes orders through here before calling trading.createLimitOrder.
+ */
+
+import * as ccxt from 'ccxt';
+import type { OrderSide } from './trading';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type RejectionCode =
+    | 'invalid_price'
+    | 'invalid_amount'
+    | 'price_below_min'
+    | 'price_above_max'
+    | 'amount_below_min'
+    | 'amount_above_max'
+    | 'cost_below_min'
+    | 'cost_above_max';
+
+export interface OrderRejection {
+    code: RejectionCode;
+    message: string;
+    value: number; // The offending (rounded) value
+    limit?: number; // The limit it broke
+}
+
+export interface NormalizedOrder {
+    side: OrderSide;
+    price: number; // Rounded to the price step
+    amount: number; // Rounded down to the amount step
+    cost: number; // price * amount
+}
+
+export interface OrderCheck {
+    ok: boolean;
+    order: NormalizedOrder;
+    rejections: OrderRejection[];
+}
+
+interface Range {
+    min?: number;
+    max?: number;
+}
+
+export interface MarketLimits {
+    amount: Range;
+    price: Range;
+    cost: Range;
+}
+
+/**
+ * The parts of a ccxt market the rules read
+ */
+export interface MarketDefinition {
+    symbol?: string;
+    precision?: { price?: number; amount?: number };
+    limits?: Partial<MarketLimits>;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const EPSILON = 1e-9;
+
+/**
+ * Number of decimals needed to print a step exactly (0.0001 -> 4, 0.5 -> 1, 5 -> 0)
+ */
+export function decimalsOf(step: number): number {
+    const text = step.toExponential();
+    const [mantissa, exponent] = text.split('e');
+    const mantissaDecimals = (mantissa.split('.')[1] || '').length;
+    return Math.max(0, mantissaDecimals - parseInt(exponent));
+}
+
+/**
+ * Round to a multiple of `step` without float drift (0.1 + 0.2 style errors)
+ */
+export function roundToStep(value: number, step: number, mode: 'floor' | 'ceil' | 'round'): number {
+    const units = value / step;
+    const rounded =
+        mode === 'floor'
+            ? Math.floor(units + EPSILON)
+            : mode === 'ceil'
+                ? Math.ceil(units - EPSILON)
+                : Math.round(units);
+    return parseFloat((rounded * step).toFixed(decimalsOf(step)));
+}
+
+/**
+ * Convert a precision value to a step size. DECIMAL_PLACES: 4 -> 0.0001, TICK_SIZE: used as is.
+ * Without a known mode, values below 1 (or fractional) are taken as tick sizes.
+ */
+function toStep(precision: number | undefined, precisionMode?: number): number | undefined {
+    if (precision === undefined || precision === null || !Number.isFinite(precision)) return undefined;
+
+    if (precisionMode === ccxt.TICK_SIZE) return precision;
+    if (precisionMode === ccxt.DECIMAL_PLACES) return parseFloat(`1e-${precision}`);
+
+    return precision < 1 || !Number.isInteger(precision) ? precision : parseFloat(`1e-${precision}`);
+}
+
+function definedLimit(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// ============================================================================
+// MARKET RULES
+// ============================================================================
+
+export class MarketRules {
+    readonly symbol: string;
+    readonly priceStep?: number;
+    readonly amountStep?: number;
+    readonly limits: MarketLimits;
+
+    /**
+     * @param market ccxt market (exchange.markets[symbol])
+     * @param precisionMode exchange.precisionMode - pass it whenever available
+     */
+    constructor(market: MarketDefinition, precisionMode?: number) {
+        this.symbol = market?.symbol;
+        this.priceStep = toStep(market?.precision?.price, precisionMode);
+        this.amountStep = toStep(market?.precision?.amount, precisionMode);
+        this.limits = {
+            amount: {
+                min: definedLimit(market?.limits?.amount?.min),
+                max: definedLimit(market?.limits?.amount?.max),
+            },
+            price: {
+                min: definedLimit(market?.limits?.price?.min),
+                max: definedLimit(market?.limits?.price?.max),
+            },
+            cost: {
+                min: definedLimit(market?.limits?.cost?.min),
+                max: definedLimit(market?.limits?.cost?.max),
+            },
+        };
+    }
+
+    /**
+     * Load markets and build rules for a symbol
+     */
+    static async fromExchange(exchange: ccxt.Exchange, symbol: string): Promise<MarketRules> {
+        const markets = await exchange.loadMarkets();
+        const market = markets[symbol];
+        if (!market) {
+            throw new Error(`Market ${symbol} not found on ${exchange.id}`);
+        }
+        return new MarketRules(market, exchange.precisionMode);
+    }
+
+    get priceDecimals(): number | undefined {
+        return this.priceStep !== undefined ? decimalsOf(this.priceStep) : undefined;
+    }
+
+    get amountDecimals(): number | undefined {
+        return this.amountStep !== undefined ? decimalsOf(this.amountStep) : undefined;
+    }
+
+    /**
+     * Round a price onto the tick grid away from the other side of the book:
+     * bids round down, asks round up, so rounding never makes an order more aggressive
+     */
+    roundPrice(price: number, side: OrderSide): number {
+        if (this.priceStep === undefined) return price;
+        return roundToStep(price, this.priceStep, side === 'buy' ? 'floor' : 'ceil');
+    }
+
+    /**
+     * Round an amount down so we never commit more than intended
+     */
+    roundAmount(amount: number): number {
+        if (this.amountStep === undefined) return amount;
+        return roundToStep(amount, this.amountStep, 'floor');
+    }
+
+    /**
+     * Check an already rounded order against the market limits
+     */
+    validate(price: number, amount: number): OrderRejection[] {
+        const rejections: OrderRejection[] = [];
+        const cost = price * amount;
+        const { amount: amountLimits, price: priceLimits, cost: costLimits } = this.limits;
+
+        if (!Number.isFinite(price) || price <= 0) {
+            rejections.push({ code: 'invalid_price', message: `price ${price} is not positive`, value: price });
+            return rejections;
+        }
+        if (!Number.isFinite(amount) || amount <= 0) {
+            rejections.push({ code: 'invalid_amount', message: `amount ${amount} rounds to zero`, value: amount });
+            return rejections;
+        }
+
+        if (priceLimits.min !== undefined && price < priceLimits.min) {
+            rejections.push({ code: 'price_below_min', message: `price ${price} below minimum ${priceLimits.min}`, value: price, limit: priceLimits.min });
+        }
+        if (priceLimits.max !== undefined && price > priceLimits.max) {
+            rejections.push({ code: 'price_above_max', message: `price ${price} above maximum ${priceLimits.max}`, value: price, limit: priceLimits.max });
+        }
+        if (amountLimits.min !== undefined && amount < amountLimits.min) {
+            rejections.push({ code: 'amount_below_min', message: `amount ${amount} below minimum ${amountLimits.min}`, value: amount, limit: amountLimits.min });
+        }
+        if (amountLimits.max !== undefined && amount > amountLimits.max) {
+            rejections.push({ code: 'amount_above_max', message: `amount ${amount} above maximum ${amountLimits.max}`, value: amount, limit: amountLimits.max });
+        }
+        if (costLimits.min !== undefined && cost < costLimits.min - EPSILON) {
+            rejections.push({ code: 'cost_below_min', message: `cost ${cost.toFixed(8)} below minimum ${costLimits.min}`, value: cost, limit: costLimits.min });
+        }
+        if (costLimits.max !== undefined && cost > costLimits.max + EPSILON) {
+            rejections.push({ code: 'cost_above_max', message: `cost ${cost.toFixed(8)} above maximum ${costLimits.max}`, value: cost, limit: costLimits.max });
+        }
+
+        return rejections;
+    }
+
+    /**
+     * Round a raw price/amount and validate the result
+     */
+    normalize(side: OrderSide, price: number, amount: number): OrderCheck {
+        const roundedPrice = this.roundPrice(price, side);
+        const roundedAmount = this.roundAmount(amount);
+        const rejections = this.validate(roundedPrice, roundedAmount);
+
+        return {
+            ok: rejections.length === 0,
+            order: { side, price: roundedPrice, amount: roundedAmount, cost: roundedPrice * roundedAmount },
+            rejections,
+        };
+    }
+
+    /**
+     * Same as normalize, sizing the order from a quote-currency amount at the rounded price
+     */
+    normalizeQuote(side: OrderSide, price: number, quoteAmount: number): OrderCheck {
+        const roundedPrice = this.roundPrice(price, side);
+        return this.normalize(side, roundedPrice, quoteAmount / roundedPrice);
+    }
+}
+
+/**
+ * One-line summary of rejection reasons for logs
+ */
+export function formatRejections(rejections: OrderRejection[]): string {
+    return rejections.map((r) => r.message).join('; ');
+}
+
+export default { MarketRules, formatRejections, roundToStep, decimalsOf };
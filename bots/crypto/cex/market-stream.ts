@@ -0,0 +1,406 @@
+/**
+ * Market Stream
+ * WebSocket feed for one symbol (order book, public trades, our orders, balance) on top of the
+ * ccxt.pro watch* methods. Each channel reconnects with backoff, resyncs from REST after a
+ * disconnect or a sequence gap, and falls back to REST polling while the socket stays down.
+ * Bots subscribe to its events instead of polling on a fixed interval.
+ */
+
+import * as ccxt from 'ccxt';
+import { EventEmitter } from 'events';
+import * as account from './account';
+import { toTradingError, type TradingError } from './errors';
+import * as marketData from './market-data';
+import * as trading from './trading';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type StreamChannel = 'orderBook' | 'trades' | 'orders' | 'balance';
+export type StreamSource = 'websocket' | 'rest';
+export type StreamMode = 'idle' | 'websocket' | 'rest';
+
+export interface MarketStreamOptions {
+    channels?: StreamChannel[]; // Default: all four
+    orderBookLimit?: number; // Depth for watchOrderBook/fetchOrderBook (default: 20)
+    reconnectDelayMs?: number; // First reconnect delay, doubled per failure (default: 1000)
+    maxReconnectDelayMs?: number; // Default: 30000
+    maxFailures?: number; // Consecutive socket failures before polling REST (default: 5)
+    restIntervalMs?: number; // REST polling interval while the socket is down (default: 2000)
+    wsRetryIntervalMs?: number; // While polling, how often to try the socket again (default: 60000)
+    sleep?: (ms: number) => Promise<void>;
+}
+
+export interface StreamOrderBook {
+    bids: Array<[number, number]>;
+    asks: Array<[number, number]>;
+    timestamp?: number;
+    nonce?: number; // Exchange sequence number, when provided
+}
+
+export interface StreamTrade {
+    id: string;
+    timestamp: number;
+    side: string;
+    price: number;
+    amount: number;
+}
+
+export interface StreamOrder {
+    id: string;
+    clientOrderId?: string;
+    side: string;
+    price: number;
+    amount: number;
+    filled?: number;
+    remaining?: number;
+    status?: string;
+}
+
+/**
+ * orders: changed orders from the socket, or every open order (a snapshot) from REST
+ */
+export interface MarketStreamEvents {
+    orderBook: [book: StreamOrderBook, source: StreamSource];
+    trades: [trades: StreamTrade[], source: StreamSource];
+    orders: [orders: StreamOrder[], source: StreamSource];
+    balance: [balance: Record<string, unknown>, source: StreamSource];
+    update: [channel: StreamChannel, source: StreamSource]; // After any of the four above
+    connected: [channel: StreamChannel];
+    disconnected: [channel: StreamChannel, error: TradingError];
+    resync: [channel: StreamChannel, reason: string];
+    fallback: [channel: StreamChannel]; // Socket down - polling REST
+}
+
+export interface StreamLoopOptions {
+    triggers?: StreamChannel[]; // Channels whose updates run the cycle (default: orders)
+    minIntervalMs?: number; // Minimum time between two cycles (default: 250)
+    idleIntervalMs?: number; // Run anyway after this long without a trigger (default: 10000)
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const ALL_CHANNELS: StreamChannel[] = ['orderBook', 'trades', 'orders', 'balance'];
+
+const WATCH_METHODS: Record<StreamChannel, string> = {
+    orderBook: 'watchOrderBook',
+    trades: 'watchTrades',
+    orders: 'watchOrders',
+    balance: 'watchBalance',
+};
+
+const defaultStreamOptions: Required<Omit<MarketStreamOptions, 'channels' | 'sleep'>> = {
+    orderBookLimit: 20,
+    reconnectDelayMs: 1000,
+    maxReconnectDelayMs: 30000,
+    maxFailures: 5,
+    restIntervalMs: 2000,
+    wsRetryIntervalMs: 60000,
+};
+
+const MAX_SEEN_TRADES = 1000;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// MARKET STREAM
+// ============================================================================
+
+export class MarketStream extends EventEmitter<MarketStreamEvents> {
+    readonly exchange: ccxt.Exchange;
+    readonly symbol: string;
+    readonly channels: StreamChannel[];
+    private options: Required<Omit<MarketStreamOptions, 'channels' | 'sleep'>>;
+    private sleep: (ms: number) => Promise<void>;
+    private running = false;
+    private modes = new Map<StreamChannel, StreamMode>();
+    private latest = new Map<StreamChannel, unknown>();
+    private lastNonce?: number;
+    private seenTrades = new Set<string>();
+
+    constructor(exchange: ccxt.Exchange, symbol: string, options: MarketStreamOptions = {}) {
+        super();
+        this.exchange = exchange;
+        this.symbol = symbol;
+        this.channels = options.channels || ALL_CHANNELS;
+        this.sleep = options.sleep || defaultSleep;
+        this.options = { ...defaultStreamOptions };
+        for (const [key, value] of Object.entries(options)) {
+            if (key in defaultStreamOptions && value !== undefined) {
+                this.options[key as keyof typeof defaultStreamOptions] = value as number;
+            }
+        }
+        this.channels.forEach((channel) => this.modes.set(channel, 'idle'));
+    }
+
+    /**
+     * Start every channel in the background
+     */
+    start(): this {
+        if (this.running) return this;
+        this.running = true;
+        for (const channel of this.channels) {
+            this.runChannel(channel).catch((error) => {
+                console.error(`❌ Stream ${channel} stopped unexpectedly:`, error);
+            });
+        }
+        return this;
+    }
+
+    /**
+     * Stop after the pending watch/poll of each channel returns (close the exchange to end them at once)
+     */
+    stop(): void {
+        this.running = false;
+        this.channels.forEach((channel) => this.modes.set(channel, 'idle'));
+    }
+
+    mode(channel: StreamChannel): StreamMode {
+        return this.modes.get(channel) || 'idle';
+    }
+
+    /**
+     * Last payload published on a channel (order book, trades batch, orders, balance)
+     */
+    last<K extends StreamChannel>(channel: K): MarketStreamEvents[K][0] | undefined {
+        return this.latest.get(channel) as MarketStreamEvents[K][0] | undefined;
+    }
+
+    /**
+     * Whether the exchange instance can stream the channel (ccxt.pro class or the mock)
+     */
+    canWatch(channel: StreamChannel): boolean {
+        return this.exchange.has[WATCH_METHODS[channel]] === true;
+    }
+
+    // ------------------------------------------------------------------------
+    // Channel loop
+    // ------------------------------------------------------------------------
+
+    private async runChannel(channel: StreamChannel): Promise<void> {
+        const { maxFailures, restIntervalMs, wsRetryIntervalMs } = this.options;
+        let failures = 0;
+        let nextSocketAttempt = 0;
+        let resyncReason: string | undefined;
+
+        if (!this.canWatch(channel)) {
+            this.switchToRest(channel, `${this.exchange.id} cannot stream ${channel}`);
+        }
+
+        while (this.running) {
+            // Polling REST until the next socket attempt is due
+            if (this.mode(channel) === 'rest' && (!this.canWatch(channel) || Date.now() < nextSocketAttempt)) {
+                await this.poll(channel);
+                await this.sleep(restIntervalMs);
+                continue;
+            }
+
+            try {
+                if (resyncReason) {
+                    this.emit('resync', channel, resyncReason);
+                    await this.publish(channel, await this.fetchRest(channel), 'rest');
+                    resyncReason = undefined;
+                }
+
+                const data = await this.watch(channel);
+                if (!this.running) break;
+
+                if (this.mode(channel) !== 'websocket') {
+                    this.modes.set(channel, 'websocket');
+                    this.emit('connected', channel);
+                }
+                failures = 0;
+
+                if (channel === 'orderBook' && this.nonceWentBack(data as StreamOrderBook)) {
+                    resyncReason = 'sequence gap';
+                    continue;
+                }
+                await this.publish(channel, data, 'websocket');
+            } catch (error) {
+                if (!this.running) break;
+                const tradingError = toTradingError(error, this.exchange.id, WATCH_METHODS[channel]);
+
+                // The exchange detected missed updates - the socket itself is fine
+                if (tradingError.cause instanceof ccxt.InvalidNonce) {
+                    resyncReason = 'sequence gap';
+                    continue;
+                }
+
+                // Updates may have been missed while the socket was down
+                failures++;
+                resyncReason = 'reconnect';
+                this.emit('disconnected', channel, tradingError);
+
+                if (failures >= maxFailures) {
+                    this.switchToRest(channel, tradingError.message);
+                    nextSocketAttempt = Date.now() + wsRetryIntervalMs;
+                    failures = maxFailures - 1; // One socket attempt per retry interval
+                } else {
+                    const wait = this.reconnectDelay(failures);
+                    console.warn(`🔌 Stream ${channel} disconnected (${tradingError.category}) - reconnecting in ${wait}ms`);
+                    await this.sleep(wait);
+                }
+            }
+        }
+    }
+
+    private watch(channel: StreamChannel): Promise<unknown> {
+        switch (channel) {
+            case 'orderBook':
+                return marketData.watchOrderBook(this.exchange, this.symbol, this.options.orderBookLimit);
+            case 'trades':
+                return marketData.watchTrades(this.exchange, this.symbol);
+            case 'orders':
+                return trading.watchOrders(this.exchange, this.symbol);
+            case 'balance':
+                return trading.watchBalance(this.exchange);
+        }
+    }
+
+    private fetchRest(channel: StreamChannel): Promise<unknown> {
+        switch (channel) {
+            case 'orderBook':
+                return marketData.fetchOrderBook(this.exchange, this.symbol, this.options.orderBookLimit);
+            case 'trades':
+                return marketData.fetchTrades(this.exchange, this.symbol);
+            case 'orders':
+                return trading.fetchOpenOrders(this.exchange, this.symbol);
+            case 'balance':
+                return account.fetchBalance(this.exchange);
+        }
+    }
+
+    private async poll(channel: StreamChannel): Promise<void> {
+        try {
+            await this.publish(channel, await this.fetchRest(channel), 'rest');
+        } catch (error) {
+            // The REST wrappers already retried and logged
+            this.emit('disconnected', channel, toTradingError(error, this.exchange.id, `poll ${channel}`));
+        }
+    }
+
+    private async publish(channel: StreamChannel, data: unknown, source: StreamSource): Promise<void> {
+        if (channel === 'trades') {
+            data = this.unseenTrades(data as StreamTrade[]);
+            if ((data as StreamTrade[]).length === 0) return;
+        }
+        if (channel === 'orderBook' && (data as StreamOrderBook).nonce !== undefined) {
+            this.lastNonce = (data as StreamOrderBook).nonce;
+        }
+
+        this.latest.set(channel, data);
+        (this.emit as (event: StreamChannel, payload: unknown, source: StreamSource) => boolean)(channel, data, source);
+        this.emit('update', channel, source);
+    }
+
+    // ------------------------------------------------------------------------
+    // Helpers
+    // ------------------------------------------------------------------------
+
+    /**
+     * An order book older than the one already published means updates arrived out of order
+     */
+    private nonceWentBack(book: StreamOrderBook): boolean {
+        return book.nonce !== undefined && this.lastNonce !== undefined && book.nonce < this.lastNonce;
+    }
+
+    /**
+     * REST polls return overlapping trade windows - only publish each trade once
+     */
+    private unseenTrades(trades: StreamTrade[]): StreamTrade[] {
+        const fresh = trades.filter((t) => !this.seenTrades.has(t.id));
+        for (const trade of fresh) {
+            this.seenTrades.add(trade.id);
+        }
+        if (this.seenTrades.size > MAX_SEEN_TRADES) {
+            this.seenTrades = new Set([...this.seenTrades].slice(-MAX_SEEN_TRADES / 2));
+        }
+        return fresh;
+    }
+
+    private switchToRest(channel: StreamChannel, reason: string): void {
+        if (this.mode(channel) === 'rest') return;
+        this.modes.set(channel, 'rest');
+        console.warn(`📡 Stream ${channel} falling back to REST polling: ${reason}`);
+        this.emit('fallback', channel);
+    }
+
+    private reconnectDelay(failures: number): number {
+        const { reconnectDelayMs, maxReconnectDelayMs } = this.options;
+        return Math.min(maxReconnectDelayMs, reconnectDelayMs * Math.pow(2, failures - 1));
+    }
+}
+
+// ============================================================================
+// MONITORING LOOP
+// ============================================================================
+
+/**
+ * Drive a bot's monitoring cycle from stream updates instead of setInterval. The cycle runs on
+ * each trigger update (throttled, never concurrently) and after idleIntervalMs without one, so
+ * drift checks still happen on a quiet market. Returns a function that stops the loop.
+ */
+export function runOnStreamUpdates(
+    stream: MarketStream,
+    cycle: () => Promise<void>,
+    options: StreamLoopOptions = {}
+): () => void {
+    const triggers = options.triggers || ['orders'];
+    const minIntervalMs = options.minIntervalMs ?? 250;
+    const idleIntervalMs = options.idleIntervalMs ?? 10000;
+
+    let timer: NodeJS.Timeout | undefined;
+    let running = false;
+    let pending = false;
+    let stopped = false;
+    let lastRun = 0;
+
+    const schedule = (delayMs: number) => {
+        if (stopped) return;
+        clearTimeout(timer);
+        timer = setTimeout(run, Math.max(0, delayMs));
+    };
+
+    const run = async () => {
+        if (stopped) return;
+        if (running) {
+            pending = true;
+            return;
+        }
+
+        running = true;
+        pending = false;
+        lastRun = Date.now();
+        try {
+            await cycle();
+        } catch (error) {
+            console.error('❌ Stream-driven cycle failed:', error);
+        } finally {
+            running = false;
+        }
+        schedule(pending ? minIntervalMs : idleIntervalMs);
+    };
+
+    const onUpdate = (channel: StreamChannel) => {
+        if (!triggers.includes(channel)) return;
+        if (running) {
+            pending = true;
+            return;
+        }
+        schedule(lastRun + minIntervalMs - Date.now());
+    };
+
+    stream.on('update', onUpdate);
+    schedule(0);
+
+    return () => {
+        stopped = true;
+        clearTimeout(timer);
+        stream.off('update', onUpdate);
+    };
+}
+
+export default { MarketStream, runOnStreamUpdates };
@@ -0,0 +1,285 @@
+/**
+ * Aggregate Reference
+ * Cross-exchange reference price for tokens whose price is set elsewhere: tickers from several
+ * exchanges (optionally converted, e.g. X/BTC × BTC/USDT for X/USDT) are volume-weighted after
+ * dropping stale quotes, failed fetches and outliers.
+ */
+
+import * as ccxt from "ccxt";
+import { isConfiguredExchange } from "../config";
+import { initExchange, type ExchangeName } from "../exchange";
+import * as marketData from "../market-data";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ReferenceSource {
+    exchange: ExchangeName;
+    symbol?: string; // Symbol on that exchange (default: the bot's symbol)
+    conversion?: string; // Converts the source quote, e.g. BTC/USDT for an X/BTC source
+    weight?: number; // Multiplier on the volume weight (default: 1)
+}
+
+export interface AggregateReferenceConfig {
+    sources: ReferenceSource[];
+    maxDeviationPercent?: number; // Reject quotes further than this from the median (default: 5)
+    staleAfterSeconds?: number; // Reject tickers older than this (default: 60)
+    timeoutMs?: number; // Per-source fetch timeout (default: 5000)
+    minSources?: number; // Fail if fewer quotes survive (default: 1)
+}
+
+export type QuoteRejection = "error" | "stale" | "outlier" | "no_price";
+
+export interface SourceQuote {
+    exchange: ExchangeName;
+    symbol: string; // Source symbol (before conversion)
+    price: number; // In the target quote currency
+    volume: number; // 24h volume in the target quote currency
+    timestamp?: number;
+    weight: number; // Share of the aggregate (0 when rejected)
+    rejected?: QuoteRejection;
+    error?: string;
+}
+
+export interface AggregatePrice {
+    symbol: string;
+    price: number;
+    quotes: SourceQuote[];
+    used: number; // Quotes that made it into the price
+    timestamp: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const defaultAggregateReferenceConfig = {
+    maxDeviationPercent: 5,
+    staleAfterSeconds: 60,
+    timeoutMs: 5000,
+    minSources: 1,
+};
+
+/**
+ * Parse "exchange[:SYMBOL[*CONVERSION]]" entries, comma separated, e.g.
+ * "binance,okx:ORBD/BTC*BTC/USDT,bybit:ORBD/USDT"
+ */
+export function parseReferenceSources(spec: string): ReferenceSource[] {
+    return spec
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const [exchange, pair] = entry.split(":");
+            const [symbol, conversion] = (pair || "").split("*");
+
+            if (exchange !== "mock" && !isConfiguredExchange(exchange)) {
+                throw new Error(`Unknown reference exchange "${exchange}" (not configured in config.ts)`);
+            }
+
+            return {
+                exchange: exchange as ExchangeName,
+                symbol: symbol || undefined,
+                conversion: conversion || undefined,
+            };
+        });
+}
+
+/**
+ * Aggregate settings from environment variables (REFERENCE_SOURCES, ...), undefined without sources
+ */
+export function aggregateReferenceConfigFromEnv(): AggregateReferenceConfig | undefined {
+    if (!process.env.REFERENCE_SOURCES) return undefined;
+
+    const number = (name: string) => (process.env[name] ? parseFloat(process.env[name] as string) : undefined);
+
+    return {
+        sources: parseReferenceSources(process.env.REFERENCE_SOURCES),
+        maxDeviationPercent: number("REFERENCE_MAX_DEVIATION_PERCENT"),
+        staleAfterSeconds: number("REFERENCE_STALE_SECONDS"),
+        timeoutMs: number("REFERENCE_TIMEOUT_MS"),
+        minSources: number("REFERENCE_MIN_SOURCES"),
+    };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+const tickerPrice = (ticker: { bid?: number; ask?: number; last?: number }) =>
+    ticker.bid && ticker.ask ? (ticker.bid + ticker.ask) / 2 : ticker.last || 0;
+
+/**
+ * Price of `symbol` in the target quote: multiply by a BASE/TARGET conversion whose base is
+ * the source quote (X/BTC × BTC/USDT), or divide by one quoted in it (X/BTC ÷ USDT/BTC)
+ */
+function convert(symbol: string, price: number, conversion: string, conversionPrice: number): number {
+    const [, quote] = symbol.split("/");
+    const [conversionBase, conversionQuote] = conversion.split("/");
+
+    if (conversionBase === quote) return price * conversionPrice;
+    if (conversionQuote === quote) return conversionPrice > 0 ? price / conversionPrice : 0;
+    throw new Error(`Cannot convert ${symbol} with ${conversion}: no shared currency`);
+}
+
+// ============================================================================
+// AGGREGATE REFERENCE PROVIDER
+// ============================================================================
+
+export class AggregateReferenceProvider {
+    readonly config: AggregateReferenceConfig;
+    private exchanges = new Map<string, ccxt.Exchange>();
+    private lastResult?: AggregatePrice;
+
+    /**
+     * `exchanges` overrides the instances per exchange name (e.g. mocks); the rest are created on demand
+     */
+    constructor(config: AggregateReferenceConfig, exchanges: Partial<Record<string, ccxt.Exchange>> = {}) {
+        if (config.sources.length === 0) {
+            throw new Error("Aggregate reference needs at least one source");
+        }
+        this.config = config;
+        for (const [name, exchange] of Object.entries(exchanges)) {
+            if (exchange) this.exchanges.set(name, exchange);
+        }
+    }
+
+    get last(): AggregatePrice | undefined {
+        return this.lastResult;
+    }
+
+    /**
+     * Volume-weighted price of `symbol` over the fresh, non-outlier quotes.
+     * Throws when fewer than minSources quotes survive.
+     */
+    async getPrice(symbol: string): Promise<AggregatePrice> {
+        const maxDeviationPercent = this.config.maxDeviationPercent ?? defaultAggregateReferenceConfig.maxDeviationPercent;
+        const staleAfterSeconds = this.config.staleAfterSeconds ?? defaultAggregateReferenceConfig.staleAfterSeconds;
+        const minSources = this.config.minSources ?? defaultAggregateReferenceConfig.minSources;
+        const now = Date.now();
+
+        const quotes = await Promise.all(this.config.sources.map((source) => this.fetchQuote(source, symbol)));
+
+        for (const quote of quotes) {
+            if (quote.rejected) continue;
+            if (quote.price <= 0) {
+                quote.rejected = "no_price";
+            } else if (quote.timestamp !== undefined && now - quote.timestamp > staleAfterSeconds * 1000) {
+                quote.rejected = "stale";
+            }
+        }
+
+        // Outliers against the median of what is left
+        const fresh = quotes.filter((q) => !q.rejected);
+        if (fresh.length > 2) {
+            const center = median(fresh.map((q) => q.price));
+            for (const quote of fresh) {
+                if ((Math.abs(quote.price - center) / center) * 100 > maxDeviationPercent) {
+                    quote.rejected = "outlier";
+                }
+            }
+        }
+
+        const used = quotes.filter((q) => !q.rejected);
+        if (used.length < minSources) {
+            const reasons = quotes.map((q) => `${q.exchange}: ${q.error || q.rejected || "ok"}`).join(", ");
+            throw new Error(`Aggregate reference for ${symbol}: ${used.length}/${minSources} usable quotes (${reasons})`);
+        }
+
+        // Volume weights; equal weights when no source reports volume
+        const sourceWeight = (q: SourceQuote) => this.config.sources[quotes.indexOf(q)].weight ?? 1;
+        const totalVolume = used.reduce((sum, q) => sum + q.volume * sourceWeight(q), 0);
+        for (const quote of used) {
+            quote.weight = totalVolume > 0 ? quote.volume * sourceWeight(quote) : sourceWeight(quote);
+        }
+        const totalWeight = used.reduce((sum, q) => sum + q.weight, 0);
+        for (const quote of used) {
+            quote.weight /= totalWeight;
+        }
+
+        const price = used.reduce((sum, q) => sum + q.price * q.weight, 0);
+        this.lastResult = { symbol, price, quotes, used: used.length, timestamp: now };
+        return this.lastResult;
+    }
+
+    private exchangeFor(name: ExchangeName): ccxt.Exchange {
+        let exchange = this.exchanges.get(name);
+        if (!exchange) {
+            exchange = initExchange(name);
+            this.exchanges.set(name, exchange);
+        }
+        return exchange;
+    }
+
+    private async fetchQuote(source: ReferenceSource, targetSymbol: string): Promise<SourceQuote> {
+        const symbol = source.symbol || targetSymbol;
+        const timeoutMs = this.config.timeoutMs ?? defaultAggregateReferenceConfig.timeoutMs;
+        const quote: SourceQuote = { exchange: source.exchange, symbol, price: 0, volume: 0, weight: 0 };
+
+        try {
+            const exchange = this.exchangeFor(source.exchange);
+            const label = `${source.exchange} ${symbol}`;
+            const ticker = await withTimeout(marketData.fetchTicker(exchange, symbol), timeoutMs, label);
+
+            quote.price = tickerPrice(ticker);
+            quote.timestamp = ticker.timestamp;
+
+            if (source.conversion) {
+                const conversionTicker = await withTimeout(
+                    marketData.fetchTicker(exchange, source.conversion),
+                    timeoutMs,
+                    `${source.exchange} ${source.conversion}`
+                );
+                quote.price = convert(symbol, quote.price, source.conversion, tickerPrice(conversionTicker));
+                // A converted quote is as old as its older leg
+                if (quote.timestamp !== undefined && conversionTicker.timestamp !== undefined) {
+                    quote.timestamp = Math.min(quote.timestamp, conversionTicker.timestamp);
+                }
+            }
+
+            quote.volume = (ticker.baseVolume || 0) * quote.price;
+        } catch (error) {
+            quote.rejected = "error";
+            quote.error = error instanceof Error ? error.message : String(error);
+        }
+
+        return quote;
+    }
+}
+
+/**
+ * Multi-line summary of an aggregate price for logs
+ */
+export function formatAggregatePrice(result: AggregatePrice): string {
+    const lines = [`📡 Aggregate ${result.symbol}: ${result.price.toFixed(8)} from ${result.used}/${result.quotes.length} source(s)`];
+    for (const quote of result.quotes) {
+        const status = quote.rejected
+            ? `rejected (${quote.error || quote.rejected})`
+            : `weight ${(quote.weight * 100).toFixed(1)}%`;
+        lines.push(`   ${quote.exchange} ${quote.symbol}: ${quote.price.toFixed(8)} - ${status}`);
+    }
+    return lines.join("\n");
+}
+
+export default {
+    AggregateReferenceProvider,
+    parseReferenceSources,
+    aggregateReferenceConfigFromEnv,
+    formatAggregatePrice,
+    defaultAggregateReferenceConfig,
+};
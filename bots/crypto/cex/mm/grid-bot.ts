@@ -0,0 +1,649 @@
+/**
+ * Grid Trading Bot
+ * Splits a price range into grids (arithmetic or geometric spacing) and keeps one order per grid:
+ * a BUY at its lower price while the grid is empty, a SELL at its upper price while it holds the
+ * base bought there. Every fill flips the grid to the opposite order one grid away and completed
+ * round trips are booked as realized profit per grid. Optionally the grid trails the price when it
+ * leaves the range, and a stop-loss/take-profit price stops the bot out.
+ */
+
+import * as ccxt from "ccxt";
+import chalk from "chalk";
+import * as account from "../account";
+import { isErrorCategory } from "../errors";
+import { initExchange, type ExchangeName } from "../exchange";
+import { MarketRules, formatRejections, type MarketDefinition } from "../market-rules";
+import * as trading from "../trading";
+import { getReferencePrice } from "./reference-price";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type GridSpacing = "arithmetic" | "geometric";
+
+export interface GridBotConfig {
+    exchange: ExchangeName;
+    symbol: string;
+    lowerPrice: number;
+    upperPrice: number;
+    gridCount: number; // Number of grids (orders) between lowerPrice and upperPrice
+    spacing: GridSpacing; // arithmetic: equal price steps | geometric: equal percentage steps
+    totalInvestment: number; // Quote currency split equally across the grids
+    trailing?: boolean; // Shift the grid one step when the price leaves the range (default: off)
+    stopLossPrice?: number; // Stop out at or below this price
+    takeProfitPrice?: number; // Stop out at or above this price
+    sellOnStop?: boolean; // Market-sell the held base when stopped out (default: keep it)
+    monitorIntervalSeconds?: number;
+}
+
+export interface GridCell {
+    lower: number;
+    upper: number;
+    amount: number; // Base amount bought at `lower`
+    side: "buy" | "sell"; // Working order: BUY at lower (empty) or SELL at upper (holding)
+    orderId?: string;
+    held: number; // Base held, net of base-currency fees
+    costBasis: number; // Quote paid for `held`, fees included
+    roundTrips: number;
+    realizedProfit: number; // Quote, net of fees
+}
+
+export interface GridBotState {
+    cells: GridCell[]; // Bottom to top
+    lowerPrice: number;
+    upperPrice: number;
+    realizedProfit: number;
+    roundTrips: number;
+    trailedUp: number;
+    trailedDown: number;
+    cycleCount: number;
+    feeRate: number; // Fee assumed when an order reports none
+    stopped?: string; // Why the bot stopped out
+}
+
+/**
+ * The parts of a ccxt order the bot reads
+ */
+interface GridOrder {
+    id: string;
+    status?: string;
+    filled?: number;
+    cost?: number;
+    average?: number;
+    price?: number;
+    fee?: { cost?: number; currency?: string };
+}
+
+interface FillInfo {
+    filled: number;
+    cost: number;
+    baseFee: number;
+    quoteFee: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
+ */
+const GRID_BOT_TAG = "grid";
+
+const optionalNumber = (name: string) => (process.env[name] ? parseFloat(process.env[name] as string) : undefined);
+
+/**
+ * Settings from environment variables (EXCHANGE, SYMBOL, GRID_*, MONITOR_INTERVAL_SECONDS)
+ */
+export function gridConfigFromEnv(): GridBotConfig {
+    return {
+        exchange: (process.env.EXCHANGE as ExchangeName) || "xt",
+        symbol: process.env.SYMBOL || "ORBD/USDT",
+        lowerPrice: parseFloat(process.env.GRID_LOWER_PRICE || "0"),
+        upperPrice: parseFloat(process.env.GRID_UPPER_PRICE || "0"),
+        gridCount: parseInt(process.env.GRID_COUNT || "10"),
+        spacing: (process.env.GRID_SPACING as GridSpacing) || "arithmetic",
+        totalInvestment: parseFloat(process.env.GRID_INVESTMENT || "100"),
+        trailing: process.env.GRID_TRAILING === "true",
+        stopLossPrice: optionalNumber("GRID_STOP_LOSS_PRICE"),
+        takeProfitPrice: optionalNumber("GRID_TAKE_PROFIT_PRICE"),
+        sellOnStop: process.env.GRID_SELL_ON_STOP === "true",
+        monitorIntervalSeconds: parseFloat(process.env.MONITOR_INTERVAL_SECONDS || "2"),
+    };
+}
+
+const botConfig = gridConfigFromEnv();
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * gridCount + 1 prices from lower to upper
+ */
+export function buildGridLevels(lower: number, upper: number, gridCount: number, spacing: GridSpacing): number[] {
+    if (!(lower > 0) || !(upper > lower) || gridCount < 1) {
+        throw new Error(`Invalid grid: ${lower} - ${upper} with ${gridCount} grid(s)`);
+    }
+
+    const levels: number[] = [];
+    for (let i = 0; i <= gridCount; i++) {
+        levels.push(
+            spacing === "geometric"
+                ? lower * Math.pow(upper / lower, i / gridCount)
+                : lower + ((upper - lower) * i) / gridCount
+        );
+    }
+    return levels;
+}
+
+/**
+ * The level one grid beyond `price` (the range edge), keeping the configured spacing
+ */
+function nextLevel(config: GridBotConfig, price: number, direction: "up" | "down"): number {
+    if (config.spacing === "geometric") {
+        const ratio = Math.pow(config.upperPrice / config.lowerPrice, 1 / config.gridCount);
+        return direction === "up" ? price * ratio : price / ratio;
+    }
+    const step = (config.upperPrice - config.lowerPrice) / config.gridCount;
+    return direction === "up" ? price + step : price - step;
+}
+
+/**
+ * Filled amount, cost and fees split by currency; orders without fee info pay `feeRate` in quote
+ */
+function fillInfo(order: GridOrder, symbol: string, feeRate: number): FillInfo {
+    const [base, quote] = symbol.split("/");
+    const filled = order.filled || 0;
+    const cost = order.cost ?? filled * (order.average || order.price || 0);
+    const fee = order.fee;
+
+    if (!fee || fee.cost === undefined) {
+        return { filled, cost, baseFee: 0, quoteFee: cost * feeRate };
+    }
+    return {
+        filled,
+        cost,
+        baseFee: fee.currency === base ? fee.cost : 0,
+        quoteFee: fee.currency === quote ? fee.cost : 0,
+    };
+}
+
+function newCell(lower: number, upper: number, amount: number): GridCell {
+    return { lower, upper, amount, side: "buy", held: 0, costBasis: 0, roundTrips: 0, realizedProfit: 0 };
+}
+
+/**
+ * Base amount of one grid: an equal share of the investment at the grid's buy price
+ */
+function cellAmount(config: GridBotConfig, rules: MarketRules, lower: number): number {
+    return rules.roundAmount(config.totalInvestment / config.gridCount / lower);
+}
+
+// ============================================================================
+// GRID OPERATIONS
+// ============================================================================
+
+/**
+ * Place the working order of a grid. A SELL whose amount is below the market minimum
+ * turns the grid back into a BUY (the dust stays in the account).
+ */
+async function placeCellOrder(
+    exchange: ccxt.Exchange,
+    config: GridBotConfig,
+    rules: MarketRules,
+    cell: GridCell,
+    index: number
+): Promise<void> {
+    const price = cell.side === "buy" ? rules.roundPrice(cell.lower, "buy") : rules.roundPrice(cell.upper, "sell");
+    const amount = cell.side === "buy" ? cell.amount : rules.roundAmount(cell.held);
+
+    const rejections = rules.validate(price, amount);
+    if (rejections.length > 0) {
+        if (cell.side === "sell") {
+            console.log(chalk.gray(`   ⚪ Grid ${index + 1}: ${amount} left to sell (${formatRejections(rejections)}) - back to BUY`));
+            cell.side = "buy";
+            cell.held = 0;
+            cell.costBasis = 0;
+            return placeCellOrder(exchange, config, rules, cell, index);
+        }
+        console.log(chalk.yellow(`   ⚠️  Grid ${index + 1} skipped: ${formatRejections(rejections)}`));
+        return;
+    }
+
+    try {
+        const order = await trading.createLimitOrder(
+            exchange,
+            config.symbol,
+            cell.side,
+            amount,
+            price,
+            {},
+            trading.orderTag(GRID_BOT_TAG, cell.side === "buy" ? "bid" : "ask", index)
+        );
+        cell.orderId = order.id;
+    } catch (error) {
+        console.error(chalk.red(`   ❌ Grid ${index + 1} ${cell.side.toUpperCase()} @ ${price} failed:`), error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+ * Book a (partial) fill and flip the grid: a BUY now holds base to sell at the upper price,
+ * a SELL closes the round trip against the cost basis
+ */
+function applyFill(config: GridBotConfig, state: GridBotState, cell: GridCell, index: number, order: GridOrder): void {
+    const fill = fillInfo(order, config.symbol, state.feeRate);
+    if (fill.filled <= 0) return;
+
+    if (cell.side === "buy") {
+        cell.held += fill.filled - fill.baseFee;
+        cell.costBasis += fill.cost + fill.quoteFee;
+        cell.side = "sell";
+        console.log(chalk.green(`   🟢 Grid ${index + 1} bought ${fill.filled} @ ${cell.lower.toFixed(8)} → SELL @ ${cell.upper.toFixed(8)}`));
+        return;
+    }
+
+    // A closed SELL ends the round trip; base-fee dust below the amount step stays behind
+    const complete = order.status === "closed" || fill.filled >= cell.held;
+    const average = fill.cost / fill.filled;
+    const soldShare = complete ? 1 : fill.filled / cell.held;
+    const basis = cell.costBasis * soldShare;
+    const profit = fill.cost - fill.quoteFee - fill.baseFee * average - basis;
+
+    cell.held = Math.max(0, cell.held - fill.filled);
+    cell.costBasis -= basis;
+    cell.realizedProfit += profit;
+    state.realizedProfit += profit;
+
+    if (complete) {
+        cell.side = "buy";
+        cell.held = 0;
+        cell.costBasis = 0;
+        cell.roundTrips++;
+        state.roundTrips++;
+    }
+
+    console.log(
+        chalk.red(`   🔴 Grid ${index + 1} sold ${fill.filled} @ ${cell.upper.toFixed(8)} → BUY @ ${cell.lower.toFixed(8)}`) +
+        chalk.cyan(` | profit ${profit >= 0 ? "+" : ""}${profit.toFixed(8)} (total ${state.realizedProfit.toFixed(8)})`)
+    );
+}
+
+/**
+ * Check every grid's order; closed orders (and cancelled ones with a partial fill) are booked
+ * and flipped, their next order is placed by the cycle
+ */
+async function processFills(exchange: ccxt.Exchange, config: GridBotConfig, state: GridBotState): Promise<number> {
+    const open = await trading.fetchOpenOrders(exchange, config.symbol);
+    const openIds = new Set(open.map((o: GridOrder) => o.id));
+    let fills = 0;
+
+    for (const [index, cell] of state.cells.entries()) {
+        if (!cell.orderId || openIds.has(cell.orderId)) continue;
+
+        try {
+            const order = await trading.fetchOrder(exchange, cell.orderId, config.symbol);
+            if (order.status === "open") continue;
+
+            cell.orderId = undefined;
+            if ((order.filled || 0) > 0) {
+                applyFill(config, state, cell, index, order);
+                fills++;
+            }
+        } catch (error) {
+            console.error(chalk.red(`   ❌ Could not check grid ${index + 1} order ${cell.orderId}:`), error instanceof Error ? error.message : error);
+        }
+    }
+
+    return fills;
+}
+
+/**
+ * Cancel a grid's working order; false when it is already gone (it may have filled,
+ * which the next cycle books)
+ */
+async function cancelCellOrder(exchange: ccxt.Exchange, config: GridBotConfig, cell: GridCell): Promise<boolean> {
+    if (!cell.orderId) return true;
+    try {
+        await trading.cancelOrder(exchange, cell.orderId, config.symbol);
+        cell.orderId = undefined;
+        return true;
+    } catch (error) {
+        if (!isErrorCategory(error, "OrderNotFound")) {
+            console.error(chalk.red(`   ❌ Failed to cancel ${cell.orderId}:`), error instanceof Error ? error.message : error);
+        }
+        return false;
+    }
+}
+
+/**
+ * Shift the grid one step after the price left the range. Up: the bottom (empty) grid moves
+ * above the old top and buys there. Down: the top (holding) grid moves below the old bottom
+ * and sells its base at the old lower price.
+ */
+async function trailGrid(
+    exchange: ccxt.Exchange,
+    config: GridBotConfig,
+    rules: MarketRules,
+    state: GridBotState,
+    price: number
+): Promise<void> {
+    if (price > state.upperPrice) {
+        const bottom = state.cells[0];
+        if (bottom.side !== "buy" || !(await cancelCellOrder(exchange, config, bottom))) return;
+
+        const lower = state.upperPrice;
+        const upper = nextLevel(config, lower, "up");
+        state.cells = [...state.cells.slice(1), newCell(lower, upper, cellAmount(config, rules, lower))];
+        state.lowerPrice = state.cells[0].lower;
+        state.upperPrice = upper;
+        state.trailedUp++;
+        console.log(chalk.magenta(`   ⬆️  Trailed up: grid now ${state.lowerPrice.toFixed(8)} - ${state.upperPrice.toFixed(8)}`));
+    } else if (price < state.lowerPrice) {
+        const top = state.cells[state.cells.length - 1];
+        if (top.side !== "sell" || !(await cancelCellOrder(exchange, config, top))) return;
+
+        const upper = state.lowerPrice;
+        const lower = nextLevel(config, upper, "down");
+        const moved: GridCell = { ...newCell(lower, upper, cellAmount(config, rules, lower)), side: "sell", held: top.held, costBasis: top.costBasis };
+        state.cells = [moved, ...state.cells.slice(0, -1)];
+        state.lowerPrice = lower;
+        state.upperPrice = state.cells[state.cells.length - 1].upper;
+        state.trailedDown++;
+        console.log(chalk.magenta(`   ⬇️  Trailed down: grid now ${state.lowerPrice.toFixed(8)} - ${state.upperPrice.toFixed(8)}`));
+    }
+}
+
+/**
+ * Cancel every grid order and, with sellOnStop, sell the held base at market
+ */
+export async function stopGrid(
+    exchange: ccxt.Exchange,
+    config: GridBotConfig,
+    rules: MarketRules,
+    state: GridBotState,
+    reason: string,
+    sellBase = config.sellOnStop
+): Promise<void> {
+    state.stopped = reason;
+    console.log(chalk.yellow(`\n🛑 Stopping grid: ${reason}`));
+
+    for (const cell of state.cells) {
+        await cancelCellOrder(exchange, config, cell);
+    }
+
+    const held = rules.roundAmount(state.cells.reduce((sum, c) => sum + (c.side === "sell" ? c.held : 0), 0));
+    if (!sellBase || held <= 0) return;
+
+    try {
+        const order = await trading.createMarketOrder(
+            exchange,
+            config.symbol,
+            "sell",
+            held,
+            trading.withPurpose("protective"),
+            trading.orderTag(GRID_BOT_TAG, "stop")
+        );
+        const fill = fillInfo(order, config.symbol, state.feeRate);
+        const basis = state.cells.reduce((sum, c) => sum + (c.side === "sell" ? c.costBasis : 0), 0);
+        const profit = fill.cost - fill.quoteFee - basis;
+
+        state.realizedProfit += profit;
+        for (const cell of state.cells) {
+            cell.side = "buy";
+            cell.held = 0;
+            cell.costBasis = 0;
+        }
+        console.log(chalk.yellow(`   💸 Sold ${fill.filled} at market (${profit >= 0 ? "+" : ""}${profit.toFixed(8)})`));
+    } catch (error) {
+        console.error(chalk.red(`   ❌ Market sell of ${held} failed:`), error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+ * Build the grid around the current price and place its orders. Grids above the price start
+ * holding base (bought at market for what the free balance lacks) and sell at their upper price.
+ */
+export async function createGrid(
+    exchange: ccxt.Exchange,
+    config: GridBotConfig,
+    market: MarketDefinition & { taker?: number },
+    sleep: (ms: number) => Promise<void> = delay
+): Promise<GridBotState> {
+    const rules = new MarketRules(market, exchange.precisionMode);
+    const levels = buildGridLevels(config.lowerPrice, config.upperPrice, config.gridCount, config.spacing);
+    const price = await getReferencePrice(exchange, config.symbol, "mid");
+
+    if (price <= 0) throw new Error(`No price for ${config.symbol}`);
+    if (price < config.lowerPrice || price > config.upperPrice) {
+        throw new Error(`Price ${price} is outside the grid ${config.lowerPrice} - ${config.upperPrice}`);
+    }
+
+    const cells = levels.slice(0, -1).map((lower, i) => newCell(lower, levels[i + 1], cellAmount(config, rules, lower)));
+    for (const [index, cell] of cells.entries()) {
+        const rejections = rules.validate(rules.roundPrice(cell.lower, "buy"), cell.amount);
+        if (rejections.length > 0) {
+            throw new Error(`Grid ${index + 1} is too small: ${formatRejections(rejections)} - raise the investment or use fewer grids`);
+        }
+    }
+
+    const state: GridBotState = {
+        cells,
+        lowerPrice: config.lowerPrice,
+        upperPrice: config.upperPrice,
+        realizedProfit: 0,
+        roundTrips: 0,
+        trailedUp: 0,
+        trailedDown: 0,
+        cycleCount: 0,
+        feeRate: typeof market.taker === "number" ? market.taker : 0.001,
+    };
+
+    // Grids entirely above the price hold base from the start
+    const holding = cells.filter((c) => c.lower > price);
+    const needed = holding.reduce((sum, c) => sum + c.amount, 0);
+    if (needed > 0) {
+        const [base] = config.symbol.split("/");
+        const balance = await account.getCurrencyBalance(exchange, base);
+        const toBuy = rules.roundAmount((needed - balance.free) * (1 + state.feeRate));
+
+        let entryPrice = price;
+        let available = balance.free;
+        if (toBuy > 0) {
+            console.log(chalk.cyan(`   🛒 Buying ${toBuy} ${base} at market for ${holding.length} grid(s) above the price`));
+            const order = await trading.createMarketOrder(exchange, config.symbol, "buy", toBuy, {}, trading.orderTag(GRID_BOT_TAG, "init"));
+            const fill = fillInfo(order, config.symbol, state.feeRate);
+            if (fill.filled > 0) entryPrice = (fill.cost + fill.quoteFee) / (fill.filled - fill.baseFee);
+            available += fill.filled - fill.baseFee;
+        }
+
+        // Never plan to sell more than the account holds
+        const share = Math.min(1, available / needed);
+        for (const cell of holding) {
+            cell.side = "sell";
+            cell.held = cell.amount * share;
+            cell.costBasis = cell.held * entryPrice;
+        }
+    }
+
+    for (const [index, cell] of cells.entries()) {
+        await placeCellOrder(exchange, config, rules, cell, index);
+        await sleep(100);
+    }
+
+    logGridStatus(config, state, price);
+    return state;
+}
+
+/**
+ * Run one monitoring cycle - book fills and flip their grids, check the stop prices,
+ * trail the grid when enabled and (re)place missing orders
+ */
+export async function runGridCycle(
+    exchange: ccxt.Exchange,
+    config: GridBotConfig,
+    rules: MarketRules,
+    state: GridBotState,
+    sleep: (ms: number) => Promise<void> = delay
+): Promise<void> {
+    if (state.stopped) return;
+    state.cycleCount++;
+
+    try {
+        const fills = await processFills(exchange, config, state);
+        const price = await getReferencePrice(exchange, config.symbol, "mid");
+
+        if (config.stopLossPrice && price > 0 && price <= config.stopLossPrice) {
+            await stopGrid(exchange, config, rules, state, `price ${price} hit the stop-loss ${config.stopLossPrice}`);
+            return;
+        }
+        if (config.takeProfitPrice && price >= config.takeProfitPrice) {
+            await stopGrid(exchange, config, rules, state, `price ${price} hit the take-profit ${config.takeProfitPrice}`);
+            return;
+        }
+
+        if (config.trailing && price > 0) {
+            await trailGrid(exchange, config, rules, state, price);
+        }
+
+        for (const [index, cell] of state.cells.entries()) {
+            if (cell.orderId) continue;
+            await placeCellOrder(exchange, config, rules, cell, index);
+            await sleep(100);
+        }
+
+        if (fills > 0) {
+            logGridStatus(config, state, price);
+        } else if (state.cycleCount % 30 === 0) {
+            console.log(
+                chalk.gray(
+                    `💓 [${new Date().toLocaleTimeString()}] ${price.toFixed(8)} | ` +
+                    `${state.roundTrips} round trip(s) | profit ${state.realizedProfit.toFixed(8)}`
+                )
+            );
+        }
+    } catch (error) {
+        console.error(chalk.red("❌ Error during grid cycle:"), error);
+        console.log(chalk.yellow("⚠️  Continuing...\n"));
+    }
+}
+
+/**
+ * Per-grid table: working order, round trips and realized profit
+ */
+export function logGridStatus(config: GridBotConfig, state: GridBotState, price?: number): void {
+    const [baseSymbol, quoteSymbol] = config.symbol.split("/");
+
+    console.log("\n" + "=".repeat(60));
+    console.log(chalk.cyan.bold(`📊 GRID ${state.lowerPrice.toFixed(8)} - ${state.upperPrice.toFixed(8)}`) + (price ? ` | price ${price.toFixed(8)}` : ""));
+    console.log("=".repeat(60));
+
+    for (let i = state.cells.length - 1; i >= 0; i--) {
+        const cell = state.cells[i];
+        const order = cell.side === "buy"
+            ? chalk.green(`BUY  ${cell.amount} @ ${cell.lower.toFixed(8)}`)
+            : chalk.red(`SELL ${cell.held.toFixed(8)} @ ${cell.upper.toFixed(8)}`);
+        console.log(
+            `  ${String(i + 1).padStart(3)}. ${order}${cell.orderId ? "" : chalk.gray(" (not placed)")} | ` +
+            `${cell.roundTrips} trip(s) ${cell.realizedProfit >= 0 ? "+" : ""}${cell.realizedProfit.toFixed(8)}`
+        );
+    }
+
+    const held = state.cells.reduce((sum, c) => sum + (c.side === "sell" ? c.held : 0), 0);
+    console.log("");
+    console.log(`Held:            ${held.toFixed(8)} ${baseSymbol}`);
+    console.log(`Round trips:     ${state.roundTrips}`);
+    console.log(`Realized profit: ${state.realizedProfit.toFixed(8)} ${quoteSymbol}`);
+    if (state.trailedUp || state.trailedDown) {
+        console.log(`Trailed:         ${state.trailedUp} up / ${state.trailedDown} down`);
+    }
+    console.log("=".repeat(60) + "\n");
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Start the grid bot
+ */
+export async function startGridBot(config: GridBotConfig = botConfig): Promise<void> {
+    console.log(chalk.cyan.bold(`\n🚀 Starting Grid Bot...\n`));
+
+    const exchange = initExchange(config.exchange);
+    const markets = await exchange.loadMarkets();
+    const market = markets[config.symbol];
+    if (!market) throw new Error(`Unknown market ${config.symbol} on ${config.exchange}`);
+    const rules = new MarketRules(market, exchange.precisionMode);
+
+    // Orders left by a previous run are not part of this grid
+    const leftover = await trading.cancelBotOrders(exchange, trading.orderTag(GRID_BOT_TAG), config.symbol);
+    if (leftover.cancelled.length > 0) {
+        console.log(chalk.yellow(`🗑️  Cancelled ${leftover.cancelled.length} grid order(s) from a previous run`));
+    }
+
+    const state = await createGrid(exchange, config, market);
+    const intervalSeconds = config.monitorIntervalSeconds || 2;
+    console.log(chalk.cyan(`🔄 Monitoring started - checking every ${intervalSeconds}s...\n`));
+
+    let isProcessing = false;
+    const monitorInterval = setInterval(async () => {
+        if (isProcessing) return;
+        try {
+            isProcessing = true;
+            await runGridCycle(exchange, config, rules, state);
+            if (state.stopped) {
+                clearInterval(monitorInterval);
+                logGridStatus(config, state);
+                process.exit(0);
+            }
+        } finally {
+            isProcessing = false;
+        }
+    }, intervalSeconds * 1000);
+
+    const shutdown = async (signal: string) => {
+        console.log(chalk.yellow(`\n\n🛑 Received ${signal} - Shutting down...`));
+        clearInterval(monitorInterval);
+        await stopGrid(exchange, config, rules, state, signal, false);
+        logGridStatus(config, state);
+        console.log(chalk.green(`✅ Bot stopped\n`));
+        process.exit(0);
+    };
+
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+/**
+ * Run the bot
+ */
+export async function runBot(config: GridBotConfig = botConfig) {
+    try {
+        console.log("\n" + "=".repeat(60));
+        console.log(chalk.cyan.bold("🤖 GRID TRADING BOT"));
+        console.log("=".repeat(60));
+        console.log(`Exchange:         ${config.exchange.toUpperCase()}`);
+        console.log(`Symbol:           ${config.symbol}`);
+        console.log(`Range:            ${config.lowerPrice} - ${config.upperPrice}`);
+        console.log(`Grids:            ${config.gridCount} (${config.spacing})`);
+        console.log(`Investment:       $${config.totalInvestment}`);
+        console.log(`Trailing:         ${config.trailing ? "on" : "off"}`);
+        if (config.stopLossPrice) console.log(`Stop-Loss:        ${config.stopLossPrice}`);
+        if (config.takeProfitPrice) console.log(`Take-Profit:      ${config.takeProfitPrice}`);
+        console.log("=".repeat(60) + "\n");
+
+        await startGridBot(config);
+    } catch (error) {
+        console.error("❌ Bot failed to start:", error);
+        process.exit(1);
+    }
+}
+
+// Auto-run when executed directly
+if (require.main === module) {
+    runBot().catch(console.error);
+}
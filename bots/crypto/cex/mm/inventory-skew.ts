@@ -0,0 +1,175 @@
+/**
+ * Inventory Skew
+ * Inventory-aware quoting for the two-sided market maker. The share of inventory value held in
+ * base currency is compared with a target; the deviation shifts the reference price (a linear
+ * Avellaneda–Stoikov reservation price: r = mid · (1 − q · k), with k standing in for γσ²(T − t))
+ * and moves size from the side that would grow the imbalance to the side that reduces it.
+ * Past the hard caps the growing side is not quoted at all.
+ */
+
+import * as ccxt from "ccxt";
+import * as account from "../account";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface InventorySkewConfig {
+    targetBaseRatio?: number; // Target share of inventory value in base currency (default: 0.5)
+    priceSkewPercent?: number; // Reservation price shift at full deviation, in % of mid (default: 1)
+    sizeSkew?: number; // 0-1: share of a side's size moved to the other side at full deviation (default: 0.5)
+    minBaseRatio?: number; // Below this base share, stop quoting ASK (default: 0.1)
+    maxBaseRatio?: number; // Above this base share, stop quoting BID (default: 0.9)
+}
+
+export interface InventorySnapshot {
+    base: number; // Base currency held (free + in orders)
+    quote: number; // Quote currency held (free + in orders)
+    price: number; // Mark price
+    baseRatio: number; // base value / total value
+    deviation: number; // -1 (all quote) .. 0 (on target) .. 1 (all base)
+}
+
+export interface InventorySkewedQuotes {
+    referencePrice: number; // Reservation price to center both ladders on
+    bidQuoteAmount: number;
+    askQuoteAmount: number;
+    quoteBid: boolean; // False when buying more would break the base cap
+    quoteAsk: boolean; // False when selling more would break the quote cap
+    inventory: InventorySnapshot;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const defaultInventorySkewConfig: Required<InventorySkewConfig> = {
+    targetBaseRatio: 0.5,
+    priceSkewPercent: 1,
+    sizeSkew: 0.5,
+    minBaseRatio: 0.1,
+    maxBaseRatio: 0.9,
+};
+
+/**
+ * Inventory settings from environment variables (INVENTORY_*), undefined unless INVENTORY_SKEW=true
+ */
+export function inventorySkewConfigFromEnv(): InventorySkewConfig | undefined {
+    if (process.env.INVENTORY_SKEW !== "true") return undefined;
+
+    const number = (name: string) => (process.env[name] ? parseFloat(process.env[name] as string) : undefined);
+
+    return {
+        targetBaseRatio: number("INVENTORY_TARGET_BASE_RATIO"),
+        priceSkewPercent: number("INVENTORY_PRICE_SKEW_PERCENT"),
+        sizeSkew: number("INVENTORY_SIZE_SKEW"),
+        minBaseRatio: number("INVENTORY_MIN_BASE_RATIO"),
+        maxBaseRatio: number("INVENTORY_MAX_BASE_RATIO"),
+    };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+function resolveConfig(config: InventorySkewConfig): Required<InventorySkewConfig> {
+    const resolved = { ...defaultInventorySkewConfig };
+    for (const [key, value] of Object.entries(config)) {
+        if (value !== undefined && Number.isFinite(value)) {
+            resolved[key as keyof InventorySkewConfig] = value;
+        }
+    }
+    resolved.targetBaseRatio = clamp(resolved.targetBaseRatio, 0.01, 0.99);
+    resolved.sizeSkew = clamp(resolved.sizeSkew, 0, 1);
+    return resolved;
+}
+
+// ============================================================================
+// INVENTORY SKEW
+// ============================================================================
+
+/**
+ * Base share of inventory value and its normalized deviation from the target
+ */
+export function measureInventory(
+    base: number,
+    quote: number,
+    price: number,
+    config: InventorySkewConfig = {}
+): InventorySnapshot {
+    const { targetBaseRatio } = resolveConfig(config);
+    const baseValue = base * price;
+    const totalValue = baseValue + quote;
+    const baseRatio = totalValue > 0 ? baseValue / totalValue : targetBaseRatio;
+
+    // Scale so both "all quote" and "all base" map to full deviation whatever the target
+    const deviation =
+        baseRatio >= targetBaseRatio
+            ? (baseRatio - targetBaseRatio) / (1 - targetBaseRatio)
+            : (baseRatio - targetBaseRatio) / targetBaseRatio;
+
+    return { base, quote, price, baseRatio, deviation: clamp(deviation, -1, 1) };
+}
+
+/**
+ * Skew the reference price and per-side sizes for the current inventory.
+ * Long base (deviation > 0) lowers the reservation price and shifts size from BID to ASK.
+ */
+export function skewQuotes(
+    midPrice: number,
+    bidTotalQuoteAmount: number,
+    askTotalQuoteAmount: number,
+    inventory: InventorySnapshot,
+    config: InventorySkewConfig = {}
+): InventorySkewedQuotes {
+    const resolved = resolveConfig(config);
+    const q = inventory.deviation;
+
+    const referencePrice = midPrice * (1 - q * (resolved.priceSkewPercent / 100));
+
+    // Size leaves the side that grows the imbalance and is added to the side that reduces it
+    const bidFactor = clamp(1 - resolved.sizeSkew * q, 0, 2);
+    const askFactor = clamp(1 + resolved.sizeSkew * q, 0, 2);
+
+    // Never size a side beyond what the inventory can cover
+    const bidQuoteAmount = Math.min(bidTotalQuoteAmount * bidFactor, inventory.quote);
+    const askQuoteAmount = Math.min(askTotalQuoteAmount * askFactor, inventory.base * referencePrice);
+
+    return {
+        referencePrice,
+        bidQuoteAmount,
+        askQuoteAmount,
+        quoteBid: inventory.baseRatio < resolved.maxBaseRatio,
+        quoteAsk: inventory.baseRatio > resolved.minBaseRatio,
+        inventory,
+    };
+}
+
+/**
+ * Fetch balances and compute skewed quotes for a symbol
+ */
+export async function getSkewedQuotes(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    midPrice: number,
+    bidTotalQuoteAmount: number,
+    askTotalQuoteAmount: number,
+    config: InventorySkewConfig = {}
+): Promise<InventorySkewedQuotes> {
+    const [baseSymbol, quoteSymbol] = symbol.split("/");
+    const base = await account.getCurrencyBalance(exchange, baseSymbol);
+    const quote = await account.getCurrencyBalance(exchange, quoteSymbol);
+
+    const inventory = measureInventory(base.total, quote.total, midPrice, config);
+    return skewQuotes(midPrice, bidTotalQuoteAmount, askTotalQuoteAmount, inventory, config);
+}
+
+export default {
+    measureInventory,
+    skewQuotes,
+    getSkewedQuotes,
+    inventorySkewConfigFromEnv,
+    defaultInventorySkewConfig,
+};
@@ -0,0 +1,292 @@
+/**
+ * Ladder Reconciler
+ * Incremental order refresh for the market-making bots: diff the desired ladder against the
+ * live orders and only cancel/place the levels whose price or size moved beyond a tolerance.
+ * Untouched levels keep their queue priority and a fill only costs one replacement order.
+ */
+
+import * as ccxt from "ccxt";
+import { formatRejections, type MarketRules, type OrderRejection } from "../market-rules";
+import * as trading from "../trading";
+import type { LadderLevel } from "./order-ladder";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+/**
+ * replace: cancel the whole ladder and place it again (original behaviour) |
+ * incremental: only touch levels that differ from the desired ladder
+ */
+export type RefreshMode = "replace" | "incremental";
+
+export interface DesiredOrder {
+    side: trading.OrderSide;
+    price: number; // Rounded to the market's tick
+    amount: number; // Rounded to the market's step (base currency)
+    level: number; // Ladder level, 0 = nearest to the reference price
+}
+
+export interface LiveOrder {
+    id: string;
+    side: trading.OrderSide;
+    price: number;
+    amount: number; // Remaining (unfilled) amount
+}
+
+export interface ReconcileTolerance {
+    priceTolerancePercent?: number; // Keep a live order within this % of the desired price (default: 0.5)
+    sizeTolerancePercent?: number; // ...and within this % of the desired size (default: 10)
+}
+
+export interface LadderDiff {
+    keep: LiveOrder[];
+    cancel: LiveOrder[];
+    place: DesiredOrder[];
+}
+
+export interface ApplyDiffOptions {
+    tag?: (order: DesiredOrder) => trading.OrderTag; // clientOrderId tag per placed level
+    placeDelayMs?: number; // Pause between placements (rate limits)
+    sleep?: (ms: number) => Promise<void>;
+}
+
+export interface LadderReconcileResult {
+    orders: LiveOrder[]; // Live ladder after the refresh (kept + placed)
+    diff: LadderDiff;
+    cancelled: string[]; // Includes orders that were already gone
+    placed: LiveOrder[];
+    failed: Array<{ order: DesiredOrder; error: string }>;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const defaultReconcileTolerance: Required<ReconcileTolerance> = {
+    priceTolerancePercent: 0.5,
+    sizeTolerancePercent: 10,
+};
+
+/**
+ * Refresh mode from REFRESH_MODE (default: incremental)
+ */
+export function refreshModeFromEnv(): RefreshMode {
+    return process.env.REFRESH_MODE === "replace" ? "replace" : "incremental";
+}
+
+/**
+ * Tolerances from REFRESH_PRICE_TOLERANCE_PERCENT / REFRESH_SIZE_TOLERANCE_PERCENT
+ */
+export function reconcileToleranceFromEnv(): ReconcileTolerance {
+    const number = (name: string) => (process.env[name] ? parseFloat(process.env[name] as string) : undefined);
+
+    return {
+        priceTolerancePercent: number("REFRESH_PRICE_TOLERANCE_PERCENT"),
+        sizeTolerancePercent: number("REFRESH_SIZE_TOLERANCE_PERCENT"),
+    };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const percentDiff = (value: number, target: number) => (Math.abs(value - target) / target) * 100;
+
+/**
+ * Round ladder levels through the market rules; levels breaking a limit are returned separately
+ */
+export function desiredLadder(
+    levels: LadderLevel[],
+    side: "bid" | "ask",
+    rules: MarketRules
+): { orders: DesiredOrder[]; rejected: Array<{ level: number; rejections: OrderRejection[] }> } {
+    const orderSide = side === "bid" ? "buy" : "sell";
+    const orders: DesiredOrder[] = [];
+    const rejected: Array<{ level: number; rejections: OrderRejection[] }> = [];
+
+    levels.forEach((level, i) => {
+        const check = rules.normalizeQuote(orderSide, level.price, level.quoteAmount);
+        if (check.ok) {
+            orders.push({ side: orderSide, price: check.order.price, amount: check.order.amount, level: i });
+        } else {
+            rejected.push({ level: i, rejections: check.rejections });
+        }
+    });
+
+    return { orders, rejected };
+}
+
+/**
+ * Live ladder from ccxt open orders, optionally limited to the ids a bot owns
+ */
+export function liveOrdersFrom(
+    openOrders: Array<{ id: string; side: string; price: number; amount: number; remaining?: number }>,
+    ownedIds?: Iterable<string>
+): LiveOrder[] {
+    const owned = ownedIds ? new Set(ownedIds) : undefined;
+    return openOrders
+        .filter((o) => !owned || owned.has(o.id))
+        .map((o) => ({
+            id: o.id,
+            side: o.side as trading.OrderSide,
+            price: o.price,
+            amount: o.remaining ?? o.amount,
+        }));
+}
+
+// ============================================================================
+// RECONCILER
+// ============================================================================
+
+/**
+ * Match each desired level to the closest live order on the same side within tolerance.
+ * Matched orders are kept, unmatched live orders cancelled, unmatched levels placed.
+ * A partially filled order whose remaining size fell out of tolerance is replaced.
+ */
+export function diffLadder(
+    desired: DesiredOrder[],
+    live: LiveOrder[],
+    tolerance: ReconcileTolerance = {}
+): LadderDiff {
+    const priceTolerance = tolerance.priceTolerancePercent ?? defaultReconcileTolerance.priceTolerancePercent;
+    const sizeTolerance = tolerance.sizeTolerancePercent ?? defaultReconcileTolerance.sizeTolerancePercent;
+
+    const unmatched = new Set(live);
+    const keep: LiveOrder[] = [];
+    const place: DesiredOrder[] = [];
+
+    for (const target of [...desired].sort((a, b) => a.level - b.level)) {
+        let best: LiveOrder | undefined;
+        let bestDistance = Infinity;
+
+        for (const order of unmatched) {
+            if (order.side !== target.side) continue;
+
+            const priceDistance = percentDiff(order.price, target.price);
+            if (priceDistance > priceTolerance) continue;
+            if (percentDiff(order.amount, target.amount) > sizeTolerance) continue;
+
+            if (priceDistance < bestDistance) {
+                best = order;
+                bestDistance = priceDistance;
+            }
+        }
+
+        if (best) {
+            unmatched.delete(best);
+            keep.push(best);
+        } else {
+            place.push(target);
+        }
+    }
+
+    return { keep, cancel: [...unmatched], place };
+}
+
+/**
+ * Execute a diff: cancel first (frees balance), then place the missing levels
+ */
+export async function applyLadderDiff(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    diff: LadderDiff,
+    options: ApplyDiffOptions = {}
+): Promise<LadderReconcileResult> {
+    const sleep = options.sleep || delay;
+    const placed: LiveOrder[] = [];
+    const failed: LadderReconcileResult["failed"] = [];
+    let cancelled: string[] = [];
+    let stillOpen: LiveOrder[] = [];
+
+    if (diff.cancel.length > 0) {
+        const result = await trading.cancelOrders(exchange, diff.cancel.map((o) => o.id), symbol);
+        cancelled = [...result.cancelled, ...result.alreadyGone];
+
+        // Orders we failed to cancel are still ours and still live
+        const failedIds = new Set(result.failed.map((f) => f.orderId));
+        stillOpen = diff.cancel.filter((o) => failedIds.has(o.id));
+    }
+
+    for (const target of diff.place) {
+        try {
+            const order = await trading.createLimitOrder(
+                exchange,
+                symbol,
+                target.side,
+                target.amount,
+                target.price,
+                {},
+                options.tag?.(target)
+            );
+            placed.push({ id: order.id, side: target.side, price: target.price, amount: target.amount });
+        } catch (error) {
+            failed.push({ order: target, error: error instanceof Error ? error.message : String(error) });
+        }
+
+        if (options.placeDelayMs) {
+            await sleep(options.placeDelayMs);
+        }
+    }
+
+    return {
+        orders: [...diff.keep, ...stillOpen, ...placed],
+        diff,
+        cancelled,
+        placed,
+        failed,
+    };
+}
+
+/**
+ * Diff and apply in one go
+ */
+export async function reconcileLadder(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    desired: DesiredOrder[],
+    live: LiveOrder[],
+    options: ApplyDiffOptions & { tolerance?: ReconcileTolerance } = {}
+): Promise<LadderReconcileResult> {
+    const diff = diffLadder(desired, live, options.tolerance);
+    return applyLadderDiff(exchange, symbol, diff, options);
+}
+
+/**
+ * One-line summary for logs
+ */
+export function formatReconcileResult(result: LadderReconcileResult): string {
+    const parts = [
+        `${result.diff.keep.length} kept`,
+        `${result.cancelled.length} cancelled`,
+        `${result.placed.length} placed`,
+    ];
+    if (result.failed.length > 0) {
+        parts.push(`${result.failed.length} failed (${result.failed[0].error})`);
+    }
+    return parts.join(", ");
+}
+
+/**
+ * Log levels skipped by the market rules
+ */
+export function logRejectedLevels(rejected: Array<{ level: number; rejections: OrderRejection[] }>): void {
+    for (const { level, rejections } of rejected) {
+        console.log(`   ⚠️  Level ${level + 1}: Skipped - ${formatRejections(rejections)}`);
+    }
+}
+
+export default {
+    diffLadder,
+    applyLadderDiff,
+    reconcileLadder,
+    desiredLadder,
+    liveOrdersFrom,
+    formatReconcileResult,
+    logRejectedLevels,
+    refreshModeFromEnv,
+    reconcileToleranceFromEnv,
+    defaultReconcileTolerance,
+};
@@ -1,15 +1,40 @@
 /**
  * Market Making Strategy - Two-Sided Market Maker
  * Places orders on BOTH sides (BID and ASK) simultaneously
- * When ANY order fills on either side, ALL orders on BOTH sides are replaced
+ * When ANY order fills on either side, both ladders are refreshed - incrementally by default
+ * (only levels that differ are touched), or fully cancelled and replaced with REFRESH_MODE=replace
  */
 
 import * as ccxt from "ccxt";
 import chalk from "chalk";
 import * as account from "../account";
+import { BotSession } from "../bot-state";
+import { isErrorCategory } from "../errors";
 import { initExchange, type ExchangeName } from "../exchange";
-import * as marketData from "../market-data";
+import { MarketRules, formatRejections, type MarketDefinition } from "../market-rules";
+import { MarketStream, runOnStreamUpdates } from "../market-stream";
 import * as trading from "../trading";
+import { getSkewedQuotes, inventorySkewConfigFromEnv, type InventorySkewConfig } from "./inventory-skew";
+import {
+    desiredLadder,
+    formatReconcileResult,
+    liveOrdersFrom,
+    logRejectedLevels,
+    reconcileLadder,
+    reconcileToleranceFromEnv,
+    refreshModeFromEnv,
+    type DesiredOrder,
+    type ReconcileTolerance,
+    type RefreshMode,
+} from "./ladder-reconciler";
+import { buildLadder, ladderConfigFromEnv, type LadderConfig } from "./order-ladder";
+import {
+    getReferencePrice,
+    priceReferenceFromEnv,
+    referencePriceOptionsFromEnv,
+    type PriceReference,
+    type ReferencePriceOptions,
+} from "./reference-price";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -22,9 +47,27 @@ export interface BothSideMMConfig {
     askTotalQuoteAmount: number; // Total amount for ASK orders in quote currency
     spreadPercent: number; // Spread percentage (e.g., 20 for 20%)
     numberOfOrders: number; // Number of orders per side
-    priceReference?: "first_ask" | "first_bid" | "mid" | "best";
+    priceReference?: PriceReference;
+    referenceOptions?: ReferencePriceOptions; // Dust/depth notional, VWAP window, EMA period, external exchange
     driftThresholdPercent?: number;
     monitorIntervalSeconds?: number;
+    ladder?: LadderConfig; // Order spacing/sizing per side (default: linear spacing, equal sizes)
+    inventory?: InventorySkewConfig; // Skew price/sizes toward a target base/quote ratio (default: off)
+    refreshMode?: RefreshMode; // incremental (default): only touch changed levels | replace: cancel all and re-place
+    refreshTolerance?: ReconcileTolerance; // Price/size difference at which a live order is replaced
+    streaming?: boolean; // Run cycles on WebSocket order updates instead of every monitorIntervalSeconds
+    streamIdleSeconds?: number; // Streaming: run a cycle anyway after this long without updates (default: 10)
+}
+
+export interface BothSideMonitorState {
+    activeBidOrderIds: string[];
+    activeAskOrderIds: string[];
+    expectedBidCount: number; // ACTUAL number of BID orders placed
+    expectedAskCount: number; // ACTUAL number of ASK orders placed
+    cycleCount: number;
+    quotingBid?: boolean; // False while the inventory cap pauses a side
+    quotingAsk?: boolean;
+    session?: BotSession; // Persists owned orders/fills so restarts can reconcile
 }
 
 interface OrderInfo {
@@ -35,106 +78,72 @@ interface OrderInfo {
     quoteValue: number;
 }
 
-// ============================================================================
-// CONFIGURATION
-// ============================================================================
-
-const botConfig: BothSideMMConfig = {
-    exchange: (process.env.EXCHANGE as ExchangeName) || "xt",
-    symbol: process.env.SYMBOL || "ORBD/USDT",
-    bidTotalQuoteAmount: parseFloat(
-        process.env.BID_TOTAL_QUOTE_AMOUNT ||
-        process.env.TOTAL_QUOTE_AMOUNT ||
-        "5.5"
-    ),
-    askTotalQuoteAmount: parseFloat(
-        process.env.ASK_TOTAL_QUOTE_AMOUNT ||
-        process.env.TOTAL_QUOTE_AMOUNT ||
-        "5.5"
-    ),
-    spreadPercent: parseFloat(process.env.SPREAD_PERCENT || "20"),
-    numberOfOrders: parseInt(process.env.NUMBER_OF_ORDERS || "20"),
-    priceReference:
-        (process.env.PRICE_REFERENCE as
-            | "first_ask"
-            | "first_bid"
-            | "mid"
-            | "best") || "mid",
-    driftThresholdPercent: parseFloat(
-        process.env.DRIFT_THRESHOLD_PERCENT || process.env.SPREAD_PERCENT || "20"
-    ),
-    monitorIntervalSeconds: parseFloat(
-        process.env.MONITOR_INTERVAL_SECONDS || "1"
-    ),
-};
+/**
+ * The parts of a ccxt open order the bot reads
+ */
+interface OpenOrder {
+    id: string;
+    side: string;
+    price: number;
+    amount: number;
+    remaining?: number;
+}
 
 // ============================================================================
-// HELPER FUNCTIONS
+// CONFIGURATION
 // ============================================================================
 
 /**
- * Get current reference price
+ * Settings from environment variables (EXCHANGE, SYMBOL, BID/ASK_TOTAL_QUOTE_AMOUNT, SPREAD_PERCENT, NUMBER_OF_ORDERS, ...)
  */
-async function getReferencePrice(
-    exchange: ccxt.Exchange,
-    symbol: string,
-    priceReference: "first_ask" | "first_bid" | "mid" | "best"
-): Promise<number> {
-    const ticker = await marketData.fetchTicker(exchange, symbol);
-
-    switch (priceReference) {
-        case "first_ask":
-            return ticker.ask || ticker.last || 0;
-        case "first_bid":
-            return ticker.bid || ticker.last || 0;
-        case "mid":
-            if (ticker.bid && ticker.ask) {
-                return (ticker.bid + ticker.ask) / 2;
-            }
-            return ticker.last || 0;
-        case "best":
-            if (ticker.bid && ticker.ask) {
-                return (ticker.bid + ticker.ask) / 2;
-            }
-            return ticker.last || 0;
-        default:
-            return ticker.last || 0;
-    }
+export function bothSideConfigFromEnv(): BothSideMMConfig {
+    return {
+        exchange: (process.env.EXCHANGE as ExchangeName) || "xt",
+        symbol: process.env.SYMBOL || "ORBD/USDT",
+        bidTotalQuoteAmount: parseFloat(
+            process.env.BID_TOTAL_QUOTE_AMOUNT ||
+            process.env.TOTAL_QUOTE_AMOUNT ||
+            "5.5"
+        ),
+        askTotalQuoteAmount: parseFloat(
+            process.env.ASK_TOTAL_QUOTE_AMOUNT ||
+            process.env.TOTAL_QUOTE_AMOUNT ||
+            "5.5"
+        ),
+        spreadPercent: parseFloat(process.env.SPREAD_PERCENT || "20"),
+        numberOfOrders: parseInt(process.env.NUMBER_OF_ORDERS || "20"),
+        priceReference: priceReferenceFromEnv() || "mid",
+        referenceOptions: referencePriceOptionsFromEnv(),
+        driftThresholdPercent: parseFloat(
+            process.env.DRIFT_THRESHOLD_PERCENT || process.env.SPREAD_PERCENT || "20"
+        ),
+        monitorIntervalSeconds: parseFloat(
+            process.env.MONITOR_INTERVAL_SECONDS || "1"
+        ),
+        ladder: ladderConfigFromEnv(),
+        inventory: inventorySkewConfigFromEnv(),
+        refreshMode: refreshModeFromEnv(),
+        refreshTolerance: reconcileToleranceFromEnv(),
+        streaming: process.env.MARKET_STREAM === "true",
+        streamIdleSeconds: parseFloat(process.env.STREAM_IDLE_SECONDS || "10"),
+    };
 }
 
+const botConfig = bothSideConfigFromEnv();
+
 /**
- * Calculate order distribution for one side
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
  */
-function calculateOrderDistribution(
-    referencePrice: number,
-    side: "bid" | "ask",
-    totalQuoteAmount: number,
-    spreadPercent: number,
-    numberOfOrders: number
-): Array<{ price: number; quoteAmount: number }> {
-    const orders: Array<{ price: number; quoteAmount: number }> = [];
-    const quoteAmountPerOrder = totalQuoteAmount / numberOfOrders;
-    const spreadDecimal = spreadPercent / 100;
-
-    for (let i = 0; i < numberOfOrders; i++) {
-        const spreadStep = spreadDecimal / numberOfOrders;
-        const priceOffset = spreadStep * (i + 0.5);
-
-        let orderPrice: number;
-        if (side === "bid") {
-            orderPrice = referencePrice * (1 - priceOffset);
-        } else {
-            orderPrice = referencePrice * (1 + priceOffset);
-        }
+const BOTH_SIDE_BOT_TAG = "both";
 
-        orders.push({
-            price: orderPrice,
-            quoteAmount: quoteAmountPerOrder,
-        });
-    }
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
 
-    return orders;
-}
+/**
+ * Default delay used between order placements (replaced by a no-op in the replay simulator)
+ */
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
 /**
  * Place orders on one side
@@ -145,7 +154,8 @@ async function placeOrdersOneSide(
     side: "bid" | "ask",
     referencePrice: number,
     totalAmount: number,
-    market: any
+    market: MarketDefinition,
+    sleep: (ms: number) => Promise<void> = delay
 ): Promise<OrderInfo[]> {
     const color = side === "bid" ? chalk.green : chalk.red;
     const orderSide = side === "bid" ? "buy" : "sell";
@@ -154,28 +164,16 @@ async function placeOrdersOneSide(
     console.log(color(`\n📊 Placing ${side.toUpperCase()} orders...`));
 
     // Get market constraints
-    const amountPrecision = market?.precision?.amount || 2;
-    const pricePrecision = market?.precision?.price || 4;
-    const minCost = market?.limits?.cost?.min || 1;
-    const minAmount = market?.limits?.amount?.min || 0;
-    const minPrice = market?.limits?.price?.min || 0.0001;
-
-    const amountDecimals =
-        amountPrecision < 1 ? -Math.log10(amountPrecision) : amountPrecision;
-    const priceDecimals =
-        pricePrecision < 1 ? -Math.log10(pricePrecision) : pricePrecision;
-    const amountTickSize =
-        amountPrecision < 1 ? amountPrecision : Math.pow(10, -amountPrecision);
-    const priceTickSize =
-        pricePrecision < 1 ? pricePrecision : Math.pow(10, -pricePrecision);
+    const rules = new MarketRules(market, exchange.precisionMode);
 
     // Calculate order distribution
-    const orderDistribution = calculateOrderDistribution(
+    const orderDistribution = buildLadder(
         referencePrice,
         side,
         totalAmount,
         config.spreadPercent,
-        config.numberOfOrders
+        config.numberOfOrders,
+        config.ladder
     );
 
     // Place orders sequentially with delay to avoid rate limits
@@ -184,39 +182,27 @@ async function placeOrdersOneSide(
 
     for (let i = 0; i < orderDistribution.length; i++) {
         const orderData = orderDistribution[i];
-        const { price: rawPrice, quoteAmount } = orderData;
-        const rawBaseAmount = quoteAmount / rawPrice;
 
-        // Round to exchange precision
-        let price = Math.round(rawPrice / priceTickSize) * priceTickSize;
-        price = parseFloat(price.toFixed(priceDecimals));
-        price = Math.max(price, minPrice);
+        // Round to exchange precision and check limits
+        const check = rules.normalizeQuote(orderSide, orderData.price, orderData.quoteAmount);
+        const { price, amount: baseAmount, cost: actualCost } = check.order;
 
-        let baseAmount =
-            Math.round(rawBaseAmount / amountTickSize) * amountTickSize;
-        baseAmount = parseFloat(baseAmount.toFixed(amountDecimals));
-
-        // Check minimum amount
-        if (baseAmount < minAmount) {
+        if (!check.ok) {
             console.log(
-                color(
-                    `   ⚠️  Order ${i + 1}: Skipped - amount ${baseAmount.toFixed(
-                        amountDecimals
-                    )} below minimum ${minAmount}`
-                )
+                color(`   ⚠️  Order ${i + 1}: Skipped - ${formatRejections(check.rejections)}`)
             );
             continue;
         }
 
-        const actualCost = baseAmount * price;
-
         try {
             const order = await trading.createLimitOrder(
                 exchange,
                 config.symbol,
                 orderSide,
                 baseAmount,
-                price
+                price,
+                {},
+                trading.orderTag(BOTH_SIDE_BOT_TAG, side, i)
             );
 
             const priceDeviation = (
@@ -244,15 +230,15 @@ async function placeOrdersOneSide(
 
             // Add delay between orders to avoid rate limits
             if (i < orderDistribution.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, delayBetweenOrders));
+                await sleep(delayBetweenOrders);
             }
         } catch (error: any) {
             console.error(color(`   ❌ Order ${i + 1} failed:`), error.message);
 
-            // If rate limited, wait longer before next order
-            if (error.message?.includes("429") || error.message?.includes("RateLimitExceeded")) {
+            // Still rate limited after the wrapper's retries - wait longer before next order
+            if (isErrorCategory(error, "RateLimited")) {
                 console.log(color(`   ⏳ Rate limited - waiting 2 seconds...`));
-                await new Promise(resolve => setTimeout(resolve, 2000));
+                await sleep(2000);
             }
         }
     }
@@ -264,53 +250,124 @@ async function placeOrdersOneSide(
     return placedOrders;
 }
 
+interface BothSidesPlan {
+    referencePrice: number; // Reservation price when inventory skew is on
+    bidQuoteAmount: number;
+    askQuoteAmount: number;
+    quotingBid: boolean;
+    quotingAsk: boolean;
+}
+
 /**
- * Place orders on both sides in parallel
+ * Reference price and per-side amounts for the next placement (inventory-skewed when enabled)
  */
-async function placeBothSides(
+async function planBothSides(
     exchange: ccxt.Exchange,
-    config: BothSideMMConfig,
-    market: any
-): Promise<{ bidOrders: OrderInfo[]; askOrders: OrderInfo[] }> {
-    console.log(chalk.cyan(`\n${"=".repeat(60)}`));
-    console.log(chalk.cyan(`📤 PLACING ORDERS ON BOTH SIDES (WITH RATE LIMITING)`));
-    console.log(chalk.cyan(`${"=".repeat(60)}`));
-
+    config: BothSideMMConfig
+): Promise<BothSidesPlan> {
     // Get reference price
-    const referencePrice = await getReferencePrice(
+    let referencePrice = await getReferencePrice(
         exchange,
         config.symbol,
-        config.priceReference || "mid"
+        config.priceReference || "mid",
+        undefined,
+        config.referenceOptions
     );
+    let bidQuoteAmount = config.bidTotalQuoteAmount;
+    let askQuoteAmount = config.askTotalQuoteAmount;
+    let quotingBid = true;
+    let quotingAsk = true;
 
     console.log(
         chalk.white(`📍 Reference Price: ${referencePrice.toFixed(8)}\n`)
     );
 
-    // Place BID orders first
-    console.log(chalk.green(`📊 Placing BID orders (sequential with delays)...`));
-    const bidOrders = await placeOrdersOneSide(
+    // Skew around the reservation price when inventory-aware quoting is on
+    if (config.inventory) {
+        const skewed = await getSkewedQuotes(
+            exchange,
+            config.symbol,
+            referencePrice,
+            config.bidTotalQuoteAmount,
+            config.askTotalQuoteAmount,
+            config.inventory
+        );
+        ({ referencePrice, bidQuoteAmount, askQuoteAmount, quoteBid: quotingBid, quoteAsk: quotingAsk } = skewed);
+
+        console.log(
+            chalk.white(
+                `⚖️  Inventory: ${(skewed.inventory.baseRatio * 100).toFixed(1)}% base ` +
+                `(deviation ${skewed.inventory.deviation.toFixed(3)}) → reservation ${referencePrice.toFixed(8)}, ` +
+                `BID $${bidQuoteAmount.toFixed(2)} / ASK $${askQuoteAmount.toFixed(2)}\n`
+            )
+        );
+    }
+
+    return { referencePrice, bidQuoteAmount, askQuoteAmount, quotingBid, quotingAsk };
+}
+
+interface PlacedBothSides {
+    bidOrders: OrderInfo[];
+    askOrders: OrderInfo[];
+    referencePrice: number;
+    quotingBid: boolean;
+    quotingAsk: boolean;
+}
+
+/**
+ * Place orders on both sides in parallel
+ */
+async function placeBothSides(
+    exchange: ccxt.Exchange,
+    config: BothSideMMConfig,
+    market: MarketDefinition,
+    sleep: (ms: number) => Promise<void> = delay
+): Promise<PlacedBothSides> {
+    console.log(chalk.cyan(`\n${"=".repeat(60)}`));
+    console.log(chalk.cyan(`📤 PLACING ORDERS ON BOTH SIDES (WITH RATE LIMITING)`));
+    console.log(chalk.cyan(`${"=".repeat(60)}`));
+
+    const { referencePrice, bidQuoteAmount, askQuoteAmount, quotingBid, quotingAsk } = await planBothSides(
         exchange,
-        config,
-        "bid",
-        referencePrice,
-        config.bidTotalQuoteAmount,
-        market
+        config
     );
 
-    // Add delay between sides
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // Place BID orders first
+    let bidOrders: OrderInfo[] = [];
+    if (quotingBid) {
+        console.log(chalk.green(`📊 Placing BID orders (sequential with delays)...`));
+        bidOrders = await placeOrdersOneSide(
+            exchange,
+            config,
+            "bid",
+            referencePrice,
+            bidQuoteAmount,
+            market,
+            sleep
+        );
+
+        // Add delay between sides
+        await sleep(500);
+    } else {
+        console.log(chalk.yellow(`⏸  Base inventory above cap - not quoting BID`));
+    }
 
     // Place ASK orders second
-    console.log(chalk.red(`\n📊 Placing ASK orders (sequential with delays)...`));
-    const askOrders = await placeOrdersOneSide(
-        exchange,
-        config,
-        "ask",
-        referencePrice,
-        config.askTotalQuoteAmount,
-        market
-    );
+    let askOrders: OrderInfo[] = [];
+    if (quotingAsk) {
+        console.log(chalk.red(`\n📊 Placing ASK orders (sequential with delays)...`));
+        askOrders = await placeOrdersOneSide(
+            exchange,
+            config,
+            "ask",
+            referencePrice,
+            askQuoteAmount,
+            market,
+            sleep
+        );
+    } else {
+        console.log(chalk.yellow(`⏸  Base inventory below cap - not quoting ASK`));
+    }
 
     console.log(chalk.cyan(`\n${"=".repeat(60)}`));
     console.log(
@@ -321,26 +378,94 @@ async function placeBothSides(
     );
     console.log(chalk.cyan(`${"=".repeat(60)}\n`));
 
-    return { bidOrders, askOrders };
+    return { bidOrders, askOrders, referencePrice, quotingBid, quotingAsk };
 }
 
 /**
- * Cancel all orders
+ * Bring both live ladders in line with the desired ones, cancelling/placing only the levels that
+ * differ, and update the monitor state. A side paused by the inventory cap has no desired levels,
+ * so its live orders are cancelled.
  */
-async function cancelAllOrders(
+async function refreshBothSides(
+    exchange: ccxt.Exchange,
+    config: BothSideMMConfig,
+    market: MarketDefinition,
+    state: BothSideMonitorState,
+    liveOrders: OpenOrder[],
+    sleep: (ms: number) => Promise<void> = delay
+): Promise<void> {
+    const { referencePrice, bidQuoteAmount, askQuoteAmount, quotingBid, quotingAsk } = await planBothSides(
+        exchange,
+        config
+    );
+    const rules = new MarketRules(market, exchange.precisionMode);
+    const desired: DesiredOrder[] = [];
+
+    for (const [side, quoting, amount] of [
+        ["bid", quotingBid, bidQuoteAmount],
+        ["ask", quotingAsk, askQuoteAmount],
+    ] as const) {
+        if (!quoting) {
+            console.log(
+                chalk.yellow(`⏸  Base inventory ${side === "bid" ? "above" : "below"} cap - not quoting ${side.toUpperCase()}`)
+            );
+            continue;
+        }
+
+        const levels = buildLadder(referencePrice, side, amount, config.spreadPercent, config.numberOfOrders, config.ladder);
+        const ladder = desiredLadder(levels, side, rules);
+        logRejectedLevels(ladder.rejected);
+        desired.push(...ladder.orders);
+    }
+
+    const result = await reconcileLadder(exchange, config.symbol, desired, liveOrdersFrom(liveOrders), {
+        tolerance: config.refreshTolerance,
+        tag: (order) => trading.orderTag(BOTH_SIDE_BOT_TAG, order.side === "buy" ? "bid" : "ask", order.level),
+        placeDelayMs: 50,
+        sleep,
+    });
+
+    result.failed.forEach(({ order, error }) => {
+        console.error(chalk.red(`   ❌ ${order.side.toUpperCase()} level ${order.level + 1} failed: ${error}`));
+    });
+    console.log(chalk.cyan(`🔧 Ladders @ ${referencePrice.toFixed(8)}: ${formatReconcileResult(result)}\n`));
+
+    state.activeBidOrderIds = result.orders.filter((o) => o.side === "buy").map((o) => o.id);
+    state.activeAskOrderIds = result.orders.filter((o) => o.side === "sell").map((o) => o.id);
+    state.session?.setReferencePrice(referencePrice);
+    state.expectedBidCount = state.activeBidOrderIds.length;
+    state.expectedAskCount = state.activeAskOrderIds.length;
+    state.quotingBid = quotingBid;
+    state.quotingAsk = quotingAsk;
+}
+
+/**
+ * Cancel this bot's orders by id - other orders on the symbol are left alone.
+ * Returns the ids that could not be cancelled.
+ */
+async function cancelOwnOrders(
     exchange: ccxt.Exchange,
     symbol: string,
     orderIds: string[]
-): Promise<void> {
-    if (orderIds.length === 0) return;
+): Promise<string[]> {
+    if (orderIds.length === 0) return [];
 
     console.log(chalk.yellow(`\n🗑️  Cancelling ${orderIds.length} orders...`));
 
     try {
-        await exchange.cancelAllOrders(symbol);
-        console.log(chalk.yellow(`✅ Cancelled all orders\n`));
+        const result = await trading.cancelOrders(exchange, orderIds, symbol);
+        result.failed.forEach(({ orderId, error }) => {
+            console.error(chalk.red(`   ❌ Failed ${orderId.substring(0, 12)}...: ${error}`));
+        });
+        console.log(
+            chalk.yellow(
+                `✅ ${result.cancelled.length} cancelled, ${result.alreadyGone.length} already filled/gone, ${result.failed.length} failed\n`
+            )
+        );
+        return result.failed.map((f) => f.orderId);
     } catch (error: any) {
         console.error(chalk.red(`❌ Error cancelling orders:`), error.message);
+        return orderIds;
     }
 }
 
@@ -352,14 +477,18 @@ async function checkForFills(
     symbol: string,
     bidOrderIds: string[],
     askOrderIds: string[]
-): Promise<{ bidFilled: string[]; askFilled: string[] }> {
-    const allOpenOrders = await trading.fetchOpenOrders(exchange, symbol);
-    const openOrderIds = new Set(allOpenOrders.map((o: any) => o.id));
+): Promise<{ bidFilled: string[]; askFilled: string[]; open: OpenOrder[] }> {
+    const allOpenOrders: OpenOrder[] = await trading.fetchOpenOrders(exchange, symbol);
+    const openOrderIds = new Set(allOpenOrders.map((o) => o.id));
 
     const bidFilled = bidOrderIds.filter((id) => !openOrderIds.has(id));
     const askFilled = askOrderIds.filter((id) => !openOrderIds.has(id));
 
-    return { bidFilled, askFilled };
+    // Our orders that are still live
+    const ownIds = new Set([...bidOrderIds, ...askOrderIds]);
+    const open = allOpenOrders.filter((o) => ownIds.has(o.id));
+
+    return { bidFilled, askFilled, open };
 }
 
 /**
@@ -367,7 +496,8 @@ async function checkForFills(
  */
 function logFillNotification(
     bidFilled: string[],
-    askFilled: string[]
+    askFilled: string[],
+    refreshMode: RefreshMode = "replace"
 ): void {
     if (bidFilled.length === 0 && askFilled.length === 0) return;
 
@@ -395,7 +525,13 @@ function logFillNotification(
         );
     }
 
-    console.log(chalk.yellow(`🔄 Replacing ALL orders on BOTH sides...`));
+    console.log(
+        chalk.yellow(
+            refreshMode === "incremental"
+                ? `🔄 Refreshing changed levels on BOTH sides...`
+                : `🔄 Replacing ALL orders on BOTH sides...`
+        )
+    );
     console.log(chalk.yellow(`${"=".repeat(60)}\n`));
 }
 
@@ -404,218 +540,336 @@ function logFillNotification(
 // ============================================================================
 
 /**
- * Start the two-sided market maker bot
+ * Run one monitoring cycle - refresh both ladders on fills and when a side is missing orders
+ * Shared by startBot and the order-book replay simulator
  */
-export async function startBot(
-    config: BothSideMMConfig = botConfig
+export async function runMonitorCycle(
+    exchange: ccxt.Exchange,
+    config: BothSideMMConfig,
+    market: MarketDefinition,
+    state: BothSideMonitorState,
+    sleep: (ms: number) => Promise<void> = delay
 ): Promise<void> {
-    console.log(chalk.cyan.bold(`\n🚀 Starting Two-Sided Market Maker Bot...\n`));
-
-    // Initialize exchange
-    const exchange = initExchange(config.exchange);
+    const intervalSeconds = config.monitorIntervalSeconds || 1;
+    const heartbeatInterval = Math.ceil(10 / intervalSeconds);
 
-    // Load markets
-    console.log(chalk.cyan(`📥 Loading market data...`));
-    const markets = await exchange.loadMarkets();
-    const market = markets[config.symbol];
-    console.log(chalk.cyan(`✅ Market data loaded\n`));
+    const refreshMode = config.refreshMode || "incremental";
 
-    // Track active orders
-    let activeBidOrderIds: string[] = [];
-    let activeAskOrderIds: string[] = [];
-    let expectedBidCount = 0; // Track ACTUAL number of BID orders placed
-    let expectedAskCount = 0; // Track ACTUAL number of ASK orders placed
+    state.cycleCount++;
 
-    // Place initial orders
-    console.log(chalk.cyan(`📤 Placing initial orders...\n`));
-    const initial = await placeBothSides(exchange, config, market);
-    activeBidOrderIds = initial.bidOrders.map((o) => o.id);
-    activeAskOrderIds = initial.askOrders.map((o) => o.id);
-    expectedBidCount = initial.bidOrders.length; // Track actual count
-    expectedAskCount = initial.askOrders.length; // Track actual count
+    try {
+        // Check for fills
+        const { bidFilled, askFilled, open } = await checkForFills(
+            exchange,
+            config.symbol,
+            state.activeBidOrderIds,
+            state.activeAskOrderIds
+        );
 
-    const intervalSeconds = config.monitorIntervalSeconds || 1;
-    console.log(
-        chalk.cyan(
-            `🔄 Monitoring started - checking every ${intervalSeconds}s...\n`
-        )
-    );
+        // Incremental refresh: keep the levels that still match, replenish the filled ones
+        if ((bidFilled.length > 0 || askFilled.length > 0) && refreshMode === "incremental") {
+            logFillNotification(bidFilled, askFilled, refreshMode);
+            await state.session?.recordFills(exchange, [...bidFilled, ...askFilled]);
 
-    let cycleCount = 0;
-    const heartbeatInterval = Math.ceil(10 / intervalSeconds);
+            state.activeBidOrderIds = open.filter((o) => o.side === "buy").map((o) => o.id);
+            state.activeAskOrderIds = open.filter((o) => o.side === "sell").map((o) => o.id);
+            await refreshBothSides(exchange, config, market, state, open, sleep);
+            return;
+        }
 
-    // Lock to prevent concurrent operations
-    let isProcessing = false;
+        // If ANY order filled, replace ALL orders
+        if (bidFilled.length > 0 || askFilled.length > 0) {
+            logFillNotification(bidFilled, askFilled);
+            await state.session?.recordFills(exchange, [...bidFilled, ...askFilled]);
+
+            // Cancel all our remaining orders
+            const filledIds = new Set([...bidFilled, ...askFilled]);
+            const remainingIds = [
+                ...state.activeBidOrderIds,
+                ...state.activeAskOrderIds,
+            ].filter((id) => !filledIds.has(id));
+            await cancelOwnOrders(exchange, config.symbol, remainingIds);
+
+            // Wait for cancellations to settle
+            await sleep(1500);
+
+            // Check if both sides are clear of our orders
+            const remaining = new Set(remainingIds);
+            const recheckOrders = (
+                (await trading.fetchOpenOrders(exchange, config.symbol)) as OpenOrder[]
+            ).filter((o) => remaining.has(o.id));
+
+            if (recheckOrders.length === 0) {
+                console.log(
+                    chalk.green(`✅ Both sides clear - placing fresh orders...\n`)
+                );
 
-    // Monitoring loop
-    const monitorInterval = setInterval(async () => {
-        cycleCount++;
+                // Place new orders on both sides
+                const newOrders = await placeBothSides(
+                    exchange,
+                    config,
+                    market,
+                    sleep
+                );
+                state.activeBidOrderIds = newOrders.bidOrders.map((o) => o.id);
+                state.activeAskOrderIds = newOrders.askOrders.map((o) => o.id);
+                state.session?.setReferencePrice(newOrders.referencePrice);
+                state.expectedBidCount = newOrders.bidOrders.length; // Update expected counts
+                state.expectedAskCount = newOrders.askOrders.length;
+                state.quotingBid = newOrders.quotingBid;
+                state.quotingAsk = newOrders.quotingAsk;
+            } else {
+                console.log(
+                    chalk.yellow(
+                        `⏸  ${recheckOrders.length} orders still present - will retry next cycle\n`
+                    )
+                );
+                // Update tracking with remaining orders
+                const bidOrders = recheckOrders.filter(
+                    (o) => o.side === "buy"
+                );
+                const askOrders = recheckOrders.filter(
+                    (o) => o.side === "sell"
+                );
+                state.activeBidOrderIds = bidOrders.map((o) => o.id);
+                state.activeAskOrderIds = askOrders.map((o) => o.id);
+            }
 
-        // Skip if already processing
-        if (isProcessing) {
-            console.log(chalk.gray(`⏭  Skipping cycle - busy processing...`));
             return;
         }
 
-        try {
-            isProcessing = true;
+        // Check if any side is empty
+        const allOpenOrders: OpenOrder[] = await trading.fetchOpenOrders(
+            exchange,
+            config.symbol
+        );
+        const ourBidOrders = allOpenOrders.filter(
+            (o) =>
+                o.side === "buy" && state.activeBidOrderIds.includes(o.id)
+        );
+        const ourAskOrders = allOpenOrders.filter(
+            (o) =>
+                o.side === "sell" && state.activeAskOrderIds.includes(o.id)
+        );
 
-            // Check for fills
-            const { bidFilled, askFilled } = await checkForFills(
-                exchange,
-                config.symbol,
-                activeBidOrderIds,
-                activeAskOrderIds
-            );
+        // A side paused by the inventory cap is expected to be empty
+        const bidMissing = ourBidOrders.length === 0 && state.quotingBid !== false;
+        const askMissing = ourAskOrders.length === 0 && state.quotingAsk !== false;
 
-            // If ANY order filled, replace ALL orders
-            if (bidFilled.length > 0 || askFilled.length > 0) {
-                logFillNotification(bidFilled, askFilled);
+        if (bidMissing || askMissing) {
+            console.log(
+                chalk.yellow(
+                    `\n⚠️  Missing orders (${ourBidOrders.length} BID, ${ourAskOrders.length} ASK) - refreshing...\n`
+                )
+            );
 
-                // Cancel all remaining orders
-                await exchange.cancelAllOrders(config.symbol);
+            if (refreshMode === "incremental") {
+                await refreshBothSides(exchange, config, market, state, [...ourBidOrders, ...ourAskOrders], sleep);
+                return;
+            }
 
-                // Wait for cancellations to settle
-                await new Promise((resolve) => setTimeout(resolve, 1500));
+            await cancelOwnOrders(exchange, config.symbol, [
+                ...state.activeBidOrderIds,
+                ...state.activeAskOrderIds,
+            ]);
+            await sleep(500);
+
+            const newOrders = await placeBothSides(exchange, config, market, sleep);
+            state.activeBidOrderIds = newOrders.bidOrders.map((o) => o.id);
+            state.activeAskOrderIds = newOrders.askOrders.map((o) => o.id);
+            state.session?.setReferencePrice(newOrders.referencePrice);
+            state.expectedBidCount = newOrders.bidOrders.length; // Update expected counts
+            state.expectedAskCount = newOrders.askOrders.length;
+            state.quotingBid = newOrders.quotingBid;
+            state.quotingAsk = newOrders.quotingAsk;
 
-                // Check if both sides are clear
-                const recheckOrders = await trading.fetchOpenOrders(
-                    exchange,
-                    config.symbol
-                );
+            return;
+        }
 
-                if (recheckOrders.length === 0) {
-                    console.log(
-                        chalk.green(`✅ Both sides clear - placing fresh orders...\n`)
-                    );
-
-                    // Place new orders on both sides
-                    const newOrders = await placeBothSides(
-                        exchange,
-                        config,
-                        market
-                    );
-                    activeBidOrderIds = newOrders.bidOrders.map((o) => o.id);
-                    activeAskOrderIds = newOrders.askOrders.map((o) => o.id);
-                    expectedBidCount = newOrders.bidOrders.length; // Update expected counts
-                    expectedAskCount = newOrders.askOrders.length;
-                } else {
-                    console.log(
-                        chalk.yellow(
-                            `⏸  ${recheckOrders.length} orders still present - will retry next cycle\n`
-                        )
-                    );
-                    // Update tracking with remaining orders
-                    const bidOrders = recheckOrders.filter(
-                        (o: any) => o.side === "buy"
-                    );
-                    const askOrders = recheckOrders.filter(
-                        (o: any) => o.side === "sell"
-                    );
-                    activeBidOrderIds = bidOrders.map((o: any) => o.id);
-                    activeAskOrderIds = askOrders.map((o: any) => o.id);
-                }
+        // Check if either side has fewer orders than expected (based on actual placement)
+        if (ourBidOrders.length < state.expectedBidCount || ourAskOrders.length < state.expectedAskCount) {
+            console.log(
+                chalk.yellow(
+                    `\n⚠️  Order count mismatch (${ourBidOrders.length}/${state.expectedBidCount} BID, ${ourAskOrders.length}/${state.expectedAskCount} ASK) - refreshing...\n`
+                )
+            );
 
+            if (refreshMode === "incremental") {
+                await refreshBothSides(exchange, config, market, state, [...ourBidOrders, ...ourAskOrders], sleep);
                 return;
             }
 
-            // Check if any side is empty
-            const allOpenOrders = await trading.fetchOpenOrders(
-                exchange,
-                config.symbol
-            );
-            const ourBidOrders = allOpenOrders.filter(
-                (o: any) =>
-                    o.side === "buy" && activeBidOrderIds.includes(o.id)
-            );
-            const ourAskOrders = allOpenOrders.filter(
-                (o: any) =>
-                    o.side === "sell" && activeAskOrderIds.includes(o.id)
+            await cancelOwnOrders(exchange, config.symbol, [
+                ...state.activeBidOrderIds,
+                ...state.activeAskOrderIds,
+            ]);
+
+            await sleep(500);
+
+            const newOrders = await placeBothSides(exchange, config, market, sleep);
+            state.activeBidOrderIds = newOrders.bidOrders.map((o) => o.id);
+            state.activeAskOrderIds = newOrders.askOrders.map((o) => o.id);
+            state.session?.setReferencePrice(newOrders.referencePrice);
+            state.expectedBidCount = newOrders.bidOrders.length; // Update expected counts
+            state.expectedAskCount = newOrders.askOrders.length;
+            state.quotingBid = newOrders.quotingBid;
+            state.quotingAsk = newOrders.quotingAsk;
+
+            return;
+        }
+
+        // Heartbeat
+        if (state.cycleCount % heartbeatInterval === 0) {
+            const now = new Date();
+            console.log(
+                chalk.cyan(
+                    `💓 [${now.toLocaleTimeString()}] Monitoring... ${ourBidOrders.length
+                    }/${state.expectedBidCount} BID + ${ourAskOrders.length}/${state.expectedAskCount} ASK orders active`
+                )
             );
+        }
+    } catch (error) {
+        console.error(chalk.red(`❌ Error in monitoring loop:`), error);
+        console.log("⚠️  Continuing...\n");
+    } finally {
+        state.session?.setOrders([
+            ...state.activeBidOrderIds,
+            ...state.activeAskOrderIds,
+        ]);
+    }
+}
 
-            if (ourBidOrders.length === 0 || ourAskOrders.length === 0) {
-                console.log(
-                    chalk.yellow(
-                        `\n⚠️  Missing orders (${ourBidOrders.length} BID, ${ourAskOrders.length} ASK) - refreshing...\n`
-                    )
-                );
+/**
+ * Start the two-sided market maker bot
+ */
+export async function startBot(
+    config: BothSideMMConfig = botConfig
+): Promise<void> {
+    console.log(chalk.cyan.bold(`\n🚀 Starting Two-Sided Market Maker Bot...\n`));
 
-                await cancelAllOrders(exchange, config.symbol, [
-                    ...activeBidOrderIds,
-                    ...activeAskOrderIds,
-                ]);
-                await new Promise((resolve) => setTimeout(resolve, 500));
+    // Initialize exchange (ccxt.pro class when streaming)
+    const exchange = initExchange(config.exchange, false, config.streaming);
 
-                const newOrders = await placeBothSides(exchange, config, market);
-                activeBidOrderIds = newOrders.bidOrders.map((o) => o.id);
-                activeAskOrderIds = newOrders.askOrders.map((o) => o.id);
-                expectedBidCount = newOrders.bidOrders.length; // Update expected counts
-                expectedAskCount = newOrders.askOrders.length;
+    // Load markets
+    console.log(chalk.cyan(`📥 Loading market data...`));
+    const markets = await exchange.loadMarkets();
+    const market = markets[config.symbol];
+    console.log(chalk.cyan(`✅ Market data loaded\n`));
 
-                return;
-            }
+    // Reconcile with orders left over from a previous run of this instance
+    const session = BotSession.open("mm-both-side", config.exchange, config.symbol, config);
+    const reconciled = await session.reconcile(exchange, trading.orderTag(BOTH_SIDE_BOT_TAG));
+    let adopted = reconciled.adopted;
 
-            // Check if either side has fewer orders than expected (based on actual placement)
-            if (ourBidOrders.length < expectedBidCount || ourAskOrders.length < expectedAskCount) {
-                console.log(
-                    chalk.yellow(
-                        `\n⚠️  Order count mismatch (${ourBidOrders.length}/${expectedBidCount} BID, ${ourAskOrders.length}/${expectedAskCount} ASK) - refreshing...\n`
-                    )
-                );
+    console.log(
+        chalk.cyan(
+            `🗂️  State [${session.state.instanceId}]: ${adopted.length} own order(s) open, ` +
+            `${reconciled.gone.length} gone since last run, ${reconciled.foreign} foreign order(s) ignored`
+        )
+    );
 
-                await cancelAllOrders(exchange, config.symbol, [
-                    ...activeBidOrderIds,
-                    ...activeAskOrderIds,
-                ]);
+    if (adopted.length > 0 && reconciled.configChanged) {
+        console.log(chalk.yellow(`⚙️  Config changed since last run - replacing ${adopted.length} adopted order(s)`));
+        await cancelOwnOrders(exchange, config.symbol, adopted.map((o) => o.id));
+        adopted = [];
+        session.setOrders([]);
+    }
 
-                await new Promise((resolve) => setTimeout(resolve, 500));
+    let initial: { bidOrders: { id: string }[]; askOrders: { id: string }[]; quotingBid?: boolean; quotingAsk?: boolean };
+    if (adopted.length > 0) {
+        console.log(chalk.cyan(`♻️  Adopting ${adopted.length} order(s) from previous run\n`));
+        initial = {
+            bidOrders: adopted.filter((o) => o.side === "buy"),
+            askOrders: adopted.filter((o) => o.side === "sell"),
+        };
+    } else {
+        // Place initial orders
+        console.log(chalk.cyan(`📤 Placing initial orders...\n`));
+        const placed = await placeBothSides(exchange, config, market);
+        session.setReferencePrice(placed.referencePrice);
+        initial = placed;
+    }
 
-                const newOrders = await placeBothSides(exchange, config, market);
-                activeBidOrderIds = newOrders.bidOrders.map((o) => o.id);
-                activeAskOrderIds = newOrders.askOrders.map((o) => o.id);
-                expectedBidCount = newOrders.bidOrders.length; // Update expected counts
-                expectedAskCount = newOrders.askOrders.length;
+    const intervalSeconds = config.monitorIntervalSeconds || 1;
+    console.log(
+        chalk.cyan(
+            config.streaming
+                ? `🔄 Monitoring started - on order stream updates...\n`
+                : `🔄 Monitoring started - checking every ${intervalSeconds}s...\n`
+        )
+    );
+
+    const state: BothSideMonitorState = {
+        activeBidOrderIds: initial.bidOrders.map((o) => o.id),
+        activeAskOrderIds: initial.askOrders.map((o) => o.id),
+        expectedBidCount: initial.bidOrders.length, // Track actual count
+        expectedAskCount: initial.askOrders.length, // Track actual count
+        cycleCount: 0,
+        quotingBid: initial.quotingBid,
+        quotingAsk: initial.quotingAsk,
+        session,
+    };
+    session.setOrders([...state.activeBidOrderIds, ...state.activeAskOrderIds]);
+
+    let stopMonitoring: () => void;
 
+    if (config.streaming) {
+        // Cycles run on our order updates (fills, cancels); REST polling takes over if the socket stays down
+        const stream = new MarketStream(exchange, config.symbol, {
+            channels: ["orders"],
+            restIntervalMs: intervalSeconds * 1000,
+        }).start();
+        stream.on("connected", () => console.log(chalk.cyan(`📡 Order stream connected`)));
+
+        const stopLoop = runOnStreamUpdates(stream, () => runMonitorCycle(exchange, config, market, state), {
+            idleIntervalMs: (config.streamIdleSeconds || 10) * 1000,
+        });
+        stopMonitoring = () => {
+            stopLoop();
+            stream.stop();
+        };
+    } else {
+        // Lock to prevent concurrent operations
+        let isProcessing = false;
+
+        // Monitoring loop
+        const monitorInterval = setInterval(async () => {
+            // Skip if already processing
+            if (isProcessing) {
+                state.cycleCount++;
+                console.log(chalk.gray(`⏭  Skipping cycle - busy processing...`));
                 return;
             }
 
-            // Heartbeat
-            if (cycleCount % heartbeatInterval === 0) {
-                const now = new Date();
-                console.log(
-                    chalk.cyan(
-                        `💓 [${now.toLocaleTimeString()}] Monitoring... ${ourBidOrders.length
-                        }/${expectedBidCount} BID + ${ourAskOrders.length}/${expectedAskCount} ASK orders active`
-                    )
-                );
+            try {
+                isProcessing = true;
+                await runMonitorCycle(exchange, config, market, state);
+            } finally {
+                // Always release the lock
+                isProcessing = false;
             }
-        } catch (error) {
-            console.error(chalk.red(`❌ Error in monitoring loop:`), error);
-            console.log("⚠️  Continuing...\n");
-        } finally {
-            // Always release the lock
-            isProcessing = false;
-        }
-    }, intervalSeconds * 1000);
+        }, intervalSeconds * 1000);
+        stopMonitoring = () => clearInterval(monitorInterval);
+    }
 
     // Graceful shutdown handler
     const shutdown = async (signal: string) => {
         console.log(chalk.yellow(`\n\n🛑 Received ${signal} - Shutting down...`));
-        clearInterval(monitorInterval);
+        stopMonitoring();
 
         console.log(
             chalk.yellow(
-                `\n📊 Cancelling ${activeBidOrderIds.length
-                } BID + ${activeAskOrderIds.length} ASK orders...`
+                `\n📊 Cancelling ${state.activeBidOrderIds.length
+                } BID + ${state.activeAskOrderIds.length} ASK orders...`
             )
         );
 
-        try {
-            await exchange.cancelAllOrders(config.symbol);
-            console.log(chalk.green(`✅ All orders cancelled successfully`));
-        } catch (error) {
-            console.error(chalk.red(`❌ Error cancelling orders:`), error);
-        }
+        // Anything that failed to cancel stays in the state file for the next run to adopt
+        const stillOpen = await cancelOwnOrders(exchange, config.symbol, [
+            ...state.activeBidOrderIds,
+            ...state.activeAskOrderIds,
+        ]);
+        session.setOrders(stillOpen);
 
         console.log(chalk.green(`✅ Bot stopped\n`));
         process.exit(0);
@@ -641,33 +895,33 @@ export async function startBot(
 /**
  * Run the bot
  */
-export async function runBot() {
+export async function runBot(config: BothSideMMConfig = botConfig) {
     try {
         console.log("\n" + "=".repeat(60));
         console.log(chalk.cyan.bold("🤖 TWO-SIDED MARKET MAKER BOT"));
         console.log("=".repeat(60));
-        console.log(`Exchange:         ${botConfig.exchange.toUpperCase()}`);
-        console.log(`Symbol:           ${botConfig.symbol}`);
+        console.log(`Exchange:         ${config.exchange.toUpperCase()}`);
+        console.log(`Symbol:           ${config.symbol}`);
         console.log(
-            chalk.green(`BID Amount:       $${botConfig.bidTotalQuoteAmount}`)
+            chalk.green(`BID Amount:       $${config.bidTotalQuoteAmount}`)
         );
         console.log(
-            chalk.red(`ASK Amount:       $${botConfig.askTotalQuoteAmount}`)
+            chalk.red(`ASK Amount:       $${config.askTotalQuoteAmount}`)
         );
-        console.log(`Spread:           ${botConfig.spreadPercent}%`);
-        console.log(`Orders per side:  ${botConfig.numberOfOrders}`);
-        console.log(`Price Reference:  ${botConfig.priceReference || "mid"}`);
+        console.log(`Spread:           ${config.spreadPercent}%`);
+        console.log(`Orders per side:  ${config.numberOfOrders}`);
+        console.log(`Price Reference:  ${config.priceReference || "mid"}`);
         console.log(
-            `Drift Threshold:  ${botConfig.driftThresholdPercent ||
-            botConfig.spreadPercent
+            `Drift Threshold:  ${config.driftThresholdPercent ||
+            config.spreadPercent
             }%`
         );
         console.log(
-            `Monitor Interval: ${botConfig.monitorIntervalSeconds || 1}s`
+            `Monitor Interval: ${config.monitorIntervalSeconds || 1}s`
         );
         console.log("=".repeat(60) + "\n");
 
-        await startBot(botConfig);
+        await startBot(config);
     } catch (error) {
         console.error("❌ Bot failed to start:", error);
         process.exit(1);
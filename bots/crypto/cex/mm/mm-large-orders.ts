@@ -5,9 +5,20 @@
 
 import * as ccxt from 'ccxt';
 import { initExchange, type ExchangeName } from '../exchange';
-import * as marketData from '../market-data';
+import { FillLedger, formatPnL, type PnLSummary } from '../ledger';
+import { MarketRules, formatRejections } from '../market-rules';
+import { MarketStream } from '../market-stream';
+import { OrderBook, formatWallEvent } from '../order-book';
 import * as trading from '../trading';
 import * as account from '../account';
+import { getReferencePrice } from './reference-price';
+
+/**
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
+ */
+const LARGE_ORDERS_BOT_TAG = 'large';
+
+const DEFAULT_PNL_INTERVAL_MS = 60000;
 
 export interface LargeOrderMMConfig {
     exchange: ExchangeName;
@@ -18,6 +29,28 @@ export interface LargeOrderMMConfig {
     maxDistance: number;              // Max distance from mid price to place orders (%)
     refreshInterval: number;          // How often to check order book (ms)
     minSpread: number;                // Minimum spread to maintain (%)
+    bookDepth?: number;               // Order book levels to maintain (default: 50)
+    streaming?: boolean;              // Maintain the book from the WebSocket stream instead of REST snapshots
+    pnlInterval?: number;             // Max time between fill ledger syncs when no fill was seen (ms, default: 60000)
+}
+
+/**
+ * Settings from environment variables (EXCHANGE, SYMBOL, LARGE_ORDER_THRESHOLD, ORDER_AMOUNT, MIN_SPREAD_PERCENT, ...)
+ */
+export function largeOrderConfigFromEnv(): LargeOrderMMConfig {
+    return {
+        exchange: (process.env.EXCHANGE as ExchangeName) || 'binance',
+        symbol: process.env.SYMBOL || 'BTC/USDT',
+        largeOrderThreshold: parseFloat(process.env.LARGE_ORDER_THRESHOLD || '1'),
+        spreadMultiplier: parseFloat(process.env.SPREAD_MULTIPLIER || '1.5'),
+        orderAmount: parseFloat(process.env.ORDER_AMOUNT || '0.01'),
+        maxDistance: parseFloat(process.env.MAX_DISTANCE_PERCENT || '2'),
+        refreshInterval: parseFloat(process.env.REFRESH_INTERVAL_SECONDS || '10') * 1000,
+        minSpread: parseFloat(process.env.MIN_SPREAD_PERCENT || '0.1'),
+        bookDepth: process.env.BOOK_DEPTH ? parseInt(process.env.BOOK_DEPTH) : undefined,
+        streaming: process.env.MARKET_STREAM === 'true',
+        pnlInterval: process.env.PNL_INTERVAL_SECONDS ? parseFloat(process.env.PNL_INTERVAL_SECONDS) * 1000 : undefined,
+    };
 }
 
 export interface LargeOrder {
@@ -31,7 +64,8 @@ export interface LargeOrderMMState {
     midPrice: number;
     largeOrders: LargeOrder[];
     activeOrders: string[];
-    totalProfit: number;
+    totalProfit: number;              // Realized + unrealized PnL of this bot on the symbol (quote)
+    pnl?: PnLSummary;
     detectedCount: number;
     isRunning: boolean;
 }
@@ -40,11 +74,25 @@ export class LargeOrderMarketMaker {
     private config: LargeOrderMMConfig;
     private exchange: ccxt.Exchange;
     private state: LargeOrderMMState;
+    private rules?: MarketRules;
     private intervalId?: NodeJS.Timeout;
+    private book: OrderBook;
+    private stream?: MarketStream;
+    private stopFollowing?: () => void;
+    private ledger: FillLedger;
+    private lastLedgerSync = 0;
+    private fillSeen = false;             // An order of ours left the book before we cancelled it
 
     constructor(config: LargeOrderMMConfig) {
         this.config = config;
-        this.exchange = initExchange(config.exchange);
+        this.exchange = initExchange(config.exchange, false, config.streaming);
+        this.ledger = new FillLedger(this.exchange, { since: Date.now() });
+        this.book = new OrderBook(config.symbol, {
+            wallMinAmount: config.largeOrderThreshold,
+            wallMaxDistancePercent: config.maxDistance,
+            wallDepthLevels: config.bookDepth || 50,
+        });
+        this.book.on('wall', (event) => console.log(formatWallEvent(event)));
         this.state = {
             midPrice: 0,
             largeOrders: [],
@@ -62,6 +110,15 @@ export class LargeOrderMarketMaker {
         console.log(`🔍 Starting Large Order Market Maker for ${this.config.symbol}`);
         this.state.isRunning = true;
 
+        if (this.config.streaming) {
+            this.stream = new MarketStream(this.exchange, this.config.symbol, {
+                channels: ['orderBook'],
+                orderBookLimit: this.config.bookDepth || 50,
+                restIntervalMs: this.config.refreshInterval,
+            }).start();
+            this.stopFollowing = this.book.follow(this.stream);
+        }
+
         // Main loop
         await this.runLoop();
 
@@ -82,6 +139,8 @@ export class LargeOrderMarketMaker {
         if (this.intervalId) {
             clearInterval(this.intervalId);
         }
+        this.stopFollowing?.();
+        this.stream?.stop();
 
         // Cancel all open orders
         await this.cancelAllOrders();
@@ -110,6 +169,9 @@ export class LargeOrderMarketMaker {
                 await this.maintainMinimalSpread();
             }
 
+            // Book fills and PnL
+            await this.updateProfit();
+
             // Log status
             this.logStatus();
         } catch (error) {
@@ -118,57 +180,51 @@ export class LargeOrderMarketMaker {
     }
 
     /**
-     * Update current market data
+     * Update the local order book and mid price
      */
     private async updateMarketData(): Promise<void> {
-        const ticker = await marketData.fetchTicker(this.exchange, this.config.symbol);
-
-        if (ticker.bid && ticker.ask) {
-            this.state.midPrice = (ticker.bid + ticker.ask) / 2;
-        } else {
-            this.state.midPrice = ticker.last || 0;
+        // The stream keeps the book current; fall back to a REST snapshot until it has synced
+        if (!this.stream || !this.book.isSynced) {
+            await this.book.refresh(this.exchange, this.config.bookDepth || 50);
         }
+
+        this.state.midPrice = await getReferencePrice(this.exchange, this.config.symbol, 'mid', undefined, {
+            book: this.book,
+        });
     }
 
     /**
-     * Detect large orders in the order book
+     * Pull new fills into the ledger and take the bot's PnL on the symbol from it - after an order
+     * filled, otherwise every pnlInterval (cancelled orders may have filled partly)
      */
-    private async detectLargeOrders(): Promise<void> {
-        const orderbook = await marketData.fetchOrderBook(this.exchange, this.config.symbol, 50);
-
-        this.state.largeOrders = [];
-
-        // Check bids for large orders
-        for (const [price, amount] of orderbook.bids) {
-            if (amount >= this.config.largeOrderThreshold) {
-                const distance = ((this.state.midPrice - price) / this.state.midPrice) * 100;
-
-                if (distance <= this.config.maxDistance) {
-                    this.state.largeOrders.push({
-                        side: 'bid',
-                        price,
-                        amount,
-                        distance,
-                    });
-                }
-            }
-        }
+    private async updateProfit(): Promise<void> {
+        const interval = this.config.pnlInterval ?? DEFAULT_PNL_INTERVAL_MS;
+        if (!this.fillSeen && Date.now() - this.lastLedgerSync < interval) return;
 
-        // Check asks for large orders
-        for (const [price, amount] of orderbook.asks) {
-            if (amount >= this.config.largeOrderThreshold) {
-                const distance = ((price - this.state.midPrice) / this.state.midPrice) * 100;
-
-                if (distance <= this.config.maxDistance) {
-                    this.state.largeOrders.push({
-                        side: 'ask',
-                        price,
-                        amount,
-                        distance,
-                    });
-                }
-            }
+        try {
+            await this.ledger.sync([this.config.symbol]);
+            this.state.pnl = await this.ledger.pnl({
+                bot: trading.orderTag(LARGE_ORDERS_BOT_TAG).bot,
+                symbol: this.config.symbol,
+            });
+            this.state.totalProfit = this.state.pnl.totalPnl;
+            this.lastLedgerSync = Date.now();
+            this.fillSeen = false;
+        } catch (error) {
+            console.error('Error updating PnL from the fill ledger:', error instanceof Error ? error.message : error);
         }
+    }
+
+    /**
+     * Detect large orders (walls) in the local order book
+     */
+    private async detectLargeOrders(): Promise<void> {
+        this.state.largeOrders = this.book.walls().map((wall) => ({
+            side: wall.side,
+            price: wall.price,
+            amount: wall.amount,
+            distance: wall.distancePercent,
+        }));
 
         // Update detection count
         if (this.state.largeOrders.length > 0) {
@@ -190,31 +246,19 @@ export class LargeOrderMarketMaker {
                     // Large bid detected - place ask order slightly above it to capture spread
                     const askPrice = largeOrder.price * (1 + (this.config.minSpread / 100) * this.config.spreadMultiplier);
 
-                    const order = await trading.createLimitOrder(
-                        this.exchange,
-                        this.config.symbol,
-                        'sell',
-                        this.config.orderAmount,
-                        askPrice
-                    );
-
-                    this.state.activeOrders.push(order.id);
-                    console.log(`✅ Placed ASK above large bid: ${this.config.orderAmount} @ ${askPrice.toFixed(8)}`);
+                    const order = await this.placeOrder('sell', askPrice);
+                    if (order) {
+                        console.log(`✅ Placed ASK above large bid: ${order.amount} @ ${order.price.toFixed(8)}`);
+                    }
 
                 } else {
                     // Large ask detected - place bid order slightly below it to capture spread
                     const bidPrice = largeOrder.price * (1 - (this.config.minSpread / 100) * this.config.spreadMultiplier);
 
-                    const order = await trading.createLimitOrder(
-                        this.exchange,
-                        this.config.symbol,
-                        'buy',
-                        this.config.orderAmount,
-                        bidPrice
-                    );
-
-                    this.state.activeOrders.push(order.id);
-                    console.log(`✅ Placed BID below large ask: ${this.config.orderAmount} @ ${bidPrice.toFixed(8)}`);
+                    const order = await this.placeOrder('buy', bidPrice);
+                    if (order) {
+                        console.log(`✅ Placed BID below large ask: ${order.amount} @ ${order.price.toFixed(8)}`);
+                    }
                 }
             } catch (error) {
                 console.error('Error placing strategic order:', error);
@@ -222,6 +266,34 @@ export class LargeOrderMarketMaker {
         }
     }
 
+    /**
+     * Round and validate an order against the market rules, then place it
+     */
+    private async placeOrder(side: trading.OrderSide, price: number): Promise<{ price: number; amount: number } | null> {
+        if (!this.rules) {
+            this.rules = await MarketRules.fromExchange(this.exchange, this.config.symbol);
+        }
+
+        const check = this.rules.normalize(side, price, this.config.orderAmount);
+        if (!check.ok) {
+            console.log(`⚠️  Skipped ${side} @ ${price.toFixed(8)}: ${formatRejections(check.rejections)}`);
+            return null;
+        }
+
+        const order = await trading.createLimitOrder(
+            this.exchange,
+            this.config.symbol,
+            side,
+            check.order.amount,
+            check.order.price,
+            {},
+            trading.orderTag(LARGE_ORDERS_BOT_TAG, side)
+        );
+        this.state.activeOrders.push(order.id);
+
+        return { price: check.order.price, amount: check.order.amount };
+    }
+
     /**
      * Maintain minimal spread when no large orders detected
      */
@@ -234,25 +306,11 @@ export class LargeOrderMarketMaker {
         try {
             // Place bid
             const bidPrice = this.state.midPrice * (1 - halfSpread);
-            const bidOrder = await trading.createLimitOrder(
-                this.exchange,
-                this.config.symbol,
-                'buy',
-                this.config.orderAmount,
-                bidPrice
-            );
-            this.state.activeOrders.push(bidOrder.id);
+            await this.placeOrder('buy', bidPrice);
 
             // Place ask
             const askPrice = this.state.midPrice * (1 + halfSpread);
-            const askOrder = await trading.createLimitOrder(
-                this.exchange,
-                this.config.symbol,
-                'sell',
-                this.config.orderAmount,
-                askPrice
-            );
-            this.state.activeOrders.push(askOrder.id);
+            await this.placeOrder('sell', askPrice);
 
             console.log(`📊 Minimal spread orders placed: BID @ ${bidPrice.toFixed(8)}, ASK @ ${askPrice.toFixed(8)}`);
         } catch (error) {
@@ -261,13 +319,16 @@ export class LargeOrderMarketMaker {
     }
 
     /**
-     * Cancel all open orders
+     * Cancel all open orders placed by this bot
      */
     private async cancelAllOrders(): Promise<void> {
         if (this.state.activeOrders.length === 0) return;
 
         try {
-            await trading.cancelAllOrders(this.exchange, this.config.symbol);
+            const result = await trading.cancelBotOrders(this.exchange, trading.orderTag(LARGE_ORDERS_BOT_TAG), this.config.symbol);
+            // Orders no longer open when we came to cancel them have (most likely) filled
+            const wereOpen = new Set([...result.cancelled, ...result.failed.map((f) => f.orderId)]);
+            if (this.state.activeOrders.some((id) => !wereOpen.has(id))) this.fillSeen = true;
             this.state.activeOrders = [];
         } catch (error) {
             console.error('Error canceling orders:', error);
@@ -285,6 +346,9 @@ export class LargeOrderMarketMaker {
         console.log(`   Total Detections: ${this.state.detectedCount}`);
         console.log(`   Active Orders: ${this.state.activeOrders.length}`);
         console.log(`   Total Profit: ${this.state.totalProfit.toFixed(2)}`);
+        if (this.state.pnl && this.state.pnl.fills > 0) {
+            console.log(`   PnL: ${formatPnL(this.state.pnl)}`);
+        }
 
         if (this.state.largeOrders.length > 0) {
             console.log('   Large Orders:');
@@ -302,6 +366,13 @@ export class LargeOrderMarketMaker {
         return { ...this.state };
     }
 
+    /**
+     * Local order book the detector reads from
+     */
+    getOrderBook(): OrderBook {
+        return this.book;
+    }
+
     /**
      * Get configuration
      */
@@ -345,4 +416,26 @@ export async function exampleLargeOrderMM() {
     return mm;
 }
 
-export default { LargeOrderMarketMaker, runLargeOrderMM, exampleLargeOrderMM };
+/**
+ * Run the bot until SIGINT/SIGTERM, then cancel its orders
+ */
+export async function runBot(config: LargeOrderMMConfig = largeOrderConfigFromEnv()): Promise<void> {
+    const mm = await runLargeOrderMM(config);
+
+    const shutdown = async () => {
+        await mm.stop();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+// Auto-run when executed directly
+if (require.main === module) {
+    runBot().catch((error) => {
+        console.error('❌ Bot failed to start:', error);
+        process.exit(1);
+    });
+}
+
+export default { LargeOrderMarketMaker, runLargeOrderMM, exampleLargeOrderMM, largeOrderConfigFromEnv, runBot };
@@ -7,9 +7,32 @@
 import * as ccxt from "ccxt";
 import chalk from "chalk";
 import * as account from "../account";
+import { BotSession } from "../bot-state";
 import { initExchange, type ExchangeName } from "../exchange";
-import * as marketData from "../market-data";
+import { FillLedger, formatPnL } from "../ledger";
+import { MarketRules, formatRejections } from "../market-rules";
+import { MarketStream, runOnStreamUpdates } from "../market-stream";
 import * as trading from "../trading";
+import {
+    desiredLadder,
+    formatReconcileResult,
+    liveOrdersFrom,
+    logRejectedLevels,
+    reconcileLadder,
+    reconcileToleranceFromEnv,
+    refreshModeFromEnv,
+    type LiveOrder,
+    type ReconcileTolerance,
+    type RefreshMode
+} from "./ladder-reconciler";
+import { buildLadder, ladderConfigFromEnv, type LadderConfig } from "./order-ladder";
+import {
+    getReferencePrice,
+    priceReferenceFromEnv,
+    referencePriceOptionsFromEnv,
+    type PriceReference,
+    type ReferencePriceOptions,
+} from "./reference-price";
 
 /**
  * Get color function based on side
@@ -18,7 +41,7 @@ const getColor = (side: "bid" | "ask") =>
     side === "bid" ? chalk.green : chalk.red;
 
 /**
- * Log trade fill to console and optionally to file
+ * Log trade fill to console (the fills themselves are recorded by the fill ledger)
  */
 function logTradeFill(
     side: "bid" | "ask",
@@ -26,12 +49,6 @@ function logTradeFill(
     timestamp: Date = new Date()
 ): void {
     const color = getColor(side);
-    const logEntry = {
-        timestamp: timestamp.toISOString(),
-        side: side.toUpperCase(),
-        filledOrders: filledOrderIds.length,
-        orderIds: filledOrderIds
-    };
 
     console.log(color("\n" + "=".repeat(60)));
     console.log(color(`💰 TRADE FILL DETECTED - ${side.toUpperCase()}`));
@@ -44,10 +61,6 @@ function logTradeFill(
             .join(", ")}...`
     );
     console.log(color("=".repeat(60) + "\n"));
-
-    // Log to file (append mode) - optional, uncomment if needed
-    // const fs = require('fs');
-    // fs.appendFileSync('trades.log', JSON.stringify(logEntry) + '\n');
 }
 
 /**
@@ -73,26 +86,39 @@ function sendNotification(
     // - Email: await nodemailer.sendMail(...)
 }
 
-const botConfig: MonoSideMMConfig = {
-    exchange: (process.env.EXCHANGE as ExchangeName) || "xt",
-    symbol: process.env.SYMBOL || "ORBD/USDT",
-    side: (process.env.SIDE as "bid" | "ask") || "ask",
-    totalQuoteAmount: parseFloat(process.env.TOTAL_QUOTE_AMOUNT || "5.5"),
-    spreadPercent: parseFloat(process.env.SPREAD_PERCENT || "20"),
-    numberOfOrders: parseInt(process.env.NUMBER_OF_ORDERS || "20"),
-    priceReference:
-        (process.env.PRICE_REFERENCE as
-            | "first_ask"
-            | "first_bid"
-            | "mid"
-            | "best") || "first_ask",
-    driftThresholdPercent: parseFloat(
-        process.env.DRIFT_THRESHOLD_PERCENT || process.env.SPREAD_PERCENT || "20"
-    ),
-    monitorIntervalSeconds: parseFloat(
-        process.env.MONITOR_INTERVAL_SECONDS || "1"
-    )
-};
+/**
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
+ */
+const MONO_SIDE_BOT_TAG = "mono";
+
+/**
+ * Settings from environment variables (EXCHANGE, SYMBOL, SIDE, TOTAL_QUOTE_AMOUNT, SPREAD_PERCENT, NUMBER_OF_ORDERS, ...)
+ */
+export function monoSideConfigFromEnv(): MonoSideMMConfig {
+    return {
+        exchange: (process.env.EXCHANGE as ExchangeName) || "xt",
+        symbol: process.env.SYMBOL || "ORBD/USDT",
+        side: (process.env.SIDE as "bid" | "ask") || "ask",
+        totalQuoteAmount: parseFloat(process.env.TOTAL_QUOTE_AMOUNT || "5.5"),
+        spreadPercent: parseFloat(process.env.SPREAD_PERCENT || "20"),
+        numberOfOrders: parseInt(process.env.NUMBER_OF_ORDERS || "20"),
+        priceReference: priceReferenceFromEnv() || "first_ask",
+        referenceOptions: referencePriceOptionsFromEnv(),
+        driftThresholdPercent: parseFloat(
+            process.env.DRIFT_THRESHOLD_PERCENT || process.env.SPREAD_PERCENT || "20"
+        ),
+        monitorIntervalSeconds: parseFloat(
+            process.env.MONITOR_INTERVAL_SECONDS || "1"
+        ),
+        ladder: ladderConfigFromEnv(),
+        refreshMode: refreshModeFromEnv(),
+        refreshTolerance: reconcileToleranceFromEnv(),
+        streaming: process.env.MARKET_STREAM === "true",
+        streamIdleSeconds: parseFloat(process.env.STREAM_IDLE_SECONDS || "10")
+    };
+}
+
+const botConfig = monoSideConfigFromEnv();
 
 export interface MonoSideMMConfig {
     exchange: ExchangeName;
@@ -101,9 +127,15 @@ export interface MonoSideMMConfig {
     totalQuoteAmount: number; // Total amount in quote currency (e.g., 50 USDT)
     spreadPercent: number; // Spread percentage (e.g., 0.5 for 0.5%)
     numberOfOrders: number; // Number of orders to distribute (e.g., 10)
-    priceReference?: "first_ask" | "first_bid" | "mid" | "best"; // Price reference: first_ask (lowest ask), first_bid (highest bid), mid (average), best (auto-select based on side)
+    priceReference?: PriceReference; // Price reference: first_ask (lowest ask), first_bid (highest bid), mid (average), best (auto-select based on side), microprice, depth_mid, vwap, ema, external
+    referenceOptions?: ReferencePriceOptions; // Dust/depth notional, VWAP window, EMA period, external exchange
     driftThresholdPercent?: number; // Max allowed price drift before refreshing orders (default: spreadPercent)
     monitorIntervalSeconds?: number; // How often to check orders in seconds (default: 1)
+    ladder?: LadderConfig; // Order spacing/sizing (default: linear spacing, equal sizes)
+    refreshMode?: RefreshMode; // incremental (default): only touch changed levels | replace: cancel all and re-place
+    refreshTolerance?: ReconcileTolerance; // Price/size difference at which a live order is replaced
+    streaming?: boolean; // Run cycles on WebSocket order updates instead of every monitorIntervalSeconds
+    streamIdleSeconds?: number; // Streaming: run a cycle anyway after this long (drift check, default: 10)
 }
 
 export interface MonoSideOrder {
@@ -114,6 +146,14 @@ export interface MonoSideOrder {
     quoteValue: number;
 }
 
+export interface MonoSideMonitorState {
+    activeOrderIds: string[]; // Orders placed by this bot instance
+    cycleCount: number;
+    session?: BotSession; // Persists owned orders/fills so restarts can reconcile
+    ledger?: FillLedger; // Trade-level fills for PnL
+    referencePrice?: number; // Price the live ladder is centered on (refills keep it, drift re-centers)
+}
+
 export interface MonoSideMMResult {
     config: MonoSideMMConfig;
     currentPrice: number;
@@ -122,80 +162,6 @@ export interface MonoSideMMResult {
     totalQuoteAmount: number;
 }
 
-/**
- * Get current reference price
- */
-async function getReferencePrice(
-    exchange: ccxt.Exchange,
-    symbol: string,
-    side: "bid" | "ask",
-    priceReference: "first_ask" | "first_bid" | "mid" | "best"
-): Promise<number> {
-    const ticker = await marketData.fetchTicker(exchange, symbol);
-
-    switch (priceReference) {
-        case "first_ask":
-            // Always use lowest ask price
-            return ticker.ask || ticker.last || 0;
-
-        case "first_bid":
-            // Always use highest bid price
-            return ticker.bid || ticker.last || 0;
-
-        case "mid":
-            // Use mid price (average of bid and ask)
-            if (ticker.bid && ticker.ask) {
-                return (ticker.bid + ticker.ask) / 2;
-            }
-            return ticker.last || 0;
-
-        case "best":
-            // Auto-select based on order side
-            if (side === "bid") {
-                return ticker.bid || ticker.last || 0; // Use highest bid for buying
-            } else {
-                return ticker.ask || ticker.last || 0; // Use lowest ask for selling
-            }
-
-        default:
-            return ticker.last || 0;
-    }
-}
-
-/**
- * Calculate order distribution across spread
- */
-function calculateOrderDistribution(
-    referencePrice: number,
-    side: "bid" | "ask",
-    totalQuoteAmount: number,
-    spreadPercent: number,
-    numberOfOrders: number
-): Array<{ price: number; quoteAmount: number }> {
-    const orders: Array<{ price: number; quoteAmount: number }> = [];
-    const quoteAmountPerOrder = totalQuoteAmount / numberOfOrders;
-    const spreadDecimal = spreadPercent / 100;
-
-    for (let i = 0; i < numberOfOrders; i++) {
-        const spreadStep = spreadDecimal / numberOfOrders;
-        const priceOffset = spreadStep * (i + 0.5);
-
-        let orderPrice: number;
-        if (side === "bid") {
-            orderPrice = referencePrice * (1 - priceOffset);
-        } else {
-            orderPrice = referencePrice * (1 + priceOffset);
-        }
-
-        orders.push({
-            price: orderPrice,
-            quoteAmount: quoteAmountPerOrder
-        });
-    }
-
-    return orders;
-}
-
 /**
  * Prepare order parameters with proper rounding and validation
  */
@@ -203,38 +169,18 @@ function prepareOrder(
     config: MonoSideMMConfig,
     orderData: { price: number; quoteAmount: number },
     orderIndex: number,
-    amountDecimals: number,
-    priceDecimals: number,
-    amountTickSize: number,
-    priceTickSize: number,
-    minPrice: number,
-    minCost: number,
-    minAmount: number
+    rules: MarketRules
 ): {
     price: number;
     baseAmount: number;
     actualCost: number;
     orderSide: "buy" | "sell";
 } | null {
-    const [baseSymbol, quoteSymbol] = config.symbol.split("/");
-    const { price: rawPrice, quoteAmount } = orderData;
-    const rawBaseAmount = quoteAmount / rawPrice;
-
-    // Round to exchange precision with proper tick size
-    let price = Math.round(rawPrice / priceTickSize) * priceTickSize;
-    price = parseFloat(price.toFixed(priceDecimals));
-
-    // Ensure price meets minimum
-    if (price < minPrice) {
-        price = minPrice;
-    }
-
-    // Round amount to tick size as well
-    let baseAmount = Math.round(rawBaseAmount / amountTickSize) * amountTickSize;
-    baseAmount = parseFloat(baseAmount.toFixed(amountDecimals));
+    const orderSide = config.side === "bid" ? "buy" : "sell";
 
-    // Calculate actual cost
-    const actualCost = baseAmount * price;
+    // Round to exchange precision (bids down, asks up, amount down) and check limits
+    const check = rules.normalizeQuote(orderSide, orderData.price, orderData.quoteAmount);
+    const { price, amount: baseAmount, cost: actualCost } = check.order;
 
     console.log(
         `   🔍 Order ${orderIndex + 1
@@ -243,28 +189,14 @@ function prepareOrder(
         )}`
     );
 
-    // // Check if order meets minimum value requirement
-    // if (quoteAmount < minCost) {
-    //     console.log(
-    //         `   ⚠️  Order ${orderIndex + 1}/${config.numberOfOrders}: ` +
-    //         `Skipped - value $${quoteAmount.toFixed(2)} below minimum $${minCost.toFixed(2)}`
-    //     );
-    //     return null;
-    // }
-
-    // Check minimum amount
-    if (baseAmount < minAmount) {
+    if (!check.ok) {
         console.log(
             `   ⚠️  Order ${orderIndex + 1}/${config.numberOfOrders}: ` +
-            `Skipped - amount ${baseAmount.toFixed(
-                amountDecimals
-            )} below minimum ${minAmount}`
+            `Skipped - ${formatRejections(check.rejections)}`
         );
         return null;
     }
 
-    const orderSide = config.side === "bid" ? "buy" : "sell";
-
     return {
         price,
         baseAmount,
@@ -303,7 +235,9 @@ async function placeOrder(
             config.symbol,
             orderSide,
             baseAmount,
-            price
+            price,
+            {},
+            trading.orderTag(MONO_SIDE_BOT_TAG, config.side, orderIndex)
         );
 
         const priceDeviation = (
@@ -347,28 +281,10 @@ async function prepareAndPlaceOrder(
     orderData: { price: number; quoteAmount: number },
     orderIndex: number,
     currentPrice: number,
-    market: any,
-    amountDecimals: number,
-    priceDecimals: number,
-    amountTickSize: number,
-    priceTickSize: number,
-    minPrice: number,
-    minCost: number,
-    minAmount: number
+    rules: MarketRules
 ): Promise<MonoSideOrder | null> {
     // Prepare order parameters
-    const orderParams = prepareOrder(
-        config,
-        orderData,
-        orderIndex,
-        amountDecimals,
-        priceDecimals,
-        amountTickSize,
-        priceTickSize,
-        minPrice,
-        minCost,
-        minAmount
-    );
+    const orderParams = prepareOrder(config, orderData, orderIndex, rules);
 
     // If preparation failed (validation errors), return null
     if (!orderParams) {
@@ -388,11 +304,13 @@ async function prepareAndPlaceOrder(
 
 /**
  * Check balance and adjust totalQuoteAmount if necessary
+ * Funds locked in liveOrders count as available - they are ours to re-place
  */
 async function checkAndAdjustBalance(
     exchange: ccxt.Exchange,
     config: MonoSideMMConfig,
-    currentPrice: number
+    currentPrice: number,
+    liveOrders: LiveOrder[] = []
 ): Promise<number> {
     const [baseSymbol, quoteSymbol] = config.symbol.split("/");
     let adjustedQuoteAmount = config.totalQuoteAmount;
@@ -400,10 +318,12 @@ async function checkAndAdjustBalance(
     if (config.side === "ask") {
         // For selling, check base currency balance
         const baseBalance = await account.getCurrencyBalance(exchange, baseSymbol);
-        const availableBaseValue = baseBalance.free * currentPrice; // Convert to quote currency value
+        const lockedBase = liveOrders.reduce((sum, o) => sum + o.amount, 0);
+        const availableBase = baseBalance.free + lockedBase;
+        const availableBaseValue = availableBase * currentPrice; // Convert to quote currency value
 
         console.log(
-            `💰 Available ${baseSymbol}: ${baseBalance.free.toFixed(
+            `💰 Available ${baseSymbol}: ${availableBase.toFixed(
                 8
             )} (~$${availableBaseValue.toFixed(2)} ${quoteSymbol})`
         );
@@ -423,10 +343,13 @@ async function checkAndAdjustBalance(
             quoteSymbol
         );
 
-        console.log(`💰 Available ${quoteSymbol}: ${quoteBalance.free.toFixed(2)}`);
+        const lockedQuote = liveOrders.reduce((sum, o) => sum + o.amount * o.price, 0);
+        const availableQuote = quoteBalance.free + lockedQuote;
+
+        console.log(`💰 Available ${quoteSymbol}: ${availableQuote.toFixed(2)}`);
 
-        if (quoteBalance.free < config.totalQuoteAmount) {
-            adjustedQuoteAmount = quoteBalance.free;
+        if (availableQuote < config.totalQuoteAmount) {
+            adjustedQuoteAmount = availableQuote;
             console.log(
                 `⚠️  Insufficient balance! Adjusting to available: $${adjustedQuoteAmount.toFixed(
                     2
@@ -502,8 +425,9 @@ export async function placeMonoSideOrders(
     const currentPrice = await getReferencePrice(
         exchangeInstance,
         config.symbol,
+        priceReference,
         config.side,
-        priceReference
+        config.referenceOptions
     );
 
     if (currentPrice === 0) {
@@ -525,12 +449,13 @@ export async function placeMonoSideOrders(
     );
 
     // Calculate order distribution
-    const orderDistribution = calculateOrderDistribution(
+    const orderDistribution = buildLadder(
         currentPrice,
         config.side,
         adjustedQuoteAmount,
         config.spreadPercent,
-        config.numberOfOrders
+        config.numberOfOrders,
+        config.ladder
     );
 
     // Place orders
@@ -542,8 +467,9 @@ export async function placeMonoSideOrders(
     const market =
         cachedMarket || (await exchangeInstance.loadMarkets())[config.symbol];
 
-    const minCost = market?.limits?.cost?.min || 1; // XT minimum is likely $5
-    const minAmount = market?.limits?.amount?.min || 0;
+    const rules = new MarketRules(market, exchangeInstance.precisionMode);
+    const { min: minCost = 0 } = rules.limits.cost;
+    const { min: minAmount = 0 } = rules.limits.amount;
 
     console.log(`ℹ️  Exchange limits:`);
     console.log(`   Min order value: $${minCost.toFixed(2)}`);
@@ -561,31 +487,15 @@ export async function placeMonoSideOrders(
     console.log(`   Raw limits.price.min: ${market?.limits?.price?.min}`);
     console.log(`   Raw limits.amount.min: ${market?.limits?.amount?.min}`);
 
-    // Get precision info from exchange
-    // Note: precision can be either decimal places (e.g., 4) or tick size (e.g., 0.0001)
-    const amountPrecision = market?.precision?.amount || 2;
-    const pricePrecision = market?.precision?.price || 4;
-    const minPrice = market?.limits?.price?.min || 0.0001;
-
-    // Determine if precision is decimal places or tick size
-    const amountDecimals =
-        amountPrecision < 1 ? -Math.log10(amountPrecision) : amountPrecision;
-    const priceDecimals =
-        pricePrecision < 1 ? -Math.log10(pricePrecision) : pricePrecision;
-    const amountTickSize =
-        amountPrecision < 1 ? amountPrecision : Math.pow(10, -amountPrecision);
-    const priceTickSize =
-        pricePrecision < 1 ? pricePrecision : Math.pow(10, -pricePrecision);
-
     console.log(
         `\n📝 Placing ${config.numberOfOrders
         } ${config.side.toUpperCase()} orders:\n`
     );
-    console.log(`   Amount decimals: ${amountDecimals}`);
-    console.log(`   Amount tick size: ${amountTickSize}`);
-    console.log(`   Price decimals: ${priceDecimals}`);
-    console.log(`   Price tick size: ${priceTickSize}`);
-    console.log(`   Min price: ${minPrice}\n`);
+    console.log(`   Amount decimals: ${rules.amountDecimals}`);
+    console.log(`   Amount tick size: ${rules.amountStep}`);
+    console.log(`   Price decimals: ${rules.priceDecimals}`);
+    console.log(`   Price tick size: ${rules.priceStep}`);
+    console.log(`   Min price: ${rules.limits.price.min ?? "none"}\n`);
 
     // Prepare all orders first
     const orderPromises = orderDistribution.map((orderData, i) =>
@@ -595,14 +505,7 @@ export async function placeMonoSideOrders(
             orderData,
             i,
             currentPrice,
-            market,
-            amountDecimals,
-            priceDecimals,
-            amountTickSize,
-            priceTickSize,
-            minPrice,
-            minCost,
-            minAmount
+            rules
         )
     );
 
@@ -645,81 +548,86 @@ export async function placeMonoSideOrders(
 }
 
 /**
- * Cancel all orders for a symbol
+ * Bring the live ladder in line with the desired one, cancelling/placing only the levels that differ.
+ * Without a referencePrice the ladder is re-centered on the current reference price.
+ */
+export async function refreshMonoSideOrders(
+    config: MonoSideMMConfig,
+    exchange: ccxt.Exchange,
+    cachedMarket: any,
+    liveOrders: LiveOrder[],
+    referencePrice?: number
+): Promise<{ orderIds: string[]; referencePrice: number }> {
+    const color = getColor(config.side);
+    const currentPrice =
+        referencePrice ||
+        (await getReferencePrice(
+            exchange,
+            config.symbol,
+            config.priceReference || "mid",
+            config.side,
+            config.referenceOptions
+        ));
+
+    if (currentPrice === 0) {
+        throw new Error("Unable to get reference price");
+    }
+
+    const adjustedQuoteAmount = await checkAndAdjustBalance(exchange, config, currentPrice, liveOrders);
+    const levels = buildLadder(
+        currentPrice,
+        config.side,
+        adjustedQuoteAmount,
+        config.spreadPercent,
+        config.numberOfOrders,
+        config.ladder
+    );
+
+    const market = cachedMarket || (await exchange.loadMarkets())[config.symbol];
+    const rules = new MarketRules(market, exchange.precisionMode);
+    const desired = desiredLadder(levels, config.side, rules);
+    logRejectedLevels(desired.rejected);
+
+    const result = await reconcileLadder(exchange, config.symbol, desired.orders, liveOrders, {
+        tolerance: config.refreshTolerance,
+        tag: (order) => trading.orderTag(MONO_SIDE_BOT_TAG, config.side, order.level)
+    });
+
+    result.failed.forEach(({ order, error }) => {
+        console.error(`   ❌ Failed order ${order.level + 1}: ${error}`);
+    });
+    console.log(
+        color(
+            `🔧 [${config.side.toUpperCase()}] Ladder @ ${currentPrice.toFixed(8)}: ${formatReconcileResult(result)}\n`
+        )
+    );
+
+    return { orderIds: result.orders.map((o) => o.id), referencePrice: currentPrice };
+}
+
+/**
+ * Cancel this bot's orders by id - never touches other orders on the symbol
  */
 export async function cancelMonoSideOrders(
     exchangeName: ExchangeName,
     symbol: string,
-    orderIds?: string[],
+    orderIds: string[],
     exchange?: ccxt.Exchange
 ): Promise<void> {
     const exchangeInstance = exchange || initExchange(exchangeName);
 
-    console.log(`\n🗑️  Cancelling orders for ${symbol}...`);
+    if (orderIds.length === 0) return;
+    console.log(`\n🗑️  Cancelling ${orderIds.length} order(s) for ${symbol}...`);
 
     try {
-        if (orderIds && orderIds.length > 0) {
-            // Use native CCXT cancelAllOrders for batch cancellation
-            try {
-                await exchangeInstance.cancelAllOrders(symbol);
-                console.log(`   ✅ Cancelled ${orderIds.length} order(s)`);
-            } catch (error: any) {
-                // If exchange doesn't support cancelOrders, fall back to individual cancellation
-                if (
-                    error.message?.includes("not supported") ||
-                    error.message?.includes("NotSupported")
-                ) {
-                    console.log(
-                        `   ℹ️  Batch cancel not supported, cancelling individually...`
-                    );
-
-                    const cancelPromises = orderIds.map((orderId) =>
-                        trading
-                            .cancelOrder(exchangeInstance, orderId, symbol)
-                            .then(() => ({ orderId, status: "cancelled" as const }))
-                            .catch((error: any) => {
-                                if (
-                                    error.message?.includes("ORDER_005") ||
-                                    error.message?.includes("InvalidOrder")
-                                ) {
-                                    return { orderId, status: "already_gone" as const };
-                                }
-                                return {
-                                    orderId,
-                                    status: "failed" as const,
-                                    error: error.message
-                                };
-                            })
-                    );
+        const result = await trading.cancelOrders(exchangeInstance, orderIds, symbol);
 
-                    const results = await Promise.all(cancelPromises);
-
-                    let cancelledCount = 0;
-                    let alreadyGoneCount = 0;
-                    let failedCount = 0;
-
-                    results.forEach((result) => {
-                        if (result.status === "cancelled") {
-                            cancelledCount++;
-                        } else if (result.status === "already_gone") {
-                            alreadyGoneCount++;
-                        } else if (result.status === "failed") {
-                            failedCount++;
-                            console.error(
-                                `   ❌ Failed ${result.orderId.substring(0, 12)}...: ${result.error
-                                }`
-                            );
-                        }
-                    });
-
-                    console.log(
-                        `   ℹ️  Summary: ${cancelledCount} cancelled, ${alreadyGoneCount} already filled/gone, ${failedCount} failed`
-                    );
-                } else {
-                    throw error;
-                }
-            }
-        }
+        result.failed.forEach(({ orderId, error }) => {
+            console.error(`   ❌ Failed ${orderId.substring(0, 12)}...: ${error}`);
+        });
+        console.log(
+            `   ℹ️  Summary: ${result.cancelled.length} cancelled, ${result.alreadyGone.length} already filled/gone, ${result.failed.length} failed`
+        );
     } catch (error) {
         console.error("   ❌ Error cancelling orders:", error);
         throw error;
@@ -792,6 +700,26 @@ async function checkAccountBalance(
     console.log("");
 }
 
+/**
+ * Pull new fills into the ledger and log this bot's PnL on the symbol (bid and ask instances
+ * share the bot tag, so the PnL covers both sides)
+ */
+async function logFillPnL(
+    config: MonoSideMMConfig,
+    exchange: ccxt.Exchange,
+    ledger?: FillLedger
+): Promise<void> {
+    if (!ledger) return;
+
+    try {
+        await ledger.sync([config.symbol]);
+        const pnl = await ledger.pnl({ bot: trading.orderTag(MONO_SIDE_BOT_TAG).bot, symbol: config.symbol });
+        console.log(getColor(config.side)(`💵 PnL ${formatPnL(pnl, 4)}\n`));
+    } catch (error) {
+        console.error(`⚠️  Fill ledger sync failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 /**
  * Handle order fills - cancel remaining and check if we can place new orders
  */
@@ -844,8 +772,9 @@ async function handleOrderFills(
             exchange,
             config.symbol
         );
+        const ownedIds = new Set(activeOrderIds);
         const ourSideCount = allOpenOrders.filter(
-            (o: any) => o.side === ourSide
+            (o: any) => o.side === ourSide && ownedIds.has(o.id)
         ).length;
 
         if (ourSideCount === 0) {
@@ -924,309 +853,464 @@ export async function checkFilledOrders(
 }
 
 /**
- * Start monitoring bot - checks orders every second
+ * Run one monitoring cycle - place orders when our side is empty, replace on fills, refresh on drift
+ * Shared by startMonitoring and the order-book replay simulator
  */
-export async function startMonitoring(
-    config: MonoSideMMConfig = botConfig
+export async function runMonitorCycle(
+    config: MonoSideMMConfig,
+    exchange: ccxt.Exchange,
+    cachedMarket: any,
+    state: MonoSideMonitorState
 ): Promise<void> {
-    const color = getColor(config.side);
-    console.log(color(`🚀 Starting Mono-Side Market Maker Bot [${config.side.toUpperCase()}]...\n`));
-
-    // Initialize exchange once and reuse
-    const exchange = initExchange(config.exchange);
-
-    // Load markets once and cache
-    console.log(color(`📥 Loading market data [${config.side.toUpperCase()}]...`));
-    const markets = await exchange.loadMarkets();
-    const cachedMarket = markets[config.symbol];
-    console.log(color(`✅ Market data cached [${config.side.toUpperCase()}]\n`));
-
-    // Check account balance
-    await checkAccountBalance(exchange, config);
+    const intervalSeconds = config.monitorIntervalSeconds || 1;
+    const heartbeatInterval = Math.ceil(10 / intervalSeconds); // Show heartbeat every ~10 seconds
 
-    // Place initial orders immediately
-    let activeOrderIds: string[] = [];
+    state.cycleCount++;
 
-    console.log(color(`📤 Placing initial ${config.side.toUpperCase()} orders...\n`));
     try {
-        const initialResult = await placeMonoSideOrders(
-            config,
+        const ourSide = config.side === "bid" ? "buy" : "sell";
+
+        // Fetch all open orders for the symbol - only the ones we placed are ours to manage
+        const allOpenOrders = await trading.fetchOpenOrders(
             exchange,
-            cachedMarket
+            config.symbol
         );
-        activeOrderIds = initialResult.placedOrders.map((o) => o.id);
-        sendNotification(
-            `Initial ${config.side.toUpperCase()} orders placed: ${activeOrderIds.length
-            } orders`,
-            "success"
+        const ownedIds = new Set(state.activeOrderIds);
+        const ourSideOrders = allOpenOrders.filter(
+            (o: any) => o.side === ourSide && ownedIds.has(o.id)
         );
-    } catch (error) {
-        console.error("❌ Error placing initial orders:", error);
-        sendNotification(
-            `Failed to place initial ${config.side.toUpperCase()} orders: ${error}`,
-            "error"
-        );
-        throw error;
-    }
 
-    const intervalSeconds = config.monitorIntervalSeconds || 1;
-    console.log(
-        color(`\n🔄 Monitoring started [${config.side.toUpperCase()}] - checking every ${intervalSeconds} second(s)...\n`)
-    );
+        // None of our orders left - place new orders immediately
+        if (ourSideOrders.length === 0) {
+            const color = getColor(config.side);
+            if (state.activeOrderIds.length > 0) {
+                logTradeFill(config.side, state.activeOrderIds);
+                await state.session?.recordFills(exchange, state.activeOrderIds);
+                await logFillPnL(config, exchange, state.ledger);
+                state.activeOrderIds = [];
+            }
+            console.log(
+                color(
+                    `\n🔄 No ${config.side.toUpperCase()} orders detected. Placing new orders...\n`
+                )
+            );
 
-    let cycleCount = 0;
-    const heartbeatInterval = Math.ceil(10 / intervalSeconds); // Show heartbeat every ~10 seconds
+            try {
+                const result = await placeMonoSideOrders(
+                    config,
+                    exchange,
+                    cachedMarket
+                );
+                state.activeOrderIds = result.placedOrders.map((o) => o.id);
+                state.referencePrice = result.currentPrice;
+                state.session?.setReferencePrice(result.currentPrice);
+                sendNotification(
+                    `Placed ${state.activeOrderIds.length
+                    } ${config.side.toUpperCase()} orders after empty detection`,
+                    "info"
+                );
+            } catch (error) {
+                console.error(color(`❌ [${config.side.toUpperCase()}] Error placing new orders:`), error);
+                console.log("⏳ Will retry in next cycle...\n");
+                sendNotification(`Error placing orders: ${error}`, "error");
+            }
+            return;
+        }
 
-    // Monitor loop
-    const monitorInterval = setInterval(async () => {
-        cycleCount++;
-        try {
-            const ourSide = config.side === "bid" ? "buy" : "sell";
+        // We have orders - first check for fills explicitly
+        const { filled, open } = await checkFilledOrders(
+            config.exchange,
+            config.symbol,
+            state.activeOrderIds,
+            ourSide,
+            exchange
+        );
 
-            // Fetch all open orders for the symbol
-            const allOpenOrders = await trading.fetchOpenOrders(
-                exchange,
-                config.symbol
-            );
-            const ourSideOrders = allOpenOrders.filter(
-                (o: any) => o.side === ourSide
+        // Incremental refresh: replenish just the filled levels around the same reference price
+        if (filled.length > 0 && (config.refreshMode || "incremental") === "incremental") {
+            await state.session?.recordFills(exchange, filled);
+            logTradeFill(config.side, filled);
+            await logFillPnL(config, exchange, state.ledger);
+
+            const color = getColor(config.side);
+            console.log(color(`🔄 Replenishing filled ${config.side.toUpperCase()} levels...\n`));
+            try {
+                const result = await refreshMonoSideOrders(
+                    config,
+                    exchange,
+                    cachedMarket,
+                    liveOrdersFrom(open),
+                    state.referencePrice
+                );
+                state.activeOrderIds = result.orderIds;
+                state.referencePrice = result.referencePrice;
+                state.session?.setReferencePrice(result.referencePrice);
+                sendNotification(
+                    `Replenished ${config.side.toUpperCase()} ladder after fill: ${state.activeOrderIds.length
+                    } orders`,
+                    "success"
+                );
+            } catch (error) {
+                console.error("❌ Error replenishing orders:", error);
+                sendNotification(`Error replenishing orders after fill: ${error}`, "error");
+                state.activeOrderIds = open.map((o: any) => o.id);
+            }
+            return; // Done for this cycle
+        }
+
+        // If any orders filled, handle fills and replace all orders
+        if (filled.length > 0) {
+            await state.session?.recordFills(exchange, filled);
+            await logFillPnL(config, exchange, state.ledger);
+            const canPlaceNew = await handleOrderFills(
+                config,
+                filled,
+                open,
+                state.activeOrderIds,
+                exchange
             );
 
-            // No orders on our side - place new orders immediately
-            if (ourSideOrders.length === 0) {
+            state.activeOrderIds = [];
+
+            if (canPlaceNew) {
                 const color = getColor(config.side);
                 console.log(
-                    color(
-                        `\n🔄 No ${config.side.toUpperCase()} orders detected. Placing new orders...\n`
-                    )
+                    color(`🔄 Placing fresh ${config.side.toUpperCase()} orders...\n`)
                 );
-
                 try {
                     const result = await placeMonoSideOrders(
                         config,
                         exchange,
                         cachedMarket
                     );
-                    activeOrderIds = result.placedOrders.map((o) => o.id);
+                    state.activeOrderIds = result.placedOrders.map((o) => o.id);
+                    state.referencePrice = result.currentPrice;
+                    state.session?.setReferencePrice(result.currentPrice);
                     sendNotification(
-                        `Placed ${activeOrderIds.length
-                        } ${config.side.toUpperCase()} orders after empty detection`,
-                        "info"
+                        `Refreshed ${config.side.toUpperCase()} orders after fill: ${state.activeOrderIds.length
+                        } orders`,
+                        "success"
                     );
                 } catch (error) {
-                    console.error(color(`❌ [${config.side.toUpperCase()}] Error placing new orders:`), error);
-                    console.log("⏳ Will retry in next cycle...\n");
-                    sendNotification(`Error placing orders: ${error}`, "error");
+                    console.error("❌ Error placing new orders:", error);
+                    sendNotification(
+                        `Error refreshing orders after fill: ${error}`,
+                        "error"
+                    );
                 }
-                return;
             }
+            return; // Done for this cycle
+        }
 
-            // We have orders - first check for fills explicitly
-            const { filled, open } = await checkFilledOrders(
-                config.exchange,
-                config.symbol,
-                activeOrderIds,
-                ourSide,
-                exchange
-            );
-
-            // If any orders filled, handle fills and replace all orders
-            if (filled.length > 0) {
-                const canPlaceNew = await handleOrderFills(
-                    config,
-                    filled,
-                    open,
-                    activeOrderIds,
-                    exchange
-                );
+        // No fills - check if orders need refreshing due to count or spread issues
+        const activeOrderIdsSet = new Set(state.activeOrderIds);
+        const ourOrders = ourSideOrders.filter((o: any) =>
+            activeOrderIdsSet.has(o.id)
+        );
 
-                activeOrderIds = [];
+        // Skip checks if we don't have all our orders tracked (shouldn't happen)
+        if (ourOrders.length === 0 && state.activeOrderIds.length > 0) {
+            const color = getColor(config.side);
+            console.log(color(`⚠️  [${config.side.toUpperCase()}] Warning: Tracking mismatch, clearing state...\n`));
+            state.activeOrderIds = [];
+            return;
+        }
 
-                if (canPlaceNew) {
-                    const color = getColor(config.side);
-                    console.log(
-                        color(`🔄 Placing fresh ${config.side.toUpperCase()} orders...\n`)
-                    );
-                    try {
-                        const result = await placeMonoSideOrders(
-                            config,
-                            exchange,
-                            cachedMarket
-                        );
-                        activeOrderIds = result.placedOrders.map((o) => o.id);
-                        sendNotification(
-                            `Refreshed ${config.side.toUpperCase()} orders after fill: ${activeOrderIds.length
-                            } orders`,
-                            "success"
-                        );
-                    } catch (error) {
-                        console.error("❌ Error placing new orders:", error);
-                        sendNotification(
-                            `Error refreshing orders after fill: ${error}`,
-                            "error"
-                        );
-                    }
-                }
-                return; // Done for this cycle
-            }
+        const driftThreshold =
+            config.driftThresholdPercent || config.spreadPercent;
 
-            // No fills - check if orders need refreshing due to count or spread issues
-            const activeOrderIdsSet = new Set(activeOrderIds);
-            const ourOrders = ourSideOrders.filter((o: any) =>
-                activeOrderIdsSet.has(o.id)
-            );
+        // Get current reference price
+        const referencePrice = await getReferencePrice(
+            exchange,
+            config.symbol,
+            config.priceReference || "mid",
+            config.side,
+            config.referenceOptions
+        );
 
-            // Skip checks if we don't have all our orders tracked (shouldn't happen)
-            if (ourOrders.length === 0 && activeOrderIds.length > 0) {
-                const color = getColor(config.side);
-                console.log(color(`⚠️  [${config.side.toUpperCase()}] Warning: Tracking mismatch, clearing state...\n`));
-                activeOrderIds = [];
-                return;
-            }
+        // Calculate closest order price and its distance
+        let closestOrderPrice: number;
+        if (config.side === "bid") {
+            closestOrderPrice = Math.max(...ourOrders.map((o: any) => o.price));
+        } else {
+            closestOrderPrice = Math.min(...ourOrders.map((o: any) => o.price));
+        }
 
-            const driftThreshold =
-                config.driftThresholdPercent || config.spreadPercent;
+        const distancePercent = Math.abs(
+            ((closestOrderPrice - referencePrice) / referencePrice) * 100
+        );
 
-            // Get current reference price
-            const referencePrice = await getReferencePrice(
-                exchange,
-                config.symbol,
-                config.side,
-                config.priceReference || "mid"
-            );
+        // Check if refresh is needed
+        const needsRefresh =
+            ourOrders.length < config.numberOfOrders || // Missing orders (manual cancel, etc)
+            distancePercent > driftThreshold; // Drifted beyond configured threshold
 
-            // Calculate closest order price and its distance
-            let closestOrderPrice: number;
-            if (config.side === "bid") {
-                closestOrderPrice = Math.max(...ourOrders.map((o: any) => o.price));
+        if (needsRefresh) {
+            const color = getColor(config.side);
+            if (ourOrders.length < config.numberOfOrders) {
+                console.log(
+                    color(
+                        `\n⚠️  Order count mismatch: ${ourOrders.length}/${config.numberOfOrders} orders active`
+                    )
+                );
             } else {
-                closestOrderPrice = Math.min(...ourOrders.map((o: any) => o.price));
+                console.log(
+                    color(
+                        `\n📏 Drift threshold exceeded: ${distancePercent.toFixed(
+                            3
+                        )}% > ${driftThreshold.toFixed(3)}%`
+                    )
+                );
+                console.log(
+                    `   Closest order: ${closestOrderPrice.toFixed(
+                        8
+                    )} | Reference: ${referencePrice.toFixed(8)}`
+                );
+            }
+
+            // Incremental refresh: missing levels are refilled around the same center, drift re-centers
+            if ((config.refreshMode || "incremental") === "incremental") {
+                const drifted = distancePercent > driftThreshold;
+                console.log(color(`   Reconciling ${config.side.toUpperCase()} ladder...\n`));
+                try {
+                    const result = await refreshMonoSideOrders(
+                        config,
+                        exchange,
+                        cachedMarket,
+                        liveOrdersFrom(ourOrders),
+                        drifted ? referencePrice : state.referencePrice
+                    );
+                    state.activeOrderIds = result.orderIds;
+                    state.referencePrice = result.referencePrice;
+                    state.session?.setReferencePrice(result.referencePrice);
+                    sendNotification(
+                        `Reconciled ${config.side.toUpperCase()} ladder (drift: ${distancePercent.toFixed(2)}%)`,
+                        "info"
+                    );
+                } catch (error) {
+                    console.error("❌ Error refreshing orders:", error);
+                    sendNotification(`Error during order refresh: ${error}`, "error");
+                }
+                return;
             }
 
-            const distancePercent = Math.abs(
-                ((closestOrderPrice - referencePrice) / referencePrice) * 100
+            console.log(
+                color(
+                    `   Cancelling all ${config.side.toUpperCase()} orders and replacing...\n`
+                )
             );
 
-            // Check if refresh is needed
-            const needsRefresh =
-                ourOrders.length < config.numberOfOrders || // Missing orders (manual cancel, etc)
-                distancePercent > driftThreshold; // Drifted beyond configured threshold
+            try {
+                // Cancel all our orders
+                const ourSideIds = ourOrders.map((o: any) => o.id);
+                await cancelMonoSideOrders(
+                    config.exchange,
+                    config.symbol,
+                    ourSideIds,
+                    exchange
+                );
+                console.log(`✅ Cancelled ${ourSideIds.length} order(s)\n`);
 
-            if (needsRefresh) {
-                const color = getColor(config.side);
-                if (ourOrders.length < config.numberOfOrders) {
+                // Clear active order tracking
+                state.activeOrderIds = [];
+
+                // Re-verify our orders are gone before placing
+                const recheckOrders = await trading.fetchOpenOrders(
+                    exchange,
+                    config.symbol
+                );
+                const cancelledIds = new Set(ourSideIds);
+                const recheckOurSide = recheckOrders.filter(
+                    (o: any) => o.side === ourSide && cancelledIds.has(o.id)
+                );
+
+                if (recheckOurSide.length === 0) {
                     console.log(
-                        color(
-                            `\n⚠️  Order count mismatch: ${ourOrders.length}/${config.numberOfOrders} orders active`
-                        )
+                        color(`🔄 Placing fresh ${config.side.toUpperCase()} orders...\n`)
+                    );
+                    const result = await placeMonoSideOrders(
+                        config,
+                        exchange,
+                        cachedMarket
+                    );
+                    state.activeOrderIds = result.placedOrders.map((o) => o.id);
+                    state.referencePrice = result.currentPrice;
+                    state.session?.setReferencePrice(result.currentPrice);
+                    sendNotification(
+                        `Refreshed ${config.side.toUpperCase()} orders (drift: ${distancePercent.toFixed(
+                            2
+                        )}%)`,
+                        "info"
                     );
                 } else {
                     console.log(
                         color(
-                            `\n📏 Drift threshold exceeded: ${distancePercent.toFixed(
-                                3
-                            )}% > ${driftThreshold.toFixed(3)}%`
+                            `⏸  ${config.side.toUpperCase()} side not clear (${recheckOurSide.length
+                            } orders), will retry next cycle\n`
                         )
                     );
-                    console.log(
-                        `   Closest order: ${closestOrderPrice.toFixed(
-                            8
-                        )} | Reference: ${referencePrice.toFixed(8)}`
-                    );
                 }
-
+            } catch (error) {
+                console.error("❌ Error refreshing orders:", error);
+                sendNotification(`Error during order refresh: ${error}`, "error");
+                state.activeOrderIds = []; // Clear tracking on error
+            }
+        } else {
+            // Everything stable - show heartbeat every ~10 seconds
+            if (state.cycleCount % heartbeatInterval === 0) {
+                const color = getColor(config.side);
+                const now = new Date();
                 console.log(
                     color(
-                        `   Cancelling all ${config.side.toUpperCase()} orders and replacing...\n`
+                        `💓 [${now.toLocaleTimeString()}] Monitoring... ${ourOrders.length
+                        }/${config.numberOfOrders} ${config.side
+                        } orders, drift: ${distancePercent.toFixed(3)}%`
                     )
                 );
+            }
+        }
+    } catch (error) {
+        const color = getColor(config.side);
+        console.error(color(`❌ [${config.side.toUpperCase()}] Error during monitoring:`), error);
+        console.log("⚠️  Continuing...\n");
+    } finally {
+        state.session?.setOrders(state.activeOrderIds);
+    }
+}
 
-                try {
-                    // Cancel all our orders
-                    const ourSideIds = ourOrders.map((o: any) => o.id);
-                    await cancelMonoSideOrders(
-                        config.exchange,
-                        config.symbol,
-                        ourSideIds,
-                        exchange
-                    );
-                    console.log(`✅ Cancelled ${ourSideIds.length} order(s)\n`);
+/**
+ * Start monitoring bot - checks orders every second
+ */
+export async function startMonitoring(
+    config: MonoSideMMConfig = botConfig
+): Promise<void> {
+    const color = getColor(config.side);
+    console.log(color(`🚀 Starting Mono-Side Market Maker Bot [${config.side.toUpperCase()}]...\n`));
 
-                    // Clear active order tracking
-                    activeOrderIds = [];
+    // Initialize exchange once and reuse (ccxt.pro class when streaming)
+    const exchange = initExchange(config.exchange, false, config.streaming);
 
-                    // Re-verify side is clear before placing
-                    const recheckOrders = await trading.fetchOpenOrders(
-                        exchange,
-                        config.symbol
-                    );
-                    const recheckOurSide = recheckOrders.filter(
-                        (o: any) => o.side === ourSide
-                    );
+    // Load markets once and cache
+    console.log(color(`📥 Loading market data [${config.side.toUpperCase()}]...`));
+    const markets = await exchange.loadMarkets();
+    const cachedMarket = markets[config.symbol];
+    console.log(color(`✅ Market data cached [${config.side.toUpperCase()}]\n`));
 
-                    if (recheckOurSide.length === 0) {
-                        console.log(
-                            color(`🔄 Placing fresh ${config.side.toUpperCase()} orders...\n`)
-                        );
-                        const result = await placeMonoSideOrders(
-                            config,
-                            exchange,
-                            cachedMarket
-                        );
-                        activeOrderIds = result.placedOrders.map((o) => o.id);
-                        sendNotification(
-                            `Refreshed ${config.side.toUpperCase()} orders (drift: ${distancePercent.toFixed(
-                                2
-                            )}%)`,
-                            "info"
-                        );
-                    } else {
-                        console.log(
-                            color(
-                                `⏸  ${config.side.toUpperCase()} side not clear (${recheckOurSide.length
-                                } orders), will retry next cycle\n`
-                            )
-                        );
-                    }
-                } catch (error) {
-                    console.error("❌ Error refreshing orders:", error);
-                    sendNotification(`Error during order refresh: ${error}`, "error");
-                    activeOrderIds = []; // Clear tracking on error
-                }
-            } else {
-                // Everything stable - show heartbeat every ~10 seconds
-                if (cycleCount % heartbeatInterval === 0) {
-                    const color = getColor(config.side);
-                    const now = new Date();
-                    console.log(
-                        color(
-                            `💓 [${now.toLocaleTimeString()}] Monitoring... ${ourOrders.length
-                            }/${config.numberOfOrders} ${config.side
-                            } orders, drift: ${distancePercent.toFixed(3)}%`
-                        )
-                    );
-                }
-            }
+    // Check account balance
+    await checkAccountBalance(exchange, config);
+
+    // Fills from now on (or from the last recorded one) feed the PnL
+    const ledger = new FillLedger(exchange, { since: Date.now() });
+
+    // Reconcile with orders left over from a previous run of this instance
+    const session = BotSession.open("mm-mono-side", config.exchange, config.symbol, config, {
+        qualifier: config.side,
+    });
+    const reconciled = await session.reconcile(exchange, trading.orderTag(MONO_SIDE_BOT_TAG, config.side));
+    let activeOrderIds: string[] = reconciled.adopted.map((o) => o.id);
+
+    console.log(
+        color(
+            `🗂️  State [${session.state.instanceId}]: ${reconciled.adopted.length} own order(s) open, ` +
+            `${reconciled.gone.length} gone since last run, ${reconciled.foreign} foreign order(s) ignored`
+        )
+    );
+
+    if (activeOrderIds.length > 0 && reconciled.configChanged) {
+        console.log(color(`⚙️  Config changed since last run - replacing ${activeOrderIds.length} adopted order(s)\n`));
+        await cancelMonoSideOrders(config.exchange, config.symbol, activeOrderIds, exchange);
+        activeOrderIds = [];
+        session.setOrders(activeOrderIds);
+    }
+
+    if (activeOrderIds.length > 0) {
+        sendNotification(
+            `Adopted ${activeOrderIds.length} ${config.side.toUpperCase()} orders from previous run`,
+            "info"
+        );
+    } else {
+        // Place initial orders immediately
+        console.log(color(`📤 Placing initial ${config.side.toUpperCase()} orders...\n`));
+        try {
+            const initialResult = await placeMonoSideOrders(
+                config,
+                exchange,
+                cachedMarket
+            );
+            activeOrderIds = initialResult.placedOrders.map((o) => o.id);
+            session.setReferencePrice(initialResult.currentPrice);
+            session.setOrders(activeOrderIds);
+            sendNotification(
+                `Initial ${config.side.toUpperCase()} orders placed: ${activeOrderIds.length
+                } orders`,
+                "success"
+            );
         } catch (error) {
-            const color = getColor(config.side);
-            console.error(color(`❌ [${config.side.toUpperCase()}] Error during monitoring:`), error);
-            console.log("⚠️  Continuing...\n");
+            console.error("❌ Error placing initial orders:", error);
+            sendNotification(
+                `Failed to place initial ${config.side.toUpperCase()} orders: ${error}`,
+                "error"
+            );
+            throw error;
         }
-    }, intervalSeconds * 1000);
+    }
+
+    const intervalSeconds = config.monitorIntervalSeconds || 1;
+    console.log(
+        color(
+            config.streaming
+                ? `\n🔄 Monitoring started [${config.side.toUpperCase()}] - on order stream updates...\n`
+                : `\n🔄 Monitoring started [${config.side.toUpperCase()}] - checking every ${intervalSeconds} second(s)...\n`
+        )
+    );
+
+    const state: MonoSideMonitorState = {
+        activeOrderIds,
+        cycleCount: 0,
+        session,
+        ledger,
+        referencePrice: session.state.lastReferencePrice
+    };
+
+    // Monitor loop - on order stream updates (REST polling if the socket stays down) or on a fixed interval
+    let stopMonitoring: () => void;
+    if (config.streaming) {
+        const stream = new MarketStream(exchange, config.symbol, {
+            channels: ["orders"],
+            restIntervalMs: intervalSeconds * 1000
+        }).start();
+        const stopLoop = runOnStreamUpdates(
+            stream,
+            () => runMonitorCycle(config, exchange, cachedMarket, state),
+            { idleIntervalMs: (config.streamIdleSeconds || 10) * 1000 }
+        );
+        stopMonitoring = () => {
+            stopLoop();
+            stream.stop();
+        };
+    } else {
+        const monitorInterval = setInterval(
+            () => runMonitorCycle(config, exchange, cachedMarket, state),
+            intervalSeconds * 1000
+        );
+        stopMonitoring = () => clearInterval(monitorInterval);
+    }
 
     // Handle graceful shutdown
     process.on("SIGINT", async () => {
         console.log(color(`\n\n🛑 Shutting down [${config.side.toUpperCase()}]...`));
-        clearInterval(monitorInterval);
+        stopMonitoring();
 
         // Ask if user wants to cancel remaining orders
-        console.log(color(`\n📊 Current open ${config.side.toUpperCase()} orders: ${activeOrderIds.length}`));
+        console.log(color(`\n📊 Current open ${config.side.toUpperCase()} orders: ${state.activeOrderIds.length}`));
 
-        // Cancel all remaining orders
-        if (activeOrderIds.length > 0) {
+        // Cancel our remaining orders (other bots' orders on the account are left alone)
+        if (state.activeOrderIds.length > 0) {
             try {
                 console.log(color(`\n🗑️  Cancelling all remaining ${config.side.toUpperCase()} orders...`));
-                await exchange.cancelAllOrders();
+                await cancelMonoSideOrders(config.exchange, config.symbol, state.activeOrderIds, exchange);
+                state.activeOrderIds = [];
+                session.setOrders(state.activeOrderIds);
             } catch (error) {
                 console.error(color(`❌ [${config.side.toUpperCase()}] Error cancelling orders:`), error);
             }
@@ -1241,33 +1325,33 @@ export async function startMonitoring(
 /**
  * Run the bot
  */
-export async function runBot() {
+export async function runBot(config: MonoSideMMConfig = botConfig) {
     try {
-        const color = getColor(botConfig.side);
+        const color = getColor(config.side);
         console.log("\n" + "=".repeat(60));
         console.log(color("🤖 MONO-SIDE MARKET MAKER BOT"));
         console.log("=".repeat(60));
-        console.log(`Exchange:       ${botConfig.exchange.toUpperCase()}`);
-        console.log(`Symbol:         ${botConfig.symbol}`);
-        console.log(color(`Side:           ${botConfig.side.toUpperCase()}`));
-        console.log(`Total Amount:   ${botConfig.totalQuoteAmount}`);
-        console.log(`Spread:         ${botConfig.spreadPercent}%`);
-        console.log(`Orders:         ${botConfig.numberOfOrders}`);
-        console.log(`Price Ref:      ${botConfig.priceReference || "mid"}`);
+        console.log(`Exchange:       ${config.exchange.toUpperCase()}`);
+        console.log(`Symbol:         ${config.symbol}`);
+        console.log(color(`Side:           ${config.side.toUpperCase()}`));
+        console.log(`Total Amount:   ${config.totalQuoteAmount}`);
+        console.log(`Spread:         ${config.spreadPercent}%`);
+        console.log(`Orders:         ${config.numberOfOrders}`);
+        console.log(`Price Ref:      ${config.priceReference || "mid"}`);
         console.log(
-            `Drift Thresh:   ${botConfig.driftThresholdPercent || botConfig.spreadPercent
+            `Drift Thresh:   ${config.driftThresholdPercent || config.spreadPercent
             }%`
         );
-        console.log(`Monitor Int:    ${botConfig.monitorIntervalSeconds || 1}s`);
+        console.log(`Monitor Int:    ${config.monitorIntervalSeconds || 1}s`);
         console.log("=".repeat(60) + "\n");
 
         sendNotification(
-            `Bot starting: ${botConfig.side.toUpperCase()} on ${botConfig.exchange.toUpperCase()} - ${botConfig.symbol
+            `Bot starting: ${config.side.toUpperCase()} on ${config.exchange.toUpperCase()} - ${config.symbol
             }`,
             "info"
         );
 
-        await startMonitoring(botConfig);
+        await startMonitoring(config);
     } catch (error) {
         console.error("❌ Bot failed to start:", error);
         sendNotification(`Bot failed to start: ${error}`, "error");
@@ -5,20 +5,42 @@
  */
 
 import * as ccxt from "ccxt";
+import { isErrorCategory } from "../errors";
 import { initExchange, type ExchangeName } from "../exchange";
-import * as marketData from "../market-data";
+import { MarketRules, formatRejections } from "../market-rules";
 import * as trading from "../trading";
+import { buildLadder, ladderConfigFromEnv, type LadderConfig } from "./order-ladder";
+import {
+    getReferencePrice,
+    priceReferenceFromEnv,
+    referencePriceOptionsFromEnv,
+    type PriceReference,
+    type ReferencePriceOptions,
+} from "./reference-price";
 import * as account from "../account";
 
-const botConfig: SpreadMMConfig = {
-    exchange: "xt",
-    symbol: "ORBD/USDT",
-    bidTotalQuoteAmount: 5.5, // $5.5 worth for buying
-    askTotalQuoteAmount: 5.5, // $5.5 worth for selling
-    spreadPercent: 0.5, // 0.5% spread on each side
-    numberOfOrders: 10, // 10 orders per side (20 total)
-    priceReference: "mid" // Use mid price as reference
-};
+/**
+ * Settings from environment variables (EXCHANGE, SYMBOL, BID/ASK_TOTAL_QUOTE_AMOUNT, SPREAD_PERCENT, NUMBER_OF_ORDERS, ...)
+ */
+export function spreadConfigFromEnv(): SpreadMMConfig {
+    return {
+        exchange: (process.env.EXCHANGE as ExchangeName) || "xt",
+        symbol: process.env.SYMBOL || "ORBD/USDT",
+        bidTotalQuoteAmount: parseFloat(
+            process.env.BID_TOTAL_QUOTE_AMOUNT || process.env.TOTAL_QUOTE_AMOUNT || "5.5"
+        ), // $5.5 worth for buying
+        askTotalQuoteAmount: parseFloat(
+            process.env.ASK_TOTAL_QUOTE_AMOUNT || process.env.TOTAL_QUOTE_AMOUNT || "5.5"
+        ), // $5.5 worth for selling
+        spreadPercent: parseFloat(process.env.SPREAD_PERCENT || "0.5"), // 0.5% spread on each side
+        numberOfOrders: parseInt(process.env.NUMBER_OF_ORDERS || "10"), // 10 orders per side (20 total)
+        priceReference: priceReferenceFromEnv() || "mid", // Use mid price as reference
+        referenceOptions: referencePriceOptionsFromEnv(), // REFERENCE_* env vars for the non-ticker references
+        ladder: ladderConfigFromEnv() // LADDER_* env vars (default: linear spacing, equal sizes)
+    };
+}
+
+const botConfig = spreadConfigFromEnv();
 
 export interface SpreadMMConfig {
     exchange: ExchangeName;
@@ -27,7 +49,13 @@ export interface SpreadMMConfig {
     askTotalQuoteAmount: number; // Total amount in quote currency for ASK side
     spreadPercent: number; // Spread percentage on each side
     numberOfOrders: number; // Number of orders per side
-    priceReference?: "first_ask" | "first_bid" | "mid" | "best";
+    priceReference?: PriceReference;
+    referenceOptions?: ReferencePriceOptions; // Dust/depth notional, VWAP window, EMA period, external exchange
+    ladder?: LadderConfig; // Order spacing/sizing per side (default: linear spacing, equal sizes)
+}
+
+export interface SpreadMonitorState {
+    activeOrderIds: string[];
 }
 
 export interface SpreadOrder {
@@ -48,68 +76,14 @@ export interface SpreadMMResult {
 }
 
 /**
- * Get current reference price
+ * clientOrderId tag of this bot's orders (BOT_TAG overrides it)
  */
-async function getReferencePrice(
-    exchange: ccxt.Exchange,
-    symbol: string,
-    priceReference: "first_ask" | "first_bid" | "mid" | "best"
-): Promise<number> {
-    const ticker = await marketData.fetchTicker(exchange, symbol);
-
-    switch (priceReference) {
-        case "first_ask":
-            return ticker.ask || ticker.last || 0;
-        case "first_bid":
-            return ticker.bid || ticker.last || 0;
-        case "mid":
-            if (ticker.bid && ticker.ask) {
-                return (ticker.bid + ticker.ask) / 2;
-            }
-            return ticker.last || 0;
-        case "best":
-            if (ticker.bid && ticker.ask) {
-                return (ticker.bid + ticker.ask) / 2;
-            }
-            return ticker.last || 0;
-        default:
-            return ticker.last || 0;
-    }
-}
+const SPREAD_BOT_TAG = "spread";
 
 /**
- * Calculate order distribution for one side
+ * Default delay used between order placements (replaced by a no-op in the replay simulator)
  */
-function calculateOrderDistribution(
-    referencePrice: number,
-    side: "bid" | "ask",
-    totalQuoteAmount: number,
-    spreadPercent: number,
-    numberOfOrders: number
-): Array<{ price: number; quoteAmount: number }> {
-    const orders: Array<{ price: number; quoteAmount: number }> = [];
-    const quoteAmountPerOrder = totalQuoteAmount / numberOfOrders;
-    const spreadDecimal = spreadPercent / 100;
-
-    for (let i = 0; i < numberOfOrders; i++) {
-        const spreadStep = spreadDecimal / numberOfOrders;
-        const priceOffset = spreadStep * (i + 0.5);
-
-        let orderPrice: number;
-        if (side === "bid") {
-            orderPrice = referencePrice * (1 - priceOffset);
-        } else {
-            orderPrice = referencePrice * (1 + priceOffset);
-        }
-
-        orders.push({
-            price: orderPrice,
-            quoteAmount: quoteAmountPerOrder
-        });
-    }
-
-    return orders;
-}
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
 /**
  * Log order summary
@@ -166,10 +140,11 @@ function logOrderSummary(
  * Place spread orders on both sides
  */
 export async function placeSpreadOrders(
-    config: SpreadMMConfig
+    config: SpreadMMConfig,
+    exchange: ccxt.Exchange = initExchange(config.exchange),
+    sleep: (ms: number) => Promise<void> = delay
 ): Promise<SpreadMMResult> {
     const priceReference = config.priceReference || "mid";
-    const exchange = initExchange(config.exchange);
 
     console.log(`🎯 Placing Spread Orders for ${config.symbol}`);
     console.log(
@@ -182,7 +157,9 @@ export async function placeSpreadOrders(
     const currentPrice = await getReferencePrice(
         exchange,
         config.symbol,
-        priceReference
+        priceReference,
+        undefined,
+        config.referenceOptions
     );
 
     if (currentPrice === 0) {
@@ -226,29 +203,41 @@ export async function placeSpreadOrders(
     }
 
     // Calculate order distributions
-    const bidDistribution = calculateOrderDistribution(
+    const bidDistribution = buildLadder(
         currentPrice,
         "bid",
         adjustedBidQuoteAmount,
         config.spreadPercent,
-        config.numberOfOrders
+        config.numberOfOrders,
+        config.ladder
     );
 
-    const askDistribution = calculateOrderDistribution(
+    const askDistribution = buildLadder(
         currentPrice,
         "ask",
         adjustedAskQuoteAmount,
         config.spreadPercent,
-        config.numberOfOrders
+        config.numberOfOrders,
+        config.ladder
     );
 
+    // Exchange precision and limits for rounding/validation
+    const rules = await MarketRules.fromExchange(exchange, config.symbol);
+
     // Place BID orders
     const bidOrders: SpreadOrder[] = [];
     console.log(`\n📝 Placing ${config.numberOfOrders} BID orders:\n`);
 
     for (let i = 0; i < bidDistribution.length; i++) {
-        const { price, quoteAmount } = bidDistribution[i];
-        const baseAmount = quoteAmount / price;
+        const check = rules.normalizeQuote("buy", bidDistribution[i].price, bidDistribution[i].quoteAmount);
+        const { price, amount: baseAmount, cost: quoteAmount } = check.order;
+
+        if (!check.ok) {
+            console.log(
+                `   ⚠️  BID ${i + 1}/${config.numberOfOrders}: Skipped - ${formatRejections(check.rejections)}`
+            );
+            continue;
+        }
 
         try {
             const order = await trading.createLimitOrder(
@@ -256,7 +245,9 @@ export async function placeSpreadOrders(
                 config.symbol,
                 "buy",
                 baseAmount,
-                price
+                price,
+                {},
+                trading.orderTag(SPREAD_BOT_TAG, "bid", i)
             );
 
             bidOrders.push({
@@ -280,7 +271,7 @@ export async function placeSpreadOrders(
             console.error(`   ❌ Failed to place BID order ${i + 1}:`, error);
         }
 
-        await new Promise((resolve) => setTimeout(resolve, 100));
+        await sleep(100);
     }
 
     // Place ASK orders
@@ -288,8 +279,15 @@ export async function placeSpreadOrders(
     console.log(`\n📝 Placing ${config.numberOfOrders} ASK orders:\n`);
 
     for (let i = 0; i < askDistribution.length; i++) {
-        const { price, quoteAmount } = askDistribution[i];
-        const baseAmount = quoteAmount / price;
+        const check = rules.normalizeQuote("sell", askDistribution[i].price, askDistribution[i].quoteAmount);
+        const { price, amount: baseAmount, cost: quoteAmount } = check.order;
+
+        if (!check.ok) {
+            console.log(
+                `   ⚠️  ASK ${i + 1}/${config.numberOfOrders}: Skipped - ${formatRejections(check.rejections)}`
+            );
+            continue;
+        }
 
         try {
             const order = await trading.createLimitOrder(
@@ -297,7 +295,9 @@ export async function placeSpreadOrders(
                 config.symbol,
                 "sell",
                 baseAmount,
-                price
+                price,
+                {},
+                trading.orderTag(SPREAD_BOT_TAG, "ask", i)
             );
 
             askOrders.push({
@@ -321,7 +321,7 @@ export async function placeSpreadOrders(
             console.error(`   ❌ Failed to place ASK order ${i + 1}:`, error);
         }
 
-        await new Promise((resolve) => setTimeout(resolve, 100));
+        await sleep(100);
     }
 
     // Log summary
@@ -349,9 +349,9 @@ export async function placeSpreadOrders(
 export async function cancelSpreadOrders(
     exchangeName: ExchangeName,
     symbol: string,
-    orderIds?: string[]
+    orderIds?: string[],
+    exchange: ccxt.Exchange = initExchange(exchangeName)
 ): Promise<void> {
-    const exchange = initExchange(exchangeName);
 
     console.log(`\n🗑️  Cancelling orders for ${symbol}...`);
 
@@ -366,10 +366,7 @@ export async function cancelSpreadOrders(
                     cancelledCount++;
                     console.log(`   ✅ Cancelled order ${orderId}`);
                 } catch (error: any) {
-                    if (
-                        error.message?.includes("ORDER_005") ||
-                        error.message?.includes("InvalidOrder")
-                    ) {
+                    if (isErrorCategory(error, "OrderNotFound")) {
                         alreadyGoneCount++;
                     } else {
                         console.error(
@@ -384,8 +381,9 @@ export async function cancelSpreadOrders(
                 `   ℹ️  Summary: ${cancelledCount} cancelled, ${alreadyGoneCount} already filled/gone`
             );
         } else {
-            await trading.cancelAllOrders(exchange, symbol);
-            console.log("   ✅ All orders cancelled");
+            // No ids known - fall back to everything carrying this bot's tag
+            const result = await trading.cancelBotOrders(exchange, trading.orderTag(SPREAD_BOT_TAG), symbol);
+            console.log(`   ✅ Cancelled ${result.cancelled.length} spread bot order(s)`);
         }
     } catch (error) {
         console.error("   ❌ Error cancelling orders:", error);
@@ -399,9 +397,9 @@ export async function cancelSpreadOrders(
 export async function checkFilledOrders(
     exchangeName: ExchangeName,
     symbol: string,
-    placedOrderIds: string[]
+    placedOrderIds: string[],
+    exchange: ccxt.Exchange = initExchange(exchangeName)
 ): Promise<{ filled: any[]; open: any[] }> {
-    const exchange = initExchange(exchangeName);
 
     const openOrders = await trading.fetchOpenOrders(exchange, symbol);
     const openOrderIds = new Set(openOrders.map((o: any) => o.id));
@@ -431,6 +429,97 @@ export async function checkFilledOrders(
     return { filled, open };
 }
 
+/**
+ * Run one monitoring cycle - place orders when none are active, reset after fills
+ * Shared by startMonitoring and the order-book replay simulator
+ */
+export async function runMonitorCycle(
+    config: SpreadMMConfig,
+    exchange: ccxt.Exchange,
+    state: SpreadMonitorState,
+    sleep: (ms: number) => Promise<void> = delay
+): Promise<void> {
+    try {
+        if (state.activeOrderIds.length === 0) {
+            // No active orders, place new ones
+            console.log(`\n🔄 No active orders detected. Placing new orders...\n`);
+
+            try {
+                const result = await placeSpreadOrders(config, exchange, sleep);
+                state.activeOrderIds = [
+                    ...result.bidOrders.map((o) => o.id),
+                    ...result.askOrders.map((o) => o.id)
+                ];
+            } catch (error) {
+                console.error("❌ Error placing new orders:", error);
+                console.log("⏳ Will retry in next cycle...\n");
+            }
+            return;
+        }
+
+        const { filled, open } = await checkFilledOrders(
+            config.exchange,
+            config.symbol,
+            state.activeOrderIds,
+            exchange
+        );
+
+        if (filled.length > 0) {
+            console.log(`\n📦 ${filled.length} order(s) filled!`);
+
+            // Separate open orders by side
+            const bidOrders = open.filter((o: any) => o.side === 'buy');
+            const askOrders = open.filter((o: any) => o.side === 'sell');
+
+            console.log(`📊 Open: ${bidOrders.length} BID | ${askOrders.length} ASK`);
+
+            let shouldCancelAll = false;
+
+            // If all BID orders are filled, cancel remaining ASK orders
+            if (bidOrders.length === 0 && askOrders.length > 0) {
+                console.log(`\n⚠️  All BID orders filled! Cancelling ${askOrders.length} ASK order(s)...`);
+                try {
+                    const askIds = askOrders.map((o: any) => o.id);
+                    await cancelSpreadOrders(config.exchange, config.symbol, askIds, exchange);
+                    console.log(`✅ Cancelled all ASK orders\n`);
+                    shouldCancelAll = true;
+                } catch (error) {
+                    console.error("❌ Error cancelling ASK orders:", error);
+                }
+            }
+
+            // If all ASK orders are filled, cancel remaining BID orders
+            if (askOrders.length === 0 && bidOrders.length > 0) {
+                console.log(`\n⚠️  All ASK orders filled! Cancelling ${bidOrders.length} BID order(s)...`);
+                try {
+                    const bidIds = bidOrders.map((o: any) => o.id);
+                    await cancelSpreadOrders(config.exchange, config.symbol, bidIds, exchange);
+                    console.log(`✅ Cancelled all BID orders\n`);
+                    shouldCancelAll = true;
+                } catch (error) {
+                    console.error("❌ Error cancelling BID orders:", error);
+                }
+            }
+
+            // Clear active orders and place new ones in next cycle
+            state.activeOrderIds = [];
+            console.log(`🔄 Will place fresh orders in next cycle...\n`);
+        } else {
+            // Show heartbeat every 10 seconds when no fills
+            const now = new Date();
+            if (now.getSeconds() % 10 === 0) {
+                console.log(
+                    `💓 [${now.toLocaleTimeString()}] Monitoring... ${open.length
+                    } orders active`
+                );
+            }
+        }
+    } catch (error) {
+        console.error("❌ Error during monitoring:", error);
+        console.log("⚠️  Continuing...\n");
+    }
+}
+
 /**
  * Start monitoring bot
  */
@@ -476,7 +565,7 @@ export async function startMonitoring(
     let activeOrderIds: string[] = [];
 
     try {
-        const result = await placeSpreadOrders(config);
+        const result = await placeSpreadOrders(config, exchange);
         activeOrderIds = [
             ...result.bidOrders.map((o) => o.id),
             ...result.askOrders.map((o) => o.id)
@@ -488,101 +577,28 @@ export async function startMonitoring(
 
     console.log(`\n🔄 Monitoring started - checking every 1 second...\n`);
 
-    // Monitor loop
-    const monitorInterval = setInterval(async () => {
-        try {
-            if (activeOrderIds.length === 0) {
-                // No active orders, place new ones
-                console.log(`\n🔄 No active orders detected. Placing new orders...\n`);
-
-                try {
-                    const result = await placeSpreadOrders(config);
-                    activeOrderIds = [
-                        ...result.bidOrders.map((o) => o.id),
-                        ...result.askOrders.map((o) => o.id)
-                    ];
-                } catch (error) {
-                    console.error("❌ Error placing new orders:", error);
-                    console.log("⏳ Will retry in next cycle...\n");
-                }
-                return;
-            }
-
-            const { filled, open } = await checkFilledOrders(
-                config.exchange,
-                config.symbol,
-                activeOrderIds
-            );
-
-            if (filled.length > 0) {
-                console.log(`\n📦 ${filled.length} order(s) filled!`);
-
-                // Separate open orders by side
-                const bidOrders = open.filter((o: any) => o.side === 'buy');
-                const askOrders = open.filter((o: any) => o.side === 'sell');
-
-                console.log(`📊 Open: ${bidOrders.length} BID | ${askOrders.length} ASK`);
-
-                let shouldCancelAll = false;
-
-                // If all BID orders are filled, cancel remaining ASK orders
-                if (bidOrders.length === 0 && askOrders.length > 0) {
-                    console.log(`\n⚠️  All BID orders filled! Cancelling ${askOrders.length} ASK order(s)...`);
-                    try {
-                        const askIds = askOrders.map((o: any) => o.id);
-                        await cancelSpreadOrders(config.exchange, config.symbol, askIds);
-                        console.log(`✅ Cancelled all ASK orders\n`);
-                        shouldCancelAll = true;
-                    } catch (error) {
-                        console.error("❌ Error cancelling ASK orders:", error);
-                    }
-                }
+    const state: SpreadMonitorState = { activeOrderIds };
 
-                // If all ASK orders are filled, cancel remaining BID orders
-                if (askOrders.length === 0 && bidOrders.length > 0) {
-                    console.log(`\n⚠️  All ASK orders filled! Cancelling ${bidOrders.length} BID order(s)...`);
-                    try {
-                        const bidIds = bidOrders.map((o: any) => o.id);
-                        await cancelSpreadOrders(config.exchange, config.symbol, bidIds);
-                        console.log(`✅ Cancelled all BID orders\n`);
-                        shouldCancelAll = true;
-                    } catch (error) {
-                        console.error("❌ Error cancelling BID orders:", error);
-                    }
-                }
-
-                // Clear active orders and place new ones in next cycle
-                activeOrderIds = [];
-                console.log(`🔄 Will place fresh orders in next cycle...\n`);
-            } else {
-                // Show heartbeat every 10 seconds when no fills
-                const now = new Date();
-                if (now.getSeconds() % 10 === 0) {
-                    console.log(
-                        `💓 [${now.toLocaleTimeString()}] Monitoring... ${open.length
-                        } orders active`
-                    );
-                }
-            }
-        } catch (error) {
-            console.error("❌ Error during monitoring:", error);
-            console.log("⚠️  Continuing...\n");
-        }
-    }, 1000); // Check every 1 second
+    // Monitor loop
+    const monitorInterval = setInterval(
+        () => runMonitorCycle(config, exchange, state),
+        1000 // Check every 1 second
+    );
 
     // Handle graceful shutdown
     process.on("SIGINT", async () => {
         console.log("\n\n🛑 Shutting down...");
         clearInterval(monitorInterval);
 
-        console.log(`\n📊 Current open orders: ${activeOrderIds.length}`);
+        console.log(`\n📊 Current open orders: ${state.activeOrderIds.length}`);
 
-        if (activeOrderIds.length > 0) {
+        if (state.activeOrderIds.length > 0) {
             try {
                 await cancelSpreadOrders(
                     config.exchange,
                     config.symbol,
-                    activeOrderIds
+                    state.activeOrderIds,
+                    exchange
                 );
             } catch (error) {
                 console.error("❌ Error cancelling orders:", error);
@@ -597,8 +613,8 @@ export async function startMonitoring(
 /**
  * Run the bot
  */
-export async function runBot() {
-    await startMonitoring(botConfig);
+export async function runBot(config: SpreadMMConfig = botConfig) {
+    await startMonitoring(config);
 }
 
 // Auto-run when executed directly
@@ -0,0 +1,245 @@
+/**
+ * Order Ladder
+ * Builds the price/size levels the market-making bots place on one side of the book.
+ * Spacing controls where levels sit inside the spread, weighting controls how the total
+ * quote amount is split between them, and optional jitter breaks up the regular pattern.
+ * The default (linear, flat, no jitter) is the original evenly spaced, evenly sized ladder.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+/**
+ * linear: equal gaps | geometric: gaps grow by `geometricRatio` away from mid |
+ * fibonacci: gaps follow 1, 1, 2, 3, 5... | custom: positions taken from `curve`
+ */
+export type LadderSpacing = "linear" | "geometric" | "fibonacci" | "custom";
+
+/**
+ * flat: equal size | pyramid_in: largest near mid | pyramid_out: largest far from mid |
+ * exponential: each level `exponentialFactor` times the previous (away from mid)
+ */
+export type LadderWeighting = "flat" | "pyramid_in" | "pyramid_out" | "exponential";
+
+export interface LadderConfig {
+    spacing?: LadderSpacing; // Default: linear
+    weighting?: LadderWeighting; // Default: flat
+    geometricRatio?: number; // Gap growth for geometric spacing (default: 1.5)
+    curve?: number[]; // Custom spacing: relative offsets 0..1 from mid to spread edge, resampled to numberOfOrders
+    exponentialFactor?: number; // Size growth for exponential weighting (default: 1.5, < 1 shrinks away from mid)
+    priceJitterPercent?: number; // Random shift as % of the gap to the neighbouring level (0-50)
+    sizeJitterPercent?: number; // Random size change in % (total amount is preserved)
+    seed?: number; // Seed for reproducible jitter (default: Math.random)
+}
+
+export interface LadderLevel {
+    price: number;
+    quoteAmount: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const defaultLadderConfig: Required<Omit<LadderConfig, "curve" | "seed">> = {
+    spacing: "linear",
+    weighting: "flat",
+    geometricRatio: 1.5,
+    exponentialFactor: 1.5,
+    priceJitterPercent: 0,
+    sizeJitterPercent: 0,
+};
+
+/**
+ * Ladder settings from environment variables (LADDER_*)
+ */
+export function ladderConfigFromEnv(): LadderConfig {
+    const number = (name: string) => (process.env[name] ? parseFloat(process.env[name] as string) : undefined);
+
+    return {
+        spacing: (process.env.LADDER_SPACING as LadderSpacing) || undefined,
+        weighting: (process.env.LADDER_WEIGHTING as LadderWeighting) || undefined,
+        geometricRatio: number("LADDER_GEOMETRIC_RATIO"),
+        curve: process.env.LADDER_CURVE ? process.env.LADDER_CURVE.split(",").map((v) => parseFloat(v)) : undefined,
+        exponentialFactor: number("LADDER_EXPONENTIAL_FACTOR"),
+        priceJitterPercent: number("LADDER_PRICE_JITTER_PERCENT"),
+        sizeJitterPercent: number("LADDER_SIZE_JITTER_PERCENT"),
+        seed: number("LADDER_SEED"),
+    };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Seeded PRNG (mulberry32) - deterministic uniform numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Place levels at the middle of consecutive gaps of the given widths, scaled to 0..1
+ */
+function positionsFromGaps(gaps: number[]): number[] {
+    const total = gaps.reduce((sum, gap) => sum + gap, 0);
+    const positions: number[] = [];
+    let start = 0;
+
+    for (const gap of gaps) {
+        positions.push((start + gap / 2) / total);
+        start += gap;
+    }
+
+    return positions;
+}
+
+/**
+ * Sample a custom curve at `count` evenly spaced points, keeping both ends (linear interpolation)
+ */
+function resampleCurve(curve: number[], count: number): number[] {
+    if (curve.length === 0) {
+        throw new Error("Custom ladder spacing needs a non-empty curve");
+    }
+    if (curve.length === count) return [...curve];
+
+    const positions: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const t = count === 1 ? 0 : (i / (count - 1)) * (curve.length - 1);
+        const low = Math.floor(t);
+        const high = Math.min(low + 1, curve.length - 1);
+        positions.push(curve[low] + (curve[high] - curve[low]) * (t - low));
+    }
+    return positions;
+}
+
+/**
+ * Relative offsets (0 = reference price, 1 = spread edge) for each level, nearest first
+ */
+export function ladderOffsets(count: number, ladder: LadderConfig = {}): number[] {
+    const spacing = ladder.spacing || defaultLadderConfig.spacing;
+
+    switch (spacing) {
+        case "linear":
+            return positionsFromGaps(new Array(count).fill(1));
+
+        case "geometric": {
+            const ratio = ladder.geometricRatio ?? defaultLadderConfig.geometricRatio;
+            return positionsFromGaps(Array.from({ length: count }, (_, i) => Math.pow(ratio, i)));
+        }
+
+        case "fibonacci": {
+            const gaps: number[] = [];
+            for (let i = 0; i < count; i++) {
+                gaps.push(i < 2 ? 1 : gaps[i - 1] + gaps[i - 2]);
+            }
+            return positionsFromGaps(gaps);
+        }
+
+        case "custom":
+            return resampleCurve(ladder.curve || [], count)
+                .map((p) => Math.min(Math.max(p, 0), 1))
+                .sort((a, b) => a - b);
+
+        default:
+            throw new Error(`Unknown ladder spacing "${spacing}"`);
+    }
+}
+
+/**
+ * Relative size weights for each level (nearest first), summing to 1
+ */
+export function ladderWeights(count: number, ladder: LadderConfig = {}): number[] {
+    const weighting = ladder.weighting || defaultLadderConfig.weighting;
+    let weights: number[];
+
+    switch (weighting) {
+        case "flat":
+            weights = new Array(count).fill(1);
+            break;
+        case "pyramid_in":
+            weights = Array.from({ length: count }, (_, i) => count - i);
+            break;
+        case "pyramid_out":
+            weights = Array.from({ length: count }, (_, i) => i + 1);
+            break;
+        case "exponential": {
+            const factor = ladder.exponentialFactor ?? defaultLadderConfig.exponentialFactor;
+            weights = Array.from({ length: count }, (_, i) => Math.pow(factor, i));
+            break;
+        }
+        default:
+            throw new Error(`Unknown ladder weighting "${weighting}"`);
+    }
+
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map((w) => w / total);
+}
+
+// ============================================================================
+// LADDER
+// ============================================================================
+
+/**
+ * Calculate order distribution across the spread on one side of the reference price
+ */
+export function buildLadder(
+    referencePrice: number,
+    side: "bid" | "ask",
+    totalQuoteAmount: number,
+    spreadPercent: number,
+    numberOfOrders: number,
+    ladder: LadderConfig = {}
+): LadderLevel[] {
+    if (numberOfOrders <= 0) return [];
+
+    const random = ladder.seed !== undefined ? createRandom(ladder.seed) : Math.random;
+    const spreadDecimal = spreadPercent / 100;
+    const offsets = ladderOffsets(numberOfOrders, ladder);
+    const weights = ladderWeights(numberOfOrders, ladder);
+
+    // Price jitter stays inside half the gap to each neighbour so levels never swap order
+    const priceJitter = Math.min(Math.max(ladder.priceJitterPercent ?? 0, 0), 50) / 100;
+    if (priceJitter > 0) {
+        const base = [...offsets];
+        for (let i = 0; i < base.length; i++) {
+            const lower = i > 0 ? base[i] - base[i - 1] : base[i];
+            const upper = i < base.length - 1 ? base[i + 1] - base[i] : lower;
+            const shift = random() * 2 - 1;
+            offsets[i] = base[i] + shift * priceJitter * (shift < 0 ? lower : upper);
+        }
+    }
+
+    // Size jitter is renormalized so the side still spends exactly totalQuoteAmount
+    const sizeJitter = Math.max(ladder.sizeJitterPercent ?? 0, 0) / 100;
+    if (sizeJitter > 0) {
+        const jittered = weights.map((w) => w * Math.max(1 + (random() * 2 - 1) * sizeJitter, 0.01));
+        const total = jittered.reduce((sum, w) => sum + w, 0);
+        jittered.forEach((w, i) => (weights[i] = w / total));
+    }
+
+    return offsets.map((offset, i) => {
+        const priceOffset = spreadDecimal * offset;
+        return {
+            price: side === "bid" ? referencePrice * (1 - priceOffset) : referencePrice * (1 + priceOffset),
+            quoteAmount: totalQuoteAmount * weights[i],
+        };
+    });
+}
+
+export default {
+    buildLadder,
+    ladderOffsets,
+    ladderWeights,
+    ladderConfigFromEnv,
+    defaultLadderConfig,
+};
@@ -0,0 +1,336 @@
+/**
+ * Reference Price
+ * Shared by the market-making bots to anchor their order ladders
+ */
+
+import * as ccxt from "ccxt";
+import { initExchange, type ExchangeName } from "../exchange";
+import * as marketData from "../market-data";
+import { OrderBook } from "../order-book";
+import {
+    AggregateReferenceProvider,
+    aggregateReferenceConfigFromEnv,
+    formatAggregatePrice,
+    type AggregateReferenceConfig,
+} from "./aggregate-reference";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+/**
+ * first_ask (lowest ask), first_bid (highest bid), mid (average),
+ * best (own side's top of book for one-sided bots, mid for two-sided bots),
+ * microprice (mid weighted by the size at the touch), depth_mid (mid of the depth-weighted
+ * prices on each side, dust ignored), vwap (trailing trade VWAP), ema (EMA-smoothed mid),
+ * external (mid of the same asset on another exchange), aggregate (volume-weighted price
+ * across several exchanges, see aggregate-reference.ts)
+ */
+export type PriceReference =
+    | "first_ask"
+    | "first_bid"
+    | "mid"
+    | "best"
+    | "microprice"
+    | "depth_mid"
+    | "vwap"
+    | "ema"
+    | "external"
+    | "aggregate";
+
+export const PRICE_REFERENCES: PriceReference[] = [
+    "first_ask",
+    "first_bid",
+    "mid",
+    "best",
+    "microprice",
+    "depth_mid",
+    "vwap",
+    "ema",
+    "external",
+    "aggregate",
+];
+
+export interface ReferencePriceOptions {
+    book?: OrderBook; // Local book to read instead of fetching the ticker/order book
+    depthLevels?: number; // Order book levels fetched for microprice/depth_mid (default: 50)
+    dustNotional?: number; // depth_mid: skip levels worth less than this in quote (default: 1)
+    depthNotional?: number; // depth_mid: quote amount averaged on each side (default: 50)
+    vwapWindowSeconds?: number; // vwap: trailing window of public trades (default: 300)
+    emaPeriodSeconds?: number; // ema: time constant of the smoothing (default: 60)
+    externalExchange?: ExchangeName; // external: exchange that sets the price
+    externalSymbol?: string; // external: symbol on that exchange (default: same symbol)
+    aggregate?: AggregateReferenceConfig; // aggregate: sources, outlier and staleness limits
+}
+
+interface TopOfBook {
+    bid?: number;
+    ask?: number;
+    last?: number;
+    timestamp?: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const defaultReferencePriceOptions = {
+    depthLevels: 50,
+    dustNotional: 1,
+    depthNotional: 50,
+    vwapWindowSeconds: 300,
+    emaPeriodSeconds: 60,
+};
+
+/**
+ * PRICE_REFERENCE (undefined when unset); throws on an unknown value
+ */
+export function priceReferenceFromEnv(): PriceReference | undefined {
+    const value = process.env.PRICE_REFERENCE;
+    if (!value) return undefined;
+    if (!PRICE_REFERENCES.includes(value as PriceReference)) {
+        throw new Error(`Unknown PRICE_REFERENCE "${value}" (expected ${PRICE_REFERENCES.join(", ")})`);
+    }
+    return value as PriceReference;
+}
+
+/**
+ * Reference settings from environment variables (REFERENCE_*)
+ */
+export function referencePriceOptionsFromEnv(): ReferencePriceOptions {
+    const number = (name: string) => (process.env[name] ? parseFloat(process.env[name] as string) : undefined);
+
+    return {
+        depthLevels: number("REFERENCE_DEPTH_LEVELS"),
+        dustNotional: number("REFERENCE_DUST_NOTIONAL"),
+        depthNotional: number("REFERENCE_DEPTH_NOTIONAL"),
+        vwapWindowSeconds: number("REFERENCE_VWAP_WINDOW_SECONDS"),
+        emaPeriodSeconds: number("REFERENCE_EMA_PERIOD_SECONDS"),
+        externalExchange: process.env.REFERENCE_EXCHANGE as ExchangeName | undefined,
+        externalSymbol: process.env.REFERENCE_SYMBOL,
+        aggregate: aggregateReferenceConfigFromEnv(),
+    };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// EMA per exchange instance and symbol, so each bot (or replay) smooths its own series
+const emaState = new WeakMap<ccxt.Exchange, Map<string, { value: number; timestamp: number }>>();
+
+const externalExchanges = new Map<string, ccxt.Exchange>();
+
+// One provider per aggregate config, so exchange instances are reused across cycles
+const aggregateProviders = new WeakMap<AggregateReferenceConfig, AggregateReferenceProvider>();
+
+const midOf = (top: TopOfBook) => (top.bid && top.ask ? (top.bid + top.ask) / 2 : top.last || 0);
+
+/**
+ * Top of book from a maintained local book when it has both sides, else from the ticker
+ */
+async function topOfBook(exchange: ccxt.Exchange, symbol: string, book?: OrderBook): Promise<TopOfBook> {
+    const bid = book?.bestBid();
+    const ask = book?.bestAsk();
+    if (book?.isSynced && bid && ask) {
+        return { bid: bid.price, ask: ask.price, last: (bid.price + ask.price) / 2, timestamp: book.timestamp };
+    }
+    return marketData.fetchTicker(exchange, symbol);
+}
+
+/**
+ * The local book when synced, else a fresh snapshot
+ */
+async function orderBookFor(exchange: ccxt.Exchange, symbol: string, options: ReferencePriceOptions): Promise<OrderBook> {
+    if (options.book?.isSynced) return options.book;
+    return OrderBook.fromExchange(
+        exchange,
+        symbol,
+        options.depthLevels ?? defaultReferencePriceOptions.depthLevels
+    );
+}
+
+async function depthWeightedMid(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    options: ReferencePriceOptions
+): Promise<number> {
+    const book = await orderBookFor(exchange, symbol, options);
+    const notional = options.depthNotional ?? defaultReferencePriceOptions.depthNotional;
+    const dust = options.dustNotional ?? defaultReferencePriceOptions.dustNotional;
+
+    const bid = book.depthWeightedPrice("bid", notional, dust);
+    const ask = book.depthWeightedPrice("ask", notional, dust);
+    if (bid && ask) return (bid + ask) / 2;
+    return book.mid() || 0;
+}
+
+/**
+ * VWAP of public trades in the trailing window (mid when nothing traded)
+ */
+async function tradeVwap(exchange: ccxt.Exchange, symbol: string, options: ReferencePriceOptions): Promise<number> {
+    const top = await topOfBook(exchange, symbol, options.book);
+    const windowMs = (options.vwapWindowSeconds ?? defaultReferencePriceOptions.vwapWindowSeconds) * 1000;
+    const since = (top.timestamp ?? Date.now()) - windowMs;
+
+    const trades: Array<{ timestamp: number; price: number; amount: number }> = await marketData.fetchTrades(
+        exchange,
+        symbol,
+        since
+    );
+
+    let volume = 0;
+    let notional = 0;
+    for (const trade of trades) {
+        if (trade.timestamp < since) continue;
+        volume += trade.amount;
+        notional += trade.price * trade.amount;
+    }
+
+    return volume > 0 ? notional / volume : midOf(top);
+}
+
+/**
+ * Time-weighted EMA of the mid: alpha = 1 - e^(-dt / period)
+ */
+async function emaMid(exchange: ccxt.Exchange, symbol: string, options: ReferencePriceOptions): Promise<number> {
+    const top = await topOfBook(exchange, symbol, options.book);
+    const mid = midOf(top);
+    if (!mid) return 0;
+
+    const timestamp = top.timestamp ?? Date.now();
+    const periodMs = (options.emaPeriodSeconds ?? defaultReferencePriceOptions.emaPeriodSeconds) * 1000;
+
+    let series = emaState.get(exchange);
+    if (!series) {
+        series = new Map();
+        emaState.set(exchange, series);
+    }
+
+    const previous = series.get(symbol);
+    let value = mid;
+    if (previous && timestamp > previous.timestamp && periodMs > 0) {
+        const alpha = 1 - Math.exp(-(timestamp - previous.timestamp) / periodMs);
+        value = previous.value + alpha * (mid - previous.value);
+    } else if (previous) {
+        value = previous.value;
+    }
+
+    series.set(symbol, { value, timestamp: Math.max(timestamp, previous?.timestamp ?? 0) });
+    return value;
+}
+
+/**
+ * Mid of the same asset on another exchange
+ */
+async function externalMid(symbol: string, options: ReferencePriceOptions): Promise<number> {
+    if (!options.externalExchange) {
+        throw new Error('PRICE_REFERENCE "external" needs REFERENCE_EXCHANGE');
+    }
+
+    let external = externalExchanges.get(options.externalExchange);
+    if (!external) {
+        external = initExchange(options.externalExchange);
+        externalExchanges.set(options.externalExchange, external);
+    }
+
+    const ticker = await marketData.fetchTicker(external, options.externalSymbol || symbol);
+    return midOf(ticker);
+}
+
+/**
+ * Volume-weighted cross-exchange price; the breakdown is logged when a source was rejected
+ */
+async function aggregatePrice(symbol: string, options: ReferencePriceOptions): Promise<number> {
+    if (!options.aggregate) {
+        throw new Error('PRICE_REFERENCE "aggregate" needs REFERENCE_SOURCES');
+    }
+
+    let provider = aggregateProviders.get(options.aggregate);
+    if (!provider) {
+        provider = new AggregateReferenceProvider(options.aggregate);
+        aggregateProviders.set(options.aggregate, provider);
+    }
+
+    const result = await provider.getPrice(symbol);
+    if (result.used < result.quotes.length) {
+        console.warn(formatAggregatePrice(result));
+    }
+    return result.price;
+}
+
+// ============================================================================
+// REFERENCE PRICE
+// ============================================================================
+
+/**
+ * Get current reference price. Pass `side` for one-sided bots so "best" can follow it,
+ * and `options.book` to read the top of book from a local OrderBook instead of fetching it.
+ */
+export async function getReferencePrice(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    priceReference: PriceReference,
+    side?: "bid" | "ask",
+    options: ReferencePriceOptions = {}
+): Promise<number> {
+    switch (priceReference) {
+        case "microprice": {
+            const book = await orderBookFor(exchange, symbol, options);
+            return book.microprice() || 0;
+        }
+
+        case "depth_mid":
+            return depthWeightedMid(exchange, symbol, options);
+
+        case "vwap":
+            return tradeVwap(exchange, symbol, options);
+
+        case "ema":
+            return emaMid(exchange, symbol, options);
+
+        case "external":
+            return externalMid(symbol, options);
+
+        case "aggregate":
+            return aggregatePrice(symbol, options);
+    }
+
+    const ticker = await topOfBook(exchange, symbol, options.book);
+
+    switch (priceReference) {
+        case "first_ask":
+            // Always use lowest ask price
+            return ticker.ask || ticker.last || 0;
+
+        case "first_bid":
+            // Always use highest bid price
+            return ticker.bid || ticker.last || 0;
+
+        case "mid":
+            // Use mid price (average of bid and ask)
+            return midOf(ticker);
+
+        case "best":
+            // Auto-select based on order side
+            if (side === "bid") {
+                return ticker.bid || ticker.last || 0; // Use highest bid for buying
+            }
+            if (side === "ask") {
+                return ticker.ask || ticker.last || 0; // Use lowest ask for selling
+            }
+            // Two-sided bots quote around the mid
+            return midOf(ticker);
+
+        default:
+            return ticker.last || 0;
+    }
+}
+
+export default {
+    getReferencePrice,
+    priceReferenceFromEnv,
+    referencePriceOptionsFromEnv,
+    defaultReferencePriceOptions,
+    PRICE_REFERENCES,
+};
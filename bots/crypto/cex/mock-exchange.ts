@@ -0,0 +1,1457 @@
+/**
+ * Mock Exchange
+ * Deterministic in-memory exchange with a price-time priority matching engine,
+ * balances, fees and configurable market precision/limits.
+ * Returned by initExchange("mock") so strategies can run end-to-end offline.
+ * Also stands in for a WebSocket feed: watch* methods resolve on the next change, and
+ * dropStreams()/injectStreamGap() simulate disconnects and sequence gaps.
+ */
+
+import * as ccxt from "ccxt";
+import { readFileSync } from "fs";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type MockPrecisionMode = "tick_size" | "decimal_places";
+
+export interface MockMarketConfig {
+    symbol: string; // e.g. "ORBD/USDT"
+    initialPrice: number; // Fair price the background liquidity is seeded around
+    pricePrecision: number; // Tick size (tick_size mode) or decimal places (decimal_places mode)
+    amountPrecision: number; // Step size (tick_size mode) or decimal places (decimal_places mode)
+    minAmount?: number;
+    maxAmount?: number;
+    minPrice?: number;
+    maxPrice?: number;
+    minCost?: number;
+    maxCost?: number;
+    maker?: number; // Maker fee rate (e.g. 0.001 for 0.1%)
+    taker?: number; // Taker fee rate
+}
+
+export interface MockLiquidityConfig {
+    levels: number; // Price levels per side
+    spreadPercent: number; // Full bid/ask spread of the background book
+    stepPercent: number; // Distance between consecutive levels
+    quotePerLevel: number; // Size of each level in quote currency
+}
+
+export interface MockWalkConfig {
+    seed: number; // PRNG seed - same seed, same price path
+    volatilityPercent: number; // Std-dev of each random walk step
+    intervalMs?: number; // Auto-tick interval (0 or undefined = manual tick() only)
+    historyBars?: number; // 1m candles generated before the first tick
+}
+
+export interface MockExchangeConfig {
+    precisionMode?: MockPrecisionMode;
+    markets: MockMarketConfig[];
+    balances: Record<string, number>;
+    makerFee?: number; // Default maker fee when a market doesn't set one
+    takerFee?: number; // Default taker fee when a market doesn't set one
+    liquidity?: MockLiquidityConfig;
+    walk?: MockWalkConfig;
+    clock?: () => number; // Time source (defaults to Date.now)
+}
+
+export type MockOrderStatus = "open" | "closed" | "canceled";
+
+export interface MockFee {
+    cost: number;
+    currency: string;
+    rate: number;
+}
+
+export interface MockTrade {
+    id: string;
+    order?: string;
+    timestamp: number;
+    datetime: string;
+    symbol: string;
+    side: "buy" | "sell";
+    takerOrMaker?: "taker" | "maker";
+    price: number;
+    amount: number;
+    cost: number;
+    fee?: MockFee;
+}
+
+export interface MockOrder {
+    id: string;
+    clientOrderId?: string;
+    timestamp: number;
+    datetime: string;
+    lastTradeTimestamp?: number;
+    symbol: string;
+    type: "limit" | "market";
+    timeInForce: "GTC" | "IOC" | "FOK" | "PO";
+    postOnly: boolean;
+    side: "buy" | "sell";
+    price: number;
+    average?: number;
+    amount: number;
+    filled: number;
+    remaining: number;
+    cost: number;
+    status: MockOrderStatus;
+    fee: MockFee;
+    trades: MockTrade[];
+    info: Record<string, unknown>;
+}
+
+export interface MockMarket {
+    id: string;
+    symbol: string;
+    base: string;
+    quote: string;
+    baseId: string;
+    quoteId: string;
+    type: "spot";
+    spot: true;
+    active: boolean;
+    maker: number;
+    taker: number;
+    precision: { amount: number; price: number };
+    limits: {
+        amount: { min?: number; max?: number };
+        price: { min?: number; max?: number };
+        cost: { min?: number; max?: number };
+    };
+    info: Record<string, unknown>;
+}
+
+export interface MockOrderParams {
+    clientOrderId?: string;
+    timeInForce?: string;
+    postOnly?: boolean;
+}
+
+export interface MockBalanceEntry {
+    free: number;
+    used: number;
+    total: number;
+}
+
+interface BookEntry {
+    orderId: string;
+    owner: "self" | "external";
+    side: "buy" | "sell";
+    price: number;
+    remaining: number;
+    seq: number;
+}
+
+interface SymbolBook {
+    bids: BookEntry[]; // Sorted by price desc, then seq asc
+    asks: BookEntry[]; // Sorted by price asc, then seq asc
+    nonce: number;
+}
+
+interface Bar {
+    timestamp: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+interface StreamWaiter {
+    check: () => boolean; // Resolves/rejects the pending watch* call and returns true when done
+    reject: (error: Error) => void;
+}
+
+interface IncomingOrder {
+    side: "buy" | "sell";
+    owner: "self" | "external";
+    price?: number; // undefined = market order
+    amount: number;
+    maxCost?: number; // Market buy by cost
+    order?: MockOrder; // Set for our own orders
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MINUTE_MS = 60_000;
+const MAX_TAPE_LENGTH = 1000;
+const EPSILON = 1e-9;
+
+export const defaultMockConfig: MockExchangeConfig = {
+    precisionMode: "tick_size",
+    markets: [
+        {
+            symbol: "ORBD/USDT",
+            initialPrice: 0.0125,
+            pricePrecision: 0.000001,
+            amountPrecision: 0.01,
+            minAmount: 1,
+            minCost: 0.1,
+        },
+        {
+            symbol: "BTC/USDT",
+            initialPrice: 95000,
+            pricePrecision: 0.01,
+            amountPrecision: 0.00001,
+            minAmount: 0.00001,
+            minCost: 5,
+        },
+        {
+            symbol: "ETH/USDT",
+            initialPrice: 3500,
+            pricePrecision: 0.01,
+            amountPrecision: 0.0001,
+            minAmount: 0.0001,
+            minCost: 5,
+        },
+    ],
+    balances: {
+        USDT: 10000,
+        ORBD: 1000000,
+        BTC: 1,
+        ETH: 10,
+    },
+    makerFee: 0.001,
+    takerFee: 0.001,
+    liquidity: {
+        levels: 25,
+        spreadPercent: 0.4,
+        stepPercent: 0.2,
+        quotePerLevel: 50,
+    },
+    walk: {
+        seed: 42,
+        volatilityPercent: 0.05,
+        intervalMs: 1000,
+        historyBars: 500,
+    },
+};
+
+/**
+ * Load mock config from MOCK_EXCHANGE_CONFIG (path to JSON) merged over the defaults
+ */
+export function loadMockConfigFromEnv(): MockExchangeConfig {
+    const configPath = process.env.MOCK_EXCHANGE_CONFIG;
+    if (!configPath) {
+        return defaultMockConfig;
+    }
+
+    const overrides = JSON.parse(readFileSync(configPath, "utf8")) as Partial<MockExchangeConfig>;
+    return {
+        ...defaultMockConfig,
+        ...overrides,
+        liquidity: { ...defaultMockConfig.liquidity, ...overrides.liquidity },
+        walk: { ...defaultMockConfig.walk, ...overrides.walk },
+    };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Seeded PRNG (mulberry32) - deterministic uniform numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Convert a ccxt timeframe string (1m, 15m, 1h, 1d...) to milliseconds
+ */
+function timeframeToMs(timeframe: string): number {
+    const match = /^(\d+)([mhdw])$/.exec(timeframe);
+    if (!match) {
+        throw new ccxt.BadRequest(`mock: unsupported timeframe ${timeframe}`);
+    }
+    const units: Record<string, number> = {
+        m: MINUTE_MS,
+        h: 60 * MINUTE_MS,
+        d: 24 * 60 * MINUTE_MS,
+        w: 7 * 24 * 60 * MINUTE_MS,
+    };
+    return parseInt(match[1]) * units[match[2]];
+}
+
+function decimalsOf(step: number): number {
+    const text = step.toExponential();
+    const [mantissa, exponent] = text.split("e");
+    const mantissaDecimals = (mantissa.split(".")[1] || "").length;
+    return Math.max(0, mantissaDecimals - parseInt(exponent));
+}
+
+function roundToStep(value: number, step: number, mode: "floor" | "ceil" | "round"): number {
+    const units = value / step;
+    const rounded =
+        mode === "floor"
+            ? Math.floor(units + EPSILON)
+            : mode === "ceil"
+                ? Math.ceil(units - EPSILON)
+                : Math.round(units);
+    return parseFloat((rounded * step).toFixed(decimalsOf(step)));
+}
+
+function isOnStep(value: number, step: number): boolean {
+    const units = value / step;
+    return Math.abs(units - Math.round(units)) < 1e-6;
+}
+
+// ============================================================================
+// MOCK EXCHANGE
+// ============================================================================
+
+export class MockExchange extends ccxt.Exchange {
+    private mockConfig: MockExchangeConfig;
+    private clock: () => number;
+    private random: () => number;
+    private books = new Map<string, SymbolBook>();
+    private fairPrices = new Map<string, number>();
+    private bars = new Map<string, Bar[]>();
+    private tape = new Map<string, MockTrade[]>();
+    private orders = new Map<string, MockOrder>();
+    private myTrades: MockTrade[] = [];
+    private totals: Record<string, number> = {};
+    private reserved: Record<string, number> = {};
+    private orderSeq = 100000;
+    private tradeSeq = 500000;
+    private bookSeq = 0;
+    private walkTimer?: NodeJS.Timeout;
+    private streamWaiters: StreamWaiter[] = [];
+    private streamNotifyScheduled = false;
+    private streamsOnline = true;
+    private streamGaps = new Set<string>();
+    private watchingOrders = false;
+    private orderUpdates = new Set<string>();
+    private deliveredNonce = new Map<string, number>();
+    private deliveredTradeId = new Map<string, number>();
+    private deliveredBalance?: string;
+
+    constructor(config: MockExchangeConfig = defaultMockConfig) {
+        super({});
+        this.id = "mock";
+        this.name = "Mock Exchange";
+        this.mockConfig = config;
+        this.clock = config.clock || Date.now;
+        this.random = createRandom(config.walk?.seed ?? 1);
+        this.precisionMode =
+            config.precisionMode === "decimal_places" ? ccxt.DECIMAL_PLACES : ccxt.TICK_SIZE;
+        this.has = {
+            spot: true,
+            loadMarkets: true,
+            fetchMarkets: true,
+            fetchTicker: true,
+            fetchOrderBook: true,
+            fetchOHLCV: true,
+            fetchTrades: true,
+            fetchMyTrades: true,
+            fetchBalance: true,
+            fetchTradingFees: true,
+            createOrder: true,
+            createMarketBuyOrderWithCost: true,
+            cancelOrder: true,
+            cancelOrders: true,
+            cancelAllOrders: true,
+            fetchOrder: true,
+            fetchOpenOrders: true,
+            ws: true,
+            watchOrderBook: true,
+            watchTrades: true,
+            watchOrders: true,
+            watchBalance: true,
+        };
+
+        for (const [currency, amount] of Object.entries(config.balances)) {
+            this.totals[currency] = amount;
+            this.reserved[currency] = 0;
+        }
+
+        this.markets = {};
+        for (const marketConfig of config.markets) {
+            this.markets[marketConfig.symbol] = this.buildMarket(marketConfig);
+            this.books.set(marketConfig.symbol, { bids: [], asks: [], nonce: 0 });
+            this.tape.set(marketConfig.symbol, []);
+            this.seedHistory(marketConfig);
+            this.refreshLiquidity(marketConfig.symbol);
+        }
+
+        if (config.walk?.intervalMs) {
+            this.walkTimer = setInterval(() => this.tick(), config.walk.intervalMs);
+            this.walkTimer.unref();
+        }
+    }
+
+    // ------------------------------------------------------------------------
+    // Simulation controls (not part of the ccxt surface)
+    // ------------------------------------------------------------------------
+
+    /**
+     * Advance the random walk one step and re-seed background liquidity
+     * Background orders that cross our resting orders fill them
+     */
+    tick(symbol?: string): void {
+        const symbols = symbol ? [symbol] : Object.keys(this.markets);
+        const volatility = (this.mockConfig.walk?.volatilityPercent ?? 0) / 100;
+
+        for (const s of symbols) {
+            const fair = this.fairPrices.get(s) || 0;
+            this.fairPrices.set(s, fair * Math.exp(volatility * this.gaussian()));
+            this.refreshLiquidity(s);
+        }
+    }
+
+    /**
+     * Move the fair price of a symbol and re-seed background liquidity around it
+     */
+    setFairPrice(symbol: string, price: number): void {
+        this.requireMarket(symbol);
+        this.fairPrices.set(symbol, price);
+        this.refreshLiquidity(symbol);
+    }
+
+    getFairPrice(symbol: string): number {
+        this.requireMarket(symbol);
+        return this.fairPrices.get(symbol) || 0;
+    }
+
+    /**
+     * Replace the external side of the book with the given levels
+     * Used by replay simulators to mirror a recorded L2 snapshot
+     */
+    setExternalBook(
+        symbol: string,
+        bids: Array<[number, number]>,
+        asks: Array<[number, number]>
+    ): void {
+        this.requireMarket(symbol);
+        this.removeExternalOrders(symbol);
+        for (const [price, amount] of bids) {
+            this.submit(symbol, { side: "buy", owner: "external", price, amount });
+        }
+        for (const [price, amount] of asks) {
+            this.submit(symbol, { side: "sell", owner: "external", price, amount });
+        }
+        if (bids.length > 0 && asks.length > 0) {
+            this.fairPrices.set(symbol, (bids[0][0] + asks[0][0]) / 2);
+        }
+    }
+
+    /**
+     * Submit an order from another market participant
+     * Limit orders rest in the book; market orders (no price) sweep it
+     */
+    placeExternalOrder(
+        symbol: string,
+        side: "buy" | "sell",
+        amount: number,
+        price?: number
+    ): MockTrade[] {
+        this.requireMarket(symbol);
+        return this.submit(symbol, { side, owner: "external", price, amount });
+    }
+
+    /**
+     * Fill one of our resting limit orders as maker at its own price
+     * Used by replay simulators that decide fills from queue position instead of book crossing
+     */
+    fillRestingOrder(id: string, amount: number): MockTrade | undefined {
+        const order = this.orders.get(id);
+        if (!order || order.status !== "open" || order.type !== "limit") return undefined;
+
+        const market = this.markets[order.symbol];
+        const book = this.books.get(order.symbol);
+        const side = order.side === "buy" ? book.bids : book.asks;
+        const index = side.findIndex((e) => e.orderId === id);
+        if (index < 0) return undefined;
+
+        const entry = side[index];
+        const fillAmount = this.normalizeAmount(market, Math.min(amount, entry.remaining));
+        if (fillAmount <= EPSILON) return undefined;
+
+        const timestamp = this.clock();
+        const trade: MockTrade = {
+            id: String(++this.tradeSeq),
+            timestamp,
+            datetime: new Date(timestamp).toISOString(),
+            symbol: order.symbol,
+            side: order.side === "buy" ? "sell" : "buy", // Taker side
+            price: entry.price,
+            amount: fillAmount,
+            cost: fillAmount * entry.price,
+        };
+        this.recordTape(order.symbol, trade);
+        this.applyFill(order, trade, "maker");
+
+        entry.remaining = this.normalizeAmount(market, entry.remaining - fillAmount);
+        if (entry.remaining <= EPSILON) {
+            side.splice(index, 1);
+        }
+        book.nonce++;
+        this.notifyStreams();
+
+        return this.myTrades[this.myTrades.length - 1];
+    }
+
+    /**
+     * Append a trade between other participants to the public tape (ticker, trades, OHLCV)
+     */
+    recordExternalTrade(symbol: string, side: "buy" | "sell", price: number, amount: number): MockTrade {
+        this.requireMarket(symbol);
+        const timestamp = this.clock();
+        const trade: MockTrade = {
+            id: String(++this.tradeSeq),
+            timestamp,
+            datetime: new Date(timestamp).toISOString(),
+            symbol,
+            side,
+            price,
+            amount,
+            cost: price * amount,
+        };
+        this.recordTape(symbol, trade);
+        return trade;
+    }
+
+    /**
+     * Credit or debit a currency balance directly
+     */
+    setBalance(currency: string, total: number): void {
+        this.totals[currency] = total;
+        this.reserved[currency] = this.reserved[currency] || 0;
+        this.notifyStreams();
+    }
+
+    /**
+     * Drop every open stream: pending watch* calls reject with a NetworkError.
+     * With online = false new watch* calls keep failing until setStreamsOnline(true)
+     */
+    dropStreams(online = true): void {
+        const waiters = this.streamWaiters;
+        this.streamWaiters = [];
+        this.streamsOnline = online;
+        for (const waiter of waiters) {
+            waiter.reject(new ccxt.NetworkError("mock: stream connection lost"));
+        }
+    }
+
+    setStreamsOnline(online: boolean): void {
+        this.streamsOnline = online;
+        this.notifyStreams();
+    }
+
+    /**
+     * Make the next watchOrderBook for the symbol fail with a sequence gap (ccxt.InvalidNonce),
+     * the way ccxt.pro reports a missed depth update
+     */
+    injectStreamGap(symbol: string): void {
+        this.requireMarket(symbol);
+        this.streamGaps.add(symbol);
+        this.notifyStreams();
+    }
+
+    /**
+     * Stop the auto-tick timer and close all streams
+     */
+    close(): void {
+        if (this.walkTimer) {
+            clearInterval(this.walkTimer);
+            this.walkTimer = undefined;
+        }
+        this.dropStreams(false);
+    }
+
+    // ------------------------------------------------------------------------
+    // Public market data
+    // ------------------------------------------------------------------------
+
+    async loadMarkets(): Promise<Record<string, MockMarket>> {
+        return this.markets;
+    }
+
+    async fetchMarkets(): Promise<MockMarket[]> {
+        return Object.values(this.markets);
+    }
+
+    market(symbol: string): MockMarket {
+        return this.requireMarket(symbol);
+    }
+
+    async fetchTicker(symbol: string): Promise<Record<string, unknown>> {
+        this.requireMarket(symbol);
+        const book = this.books.get(symbol);
+        const now = this.clock();
+        const dayBars = this.getBars(symbol).filter((b) => b.timestamp > now - 24 * 60 * MINUTE_MS);
+        const tape = this.tape.get(symbol);
+        const last = tape.length > 0 ? tape[tape.length - 1].price : this.fairPrices.get(symbol);
+        const baseVolume = dayBars.reduce((sum, b) => sum + b.volume, 0);
+
+        return {
+            symbol,
+            timestamp: now,
+            datetime: new Date(now).toISOString(),
+            bid: book.bids[0]?.price,
+            bidVolume: this.levelVolume(book.bids),
+            ask: book.asks[0]?.price,
+            askVolume: this.levelVolume(book.asks),
+            last,
+            close: last,
+            open: dayBars[0]?.open,
+            high: dayBars.length > 0 ? Math.max(...dayBars.map((b) => b.high)) : last,
+            low: dayBars.length > 0 ? Math.min(...dayBars.map((b) => b.low)) : last,
+            baseVolume,
+            quoteVolume: baseVolume * last,
+            info: {},
+        };
+    }
+
+    async fetchOrderBook(symbol: string, limit?: number): Promise<Record<string, unknown>> {
+        this.requireMarket(symbol);
+        return this.orderBookSnapshot(symbol, limit);
+    }
+
+    private orderBookSnapshot(symbol: string, limit?: number): Record<string, unknown> {
+        const book = this.books.get(symbol);
+        const now = this.clock();
+
+        return {
+            symbol,
+            bids: this.aggregateLevels(book.bids, limit),
+            asks: this.aggregateLevels(book.asks, limit),
+            timestamp: now,
+            datetime: new Date(now).toISOString(),
+            nonce: book.nonce,
+        };
+    }
+
+    async fetchTrades(symbol: string, since?: number, limit?: number): Promise<MockTrade[]> {
+        this.requireMarket(symbol);
+        let trades = this.tape.get(symbol).filter((t) => since === undefined || t.timestamp >= since);
+        if (limit !== undefined) {
+            trades = trades.slice(-limit);
+        }
+        return trades.map((t) => ({ ...t }));
+    }
+
+    async fetchOHLCV(
+        symbol: string,
+        timeframe = "1m",
+        since?: number,
+        limit?: number
+    ): Promise<number[][]> {
+        this.requireMarket(symbol);
+        const frameMs = timeframeToMs(timeframe);
+        const candles: number[][] = [];
+
+        for (const bar of this.getBars(symbol)) {
+            const bucket = Math.floor(bar.timestamp / frameMs) * frameMs;
+            const current = candles[candles.length - 1];
+            if (!current || current[0] !== bucket) {
+                candles.push([bucket, bar.open, bar.high, bar.low, bar.close, bar.volume]);
+            } else {
+                current[2] = Math.max(current[2], bar.high);
+                current[3] = Math.min(current[3], bar.low);
+                current[4] = bar.close;
+                current[5] += bar.volume;
+            }
+        }
+
+        const filtered = candles.filter((c) => since === undefined || c[0] >= since);
+        return limit !== undefined ? filtered.slice(-limit) : filtered;
+    }
+
+    async fetchTradingFees(): Promise<Record<string, { symbol: string; maker: number; taker: number }>> {
+        const fees: Record<string, { symbol: string; maker: number; taker: number }> = {};
+        for (const market of Object.values(this.markets)) {
+            fees[market.symbol] = { symbol: market.symbol, maker: market.maker, taker: market.taker };
+        }
+        return fees;
+    }
+
+    // ------------------------------------------------------------------------
+    // Private account & trading
+    // ------------------------------------------------------------------------
+
+    async fetchBalance(): Promise<Record<string, unknown>> {
+        return this.balanceSnapshot();
+    }
+
+    private balanceSnapshot(): Record<string, unknown> {
+        const free: Record<string, number> = {};
+        const used: Record<string, number> = {};
+        const total: Record<string, number> = {};
+        const balance: Record<string, unknown> = { info: {}, free, used, total };
+
+        for (const currency of Object.keys(this.totals)) {
+            total[currency] = this.totals[currency];
+            used[currency] = this.reserved[currency] || 0;
+            free[currency] = total[currency] - used[currency];
+            const entry: MockBalanceEntry = { free: free[currency], used: used[currency], total: total[currency] };
+            balance[currency] = entry;
+        }
+
+        return balance;
+    }
+
+    async createOrder(
+        symbol: string,
+        type: string,
+        side: string,
+        amount: number,
+        price?: number,
+        params: MockOrderParams = {}
+    ): Promise<MockOrder> {
+        const market = this.requireMarket(symbol);
+
+        if (type !== "limit" && type !== "market") {
+            throw new ccxt.NotSupported(`mock: order type ${type} is not supported`);
+        }
+        if (side !== "buy" && side !== "sell") {
+            throw new ccxt.BadRequest(`mock: invalid side ${side}`);
+        }
+
+        const timeInForce = (params.timeInForce || (params.postOnly ? "PO" : "GTC")).toUpperCase();
+        const limitPrice = type === "limit" ? price : undefined;
+
+        this.validateOrder(market, type, amount, limitPrice);
+
+        const book = this.books.get(symbol);
+        if (timeInForce === "PO" && limitPrice !== undefined) {
+            const best = side === "buy" ? book.asks[0]?.price : book.bids[0]?.price;
+            const crosses = best !== undefined && (side === "buy" ? limitPrice >= best : limitPrice <= best);
+            if (crosses) {
+                throw new ccxt.InvalidOrder(`mock: post-only order would cross the book at ${best}`);
+            }
+        }
+
+        const [base, quote] = symbol.split("/");
+        if (limitPrice !== undefined) {
+            this.reserve(side === "buy" ? quote : base, side === "buy" ? amount * limitPrice : amount);
+        } else {
+            this.checkMarketFunds(symbol, side, amount, base, quote);
+        }
+
+        if (timeInForce === "FOK" && !this.canFill(symbol, side, amount, limitPrice)) {
+            if (limitPrice !== undefined) {
+                this.release(side === "buy" ? quote : base, side === "buy" ? amount * limitPrice : amount);
+            }
+            throw new ccxt.InvalidOrder("mock: fill-or-kill order cannot be fully filled");
+        }
+
+        const order = this.newOrder(symbol, type, side, amount, limitPrice, timeInForce, params);
+        this.orders.set(order.id, order);
+        this.touchOrder(order);
+        this.submit(symbol, { side, owner: "self", price: limitPrice, amount, order });
+
+        // Anything not matched immediately only rests for GTC/PO limit orders
+        if (order.status === "open" && (type === "market" || timeInForce === "IOC" || timeInForce === "FOK")) {
+            this.cancelRemaining(order);
+        }
+
+        return this.cloneOrder(order);
+    }
+
+    async createMarketBuyOrderWithCost(symbol: string, cost: number, params: MockOrderParams = {}): Promise<MockOrder> {
+        this.requireMarket(symbol);
+        const quote = symbol.split("/")[1];
+        if (this.free(quote) + EPSILON < cost) {
+            throw new ccxt.InsufficientFunds(
+                `mock: insufficient ${quote} - need ${cost}, have ${this.free(quote)}`
+            );
+        }
+
+        const order = this.newOrder(symbol, "market", "buy", 0, undefined, "IOC", params);
+        this.orders.set(order.id, order);
+        this.touchOrder(order);
+        this.submit(symbol, { side: "buy", owner: "self", amount: Infinity, maxCost: cost, order });
+        order.amount = order.filled;
+        if (order.status === "open") {
+            this.cancelRemaining(order);
+        }
+        return this.cloneOrder(order);
+    }
+
+    async cancelOrder(id: string, symbol: string): Promise<MockOrder> {
+        const order = this.orders.get(id);
+        if (!order || order.symbol !== symbol || order.status !== "open") {
+            throw new ccxt.OrderNotFound(`mock: order ${id} not found or not open`);
+        }
+        this.cancelRemaining(order);
+        return this.cloneOrder(order);
+    }
+
+    async cancelOrders(ids: string[], symbol?: string): Promise<MockOrder[]> {
+        const results = [];
+        for (const id of ids) {
+            const order = this.orders.get(id);
+            results.push(await this.cancelOrder(id, symbol || order?.symbol));
+        }
+        return results;
+    }
+
+    async cancelAllOrders(symbol?: string): Promise<MockOrder[]> {
+        const cancelled = [];
+        for (const order of this.orders.values()) {
+            if (order.status === "open" && (!symbol || order.symbol === symbol)) {
+                this.cancelRemaining(order);
+                cancelled.push(this.cloneOrder(order));
+            }
+        }
+        return cancelled;
+    }
+
+    async fetchOrder(id: string, symbol: string): Promise<MockOrder> {
+        const order = this.orders.get(id);
+        if (!order || (symbol && order.symbol !== symbol)) {
+            throw new ccxt.OrderNotFound(`mock: order ${id} not found`);
+        }
+        return this.cloneOrder(order);
+    }
+
+    async fetchOpenOrders(symbol?: string, since?: number, limit?: number): Promise<MockOrder[]> {
+        let open = [...this.orders.values()].filter(
+            (o) =>
+                o.status === "open" &&
+                (!symbol || o.symbol === symbol) &&
+                (since === undefined || o.timestamp >= since)
+        );
+        if (limit !== undefined) {
+            open = open.slice(-limit);
+        }
+        return open.map((o) => this.cloneOrder(o));
+    }
+
+    async fetchMyTrades(symbol?: string, since?: number, limit?: number): Promise<MockTrade[]> {
+        let trades = this.myTrades.filter(
+            (t) => (!symbol || t.symbol === symbol) && (since === undefined || t.timestamp >= since)
+        );
+        if (limit !== undefined) {
+            trades = trades.slice(-limit);
+        }
+        return trades.map((t) => ({ ...t, fee: t.fee ? { ...t.fee } : undefined }));
+    }
+
+    /**
+     * Spot-only mock: no derivatives positions
+     */
+    async fetchPositions(): Promise<unknown[]> {
+        return [];
+    }
+
+    async setLeverage(): Promise<Record<string, unknown>> {
+        return {};
+    }
+
+    // ------------------------------------------------------------------------
+    // Streaming (ccxt.pro surface)
+    // ------------------------------------------------------------------------
+
+    /**
+     * Next order book change; the first call returns the current book
+     */
+    async watchOrderBook(symbol: string, limit?: number): Promise<Record<string, unknown>> {
+        this.requireMarket(symbol);
+        return this.waitForStream(() => {
+            if (this.streamGaps.delete(symbol)) {
+                throw new ccxt.InvalidNonce(`mock: ${symbol} order book sequence gap`);
+            }
+            const nonce = this.books.get(symbol).nonce;
+            if (this.deliveredNonce.get(symbol) === nonce) return undefined;
+            this.deliveredNonce.set(symbol, nonce);
+            return this.orderBookSnapshot(symbol, limit);
+        });
+    }
+
+    /**
+     * Public trades printed since the previous call (or since the first call)
+     */
+    async watchTrades(symbol: string, since?: number, limit?: number): Promise<MockTrade[]> {
+        this.requireMarket(symbol);
+        const tape = this.tape.get(symbol);
+        if (!this.deliveredTradeId.has(symbol)) {
+            this.deliveredTradeId.set(symbol, tape.length > 0 ? Number(tape[tape.length - 1].id) : 0);
+        }
+
+        return this.waitForStream(() => {
+            const delivered = this.deliveredTradeId.get(symbol);
+            let trades = tape.filter((t) => Number(t.id) > delivered && (since === undefined || t.timestamp >= since));
+            if (trades.length === 0) return undefined;
+            this.deliveredTradeId.set(symbol, Number(trades[trades.length - 1].id));
+            if (limit !== undefined) {
+                trades = trades.slice(-limit);
+            }
+            return trades.map((t) => ({ ...t }));
+        });
+    }
+
+    /**
+     * Our orders that were created, filled or canceled since the previous call
+     */
+    async watchOrders(symbol?: string, since?: number, limit?: number): Promise<MockOrder[]> {
+        this.watchingOrders = true;
+        return this.waitForStream(() => {
+            let updated = [...this.orderUpdates]
+                .map((id) => this.orders.get(id))
+                .filter((o) => !symbol || o.symbol === symbol);
+            if (updated.length === 0) return undefined;
+            updated.forEach((o) => this.orderUpdates.delete(o.id));
+            updated = updated.filter((o) => since === undefined || o.timestamp >= since);
+            if (limit !== undefined) {
+                updated = updated.slice(-limit);
+            }
+            return updated.map((o) => this.cloneOrder(o));
+        });
+    }
+
+    /**
+     * Next balance change; the first call returns the current balance
+     */
+    async watchBalance(): Promise<Record<string, unknown>> {
+        return this.waitForStream(() => {
+            const signature = JSON.stringify([this.totals, this.reserved]);
+            if (this.deliveredBalance === signature) return undefined;
+            this.deliveredBalance = signature;
+            return this.balanceSnapshot();
+        });
+    }
+
+    private waitForStream<T>(read: () => T | undefined): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const waiter: StreamWaiter = {
+                check: () => {
+                    if (!this.streamsOnline) {
+                        reject(new ccxt.NetworkError("mock: stream connection lost"));
+                        return true;
+                    }
+                    try {
+                        const value = read();
+                        if (value === undefined) return false;
+                        resolve(value);
+                    } catch (error) {
+                        reject(error);
+                    }
+                    return true;
+                },
+                reject,
+            };
+            if (!waiter.check()) {
+                this.streamWaiters.push(waiter);
+            }
+        });
+    }
+
+    /**
+     * Re-check pending watch* calls once the current synchronous update is complete
+     */
+    private notifyStreams(): void {
+        if (this.streamNotifyScheduled || this.streamWaiters.length === 0) return;
+        this.streamNotifyScheduled = true;
+        queueMicrotask(() => {
+            this.streamNotifyScheduled = false;
+            this.streamWaiters = this.streamWaiters.filter((waiter) => !waiter.check());
+        });
+    }
+
+    private touchOrder(order: MockOrder): void {
+        if (this.watchingOrders) {
+            this.orderUpdates.add(order.id);
+        }
+        this.notifyStreams();
+    }
+
+    // ------------------------------------------------------------------------
+    // Matching engine
+    // ------------------------------------------------------------------------
+
+    private submit(symbol: string, incoming: IncomingOrder): MockTrade[] {
+        const book = this.books.get(symbol);
+        const market = this.markets[symbol];
+        const opposite = incoming.side === "buy" ? book.asks : book.bids;
+        const trades: MockTrade[] = [];
+        let remaining = incoming.amount;
+        let spent = 0;
+
+        while (remaining > EPSILON && opposite.length > 0) {
+            const resting = opposite[0];
+            const crosses =
+                incoming.price === undefined ||
+                (incoming.side === "buy" ? incoming.price >= resting.price : incoming.price <= resting.price);
+            if (!crosses) break;
+
+            let fillAmount = Math.min(remaining, resting.remaining);
+            if (incoming.maxCost !== undefined) {
+                const affordable = roundToStep(
+                    (incoming.maxCost - spent) / resting.price,
+                    this.amountStep(market),
+                    "floor"
+                );
+                fillAmount = Math.min(fillAmount, affordable);
+                if (fillAmount <= EPSILON) break;
+            }
+
+            const timestamp = this.clock();
+            const trade: MockTrade = {
+                id: String(++this.tradeSeq),
+                timestamp,
+                datetime: new Date(timestamp).toISOString(),
+                symbol,
+                side: incoming.side,
+                price: resting.price,
+                amount: fillAmount,
+                cost: fillAmount * resting.price,
+            };
+            this.recordTape(symbol, trade);
+            trades.push(trade);
+
+            if (resting.owner === "self") {
+                this.applyFill(this.orders.get(resting.orderId), trade, "maker");
+            }
+            if (incoming.owner === "self") {
+                this.applyFill(incoming.order, trade, "taker");
+            }
+
+            resting.remaining = this.normalizeAmount(market, resting.remaining - fillAmount);
+            remaining = this.normalizeAmount(market, remaining - fillAmount);
+            spent += trade.cost;
+            if (resting.remaining <= EPSILON) {
+                opposite.shift();
+            }
+        }
+
+        const rests =
+            incoming.price !== undefined &&
+            remaining > EPSILON &&
+            (incoming.owner === "external" || incoming.order.timeInForce === "GTC" || incoming.order.timeInForce === "PO");
+        if (rests) {
+            this.insertResting(book, {
+                orderId: incoming.order?.id || `ext-${++this.bookSeq}`,
+                owner: incoming.owner,
+                side: incoming.side,
+                price: incoming.price,
+                remaining,
+                seq: ++this.bookSeq,
+            });
+        }
+
+        book.nonce++;
+        this.notifyStreams();
+        return trades;
+    }
+
+    private applyFill(order: MockOrder, trade: MockTrade, takerOrMaker: "taker" | "maker"): void {
+        const market = this.markets[order.symbol];
+        const [base, quote] = order.symbol.split("/");
+        const rate = takerOrMaker === "maker" ? market.maker : market.taker;
+        const fill: MockTrade = { ...trade, order: order.id, side: order.side, takerOrMaker };
+
+        if (order.side === "buy") {
+            // Fee is charged in the received currency (base)
+            const feeCost = trade.amount * rate;
+            this.totals[quote] = (this.totals[quote] || 0) - trade.cost;
+            if (order.type === "limit") {
+                this.release(quote, trade.amount * order.price);
+            }
+            this.totals[base] = (this.totals[base] || 0) + trade.amount - feeCost;
+            fill.fee = { cost: feeCost, currency: base, rate };
+        } else {
+            // Fee is charged in the received currency (quote)
+            const feeCost = trade.cost * rate;
+            this.totals[base] = (this.totals[base] || 0) - trade.amount;
+            if (order.type === "limit") {
+                this.release(base, trade.amount);
+            }
+            this.totals[quote] = (this.totals[quote] || 0) + trade.cost - feeCost;
+            fill.fee = { cost: feeCost, currency: quote, rate };
+        }
+
+        order.filled = this.normalizeAmount(market, order.filled + trade.amount);
+        order.remaining = Math.max(0, this.normalizeAmount(market, order.amount - order.filled));
+        order.cost += trade.cost;
+        order.average = order.cost / order.filled;
+        order.lastTradeTimestamp = trade.timestamp;
+        order.fee = { cost: order.fee.cost + fill.fee.cost, currency: fill.fee.currency, rate };
+        order.trades.push(fill);
+        if (order.remaining <= EPSILON && order.type === "limit") {
+            order.remaining = 0;
+            order.status = "closed";
+        }
+
+        this.myTrades.push(fill);
+        this.touchOrder(order);
+    }
+
+    private cancelRemaining(order: MockOrder): void {
+        const book = this.books.get(order.symbol);
+        const side = order.side === "buy" ? book.bids : book.asks;
+        const index = side.findIndex((e) => e.orderId === order.id);
+        if (index >= 0) {
+            side.splice(index, 1);
+            book.nonce++;
+        }
+
+        if (order.type === "limit" && order.remaining > EPSILON) {
+            const [base, quote] = order.symbol.split("/");
+            this.release(
+                order.side === "buy" ? quote : base,
+                order.side === "buy" ? order.remaining * order.price : order.remaining
+            );
+        }
+
+        // Fully filled orders are closed, anything with leftovers is canceled
+        order.status = order.filled > 0 && order.remaining <= EPSILON ? "closed" : "canceled";
+        this.touchOrder(order);
+    }
+
+    private insertResting(book: SymbolBook, entry: BookEntry): void {
+        const side = entry.side === "buy" ? book.bids : book.asks;
+        const better = (a: number, b: number) => (entry.side === "buy" ? a > b : a < b);
+        let index = side.findIndex((e) => better(entry.price, e.price));
+        if (index < 0) index = side.length;
+        side.splice(index, 0, entry);
+    }
+
+    private canFill(symbol: string, side: "buy" | "sell", amount: number, price?: number): boolean {
+        const book = this.books.get(symbol);
+        const opposite = side === "buy" ? book.asks : book.bids;
+        let available = 0;
+        for (const entry of opposite) {
+            if (price !== undefined && (side === "buy" ? entry.price > price : entry.price < price)) break;
+            available += entry.remaining;
+            if (available + EPSILON >= amount) return true;
+        }
+        return false;
+    }
+
+    // ------------------------------------------------------------------------
+    // Background liquidity & price history
+    // ------------------------------------------------------------------------
+
+    private refreshLiquidity(symbol: string): void {
+        const liquidity = this.mockConfig.liquidity;
+        const fair = this.fairPrices.get(symbol);
+        this.removeExternalOrders(symbol);
+        if (!liquidity || !fair) return;
+
+        const market = this.markets[symbol];
+        const priceStep = this.priceStep(market);
+        const amountStep = this.amountStep(market);
+        const halfSpread = liquidity.spreadPercent / 200;
+        const step = liquidity.stepPercent / 100;
+
+        for (let i = 0; i < liquidity.levels; i++) {
+            const bidPrice = roundToStep(fair * (1 - halfSpread - step * i), priceStep, "floor");
+            const askPrice = roundToStep(fair * (1 + halfSpread + step * i), priceStep, "ceil");
+            if (bidPrice > 0) {
+                const bidAmount = roundToStep(liquidity.quotePerLevel / bidPrice, amountStep, "floor");
+                this.submit(symbol, { side: "buy", owner: "external", price: bidPrice, amount: bidAmount });
+            }
+            const askAmount = roundToStep(liquidity.quotePerLevel / askPrice, amountStep, "floor");
+            this.submit(symbol, { side: "sell", owner: "external", price: askPrice, amount: askAmount });
+        }
+    }
+
+    private removeExternalOrders(symbol: string): void {
+        const book = this.books.get(symbol);
+        book.bids = book.bids.filter((e) => e.owner === "self");
+        book.asks = book.asks.filter((e) => e.owner === "self");
+        book.nonce++;
+        this.notifyStreams();
+    }
+
+    private seedHistory(marketConfig: MockMarketConfig): void {
+        const count = this.mockConfig.walk?.historyBars ?? 0;
+        const volatility = (this.mockConfig.walk?.volatilityPercent ?? 0) / 100;
+        const start = Math.floor(this.clock() / MINUTE_MS) * MINUTE_MS - count * MINUTE_MS;
+        const bars: Bar[] = [];
+        let price = marketConfig.initialPrice;
+
+        for (let i = 0; i < count; i++) {
+            const open = price;
+            const close = open * Math.exp(volatility * this.gaussian());
+            const wick = Math.abs(close - open) * this.random();
+            bars.push({
+                timestamp: start + i * MINUTE_MS,
+                open,
+                high: Math.max(open, close) + wick,
+                low: Math.max(0, Math.min(open, close) - wick),
+                close,
+                volume: (this.mockConfig.liquidity?.quotePerLevel ?? 1) / close * (1 + this.random()),
+            });
+            price = close;
+        }
+
+        this.bars.set(marketConfig.symbol, bars);
+        this.fairPrices.set(marketConfig.symbol, price);
+    }
+
+    /**
+     * 1m bars extended up to the current minute (flat bars carry the last close)
+     */
+    private getBars(symbol: string): Bar[] {
+        const bars = this.bars.get(symbol);
+        const currentMinute = Math.floor(this.clock() / MINUTE_MS) * MINUTE_MS;
+        let last = bars[bars.length - 1];
+
+        if (!last) {
+            const fair = this.fairPrices.get(symbol);
+            last = { timestamp: currentMinute, open: fair, high: fair, low: fair, close: fair, volume: 0 };
+            bars.push(last);
+        }
+        while (last.timestamp < currentMinute) {
+            last = {
+                timestamp: last.timestamp + MINUTE_MS,
+                open: last.close,
+                high: last.close,
+                low: last.close,
+                close: last.close,
+                volume: 0,
+            };
+            bars.push(last);
+        }
+
+        return bars;
+    }
+
+    private recordTape(symbol: string, trade: MockTrade): void {
+        const tape = this.tape.get(symbol);
+        tape.push(trade);
+        this.notifyStreams();
+        if (tape.length > MAX_TAPE_LENGTH) {
+            tape.shift();
+        }
+
+        const bars = this.getBars(symbol);
+        const bar = bars[bars.length - 1];
+        bar.high = Math.max(bar.high, trade.price);
+        bar.low = Math.min(bar.low, trade.price);
+        bar.close = trade.price;
+        bar.volume += trade.amount;
+    }
+
+    // ------------------------------------------------------------------------
+    // Validation, balances & bookkeeping
+    // ------------------------------------------------------------------------
+
+    private validateOrder(market: MockMarket, type: string, amount: number, price?: number): void {
+        const limits = market.limits;
+
+        if (!(amount > 0)) {
+            throw new ccxt.InvalidOrder(`mock: amount must be positive, got ${amount}`);
+        }
+        if (!isOnStep(amount, this.amountStep(market))) {
+            throw new ccxt.InvalidOrder(
+                `mock: amount ${amount} does not match amount precision ${market.precision.amount}`
+            );
+        }
+        if (limits.amount.min !== undefined && amount < limits.amount.min) {
+            throw new ccxt.InvalidOrder(`mock: amount ${amount} below minimum ${limits.amount.min}`);
+        }
+        if (limits.amount.max !== undefined && amount > limits.amount.max) {
+            throw new ccxt.InvalidOrder(`mock: amount ${amount} above maximum ${limits.amount.max}`);
+        }
+
+        if (type !== "limit") return;
+
+        if (!(price > 0)) {
+            throw new ccxt.InvalidOrder(`mock: limit price must be positive, got ${price}`);
+        }
+        if (!isOnStep(price, this.priceStep(market))) {
+            throw new ccxt.InvalidOrder(
+                `mock: price ${price} does not match price precision ${market.precision.price}`
+            );
+        }
+        if (limits.price.min !== undefined && price < limits.price.min) {
+            throw new ccxt.InvalidOrder(`mock: price ${price} below minimum ${limits.price.min}`);
+        }
+        if (limits.price.max !== undefined && price > limits.price.max) {
+            throw new ccxt.InvalidOrder(`mock: price ${price} above maximum ${limits.price.max}`);
+        }
+        const cost = amount * price;
+        if (limits.cost.min !== undefined && cost < limits.cost.min) {
+            throw new ccxt.InvalidOrder(`mock: cost ${cost} below minimum ${limits.cost.min}`);
+        }
+        if (limits.cost.max !== undefined && cost > limits.cost.max) {
+            throw new ccxt.InvalidOrder(`mock: cost ${cost} above maximum ${limits.cost.max}`);
+        }
+    }
+
+    private checkMarketFunds(symbol: string, side: "buy" | "sell", amount: number, base: string, quote: string): void {
+        if (side === "sell") {
+            if (this.free(base) + EPSILON < amount) {
+                throw new ccxt.InsufficientFunds(`mock: insufficient ${base} - need ${amount}, have ${this.free(base)}`);
+            }
+            return;
+        }
+
+        // Estimate sweep cost against the current asks
+        let remaining = amount;
+        let cost = 0;
+        for (const entry of this.books.get(symbol).asks) {
+            const fill = Math.min(remaining, entry.remaining);
+            cost += fill * entry.price;
+            remaining -= fill;
+            if (remaining <= EPSILON) break;
+        }
+        if (this.free(quote) + EPSILON < cost) {
+            throw new ccxt.InsufficientFunds(`mock: insufficient ${quote} - need ${cost}, have ${this.free(quote)}`);
+        }
+    }
+
+    private reserve(currency: string, amount: number): void {
+        if (this.free(currency) + EPSILON < amount) {
+            throw new ccxt.InsufficientFunds(
+                `mock: insufficient ${currency} - need ${amount}, have ${this.free(currency)}`
+            );
+        }
+        this.reserved[currency] = (this.reserved[currency] || 0) + amount;
+    }
+
+    private release(currency: string, amount: number): void {
+        this.reserved[currency] = Math.max(0, (this.reserved[currency] || 0) - amount);
+        if (this.reserved[currency] < EPSILON) {
+            this.reserved[currency] = 0;
+        }
+    }
+
+    private free(currency: string): number {
+        return (this.totals[currency] || 0) - (this.reserved[currency] || 0);
+    }
+
+    private newOrder(
+        symbol: string,
+        type: "limit" | "market",
+        side: "buy" | "sell",
+        amount: number,
+        price: number | undefined,
+        timeInForce: string,
+        params: MockOrderParams
+    ): MockOrder {
+        const timestamp = this.clock();
+        const [base, quote] = symbol.split("/");
+        return {
+            id: String(++this.orderSeq),
+            clientOrderId: params.clientOrderId,
+            timestamp,
+            datetime: new Date(timestamp).toISOString(),
+            symbol,
+            type,
+            timeInForce: timeInForce as MockOrder["timeInForce"],
+            postOnly: timeInForce === "PO",
+            side,
+            price,
+            amount,
+            filled: 0,
+            remaining: amount,
+            cost: 0,
+            status: "open",
+            fee: { cost: 0, currency: side === "buy" ? base : quote, rate: 0 },
+            trades: [],
+            info: {},
+        };
+    }
+
+    private cloneOrder(order: MockOrder): MockOrder {
+        return {
+            ...order,
+            fee: { ...order.fee },
+            trades: order.trades.map((t) => ({ ...t })),
+        };
+    }
+
+    private buildMarket(config: MockMarketConfig): MockMarket {
+        const [base, quote] = config.symbol.split("/");
+        return {
+            id: config.symbol.replace("/", "_").toLowerCase(),
+            symbol: config.symbol,
+            base,
+            quote,
+            baseId: base.toLowerCase(),
+            quoteId: quote.toLowerCase(),
+            type: "spot",
+            spot: true,
+            active: true,
+            maker: config.maker ?? this.mockConfig.makerFee ?? 0.001,
+            taker: config.taker ?? this.mockConfig.takerFee ?? 0.001,
+            precision: {
+                amount: config.amountPrecision,
+                price: config.pricePrecision,
+            },
+            limits: {
+                amount: { min: config.minAmount, max: config.maxAmount },
+                price: { min: config.minPrice, max: config.maxPrice },
+                cost: { min: config.minCost, max: config.maxCost },
+            },
+            info: {},
+        };
+    }
+
+    private requireMarket(symbol: string): MockMarket {
+        const market = this.markets[symbol] as MockMarket;
+        if (!market) {
+            throw new ccxt.BadSymbol(`mock: market ${symbol} does not exist`);
+        }
+        return market;
+    }
+
+    private priceStep(market: MockMarket): number {
+        return this.precisionMode === ccxt.DECIMAL_PLACES
+            ? Math.pow(10, -market.precision.price)
+            : market.precision.price;
+    }
+
+    private amountStep(market: MockMarket): number {
+        return this.precisionMode === ccxt.DECIMAL_PLACES
+            ? Math.pow(10, -market.precision.amount)
+            : market.precision.amount;
+    }
+
+    private normalizeAmount(market: MockMarket, value: number): number {
+        if (!Number.isFinite(value)) return value;
+        return parseFloat(value.toFixed(decimalsOf(this.amountStep(market))));
+    }
+
+    private aggregateLevels(entries: BookEntry[], limit?: number): Array<[number, number]> {
+        const levels: Array<[number, number]> = [];
+        for (const entry of entries) {
+            const last = levels[levels.length - 1];
+            if (last && last[0] === entry.price) {
+                last[1] += entry.remaining;
+            } else {
+                if (limit !== undefined && levels.length >= limit) break;
+                levels.push([entry.price, entry.remaining]);
+            }
+        }
+        return levels;
+    }
+
+    private levelVolume(entries: BookEntry[]): number | undefined {
+        if (entries.length === 0) return undefined;
+        return entries.filter((e) => e.price === entries[0].price).reduce((sum, e) => sum + e.remaining, 0);
+    }
+
+    /**
+     * Standard normal sample from the seeded PRNG (Box-Muller)
+     */
+    private gaussian(): number {
+        const u = Math.max(this.random(), EPSILON);
+        const v = this.random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+}
+
+/**
+ * Create a mock exchange (defaults to MOCK_EXCHANGE_CONFIG or the built-in markets)
+ */
+export function createMockExchange(config: MockExchangeConfig = loadMockConfigFromEnv()): MockExchange {
+    return new MockExchange(config);
+}
+
+export default { MockExchange, createMockExchange, defaultMockConfig, loadMockConfigFromEnv };
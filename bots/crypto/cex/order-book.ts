@@ -0,0 +1,474 @@
+/**
+ * Order Book
+ * Local L2 book for one symbol, kept up to date from a snapshot plus deltas (or successive
+ * snapshots from a stream), with depth analytics and wall appearance/disappearance events.
+ */
+
+import * as ccxt from 'ccxt';
+import { EventEmitter } from 'events';
+import * as marketData from './market-data';
+import type { MarketStream } from './market-stream';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type BookSide = 'bid' | 'ask';
+
+export interface BookLevel {
+    price: number;
+    amount: number; // Base currency
+}
+
+/**
+ * Full book as returned by fetchOrderBook/watchOrderBook
+ */
+export interface BookSnapshot {
+    bids: Array<[number, number]>;
+    asks: Array<[number, number]>;
+    timestamp?: number;
+    nonce?: number;
+}
+
+/**
+ * Changed levels only: an amount of 0 removes the level.
+ * previousNonce, when the exchange provides it, must match the book's nonce (else a gap).
+ */
+export interface BookDelta {
+    bids?: Array<[number, number]>;
+    asks?: Array<[number, number]>;
+    timestamp?: number;
+    nonce?: number;
+    previousNonce?: number;
+}
+
+export interface Wall extends BookLevel {
+    side: BookSide;
+    distancePercent: number; // Distance from mid
+}
+
+export interface WallEvent {
+    type: 'appeared' | 'disappeared';
+    wall: Wall;
+    timestamp: number;
+}
+
+export interface FillEstimate {
+    vwap: number; // Average price of the filled part (0 if nothing fills)
+    filled: number; // Base amount the book can absorb, up to the requested size
+    cost: number; // Quote amount
+    worstPrice: number; // Last level touched
+    complete: boolean; // False if the book is too thin for the full size
+    slippagePercent: number; // vwap vs. the best price on that side
+}
+
+export interface OrderBookOptions {
+    wallMinAmount?: number; // Absolute wall size in base currency (overrides the multiple)
+    wallMedianMultiple?: number; // Otherwise a wall is this many times the median level (default: 5)
+    wallDepthLevels?: number; // Levels per side scanned for walls (default: 20)
+    wallMaxDistancePercent?: number; // Ignore walls further than this from mid (default: no limit)
+    maxBufferedDeltas?: number; // Deltas kept while waiting for the first snapshot (default: 1000)
+}
+
+export interface OrderBookEvents {
+    update: [book: OrderBook];
+    wall: [event: WallEvent];
+    gap: [expected: number | undefined, received: number]; // Deltas are ignored until the next snapshot
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const defaultOrderBookOptions = {
+    wallMedianMultiple: 5,
+    wallDepthLevels: 20,
+    maxBufferedDeltas: 1000,
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+const wallKey = (side: BookSide, price: number) => `${side}:${price}`;
+
+// ============================================================================
+// ORDER BOOK
+// ============================================================================
+
+export class OrderBook extends EventEmitter<OrderBookEvents> {
+    readonly symbol: string;
+    private options: OrderBookOptions & typeof defaultOrderBookOptions;
+    private bidLevels = new Map<number, number>();
+    private askLevels = new Map<number, number>();
+    private sortedBids?: BookLevel[];
+    private sortedAsks?: BookLevel[];
+    private pendingDeltas: BookDelta[] = [];
+    private currentWalls = new Map<string, Wall>();
+    private synced = false;
+    nonce?: number;
+    timestamp?: number;
+
+    constructor(symbol: string, options: OrderBookOptions = {}) {
+        super();
+        this.symbol = symbol;
+        this.options = { ...defaultOrderBookOptions };
+        for (const [key, value] of Object.entries(options)) {
+            if (value !== undefined) {
+                this.options[key as keyof OrderBookOptions] = value;
+            }
+        }
+    }
+
+    /**
+     * Build a book from a REST snapshot
+     */
+    static async fromExchange(
+        exchange: ccxt.Exchange,
+        symbol: string,
+        limit = 50,
+        options: OrderBookOptions = {}
+    ): Promise<OrderBook> {
+        const book = new OrderBook(symbol, options);
+        await book.refresh(exchange, limit);
+        return book;
+    }
+
+    /**
+     * True once a snapshot was applied and no gap was seen since
+     */
+    get isSynced(): boolean {
+        return this.synced;
+    }
+
+    // ------------------------------------------------------------------------
+    // Updates
+    // ------------------------------------------------------------------------
+
+    /**
+     * Replace the book, then replay buffered deltas newer than the snapshot
+     */
+    applySnapshot(snapshot: BookSnapshot): void {
+        this.bidLevels = new Map(snapshot.bids.filter(([, amount]) => amount > 0));
+        this.askLevels = new Map(snapshot.asks.filter(([, amount]) => amount > 0));
+        this.nonce = snapshot.nonce;
+        this.timestamp = snapshot.timestamp ?? Date.now();
+        this.synced = true;
+        this.invalidate();
+
+        const buffered = this.pendingDeltas;
+        this.pendingDeltas = [];
+        for (const delta of buffered) {
+            if (this.nonce !== undefined && delta.nonce !== undefined && delta.nonce <= this.nonce) continue;
+            this.mergeDelta(delta);
+        }
+
+        this.afterUpdate();
+    }
+
+    /**
+     * Apply changed levels. Returns false if the delta was buffered, stale or broke the sequence.
+     */
+    applyDelta(delta: BookDelta): boolean {
+        if (!this.synced) {
+            this.pendingDeltas.push(delta);
+            if (this.pendingDeltas.length > this.options.maxBufferedDeltas) {
+                this.pendingDeltas.shift();
+            }
+            return false;
+        }
+
+        if (this.nonce !== undefined && delta.nonce !== undefined && delta.nonce <= this.nonce) {
+            return false; // Already in the snapshot
+        }
+
+        if (delta.previousNonce !== undefined && delta.previousNonce !== this.nonce) {
+            this.synced = false;
+            this.emit('gap', this.nonce, delta.previousNonce);
+            return false;
+        }
+
+        this.mergeDelta(delta);
+        this.afterUpdate();
+        return true;
+    }
+
+    /**
+     * Resync from a REST snapshot
+     */
+    async refresh(exchange: ccxt.Exchange, limit = 50): Promise<void> {
+        const snapshot = await marketData.fetchOrderBook(exchange, this.symbol, limit);
+        this.applySnapshot(snapshot);
+    }
+
+    /**
+     * Keep the book in sync with a MarketStream's orderBook channel (ccxt.pro merges the deltas)
+     * Returns a function that stops following.
+     */
+    follow(stream: MarketStream): () => void {
+        const onBook = (book: BookSnapshot) => this.applySnapshot(book);
+        stream.on('orderBook', onBook);
+        return () => {
+            stream.off('orderBook', onBook);
+        };
+    }
+
+    // ------------------------------------------------------------------------
+    // Top of book
+    // ------------------------------------------------------------------------
+
+    get bids(): BookLevel[] {
+        if (!this.sortedBids) {
+            this.sortedBids = [...this.bidLevels].map(([price, amount]) => ({ price, amount }));
+            this.sortedBids.sort((a, b) => b.price - a.price);
+        }
+        return this.sortedBids;
+    }
+
+    get asks(): BookLevel[] {
+        if (!this.sortedAsks) {
+            this.sortedAsks = [...this.askLevels].map(([price, amount]) => ({ price, amount }));
+            this.sortedAsks.sort((a, b) => a.price - b.price);
+        }
+        return this.sortedAsks;
+    }
+
+    bestBid(): BookLevel | undefined {
+        return this.bids[0];
+    }
+
+    bestAsk(): BookLevel | undefined {
+        return this.asks[0];
+    }
+
+    mid(): number | undefined {
+        const bid = this.bestBid();
+        const ask = this.bestAsk();
+        return bid && ask ? (bid.price + ask.price) / 2 : undefined;
+    }
+
+    spreadPercent(): number | undefined {
+        const bid = this.bestBid();
+        const ask = this.bestAsk();
+        const mid = this.mid();
+        return bid && ask && mid ? ((ask.price - bid.price) / mid) * 100 : undefined;
+    }
+
+    /**
+     * Size-weighted mid: leans towards the side with less size at the touch
+     */
+    microprice(): number | undefined {
+        const bid = this.bestBid();
+        const ask = this.bestAsk();
+        if (!bid || !ask) return undefined;
+
+        const size = bid.amount + ask.amount;
+        if (size <= 0) return (bid.price + ask.price) / 2;
+        return (bid.price * ask.amount + ask.price * bid.amount) / size;
+    }
+
+    // ------------------------------------------------------------------------
+    // Depth analytics
+    // ------------------------------------------------------------------------
+
+    /**
+     * Base and quote volume resting within `percent` of mid on one side
+     */
+    depthWithin(side: BookSide, percent: number): { base: number; quote: number } {
+        const mid = this.mid();
+        if (!mid) return { base: 0, quote: 0 };
+
+        const limit = side === 'bid' ? mid * (1 - percent / 100) : mid * (1 + percent / 100);
+        let base = 0;
+        let quote = 0;
+        for (const level of this.levels(side)) {
+            if (side === 'bid' ? level.price < limit : level.price > limit) break;
+            base += level.amount;
+            quote += level.amount * level.price;
+        }
+        return { base, quote };
+    }
+
+    /**
+     * Base volume at `price` or better (bids at or above it, asks at or below it)
+     */
+    cumulativeVolumeAt(side: BookSide, price: number): number {
+        let volume = 0;
+        for (const level of this.levels(side)) {
+            if (side === 'bid' ? level.price < price : level.price > price) break;
+            volume += level.amount;
+        }
+        return volume;
+    }
+
+    /**
+     * (bid - ask) / (bid + ask) volume over the top `levels` levels, or within `percent` of mid.
+     * +1 = only bids, -1 = only asks.
+     */
+    imbalance(range: { levels?: number; percent?: number } = { levels: 5 }): number {
+        let bidVolume: number;
+        let askVolume: number;
+
+        if (range.percent !== undefined) {
+            bidVolume = this.depthWithin('bid', range.percent).base;
+            askVolume = this.depthWithin('ask', range.percent).base;
+        } else {
+            const levels = range.levels ?? 5;
+            const sum = (side: BookLevel[]) => side.slice(0, levels).reduce((total, l) => total + l.amount, 0);
+            bidVolume = sum(this.bids);
+            askVolume = sum(this.asks);
+        }
+
+        const total = bidVolume + askVolume;
+        return total > 0 ? (bidVolume - askVolume) / total : 0;
+    }
+
+    /**
+     * Walk the book to estimate the average price of a market order of `amount` (base)
+     */
+    vwapToFill(side: 'buy' | 'sell', amount: number): FillEstimate {
+        const levels = side === 'buy' ? this.asks : this.bids;
+        let filled = 0;
+        let cost = 0;
+        let worstPrice = 0;
+
+        for (const level of levels) {
+            if (filled >= amount) break;
+            const take = Math.min(level.amount, amount - filled);
+            filled += take;
+            cost += take * level.price;
+            worstPrice = level.price;
+        }
+
+        const vwap = filled > 0 ? cost / filled : 0;
+        const best = levels[0]?.price;
+        const slippagePercent = best && vwap ? (Math.abs(vwap - best) / best) * 100 : 0;
+
+        return { vwap, filled, cost, worstPrice, complete: filled >= amount, slippagePercent };
+    }
+
+    /**
+     * Average price of the first `notional` (quote) resting on a side, skipping levels worth
+     * less than `dustNotional` so a single dust order cannot move it. Undefined if the side is empty.
+     */
+    depthWeightedPrice(side: BookSide, notional: number, dustNotional = 0): number | undefined {
+        let base = 0;
+        let quote = 0;
+
+        for (const level of this.levels(side)) {
+            const levelNotional = level.amount * level.price;
+            if (levelNotional < dustNotional) continue;
+
+            const take = Math.min(levelNotional, notional - quote);
+            base += take / level.price;
+            quote += take;
+            if (quote >= notional) break;
+        }
+
+        return base > 0 ? quote / base : undefined;
+    }
+
+    // ------------------------------------------------------------------------
+    // Walls
+    // ------------------------------------------------------------------------
+
+    /**
+     * Current walls, nearest to mid first
+     */
+    walls(side?: BookSide): Wall[] {
+        return [...this.currentWalls.values()]
+            .filter((wall) => !side || wall.side === side)
+            .sort((a, b) => a.distancePercent - b.distancePercent);
+    }
+
+    toSnapshot(depth?: number): BookSnapshot {
+        const toPairs = (levels: BookLevel[]) =>
+            levels.slice(0, depth).map((l) => [l.price, l.amount] as [number, number]);
+        return { bids: toPairs(this.bids), asks: toPairs(this.asks), timestamp: this.timestamp, nonce: this.nonce };
+    }
+
+    // ------------------------------------------------------------------------
+    // Internals
+    // ------------------------------------------------------------------------
+
+    private levels(side: BookSide): BookLevel[] {
+        return side === 'bid' ? this.bids : this.asks;
+    }
+
+    private invalidate(): void {
+        this.sortedBids = undefined;
+        this.sortedAsks = undefined;
+    }
+
+    private mergeDelta(delta: BookDelta): void {
+        for (const [price, amount] of delta.bids || []) {
+            if (amount > 0) this.bidLevels.set(price, amount);
+            else this.bidLevels.delete(price);
+        }
+        for (const [price, amount] of delta.asks || []) {
+            if (amount > 0) this.askLevels.set(price, amount);
+            else this.askLevels.delete(price);
+        }
+        if (delta.nonce !== undefined) this.nonce = delta.nonce;
+        this.timestamp = delta.timestamp ?? Date.now();
+        this.invalidate();
+    }
+
+    private afterUpdate(): void {
+        this.detectWalls();
+        this.emit('update', this);
+    }
+
+    private detectWalls(): void {
+        const mid = this.mid();
+        if (!mid) return;
+
+        const next = new Map<string, Wall>();
+        for (const side of ['bid', 'ask'] as BookSide[]) {
+            const levels = this.levels(side).slice(0, this.options.wallDepthLevels);
+            const threshold =
+                this.options.wallMinAmount ?? median(levels.map((l) => l.amount)) * this.options.wallMedianMultiple;
+            if (threshold <= 0) continue;
+
+            for (const level of levels) {
+                if (level.amount < threshold) continue;
+
+                const distancePercent = (Math.abs(level.price - mid) / mid) * 100;
+                if (
+                    this.options.wallMaxDistancePercent !== undefined &&
+                    distancePercent > this.options.wallMaxDistancePercent
+                ) {
+                    continue;
+                }
+                next.set(wallKey(side, level.price), { side, ...level, distancePercent });
+            }
+        }
+
+        const timestamp = this.timestamp ?? Date.now();
+        for (const [key, wall] of this.currentWalls) {
+            if (!next.has(key)) this.emit('wall', { type: 'disappeared', wall, timestamp });
+        }
+        for (const [key, wall] of next) {
+            if (!this.currentWalls.has(key)) this.emit('wall', { type: 'appeared', wall, timestamp });
+        }
+        this.currentWalls = next;
+    }
+}
+
+/**
+ * One-line description of a wall event for logs
+ */
+export function formatWallEvent(event: WallEvent): string {
+    const { wall } = event;
+    const icon = event.type === 'appeared' ? '🧱' : '💨';
+    return `${icon} ${wall.side.toUpperCase()} wall ${event.type}: ${wall.amount.toFixed(4)} @ ${wall.price.toFixed(8)} (${wall.distancePercent.toFixed(2)}% from mid)`;
+}
+
+export default { OrderBook, formatWallEvent };
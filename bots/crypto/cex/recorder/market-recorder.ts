@@ -0,0 +1,403 @@
+/**
+ * Market Data Recorder
+ * Snapshots tickers, L2 order books and trades for a set of exchange/symbol targets at a fixed
+ * cadence and appends them to compressed, time-partitioned files (see recording-store.ts).
+ * Fetch errors, stalled cycles and trade pages that overflow are written as gap markers
+ * so offline consumers know where the data is incomplete.
+ */
+
+import * as ccxt from "ccxt";
+import chalk from "chalk";
+import { initExchange, type ExchangeName } from "../exchange";
+import * as marketData from "../market-data";
+import {
+    RecordingWriter,
+    type GapRecord,
+    type MarketRecord,
+    type RecordChannel,
+} from "./recording-store";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface RecorderTarget {
+    exchange: ExchangeName;
+    symbol: string;
+}
+
+export interface RecorderConfig {
+    targets: RecorderTarget[];
+    channels: RecordChannel[];
+    intervalMs: number; // Snapshot cadence
+    bookDepth: number;
+    tradeLimit: number; // Page size for fetchTrades
+    outputDir: string;
+    flushIntervalMs: number;
+    durationSeconds?: number; // Stop automatically after this long (0/undefined = run until stopped)
+}
+
+export interface RecorderStats {
+    cycles: number;
+    records: number;
+    gaps: number;
+    errors: number;
+}
+
+interface TradeCursor {
+    lastTimestamp?: number;
+    seenIds: Set<string>; // Trade ids already recorded at lastTimestamp
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const defaultRecorderConfig: RecorderConfig = {
+    targets: [{ exchange: "xt", symbol: "ORBD/USDT" }],
+    channels: ["ticker", "book", "trade"],
+    intervalMs: 1000,
+    bookDepth: 20,
+    tradeLimit: 100,
+    outputDir: "./recordings",
+    flushIntervalMs: 5000,
+};
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+export class MarketRecorder {
+    private config: RecorderConfig;
+    private writer: RecordingWriter;
+    private exchanges = new Map<string, ccxt.Exchange>();
+    private tradeCursors = new Map<string, TradeCursor>();
+    private cycleTimer?: NodeJS.Timeout;
+    private flushTimer?: NodeJS.Timeout;
+    private startedAt = 0;
+    private lastCycleAt?: number;
+    private running = false;
+    private stats: RecorderStats = { cycles: 0, records: 0, gaps: 0, errors: 0 };
+
+    constructor(config: RecorderConfig, exchanges?: Record<string, ccxt.Exchange>) {
+        this.config = config;
+        this.writer = new RecordingWriter(config.outputDir);
+        for (const [name, exchange] of Object.entries(exchanges || {})) {
+            this.exchanges.set(name, exchange);
+        }
+    }
+
+    /**
+     * Start recording. Writes a "start" gap marker per target since nothing
+     * before this point is known to be continuous with what follows.
+     */
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+
+        const now = Date.now();
+        this.startedAt = now;
+        for (const target of this.config.targets) {
+            this.writeGap(target, "all", "start", now, { to: now });
+        }
+
+        this.flushTimer = setInterval(() => this.flush(), this.config.flushIntervalMs);
+        void this.runCycle();
+    }
+
+    /**
+     * Stop recording, write "stop" markers and flush everything to disk
+     */
+    async stop(): Promise<RecorderStats> {
+        if (!this.running) return this.getStats();
+        this.running = false;
+
+        if (this.cycleTimer) clearTimeout(this.cycleTimer);
+        if (this.flushTimer) clearInterval(this.flushTimer);
+
+        const now = Date.now();
+        for (const target of this.config.targets) {
+            this.writeGap(target, "all", "stop", now, { from: now });
+        }
+        this.flush();
+
+        return this.getStats();
+    }
+
+    getStats(): RecorderStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Snapshot every target once, then schedule the next cycle on the fixed cadence
+     */
+    private async runCycle(): Promise<void> {
+        if (!this.running) return;
+
+        const startedAt = Date.now();
+
+        // A cycle that starts more than two intervals late leaves a hole in every channel
+        if (this.lastCycleAt !== undefined && startedAt - this.lastCycleAt > this.config.intervalMs * 2) {
+            for (const target of this.config.targets) {
+                this.writeGap(target, "all", "stall", startedAt, { from: this.lastCycleAt, to: startedAt });
+            }
+        }
+        this.lastCycleAt = startedAt;
+
+        await Promise.all(this.config.targets.map((target) => this.recordTarget(target)));
+        this.stats.cycles++;
+
+        if (this.config.durationSeconds && startedAt - this.startedAt >= this.config.durationSeconds * 1000) {
+            const stats = await this.stop();
+            console.log(chalk.green(`✅ Recording finished: ${stats.records} records, ${stats.gaps} gap markers, ${stats.cycles} cycles`));
+            return;
+        }
+
+        if (this.running) {
+            const delay = Math.max(0, startedAt + this.config.intervalMs - Date.now());
+            this.cycleTimer = setTimeout(() => void this.runCycle(), delay);
+        }
+    }
+
+    private async recordTarget(target: RecorderTarget): Promise<void> {
+        const exchange = this.getExchange(target.exchange);
+
+        await Promise.all(
+            this.config.channels.map(async (channel) => {
+                try {
+                    if (channel === "ticker") {
+                        await this.recordTicker(exchange, target);
+                    } else if (channel === "book") {
+                        await this.recordBook(exchange, target);
+                    } else {
+                        await this.recordTrades(exchange, target);
+                    }
+                } catch (error) {
+                    this.stats.errors++;
+                    const now = Date.now();
+                    this.writeGap(target, channel, "error", now, {
+                        from: now - this.config.intervalMs,
+                        to: now,
+                        error: error instanceof Error ? `${error.constructor.name}: ${error.message}` : String(error),
+                    });
+                }
+            })
+        );
+    }
+
+    private async recordTicker(exchange: ccxt.Exchange, target: RecorderTarget): Promise<void> {
+        const ticker = await marketData.fetchTicker(exchange, target.symbol);
+        const receivedAt = Date.now();
+
+        this.write({
+            type: "ticker",
+            exchange: target.exchange,
+            symbol: target.symbol,
+            timestamp: ticker.timestamp || receivedAt,
+            receivedAt,
+            bid: ticker.bid,
+            ask: ticker.ask,
+            last: ticker.last,
+            bidVolume: ticker.bidVolume,
+            askVolume: ticker.askVolume,
+            baseVolume: ticker.baseVolume,
+            quoteVolume: ticker.quoteVolume,
+        });
+    }
+
+    private async recordBook(exchange: ccxt.Exchange, target: RecorderTarget): Promise<void> {
+        const book = await marketData.fetchOrderBook(exchange, target.symbol, this.config.bookDepth);
+        const receivedAt = Date.now();
+
+        this.write({
+            type: "book",
+            exchange: target.exchange,
+            symbol: target.symbol,
+            timestamp: book.timestamp || receivedAt,
+            receivedAt,
+            bids: book.bids.slice(0, this.config.bookDepth).map(([p, a]: number[]) => [p, a]),
+            asks: book.asks.slice(0, this.config.bookDepth).map(([p, a]: number[]) => [p, a]),
+            nonce: book.nonce,
+        });
+    }
+
+    /**
+     * Record trades newer than the cursor. If a full page comes back and its oldest trade is
+     * already past the cursor, trades in between were missed - record an overflow gap.
+     */
+    private async recordTrades(exchange: ccxt.Exchange, target: RecorderTarget): Promise<void> {
+        const key = `${target.exchange}:${target.symbol}`;
+        const cursor = this.tradeCursors.get(key) || { seenIds: new Set<string>() };
+        const trades = await marketData.fetchTrades(
+            exchange,
+            target.symbol,
+            cursor.lastTimestamp,
+            this.config.tradeLimit
+        );
+        const receivedAt = Date.now();
+
+        const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+        if (
+            cursor.lastTimestamp !== undefined &&
+            sorted.length >= this.config.tradeLimit &&
+            sorted[0].timestamp > cursor.lastTimestamp
+        ) {
+            this.writeGap(target, "trade", "overflow", receivedAt, {
+                from: cursor.lastTimestamp,
+                to: sorted[0].timestamp,
+            });
+        }
+
+        for (const trade of sorted) {
+            const id = trade.id !== undefined ? String(trade.id) : `${trade.timestamp}:${trade.price}:${trade.amount}`;
+            if (cursor.lastTimestamp !== undefined) {
+                if (trade.timestamp < cursor.lastTimestamp) continue;
+                if (trade.timestamp === cursor.lastTimestamp && cursor.seenIds.has(id)) continue;
+            }
+
+            this.write({
+                type: "trade",
+                exchange: target.exchange,
+                symbol: target.symbol,
+                timestamp: trade.timestamp || receivedAt,
+                receivedAt,
+                id,
+                side: trade.side === "buy" || trade.side === "sell" ? trade.side : undefined,
+                price: trade.price,
+                amount: trade.amount,
+            });
+
+            if (trade.timestamp !== cursor.lastTimestamp) {
+                cursor.lastTimestamp = trade.timestamp;
+                cursor.seenIds = new Set<string>();
+            }
+            cursor.seenIds.add(id);
+        }
+
+        this.tradeCursors.set(key, cursor);
+    }
+
+    private writeGap(
+        target: RecorderTarget,
+        channel: GapRecord["channel"],
+        reason: GapRecord["reason"],
+        at: number,
+        details: Pick<GapRecord, "from" | "to" | "error">
+    ): void {
+        this.stats.gaps++;
+        this.write({
+            type: "gap",
+            exchange: target.exchange,
+            symbol: target.symbol,
+            channel,
+            reason,
+            timestamp: at,
+            receivedAt: at,
+            ...details,
+        });
+
+        if (reason === "error" || reason === "stall" || reason === "overflow") {
+            console.log(
+                chalk.yellow(
+                    `⚠️  Gap [${target.exchange} ${target.symbol} ${channel}] ${reason}${details.error ? `: ${details.error}` : ""}`
+                )
+            );
+        }
+    }
+
+    private write(record: MarketRecord): void {
+        this.writer.write(record);
+        this.stats.records++;
+    }
+
+    private flush(): void {
+        try {
+            this.writer.flush();
+        } catch (error) {
+            console.error(chalk.red(`❌ Failed to flush recordings: ${error instanceof Error ? error.message : error}`));
+        }
+    }
+
+    private getExchange(name: ExchangeName): ccxt.Exchange {
+        let exchange = this.exchanges.get(name);
+        if (!exchange) {
+            exchange = initExchange(name);
+            this.exchanges.set(name, exchange);
+        }
+        return exchange;
+    }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Parse RECORD_TARGETS ("xt:ORBD/USDT,binance:BTC/USDT") or fall back to EXCHANGE + SYMBOLS
+ */
+function parseTargets(): RecorderTarget[] {
+    if (process.env.RECORD_TARGETS) {
+        return process.env.RECORD_TARGETS.split(",").map((entry) => {
+            const separator = entry.indexOf(":");
+            if (separator < 0) {
+                throw new Error(`Invalid RECORD_TARGETS entry "${entry}" (expected exchange:SYMBOL)`);
+            }
+            return {
+                exchange: entry.slice(0, separator).trim() as ExchangeName,
+                symbol: entry.slice(separator + 1).trim(),
+            };
+        });
+    }
+
+    const exchange = (process.env.EXCHANGE as ExchangeName) || defaultRecorderConfig.targets[0].exchange;
+    const symbols = (process.env.SYMBOLS || process.env.SYMBOL || defaultRecorderConfig.targets[0].symbol).split(",");
+    return symbols.map((symbol) => ({ exchange, symbol: symbol.trim() }));
+}
+
+/**
+ * Run the recorder from environment variables until SIGINT/SIGTERM or RECORD_DURATION_SECONDS
+ */
+export async function runRecorder(): Promise<MarketRecorder> {
+    const config: RecorderConfig = {
+        targets: parseTargets(),
+        channels: (process.env.RECORD_CHANNELS
+            ? process.env.RECORD_CHANNELS.split(",").map((c) => c.trim())
+            : defaultRecorderConfig.channels) as RecordChannel[],
+        intervalMs: parseInt(process.env.RECORD_INTERVAL_MS || String(defaultRecorderConfig.intervalMs)),
+        bookDepth: parseInt(process.env.RECORD_BOOK_DEPTH || String(defaultRecorderConfig.bookDepth)),
+        tradeLimit: parseInt(process.env.RECORD_TRADE_LIMIT || String(defaultRecorderConfig.tradeLimit)),
+        outputDir: process.env.RECORD_DIR || defaultRecorderConfig.outputDir,
+        flushIntervalMs: parseInt(process.env.RECORD_FLUSH_MS || String(defaultRecorderConfig.flushIntervalMs)),
+        durationSeconds: parseFloat(process.env.RECORD_DURATION_SECONDS || "0"),
+    };
+
+    console.log(chalk.cyan(`\n🎙️  Recording ${config.channels.join(", ")} every ${config.intervalMs}ms → ${config.outputDir}`));
+    for (const target of config.targets) {
+        console.log(chalk.white(`   ${target.exchange.toUpperCase()} ${target.symbol}`));
+    }
+
+    const recorder = new MarketRecorder(config);
+    recorder.start();
+
+    const shutdown = async (signal: string) => {
+        console.log(chalk.yellow(`\n🛑 Received ${signal} - flushing recordings...`));
+        const stats = await recorder.stop();
+        console.log(chalk.green(`✅ Recorder stopped: ${stats.records} records, ${stats.gaps} gap markers, ${stats.cycles} cycles\n`));
+        process.exit(0);
+    };
+
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+    return recorder;
+}
+
+// Run if executed directly
+if (require.main === module) {
+    runRecorder().catch((error) => {
+        console.error(chalk.red(`❌ Recorder failed: ${error.message}`));
+        process.exit(1);
+    });
+}
+
+export default { MarketRecorder, runRecorder, defaultRecorderConfig };
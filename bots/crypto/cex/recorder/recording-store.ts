@@ -0,0 +1,254 @@
+/**
+ * Recording Store
+ * Append-only, time-partitioned storage for recorded market data.
+ * Layout: <dir>/<exchange>/<symbol>/<YYYY-MM-DD>/<HH>.ndjson.gz (UTC, by receive time).
+ * Every flush appends a complete gzip member, so a crash loses at most the unflushed buffer
+ * and files can be read while the recorder is still writing.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import zlib from "zlib";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type RecordChannel = "ticker" | "book" | "trade";
+
+interface RecordBase {
+    exchange: string;
+    symbol: string;
+    timestamp: number; // Exchange timestamp (falls back to receive time)
+    receivedAt: number; // Recorder clock - used for partitioning and range queries
+}
+
+export interface TickerRecord extends RecordBase {
+    type: "ticker";
+    bid?: number;
+    ask?: number;
+    last?: number;
+    bidVolume?: number;
+    askVolume?: number;
+    baseVolume?: number;
+    quoteVolume?: number;
+}
+
+export interface BookRecord extends RecordBase {
+    type: "book";
+    bids: Array<[number, number]>; // [price, amount]
+    asks: Array<[number, number]>;
+    nonce?: number;
+}
+
+export interface TradeRecord extends RecordBase {
+    type: "trade";
+    id?: string;
+    side?: "buy" | "sell"; // Taker side when the exchange reports it
+    price: number;
+    amount: number;
+}
+
+export interface GapRecord extends RecordBase {
+    type: "gap";
+    channel: RecordChannel | "all";
+    reason: "start" | "stop" | "error" | "stall" | "overflow" | "truncated";
+    from?: number; // Last time data is known to be complete
+    to?: number; // First time data is known to be complete again
+    error?: string;
+}
+
+export type MarketRecord = TickerRecord | BookRecord | TradeRecord | GapRecord;
+
+export interface ReadRecordsOptions {
+    dir: string;
+    exchange: string;
+    symbol: string;
+    from?: number; // Inclusive, receive time
+    to?: number; // Inclusive, receive time
+    types?: Array<MarketRecord["type"]>;
+}
+
+// ============================================================================
+// PARTITIONING
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Directory-safe symbol name ("BTC/USDT:USDT" -> "BTC-USDT-USDT")
+ */
+export function symbolKey(symbol: string): string {
+    return symbol.replace(/[/:]/g, "-");
+}
+
+/**
+ * Partition file for a record received at `timestamp`
+ */
+export function partitionPath(dir: string, exchange: string, symbol: string, timestamp: number): string {
+    const iso = new Date(timestamp).toISOString();
+    return path.join(dir, exchange, symbolKey(symbol), iso.slice(0, 10), `${iso.slice(11, 13)}.ndjson.gz`);
+}
+
+/**
+ * Partition files for a symbol overlapping [from, to], oldest first
+ */
+export function listPartitions(
+    dir: string,
+    exchange: string,
+    symbol: string,
+    from?: number,
+    to?: number
+): string[] {
+    const symbolDir = path.join(dir, exchange, symbolKey(symbol));
+    if (!existsSync(symbolDir)) return [];
+
+    const fromHour = from !== undefined ? Math.floor(from / HOUR_MS) * HOUR_MS : -Infinity;
+    const toHour = to !== undefined ? to : Infinity;
+    const files: Array<{ file: string; hour: number }> = [];
+
+    for (const day of readdirSync(symbolDir).sort()) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) continue;
+
+        for (const name of readdirSync(path.join(symbolDir, day)).sort()) {
+            const match = name.match(/^(\d{2})\.ndjson\.gz$/);
+            if (!match) continue;
+
+            const hour = Date.parse(`${day}T${match[1]}:00:00.000Z`);
+            if (hour >= fromHour && hour <= toHour) {
+                files.push({ file: path.join(symbolDir, day, name), hour });
+            }
+        }
+    }
+
+    return files.sort((a, b) => a.hour - b.hour).map((f) => f.file);
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * Buffers records and appends them as gzip members to their partition file on flush
+ */
+export class RecordingWriter {
+    private dir: string;
+    private buffers = new Map<string, string[]>();
+    private recordCount = 0;
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    write(record: MarketRecord): void {
+        const file = partitionPath(this.dir, record.exchange, record.symbol, record.receivedAt);
+        const buffer = this.buffers.get(file) || [];
+        buffer.push(JSON.stringify(record));
+        this.buffers.set(file, buffer);
+        this.recordCount++;
+    }
+
+    /**
+     * Append all buffered records to disk. Returns the number of records written.
+     */
+    flush(): number {
+        let written = 0;
+
+        for (const [file, lines] of this.buffers) {
+            mkdirSync(path.dirname(file), { recursive: true });
+            appendFileSync(file, zlib.gzipSync(lines.join("\n") + "\n"));
+            written += lines.length;
+        }
+
+        this.buffers.clear();
+        return written;
+    }
+
+    get totalRecords(): number {
+        return this.recordCount;
+    }
+}
+
+// ============================================================================
+// READER
+// ============================================================================
+
+/**
+ * Decompress one partition. A truncated trailing member (recorder killed mid-write)
+ * is read up to the last complete line and reported with a "truncated" gap marker.
+ */
+function readPartition(file: string): { lines: string[]; truncated: boolean } {
+    const compressed = readFileSync(file);
+    let text: string;
+    let truncated = false;
+
+    try {
+        text = zlib.gunzipSync(compressed).toString("utf8");
+    } catch {
+        text = zlib.gunzipSync(compressed, { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString("utf8");
+        truncated = true;
+    }
+
+    const lines = text.split("\n");
+    const complete = text.endsWith("\n") ? lines : lines.slice(0, -1); // Drop a partial last line
+    return { lines: complete.filter((line) => line.trim() !== ""), truncated };
+}
+
+/**
+ * Iterate recorded records for one exchange/symbol in partition order
+ */
+export function* readRecords(options: ReadRecordsOptions): Generator<MarketRecord> {
+    const types = options.types ? new Set(options.types) : undefined;
+    const inRange = (record: MarketRecord) =>
+        (options.from === undefined || record.receivedAt >= options.from) &&
+        (options.to === undefined || record.receivedAt <= options.to);
+
+    for (const file of listPartitions(options.dir, options.exchange, options.symbol, options.from, options.to)) {
+        const { lines, truncated } = readPartition(file);
+        let last: MarketRecord | undefined;
+
+        for (const line of lines) {
+            let record: MarketRecord;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                continue; // Corrupt line inside a truncated member
+            }
+            last = record;
+            if (inRange(record) && (!types || types.has(record.type))) {
+                yield record;
+            }
+        }
+
+        if (truncated && (!types || types.has("gap"))) {
+            const at = last?.receivedAt ?? 0;
+            yield {
+                type: "gap",
+                exchange: options.exchange,
+                symbol: options.symbol,
+                channel: "all",
+                reason: "truncated",
+                timestamp: at,
+                receivedAt: at,
+                from: at,
+                error: `Truncated partition ${file}`,
+            };
+        }
+    }
+}
+
+/**
+ * Load recorded records into memory, sorted by exchange timestamp
+ */
+export function loadRecords(options: ReadRecordsOptions): MarketRecord[] {
+    return [...readRecords(options)].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export default {
+    symbolKey,
+    partitionPath,
+    listPartitions,
+    RecordingWriter,
+    readRecords,
+    loadRecords,
+};
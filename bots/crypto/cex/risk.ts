@@ -0,0 +1,629 @@
+/**
+ * Risk Manager
+ * Portfolio-level limits checked before every order the trading wrappers send - it is installed
+ * as the exchange's order gate, so every bot using trading.create* goes through it. An order
+ * that would breach a limit is rejected with a RiskRejected TradingError. A daily loss beyond the
+ * limit trips the kill switch: every order placed by the bots on this exchange is cancelled and
+ * new orders are refused until resume(). The halt survives restarts, and so do the bots and symbols
+ * it cancels. Orders that close exposure (protective and unwind orders selling what the account
+ * holds, reduceOnly on derivatives) always pass, so a halt never leaves a position without its stop
+ * or a hedge half unwound.
+ */
+
+import * as ccxt from 'ccxt';
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import * as account from './account';
+import { TradingError } from './errors';
+import * as marketData from './market-data';
+import * as trading from './trading';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type RiskLimitName =
+    | 'orderNotional'
+    | 'symbolNotional'
+    | 'accountNotional'
+    | 'openOrders'
+    | 'dailyLoss'
+    | 'position'
+    | 'priceDeviation'
+    | 'halted';
+
+/**
+ * Notionals and losses are in RiskManagerOptions.quoteCurrency. Unset limits are not checked.
+ */
+export interface RiskLimits {
+    maxOrderNotional?: number; // Value of a single order
+    maxSymbolNotional?: number; // Open orders on one symbol, the new order included
+    maxAccountNotional?: number; // Open orders on every symbol traded, the new order included
+    maxOpenOrders?: number; // Open orders on every symbol traded
+    maxDailyLoss?: number; // Drop in equity since the start of the UTC day
+    maxPosition?: Record<string, number>; // Max holding per asset in base units, resting buys included (checked on buys)
+    maxPriceDeviationPercent?: number; // Limit price vs the reference price (fat-finger guard)
+}
+
+export interface RiskManagerOptions {
+    quoteCurrency?: string; // Default: USDT
+    killOnBreach?: boolean; // Trip the kill switch on any breach, not only the daily loss
+    referencePrice?: (symbol: string) => Promise<number | undefined> | number | undefined; // Default: ticker mid
+    cacheMs?: number; // Reuse tickers, balances and open orders this long (default: 2000)
+    equityCheckMs?: number; // Daily loss check interval (default: 30000)
+    stateDir?: string; // Default: BOT_STATE_DIR or ./state
+}
+
+/**
+ * Persisted per exchange as <stateDir>/risk-<exchange id>.json
+ */
+export interface RiskState {
+    day: string; // UTC date startEquity belongs to
+    startEquity?: number;
+    assets: string[]; // Assets valued in startEquity
+    halted: boolean;
+    haltReason?: string;
+    haltedAt?: number;
+    bots?: string[]; // Bot ids and symbols orders were placed with - what the kill switch cancels,
+    symbols?: string[]; // also after a restart
+}
+
+export interface RiskEvents {
+    rejected: [request: trading.OrderRequest, limit: RiskLimitName, reason: string];
+    killed: [reason: string, result: trading.CancelOrdersResult];
+    resumed: [];
+}
+
+type Violation = [RiskLimitName, string];
+
+interface OpenOrderExposure {
+    side: string;
+    price: number;
+    remaining: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const defaultRiskOptions = {
+    quoteCurrency: 'USDT',
+    cacheMs: 2000,
+    equityCheckMs: 30000,
+    stateDir: './state',
+};
+
+function envNumber(name: string): number | undefined {
+    const value = process.env[name];
+    return value ? parseFloat(value) : undefined;
+}
+
+/**
+ * RISK_MAX_ORDER_NOTIONAL, RISK_MAX_SYMBOL_NOTIONAL, RISK_MAX_ACCOUNT_NOTIONAL, RISK_MAX_OPEN_ORDERS,
+ * RISK_MAX_DAILY_LOSS, RISK_MAX_PRICE_DEVIATION_PERCENT and RISK_MAX_POSITION (e.g. BTC:0.5,ETH:10)
+ */
+export function riskLimitsFromEnv(): RiskLimits {
+    const maxPosition = process.env.RISK_MAX_POSITION
+        ? Object.fromEntries(
+              process.env.RISK_MAX_POSITION.split(',')
+                  .map((entry) => entry.split(':').map((part) => part.trim()))
+                  .filter(([asset, amount]) => asset && amount)
+                  .map(([asset, amount]) => [asset.toUpperCase(), parseFloat(amount)])
+          )
+        : undefined;
+
+    return {
+        maxOrderNotional: envNumber('RISK_MAX_ORDER_NOTIONAL'),
+        maxSymbolNotional: envNumber('RISK_MAX_SYMBOL_NOTIONAL'),
+        maxAccountNotional: envNumber('RISK_MAX_ACCOUNT_NOTIONAL'),
+        maxOpenOrders: envNumber('RISK_MAX_OPEN_ORDERS'),
+        maxDailyLoss: envNumber('RISK_MAX_DAILY_LOSS'),
+        maxPosition,
+        maxPriceDeviationPercent: envNumber('RISK_MAX_PRICE_DEVIATION_PERCENT'),
+    };
+}
+
+/**
+ * RISK_QUOTE_CURRENCY, RISK_KILL_ON_BREACH, RISK_EQUITY_CHECK_SECONDS
+ */
+export function riskOptionsFromEnv(): RiskManagerOptions {
+    const equityCheckSeconds = envNumber('RISK_EQUITY_CHECK_SECONDS');
+    return {
+        quoteCurrency: process.env.RISK_QUOTE_CURRENCY || defaultRiskOptions.quoteCurrency,
+        killOnBreach: process.env.RISK_KILL_ON_BREACH === 'true',
+        equityCheckMs: equityCheckSeconds !== undefined ? equityCheckSeconds * 1000 : undefined,
+    };
+}
+
+export function hasRiskLimits(limits: RiskLimits): boolean {
+    return Object.values(limits).some((value) => value !== undefined);
+}
+
+/**
+ * e.g. "order ≤ 500 USDT, open orders ≤ 20, daily loss ≤ 100 USDT"
+ */
+export function formatRiskLimits(limits: RiskLimits, quoteCurrency = defaultRiskOptions.quoteCurrency): string {
+    const parts = [
+        limits.maxOrderNotional !== undefined ? `order ≤ ${limits.maxOrderNotional} ${quoteCurrency}` : '',
+        limits.maxSymbolNotional !== undefined ? `per symbol ≤ ${limits.maxSymbolNotional} ${quoteCurrency}` : '',
+        limits.maxAccountNotional !== undefined ? `account ≤ ${limits.maxAccountNotional} ${quoteCurrency}` : '',
+        limits.maxOpenOrders !== undefined ? `open orders ≤ ${limits.maxOpenOrders}` : '',
+        limits.maxDailyLoss !== undefined ? `daily loss ≤ ${limits.maxDailyLoss} ${quoteCurrency}` : '',
+        ...Object.entries(limits.maxPosition || {}).map(([asset, amount]) => `${asset} ≤ ${amount}`),
+        limits.maxPriceDeviationPercent !== undefined ? `price within ${limits.maxPriceDeviationPercent}% of reference` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+const utcDay = (timestamp = Date.now()) => new Date(timestamp).toISOString().slice(0, 10);
+
+const emptyCancelResult = (): trading.CancelOrdersResult => ({ cancelled: [], alreadyGone: [], failed: [] });
+
+// ============================================================================
+// RISK MANAGER
+// ============================================================================
+
+export class RiskManager extends EventEmitter<RiskEvents> implements trading.OrderGate {
+    readonly exchange: ccxt.Exchange;
+    readonly limits: RiskLimits;
+    private options: RiskManagerOptions;
+    private state: RiskState;
+    private symbols = new Set<string>(); // Symbols orders were placed on
+    private bots = new Set<string>(); // Bot ids of the tags seen
+    private cache = new Map<string, { at: number; value: unknown }>();
+    private lastEquityCheck = 0;
+    private killing?: Promise<trading.CancelOrdersResult>;
+    private timer?: NodeJS.Timeout;
+
+    constructor(exchange: ccxt.Exchange, limits: RiskLimits = {}, options: RiskManagerOptions = {}) {
+        super();
+        this.exchange = exchange;
+        this.limits = limits;
+        this.options = options;
+        this.state = this.loadState();
+        this.state.bots?.forEach((bot) => this.bots.add(bot));
+        this.state.symbols?.forEach((symbol) => this.symbols.add(symbol));
+    }
+
+    get quoteCurrency(): string {
+        return this.options.quoteCurrency || defaultRiskOptions.quoteCurrency;
+    }
+
+    get halted(): boolean {
+        return this.state.halted;
+    }
+
+    getState(): RiskState {
+        return { ...this.state, assets: [...this.state.assets], bots: [...this.bots], symbols: [...this.symbols] };
+    }
+
+    /**
+     * Install as the exchange's order gate
+     */
+    attach(): this {
+        trading.setOrderGate(this.exchange, this);
+        return this;
+    }
+
+    detach(): void {
+        if (trading.getOrderGate(this.exchange) === this) trading.setOrderGate(this.exchange, undefined);
+        this.stop();
+    }
+
+    /**
+     * Check the daily loss on a timer too, so resting orders are pulled even while no new ones are placed
+     */
+    start(): this {
+        if (this.timer || this.limits.maxDailyLoss === undefined) return this;
+        const intervalMs = this.options.equityCheckMs ?? defaultRiskOptions.equityCheckMs;
+        this.timer = setInterval(() => {
+            this.checkDailyLoss().catch((error) =>
+                console.error(`⚠️  Daily loss check failed: ${error instanceof Error ? error.message : String(error)}`)
+            );
+        }, intervalMs);
+        this.timer.unref(); // Never keeps the process alive on its own
+        return this;
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    // ------------------------------------------------------------------------
+    // Order gate
+    // ------------------------------------------------------------------------
+
+    async beforeOrder(_exchange: ccxt.Exchange, request: trading.OrderRequest): Promise<void> {
+        if (!this.symbols.has(request.symbol) || !this.bots.has(request.tag.bot)) {
+            this.symbols.add(request.symbol);
+            this.bots.add(request.tag.bot);
+            this.saveState();
+        }
+
+        // Closing exposure is always allowed, even while halted
+        if (await this.reducesExposure(request)) return;
+
+        if (!this.state.halted) await this.checkDailyLoss();
+        if (this.state.halted) {
+            throw this.reject(request, ['halted', `Trading halted by the kill switch (${this.state.haltReason})`]);
+        }
+
+        const violation = await this.check(request);
+        if (!violation) return;
+
+        if (this.options.killOnBreach) await this.kill(`${violation[0]}: ${violation[1]}`);
+        throw this.reject(request, violation);
+    }
+
+    afterOrder(_exchange: ccxt.Exchange, request: trading.OrderRequest, order: { id: string; status?: string }): void {
+        this.cache.delete('balance');
+
+        // Count a resting order right away instead of waiting for the open orders cache to expire
+        const cached = this.cache.get(`orders:${request.symbol}`);
+        if (cached && request.price !== undefined && order.status !== 'closed' && order.status !== 'canceled') {
+            (cached.value as OpenOrderExposure[]).push({ side: request.side, price: request.price, remaining: request.amount });
+        }
+    }
+
+    /**
+     * Does the order close exposure? Derivatives: reduceOnly, which the exchange enforces. Spot ignores
+     * reduceOnly, so there only protective and unwind orders (see trading.withPurpose) count, and only
+     * when the account holds what they spend: the base for a sell, the quote for an unwind buy
+     */
+    async reducesExposure(request: trading.OrderRequest): Promise<boolean> {
+        const markets = await this.exchange.loadMarkets();
+        const market = markets[request.symbol];
+        if (market?.contract) return request.params.reduceOnly === true;
+        if (request.purpose === 'open') return false;
+
+        const { base, quote } = await this.marketOf(request.symbol);
+        this.cache.delete('balance'); // A stale balance could let an opening order through
+        const held = await this.balance();
+        if (request.side === 'sell') return (held[base] || 0) >= request.amount;
+        if (request.purpose !== 'unwind') return false;
+
+        const price = request.price ?? (await this.referencePrice(request.symbol));
+        return price !== undefined && (held[quote] || 0) >= request.amount * price;
+    }
+
+    /**
+     * First limit the order breaches, if any
+     */
+    async check(request: trading.OrderRequest): Promise<Violation | undefined> {
+        const { limits } = this;
+        const { base, quote } = await this.marketOf(request.symbol);
+
+        if (limits.maxPriceDeviationPercent !== undefined && request.type === 'limit' && request.price !== undefined) {
+            const reference = await this.referencePrice(request.symbol);
+            const deviation = reference ? (Math.abs(request.price - reference) / reference) * 100 : 0;
+            if (deviation > limits.maxPriceDeviationPercent) {
+                return [
+                    'priceDeviation',
+                    `${request.side} @ ${request.price} is ${deviation.toFixed(2)}% from the reference ${reference} (max ${limits.maxPriceDeviationPercent}%)`,
+                ];
+            }
+        }
+
+        const needsNotional =
+            limits.maxOrderNotional !== undefined ||
+            limits.maxSymbolNotional !== undefined ||
+            limits.maxAccountNotional !== undefined;
+        if (needsNotional) {
+            const rate = await this.valueOf(quote);
+            if (rate === undefined) return ['orderNotional', `cannot value ${quote} in ${this.quoteCurrency}`];
+
+            const price = request.price ?? (await this.referencePrice(request.symbol)) ?? 0;
+            const notional = request.amount * price * rate;
+
+            if (limits.maxOrderNotional !== undefined && notional > limits.maxOrderNotional) {
+                return ['orderNotional', `order ${this.money(notional)} > max ${this.money(limits.maxOrderNotional)}`];
+            }
+            if (limits.maxSymbolNotional !== undefined) {
+                const open = await this.openNotional(request.symbol);
+                if (open + notional > limits.maxSymbolNotional) {
+                    return [
+                        'symbolNotional',
+                        `${request.symbol} open ${this.money(open)} + order ${this.money(notional)} > max ${this.money(limits.maxSymbolNotional)}`,
+                    ];
+                }
+            }
+            if (limits.maxAccountNotional !== undefined) {
+                let open = 0;
+                for (const symbol of this.symbols) open += await this.openNotional(symbol);
+                if (open + notional > limits.maxAccountNotional) {
+                    return [
+                        'accountNotional',
+                        `account open ${this.money(open)} + order ${this.money(notional)} > max ${this.money(limits.maxAccountNotional)}`,
+                    ];
+                }
+            }
+        }
+
+        if (limits.maxOpenOrders !== undefined) {
+            let count = 0;
+            for (const symbol of this.symbols) count += (await this.openOrders(symbol)).length;
+            if (count + 1 > limits.maxOpenOrders) {
+                return ['openOrders', `${count} open orders, max ${limits.maxOpenOrders}`];
+            }
+        }
+
+        const maxPosition = limits.maxPosition?.[base];
+        if (maxPosition !== undefined && request.side === 'buy') {
+            // Resting buys become position once they fill - a ladder must not pass one bid at a time
+            const held = (await this.balance())[base] || 0;
+            const buying = (await this.openOrders(request.symbol))
+                .filter((order) => order.side === 'buy')
+                .reduce((sum, order) => sum + order.remaining, 0);
+            if (held + buying + request.amount > maxPosition) {
+                return ['position', `${base} ${held} + open buys ${buying} + ${request.amount} > max ${maxPosition}`];
+            }
+        }
+
+        return undefined;
+    }
+
+    // ------------------------------------------------------------------------
+    // Daily loss & kill switch
+    // ------------------------------------------------------------------------
+
+    /**
+     * Value the traded assets, set the day's start equity on the first check of a UTC day and trip
+     * the kill switch once the loss since then exceeds maxDailyLoss. Returns the loss (undefined when
+     * not checked). Throttled to equityCheckMs unless forced.
+     */
+    async checkDailyLoss(force = false): Promise<number | undefined> {
+        const { maxDailyLoss } = this.limits;
+        if (maxDailyLoss === undefined || this.state.halted) return undefined;
+
+        const intervalMs = this.options.equityCheckMs ?? defaultRiskOptions.equityCheckMs;
+        if (!force && Date.now() - this.lastEquityCheck < intervalMs) return undefined;
+        this.lastEquityCheck = Date.now();
+
+        const today = utcDay();
+        const sameDay = this.state.day === today && this.state.startEquity !== undefined;
+        const assets = new Set<string>([this.quoteCurrency, ...(sameDay ? this.state.assets : [])]);
+        for (const symbol of this.symbols) {
+            const { base, quote } = await this.marketOf(symbol);
+            assets.add(base);
+            assets.add(quote);
+        }
+
+        const values = await this.assetValues([...assets]);
+        const equity = Object.values(values).reduce((sum, value) => sum + value, 0);
+
+        if (!sameDay) {
+            this.state = { ...this.state, day: today, startEquity: equity, assets: Object.keys(values) };
+            this.saveState();
+            return 0;
+        }
+
+        // Assets traded for the first time today join the baseline at their current value
+        const added = Object.keys(values).filter((asset) => !this.state.assets.includes(asset));
+        if (added.length > 0) {
+            this.state.startEquity! += added.reduce((sum, asset) => sum + values[asset], 0);
+            this.state.assets.push(...added);
+            this.saveState();
+        }
+
+        const loss = this.state.startEquity! - equity;
+        if (loss > maxDailyLoss) {
+            await this.kill(`daily loss ${this.money(loss)} > max ${this.money(maxDailyLoss)}`);
+        }
+        return loss;
+    }
+
+    /**
+     * Halt trading and cancel every open order of the bots seen on this exchange
+     */
+    kill(reason: string): Promise<trading.CancelOrdersResult> {
+        if (this.killing) return this.killing;
+
+        this.state = { ...this.state, halted: true, haltReason: reason, haltedAt: Date.now() };
+        this.saveState();
+        console.error(`🛑 Kill switch tripped on ${this.exchange.id}: ${reason} - cancelling bot orders, trading halted`);
+
+        this.killing = (async () => {
+            const result = emptyCancelResult();
+            for (const bot of this.bots) {
+                for (const symbol of this.symbols) {
+                    try {
+                        const partial = await trading.cancelBotOrders(this.exchange, { bot }, symbol);
+                        result.cancelled.push(...partial.cancelled);
+                        result.alreadyGone.push(...partial.alreadyGone);
+                        result.failed.push(...partial.failed);
+                    } catch (error) {
+                        result.failed.push({ orderId: `${bot}@${symbol}`, error: error instanceof Error ? error.message : String(error) });
+                    }
+                }
+            }
+
+            console.error(`   Cancelled ${result.cancelled.length} order(s), ${result.failed.length} failed`);
+            this.emit('killed', reason, result);
+            return result;
+        })().finally(() => {
+            this.killing = undefined;
+        });
+        return this.killing;
+    }
+
+    /**
+     * Lift the halt. The daily loss is measured again from the current equity.
+     */
+    resume(): void {
+        this.state = { day: utcDay(), assets: [], halted: false };
+        this.lastEquityCheck = 0;
+        this.saveState();
+        this.emit('resumed');
+    }
+
+    // ------------------------------------------------------------------------
+    // Internals
+    // ------------------------------------------------------------------------
+
+    private reject(request: trading.OrderRequest, [limit, reason]: Violation): TradingError {
+        this.emit('rejected', request, limit, reason);
+        return new TradingError(`Risk limit ${limit}: ${reason}`, 'RiskRejected', {
+            exchange: this.exchange.id,
+            operation: 'createOrder',
+        });
+    }
+
+    private money(value: number): string {
+        return `${value.toFixed(2)} ${this.quoteCurrency}`;
+    }
+
+    private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+        const hit = this.cache.get(key);
+        if (hit && Date.now() - hit.at < (this.options.cacheMs ?? defaultRiskOptions.cacheMs)) return hit.value as T;
+
+        const value = await load();
+        this.cache.set(key, { at: Date.now(), value });
+        return value;
+    }
+
+    private async marketOf(symbol: string): Promise<{ base: string; quote: string }> {
+        const markets = await this.exchange.loadMarkets();
+        const market = markets[symbol];
+        if (market) return { base: market.base, quote: market.quote };
+
+        const [base, quote] = symbol.split(/[/:]/);
+        return { base, quote };
+    }
+
+    private async referencePrice(symbol: string): Promise<number | undefined> {
+        if (this.options.referencePrice) return this.options.referencePrice(symbol);
+        return this.mid(symbol);
+    }
+
+    private mid(symbol: string): Promise<number | undefined> {
+        return this.cached(`ticker:${symbol}`, async () => {
+            const ticker = await marketData.fetchTicker(this.exchange, symbol);
+            return ticker.bid && ticker.ask ? (ticker.bid + ticker.ask) / 2 : ticker.last || undefined;
+        });
+    }
+
+    /**
+     * Price of one unit of the asset in the quote currency (direct or inverse market)
+     */
+    private async valueOf(asset: string): Promise<number | undefined> {
+        if (asset === this.quoteCurrency) return 1;
+
+        const markets = await this.exchange.loadMarkets();
+        const direct = `${asset}/${this.quoteCurrency}`;
+        if (markets[direct]) return this.mid(direct);
+
+        const inverse = `${this.quoteCurrency}/${asset}`;
+        if (markets[inverse]) {
+            const price = await this.mid(inverse);
+            return price ? 1 / price : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Value of each asset's total balance. Assets without a market to the quote currency are left out.
+     */
+    private async assetValues(assets: string[]): Promise<Record<string, number>> {
+        const balance = await this.balance();
+        const values: Record<string, number> = {};
+        for (const asset of assets) {
+            const rate = await this.valueOf(asset);
+            if (rate !== undefined) values[asset] = (balance[asset] || 0) * rate;
+        }
+        return values;
+    }
+
+    private balance(): Promise<Record<string, number>> {
+        return this.cached('balance', async () => (await account.fetchBalance(this.exchange)).total || {});
+    }
+
+    private openOrders(symbol: string): Promise<OpenOrderExposure[]> {
+        return this.cached(`orders:${symbol}`, async () =>
+            (await trading.fetchOpenOrders(this.exchange, symbol)).map((order: { side?: string; price?: number; amount?: number; filled?: number; remaining?: number }) => ({
+                side: order.side || '',
+                price: order.price || 0,
+                remaining: order.remaining ?? (order.amount || 0) - (order.filled || 0),
+            }))
+        );
+    }
+
+    private async openNotional(symbol: string): Promise<number> {
+        const { quote } = await this.marketOf(symbol);
+        const rate = (await this.valueOf(quote)) ?? 0;
+        const orders = await this.openOrders(symbol);
+        return orders.reduce((sum, order) => sum + order.price * order.remaining * rate, 0);
+    }
+
+    private stateFile(): string {
+        const dir = this.options.stateDir || process.env.BOT_STATE_DIR || defaultRiskOptions.stateDir;
+        return path.join(dir, `risk-${this.exchange.id}.json`);
+    }
+
+    private loadState(): RiskState {
+        const file = this.stateFile();
+        const fresh: RiskState = { day: utcDay(), assets: [], halted: false };
+        if (!existsSync(file)) return fresh;
+
+        try {
+            return { ...fresh, ...JSON.parse(readFileSync(file, 'utf8')) };
+        } catch (error) {
+            console.error(`⚠️  Ignoring unreadable risk state ${file}:`, error instanceof Error ? error.message : error);
+            return fresh;
+        }
+    }
+
+    /**
+     * Only written once there is something worth keeping (a day baseline, a halt or a bot to cancel)
+     */
+    private saveState(): void {
+        const file = this.stateFile();
+        mkdirSync(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        writeFileSync(tmp, JSON.stringify({ ...this.state, bots: [...this.bots], symbols: [...this.symbols] }, null, 2));
+        renameSync(tmp, file);
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Create a risk manager for the exchange and route all its orders through it. Called by
+ * initExchange with the RISK_* limits; a halt left by a previous run is reported here. With a
+ * daily loss limit the equity is also checked on a timer (stopped by detach()).
+ */
+export function attachRiskManager(
+    exchange: ccxt.Exchange,
+    limits: RiskLimits = riskLimitsFromEnv(),
+    options: RiskManagerOptions = riskOptionsFromEnv()
+): RiskManager {
+    const manager = new RiskManager(exchange, limits, options).attach().start();
+    if (hasRiskLimits(limits)) {
+        console.log(`🛡️  Risk limits on ${exchange.id}: ${formatRiskLimits(limits, manager.quoteCurrency)}`);
+    }
+    if (manager.halted) {
+        console.warn(`🛑 Trading on ${exchange.id} is halted by the kill switch: ${manager.getState().haltReason}`);
+    }
+    return manager;
+}
+
+/**
+ * The risk manager gating this exchange, if any
+ */
+export function getRiskManager(exchange: ccxt.Exchange): RiskManager | undefined {
+    const gate = trading.getOrderGate(exchange);
+    return gate instanceof RiskManager ? gate : undefined;
+}
+
+export default {
+    RiskManager,
+    attachRiskManager,
+    getRiskManager,
+    riskLimitsFromEnv,
+    riskOptionsFromEnv,
+    hasRiskLimits,
+    formatRiskLimits,
+};
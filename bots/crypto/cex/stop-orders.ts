@@ -0,0 +1,459 @@
+/**
+ * Stop Orders
+ * Stop-loss, stop-limit, trailing-stop and OCO (one-cancels-the-other) orders for spot. Each
+ * is sent as the exchange's native conditional order when `exchange.has` says it exists, and
+ * otherwise emulated client-side: a price watcher polls the ticker and fires the market/limit
+ * order itself once the trigger is crossed. OCO has no unified native form - the take-profit
+ * rests on the book as a plain limit order and the stop leg is watched; whichever happens first
+ * cancels the other.
+ */
+
+import * as ccxt from 'ccxt';
+import { EventEmitter } from 'events';
+import { backoffDelay, classifyError, isErrorCategory, retryPolicies } from './errors';
+import * as marketData from './market-data';
+import { MarketRules } from './market-rules';
+import * as trading from './trading';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type ManagedStopKind = trading.StopOrderKind | 'oco';
+export type StopMode = 'native' | 'emulated';
+
+/**
+ * pending: waiting for the trigger (again, after a retryable send failure) | triggered: the stop
+ * leg was sent | take_profit: the OCO take-profit filled | cancelled | failed: the stop leg could not be sent
+ */
+export type StopStatus = 'pending' | 'triggered' | 'take_profit' | 'cancelled' | 'failed';
+
+/**
+ * last: last trade price | touch: best bid for sell stops, best ask for buy stops
+ */
+export type TriggerSource = 'last' | 'touch';
+
+export interface StopOrderManagerOptions {
+    pollIntervalMs?: number; // Price check interval for emulated orders (default: 1000)
+    trigger?: TriggerSource; // Default: last
+    emulateAll?: boolean; // Emulate even where native orders exist (default: false)
+    tag?: trading.OrderTag; // clientOrderId tag of the orders sent (default: stop)
+}
+
+export interface ManagedStop {
+    id: string;
+    kind: ManagedStopKind;
+    mode: StopMode;
+    symbol: string;
+    side: trading.OrderSide;
+    amount: number;
+    stopPrice?: number; // Trigger; follows the price for emulated trailing stops
+    limitPrice?: number; // stop-limit (and OCO with a stop-limit leg)
+    trailingPercent?: number;
+    extreme?: number; // Trailing: best price seen since placement
+    takeProfitPrice?: number; // OCO
+    takeProfitOrderId?: string; // OCO: the resting take-profit limit order
+    orderId?: string; // Native conditional order, or the order sent on trigger
+    status: StopStatus;
+    createdAt: number;
+    triggeredAt?: number;
+    triggerPrice?: number; // Price that fired an emulated stop
+    error?: string;
+    retries?: number; // Retryable send failures of the stop leg so far
+    retryAt?: number; // Not fired again before this time (backoff after a send failure)
+}
+
+export interface StopOrderEvents {
+    triggered: [stop: ManagedStop];
+    takeProfit: [stop: ManagedStop];
+    cancelled: [stop: ManagedStop];
+    failed: [stop: ManagedStop, error: Error];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const defaultStopOptions = {
+    pollIntervalMs: 1000,
+    trigger: 'last' as TriggerSource,
+};
+
+let stopCounter = 0;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// ============================================================================
+// STOP ORDER MANAGER
+// ============================================================================
+
+export class StopOrderManager extends EventEmitter<StopOrderEvents> {
+    readonly exchange: ccxt.Exchange;
+    private options: StopOrderManagerOptions;
+    private stops = new Map<string, ManagedStop>();
+    private rules = new Map<string, MarketRules>();
+    private timer?: NodeJS.Timeout;
+    private running = false;
+    private polling = false;
+
+    constructor(exchange: ccxt.Exchange, options: StopOrderManagerOptions = {}) {
+        super();
+        this.exchange = exchange;
+        this.options = options;
+    }
+
+    /**
+     * Start watching prices for the emulated orders
+     */
+    start(): this {
+        if (this.running) return this;
+        this.running = true;
+        this.schedule();
+        return this;
+    }
+
+    /**
+     * Stop watching. Native orders stay on the exchange; emulated ones are no longer
+     * protected, so they are returned for the caller to report
+     */
+    shutdown(): ManagedStop[] {
+        this.running = false;
+        if (this.timer) clearTimeout(this.timer);
+        return this.list('pending').filter((s) => s.mode === 'emulated' || s.kind === 'oco');
+    }
+
+    list(status?: StopStatus, symbol?: string): ManagedStop[] {
+        return [...this.stops.values()]
+            .filter((s) => (status === undefined || s.status === status) && (symbol === undefined || s.symbol === symbol))
+            .map((s) => ({ ...s }));
+    }
+
+    get(id: string): ManagedStop | undefined {
+        const stop = this.stops.get(id);
+        return stop ? { ...stop } : undefined;
+    }
+
+    /**
+     * Stop-market: sell (or buy) `amount` at market once the price crosses stopPrice
+     */
+    async createStop(symbol: string, side: trading.OrderSide, amount: number, stopPrice: number): Promise<ManagedStop> {
+        const rules = await this.rulesFor(symbol);
+        const stop = this.newStop('stop', symbol, side, rules.roundAmount(amount), { stopPrice: rules.roundPrice(stopPrice, side) });
+
+        if (this.native('stop')) {
+            const order = await trading.createStopOrder(this.exchange, symbol, side, stop.amount, stop.stopPrice!, {}, this.tag('sl'));
+            return this.register({ ...stop, mode: 'native', orderId: order.id });
+        }
+        return this.register(stop);
+    }
+
+    /**
+     * Stop-limit: place a limit order at limitPrice once the price crosses stopPrice
+     */
+    async createStopLimit(
+        symbol: string,
+        side: trading.OrderSide,
+        amount: number,
+        stopPrice: number,
+        limitPrice: number
+    ): Promise<ManagedStop> {
+        const rules = await this.rulesFor(symbol);
+        const stop = this.newStop('stop-limit', symbol, side, rules.roundAmount(amount), {
+            stopPrice: rules.roundPrice(stopPrice, side),
+            limitPrice: rules.roundPrice(limitPrice, side),
+        });
+
+        if (this.native('stop-limit')) {
+            const order = await trading.createStopLimitOrder(
+                this.exchange,
+                symbol,
+                side,
+                stop.amount,
+                stop.stopPrice!,
+                stop.limitPrice!,
+                {},
+                this.tag('sl')
+            );
+            return this.register({ ...stop, mode: 'native', orderId: order.id });
+        }
+        return this.register(stop);
+    }
+
+    /**
+     * Trailing stop: sell once the price falls trailingPercent below its highest level since
+     * placement (buy: rises trailingPercent above its lowest)
+     */
+    async createTrailingStop(symbol: string, side: trading.OrderSide, amount: number, trailingPercent: number): Promise<ManagedStop> {
+        if (!(trailingPercent > 0)) throw new Error(`Trailing percent must be positive (got ${trailingPercent})`);
+        const rules = await this.rulesFor(symbol);
+        const stop = this.newStop('trailing', symbol, side, rules.roundAmount(amount), { trailingPercent });
+
+        if (this.native('trailing')) {
+            const order = await trading.createTrailingStopOrder(this.exchange, symbol, side, stop.amount, trailingPercent, {}, this.tag('ts'));
+            return this.register({ ...stop, mode: 'native', orderId: order.id });
+        }
+
+        const price = await this.price(symbol, side);
+        stop.extreme = price;
+        stop.stopPrice = this.trailingTrigger(stop, price, rules);
+        return this.register(stop);
+    }
+
+    /**
+     * One-cancels-the-other exit: a take-profit limit at takeProfitPrice plus a stop at stopPrice
+     * (a stop-limit at stopLimitPrice when given). A sell OCO needs takeProfit above stop.
+     */
+    async createOCO(
+        symbol: string,
+        side: trading.OrderSide,
+        amount: number,
+        takeProfitPrice: number,
+        stopPrice: number,
+        stopLimitPrice?: number
+    ): Promise<ManagedStop> {
+        if (side === 'sell' ? takeProfitPrice <= stopPrice : takeProfitPrice >= stopPrice) {
+            throw new Error(`OCO ${side}: take-profit ${takeProfitPrice} must be ${side === 'sell' ? 'above' : 'below'} the stop ${stopPrice}`);
+        }
+
+        const rules = await this.rulesFor(symbol);
+        const stop = this.newStop('oco', symbol, side, rules.roundAmount(amount), {
+            stopPrice: rules.roundPrice(stopPrice, side),
+            limitPrice: stopLimitPrice !== undefined ? rules.roundPrice(stopLimitPrice, side) : undefined,
+            takeProfitPrice: rules.roundPrice(takeProfitPrice, side === 'sell' ? 'sell' : 'buy'),
+        });
+
+        const order = await trading.createLimitOrder(
+            this.exchange,
+            symbol,
+            side,
+            stop.amount,
+            stop.takeProfitPrice!,
+            trading.withPurpose('protective'),
+            this.tag('tp')
+        );
+        return this.register({ ...stop, takeProfitOrderId: order.id });
+    }
+
+    /**
+     * Cancel a pending order (and an OCO's take-profit leg)
+     */
+    async cancel(id: string): Promise<ManagedStop | undefined> {
+        const stop = this.stops.get(id);
+        if (!stop || stop.status !== 'pending') return stop ? { ...stop } : undefined;
+
+        const orderIds = [stop.mode === 'native' ? stop.orderId : undefined, stop.takeProfitOrderId].filter(
+            (orderId): orderId is string => Boolean(orderId)
+        );
+        for (const orderId of orderIds) {
+            await this.cancelOrder(orderId, stop.symbol);
+        }
+
+        stop.status = 'cancelled';
+        this.emit('cancelled', { ...stop });
+        return { ...stop };
+    }
+
+    /**
+     * Cancel every pending order, optionally of one symbol
+     */
+    async cancelAll(symbol?: string): Promise<ManagedStop[]> {
+        const cancelled: ManagedStop[] = [];
+        for (const stop of this.list('pending', symbol)) {
+            const result = await this.cancel(stop.id);
+            if (result) cancelled.push(result);
+        }
+        return cancelled;
+    }
+
+    /**
+     * Check every emulated order once (the watcher calls this on its interval)
+     */
+    async poll(): Promise<void> {
+        if (this.polling) return;
+        this.polling = true;
+
+        try {
+            const pending = [...this.stops.values()].filter((s) => s.status === 'pending' && (s.mode === 'emulated' || s.kind === 'oco'));
+            const prices = new Map<string, number>();
+
+            for (const stop of pending) {
+                try {
+                    if (stop.kind === 'oco' && (await this.takeProfitDone(stop))) continue;
+
+                    const key = `${stop.symbol}:${stop.side}`;
+                    if (!prices.has(key)) prices.set(key, await this.price(stop.symbol, stop.side));
+                    const price = prices.get(key)!;
+                    if (!price) continue;
+
+                    if (stop.kind === 'trailing') {
+                        const better = stop.side === 'sell' ? price > stop.extreme! : price < stop.extreme!;
+                        if (better) {
+                            stop.extreme = price;
+                            stop.stopPrice = this.trailingTrigger(stop, price, await this.rulesFor(stop.symbol));
+                        }
+                    }
+
+                    const crossed = stop.side === 'sell' ? price <= stop.stopPrice! : price >= stop.stopPrice!;
+                    if (crossed && Date.now() >= (stop.retryAt ?? 0)) await this.fire(stop, price);
+                } catch (error) {
+                    console.error(`❌ Stop ${stop.id} check failed: ${errorMessage(error)}`);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private schedule(): void {
+        if (!this.running) return;
+        this.timer = setTimeout(async () => {
+            await this.poll();
+            this.schedule();
+        }, this.options.pollIntervalMs ?? defaultStopOptions.pollIntervalMs);
+    }
+
+    private native(kind: trading.StopOrderKind): boolean {
+        return !this.options.emulateAll && trading.supportsNativeStop(this.exchange, kind);
+    }
+
+    private tag(strategy: string): trading.OrderTag {
+        return this.options.tag || trading.orderTag('stop', strategy);
+    }
+
+    private newStop(kind: ManagedStopKind, symbol: string, side: trading.OrderSide, amount: number, fields: Partial<ManagedStop>): ManagedStop {
+        if (!(amount > 0)) throw new Error(`Stop amount for ${symbol} rounds to zero`);
+        return {
+            id: `${kind}-${Date.now().toString(36)}-${++stopCounter}`,
+            kind,
+            mode: 'emulated',
+            symbol,
+            side,
+            amount,
+            status: 'pending',
+            createdAt: Date.now(),
+            ...fields,
+        };
+    }
+
+    private register(stop: ManagedStop): ManagedStop {
+        this.stops.set(stop.id, stop);
+        return { ...stop };
+    }
+
+    private async rulesFor(symbol: string): Promise<MarketRules> {
+        let rules = this.rules.get(symbol);
+        if (!rules) {
+            rules = await MarketRules.fromExchange(this.exchange, symbol);
+            this.rules.set(symbol, rules);
+        }
+        return rules;
+    }
+
+    private async price(symbol: string, side: trading.OrderSide): Promise<number> {
+        const ticker = await marketData.fetchTicker(this.exchange, symbol);
+        if ((this.options.trigger ?? defaultStopOptions.trigger) === 'touch') {
+            return (side === 'sell' ? ticker.bid : ticker.ask) || ticker.last || 0;
+        }
+        return ticker.last || 0;
+    }
+
+    private trailingTrigger(stop: ManagedStop, extreme: number, rules: MarketRules): number {
+        const offset = stop.trailingPercent! / 100;
+        return rules.roundPrice(stop.side === 'sell' ? extreme * (1 - offset) : extreme * (1 + offset), stop.side);
+    }
+
+    /**
+     * Cancel an order; false when it was already gone
+     */
+    private async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
+        try {
+            await trading.cancelOrder(this.exchange, orderId, symbol);
+            return true;
+        } catch (error) {
+            if (isErrorCategory(error, 'OrderNotFound')) return false;
+            throw error;
+        }
+    }
+
+    /**
+     * OCO: true when the take-profit leg filled, which ends the OCO
+     */
+    private async takeProfitDone(stop: ManagedStop): Promise<boolean> {
+        if (!stop.takeProfitOrderId) return false;
+        const order = await trading.fetchOrder(this.exchange, stop.takeProfitOrderId, stop.symbol);
+        if (order.status !== 'closed') return false;
+
+        stop.status = 'take_profit';
+        stop.triggeredAt = Date.now();
+        this.emit('takeProfit', { ...stop });
+        return true;
+    }
+
+    /**
+     * Send the stop leg. An OCO first pulls its take-profit and only stops out what it left unfilled.
+     * Transient failures put the stop back to pending with a backoff; the next poll fires it again
+     * if the trigger is still crossed.
+     */
+    private async fire(stop: ManagedStop, price: number): Promise<void> {
+        stop.status = 'triggered';
+        stop.triggeredAt = Date.now();
+        stop.triggerPrice = price;
+        let sending = false;
+
+        try {
+            let amount = stop.amount;
+            if (stop.takeProfitOrderId) {
+                await this.cancelOrder(stop.takeProfitOrderId, stop.symbol);
+                const takeProfit = await trading.fetchOrder(this.exchange, stop.takeProfitOrderId, stop.symbol);
+                if (takeProfit.status === 'closed') {
+                    stop.status = 'take_profit';
+                    this.emit('takeProfit', { ...stop });
+                    return;
+                }
+                amount = (await this.rulesFor(stop.symbol)).roundAmount(stop.amount - (takeProfit.filled || 0));
+            }
+
+            const protective = trading.withPurpose('protective');
+            sending = true;
+            const order = stop.limitPrice !== undefined
+                ? await trading.createLimitOrder(this.exchange, stop.symbol, stop.side, amount, stop.limitPrice, protective, this.tag('sl'))
+                : await trading.createMarketOrder(this.exchange, stop.symbol, stop.side, amount, protective, this.tag('sl'));
+            stop.orderId = order.id;
+            this.emit('triggered', { ...stop });
+        } catch (error) {
+            stop.error = errorMessage(error);
+            const policy = retryPolicies[classifyError(error, this.exchange.id)];
+
+            // Like withRetry: an order that may have reached the exchange (timeout) is never resent
+            if (policy && policy.retries > 0 && (!sending || policy.safeForWrites)) {
+                stop.status = 'pending';
+                stop.retryAt = Date.now() + backoffDelay(policy, stop.retries ?? 0);
+                stop.retries = (stop.retries ?? 0) + 1;
+                console.error(`⚠️ Stop ${stop.id} could not be sent (retry ${stop.retries} on the next trigger): ${stop.error}`);
+                return;
+            }
+
+            stop.status = 'failed';
+            console.error(
+                `🚨 Stop ${stop.id} FAILED - ${stop.side} ${stop.amount} ${stop.symbol} is unprotected` +
+                    `${sending ? ' (the order may have reached the exchange, check it)' : ''}: ${stop.error}`
+            );
+            this.emit('failed', { ...stop }, error instanceof Error ? error : new Error(stop.error));
+        }
+    }
+}
+
+/**
+ * One-line description of a managed order for logs
+ */
+export function formatStop(stop: ManagedStop): string {
+    const legs = [
+        stop.takeProfitPrice !== undefined ? `TP ${stop.takeProfitPrice}` : '',
+        stop.stopPrice !== undefined ? `stop ${stop.stopPrice}` : '',
+        stop.limitPrice !== undefined ? `limit ${stop.limitPrice}` : '',
+        stop.trailingPercent !== undefined ? `trail ${stop.trailingPercent}%` : '',
+    ].filter(Boolean);
+    return `${stop.kind.toUpperCase()} ${stop.side.toUpperCase()} ${stop.amount} ${stop.symbol} (${legs.join(', ')}) [${stop.mode}, ${stop.status}]`;
+}
+
+export default { StopOrderManager, formatStop };
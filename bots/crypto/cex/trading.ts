@@ -3,19 +3,231 @@
  */
 
 import * as ccxt from 'ccxt';
+import { classifyError, toTradingError, withRetry } from './errors';
 
 export type OrderSide = 'buy' | 'sell';
-export type OrderType = 'market' | 'limit' | 'stop' | 'stop-limit';
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop-limit' | 'trailing';
+
+// ============================================================================
+// CLIENT ORDER IDS
+// ============================================================================
+
+/**
+ * Identifies which bot placed an order. Encoded into the clientOrderId as
+ * <bot>_<strategy>_<level><nonce>, e.g. mono_ask_003lq2k9f01
+ */
+export interface OrderTag {
+    bot: string; // Bot id (BOT_TAG overrides the default per bot)
+    strategy?: string; // e.g. bid / ask / grid
+    level?: number; // Ladder level (0-999)
+}
+
+interface ClientOrderIdFormat {
+    param: string; // Native request parameter
+    maxLength: number;
+    separator: string; // '' where only alphanumerics are allowed
+    echoPrefix?: string; // Prefix the exchange adds when echoing the id back
+}
+
+const CLIENT_ORDER_ID_FORMATS: Record<string, ClientOrderIdFormat> = {
+    binance: { param: 'newClientOrderId', maxLength: 36, separator: '_' },
+    okx: { param: 'clOrdId', maxLength: 32, separator: '' },
+    bybit: { param: 'orderLinkId', maxLength: 36, separator: '_' },
+    kraken: { param: 'cl_ord_id', maxLength: 18, separator: '_' },
+    coinbase: { param: 'client_order_id', maxLength: 36, separator: '_' },
+    kucoin: { param: 'clientOid', maxLength: 40, separator: '_' },
+    gate: { param: 'text', maxLength: 28, separator: '_', echoPrefix: 't-' },
+    xt: { param: 'clientOrderId', maxLength: 32, separator: '_' },
+};
+
+const DEFAULT_CLIENT_ORDER_ID_FORMAT: ClientOrderIdFormat = { param: 'clientOrderId', maxLength: 32, separator: '_' };
+const LEVEL_DIGITS = 3;
+const NONCE_LENGTH = 8;
+const MAX_STRATEGY_LENGTH = 6;
+
+let nonceCounter = 0;
+
+function clientOrderIdFormat(exchange: ccxt.Exchange): ClientOrderIdFormat {
+    return CLIENT_ORDER_ID_FORMATS[exchange.id] || DEFAULT_CLIENT_ORDER_ID_FORMAT;
+}
+
+function sanitizeTagPart(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Tag for a bot's orders - BOT_TAG replaces the default bot id so two instances can be told apart
+ */
+export function orderTag(bot: string, strategy?: string, level?: number): OrderTag {
+    return { bot: process.env.BOT_TAG || bot, strategy, level };
+}
+
+/**
+ * Deterministic clientOrderId prefix for a tag. Fields left out of the tag are left out of the
+ * prefix, so { bot } matches all of a bot's orders and { bot, strategy } one strategy.
+ */
+export function orderTagPrefix(exchange: ccxt.Exchange, tag: OrderTag): string {
+    const { maxLength, separator } = clientOrderIdFormat(exchange);
+    const room = maxLength - LEVEL_DIGITS - NONCE_LENGTH - separator.length * 2;
+    const strategyLength = Math.min(MAX_STRATEGY_LENGTH, Math.floor(room / 2));
+
+    let prefix = sanitizeTagPart(tag.bot).slice(0, room - strategyLength) + separator;
+    if (tag.strategy === undefined) return prefix;
+
+    prefix += sanitizeTagPart(tag.strategy).slice(0, strategyLength) + separator;
+    if (tag.level === undefined) return prefix;
+
+    return prefix + String(Math.min(Math.max(Math.floor(tag.level), 0), 999)).padStart(LEVEL_DIGITS, '0');
+}
+
+/**
+ * Unique clientOrderId for a new order carrying the tag
+ */
+export function buildClientOrderId(exchange: ccxt.Exchange, tag: OrderTag): string {
+    nonceCounter = (nonceCounter + 1) % 1296;
+    const nonce = Date.now().toString(36).slice(-6) + nonceCounter.toString(36).padStart(2, '0');
+    return orderTagPrefix(exchange, { bot: tag.bot, strategy: tag.strategy ?? '', level: tag.level ?? 0 }) + nonce;
+}
+
+/**
+ * Does an order's clientOrderId carry the tag?
+ */
+export function isTaggedOrder(exchange: ccxt.Exchange, order: { clientOrderId?: string }, tag: OrderTag): boolean {
+    if (!order.clientOrderId) return false;
+
+    const { echoPrefix } = clientOrderIdFormat(exchange);
+    const clientOrderId =
+        echoPrefix && order.clientOrderId.startsWith(echoPrefix)
+            ? order.clientOrderId.slice(echoPrefix.length)
+            : order.clientOrderId;
+    return clientOrderId.startsWith(orderTagPrefix(exchange, tag));
+}
+
+/**
+ * Tag encoded in a clientOrderId by buildClientOrderId. Undefined for ids we did not build, and on
+ * exchanges without a separator (there the fields cannot be told apart - match with isTaggedOrder)
+ */
+export function parseOrderTag(exchange: ccxt.Exchange, clientOrderId?: string): OrderTag | undefined {
+    if (!clientOrderId) return undefined;
+
+    const { separator, echoPrefix } = clientOrderIdFormat(exchange);
+    if (!separator) return undefined;
+
+    const id = echoPrefix && clientOrderId.startsWith(echoPrefix) ? clientOrderId.slice(echoPrefix.length) : clientOrderId;
+    const parts = id.split(separator);
+    if (parts.length !== 3 || !parts[0] || !new RegExp(`^\\d{${LEVEL_DIGITS}}[0-9a-z]{${NONCE_LENGTH}}$`).test(parts[2])) {
+        return undefined;
+    }
+    return { bot: parts[0], strategy: parts[1] || undefined, level: parseInt(parts[2].slice(0, LEVEL_DIGITS), 10) };
+}
+
+/**
+ * Add the exchange's clientOrderId parameter unless the caller already set one
+ */
+function withClientOrderId(exchange: ccxt.Exchange, params: Record<string, unknown>, tag: OrderTag) {
+    const { param } = clientOrderIdFormat(exchange);
+    if (params[param] !== undefined || params.clientOrderId !== undefined) return params;
+    return { ...params, [param]: buildClientOrderId(exchange, tag) };
+}
+
+const defaultOrderTag = (): OrderTag => orderTag('algovista', 'manual');
+
+// ============================================================================
+// ORDER GATE
+// ============================================================================
+
+/**
+ * Why an order is placed. Protective orders (stop-loss, take-profit) and unwinds (closing a hedge
+ * leg) close exposure - the risk manager lets them through limits and the kill switch when the
+ * account really holds what they sell (see risk.ts)
+ */
+export type OrderPurpose = 'open' | 'protective' | 'unwind';
+
+const PURPOSE_PARAM = 'algoVistaPurpose';
+
+/**
+ * Order params marking the order as protective or an unwind. The marker never reaches the exchange.
+ */
+export function withPurpose(purpose: OrderPurpose, params: Record<string, unknown> = {}): Record<string, unknown> {
+    return { ...params, [PURPOSE_PARAM]: purpose };
+}
+
+/**
+ * The purpose marker out of the params (native stop orders are protective by default)
+ */
+function takePurpose(params: Record<string, unknown>, fallback: OrderPurpose = 'open'): [OrderPurpose, Record<string, unknown>] {
+    const { [PURPOSE_PARAM]: purpose, ...rest } = params;
+    return [(purpose as OrderPurpose) || fallback, rest];
+}
+
+/**
+ * An order about to be sent by one of the create* wrappers
+ */
+export interface OrderRequest {
+    symbol: string;
+    side: OrderSide;
+    type: OrderType;
+    amount: number;
+    price?: number; // Limit price (stop price for stop-market orders), none for market orders
+    params: Record<string, unknown>;
+    tag: OrderTag;
+    purpose: OrderPurpose;
+}
+
+/**
+ * Checks every order placed on an exchange (see risk.ts). beforeOrder throws to block it.
+ */
+export interface OrderGate {
+    beforeOrder(exchange: ccxt.Exchange, request: OrderRequest): Promise<void>;
+    afterOrder?(exchange: ccxt.Exchange, request: OrderRequest, order: { id: string; status?: string }): void;
+}
+
+const orderGates = new WeakMap<ccxt.Exchange, OrderGate>();
+
+/**
+ * Route every order of this exchange instance through the gate (undefined removes it)
+ */
+export function setOrderGate(exchange: ccxt.Exchange, gate?: OrderGate): void {
+    if (gate) orderGates.set(exchange, gate);
+    else orderGates.delete(exchange);
+}
+
+export function getOrderGate(exchange: ccxt.Exchange): OrderGate | undefined {
+    return orderGates.get(exchange);
+}
+
+/**
+ * Pass the order through the gate, then send it
+ */
+async function submitOrder(exchange: ccxt.Exchange, request: OrderRequest, price?: number) {
+    const gate = orderGates.get(exchange);
+    if (gate) await gate.beforeOrder(exchange, request);
+
+    const type = request.type === 'limit' || request.type === 'stop-limit' ? 'limit' : 'market';
+    const order = await withRetry(
+        () => exchange.createOrder(request.symbol, type, request.side, request.amount, price, request.params),
+        { operation: 'createOrder', exchange, write: true }
+    );
+    gate?.afterOrder?.(exchange, request, order);
+    return order;
+}
+
+// ============================================================================
+// ORDERS
+// ============================================================================
 
 export async function createMarketOrder(
     exchange: ccxt.Exchange,
     symbol: string,
     side: OrderSide,
     amount: number,
-    params = {}
+    params = {},
+    tag: OrderTag = defaultOrderTag()
 ) {
     try {
-        return await exchange.createOrder(symbol, 'market', side, amount, undefined, params);
+        const [purpose, rest] = takePurpose(params);
+        const orderParams = withClientOrderId(exchange, rest, tag);
+        return await submitOrder(exchange, { symbol, side, type: 'market', amount, params: orderParams, tag, purpose });
     } catch (error) {
         console.error(`Error creating market order:`, error);
         throw error;
@@ -28,29 +240,169 @@ export async function createLimitOrder(
     side: OrderSide,
     amount: number,
     price: number,
-    params = {}
+    params = {},
+    tag: OrderTag = defaultOrderTag()
 ) {
     try {
-        return await exchange.createOrder(symbol, 'limit', side, amount, price, params);
+        const [purpose, rest] = takePurpose(params);
+        const orderParams = withClientOrderId(exchange, rest, tag);
+        return await submitOrder(exchange, { symbol, side, type: 'limit', amount, price, params: orderParams, tag, purpose }, price);
     } catch (error) {
         console.error(`Error creating limit order:`, error);
         throw error;
     }
 }
 
+// ============================================================================
+// STOP ORDERS
+// ============================================================================
+
+export type StopOrderKind = 'stop' | 'stop-limit' | 'trailing';
+
+/**
+ * Whether the exchange accepts this conditional order natively. Without it, use the
+ * client-side emulation in stop-orders.ts
+ */
+export function supportsNativeStop(exchange: ccxt.Exchange, kind: StopOrderKind): boolean {
+    const has = exchange.has || {};
+    switch (kind) {
+        case 'stop':
+            return Boolean(has.createStopMarketOrder || has.createTriggerOrder);
+        case 'stop-limit':
+            return Boolean(has.createStopLimitOrder || has.createTriggerOrder);
+        case 'trailing':
+            return Boolean(has.createTrailingPercentOrder);
+    }
+}
+
+function requireNativeStop(exchange: ccxt.Exchange, kind: StopOrderKind) {
+    if (!supportsNativeStop(exchange, kind)) {
+        throw new ccxt.NotSupported(`${exchange.id} has no native ${kind} orders`);
+    }
+}
+
+/**
+ * Native stop-market order: a market order sent once the price reaches stopPrice
+ */
+export async function createStopOrder(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    side: OrderSide,
+    amount: number,
+    stopPrice: number,
+    params = {},
+    tag: OrderTag = defaultOrderTag()
+) {
+    requireNativeStop(exchange, 'stop');
+    try {
+        const [purpose, rest] = takePurpose(params, 'protective');
+        const orderParams = withClientOrderId(exchange, { ...rest, triggerPrice: stopPrice }, tag);
+        return await submitOrder(exchange, { symbol, side, type: 'stop', amount, price: stopPrice, params: orderParams, tag, purpose });
+    } catch (error) {
+        console.error(`Error creating stop order:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Native stop-limit order: a limit order at limitPrice placed once the price reaches stopPrice
+ */
+export async function createStopLimitOrder(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    side: OrderSide,
+    amount: number,
+    stopPrice: number,
+    limitPrice: number,
+    params = {},
+    tag: OrderTag = defaultOrderTag()
+) {
+    requireNativeStop(exchange, 'stop-limit');
+    try {
+        const [purpose, rest] = takePurpose(params, 'protective');
+        const orderParams = withClientOrderId(exchange, { ...rest, triggerPrice: stopPrice }, tag);
+        return await submitOrder(
+            exchange,
+            { symbol, side, type: 'stop-limit', amount, price: limitPrice, params: orderParams, tag, purpose },
+            limitPrice
+        );
+    } catch (error) {
+        console.error(`Error creating stop-limit order:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Native trailing stop: a market order once the price retraces trailingPercent from its best
+ * level since placement
+ */
+export async function createTrailingStopOrder(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    side: OrderSide,
+    amount: number,
+    trailingPercent: number,
+    params = {},
+    tag: OrderTag = defaultOrderTag()
+) {
+    requireNativeStop(exchange, 'trailing');
+    try {
+        const [purpose, rest] = takePurpose(params, 'protective');
+        const orderParams = withClientOrderId(exchange, { ...rest, trailingPercent }, tag);
+        return await submitOrder(exchange, { symbol, side, type: 'trailing', amount, params: orderParams, tag, purpose });
+    } catch (error) {
+        console.error(`Error creating trailing stop order:`, error);
+        throw error;
+    }
+}
+
 export async function cancelOrder(
     exchange: ccxt.Exchange,
     orderId: string,
     symbol: string
 ) {
     try {
-        return await exchange.cancelOrder(orderId, symbol);
+        return await withRetry(() => exchange.cancelOrder(orderId, symbol), { operation: 'cancelOrder', exchange });
     } catch (error) {
         console.error(`Error canceling order ${orderId}:`, error);
         throw error;
     }
 }
 
+export interface CancelOrdersResult {
+    cancelled: string[];
+    alreadyGone: string[]; // Filled or cancelled before we got to them
+    failed: Array<{ orderId: string; error: string }>;
+}
+
+/**
+ * Cancel specific orders by id. Orders that no longer exist are reported, not thrown.
+ */
+export async function cancelOrders(
+    exchange: ccxt.Exchange,
+    orderIds: string[],
+    symbol: string
+): Promise<CancelOrdersResult> {
+    const result: CancelOrdersResult = { cancelled: [], alreadyGone: [], failed: [] };
+
+    await Promise.all(
+        orderIds.map(async (orderId) => {
+            try {
+                await withRetry(() => exchange.cancelOrder(orderId, symbol), { operation: 'cancelOrder', exchange });
+                result.cancelled.push(orderId);
+            } catch (error) {
+                if (classifyError(error, exchange.id) === 'OrderNotFound') {
+                    result.alreadyGone.push(orderId);
+                } else {
+                    result.failed.push({ orderId, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+        })
+    );
+
+    return result;
+}
+
 export async function fetchOpenOrders(
     exchange: ccxt.Exchange,
     symbol?: string,
@@ -58,7 +410,7 @@ export async function fetchOpenOrders(
     limit?: number
 ) {
     try {
-        return await exchange.fetchOpenOrders(symbol, since, limit);
+        return await withRetry(() => exchange.fetchOpenOrders(symbol, since, limit), { operation: 'fetchOpenOrders', exchange });
     } catch (error) {
         console.error('Error fetching open orders:', error);
         throw error;
@@ -71,18 +423,58 @@ export async function fetchOrder(
     symbol: string
 ) {
     try {
-        return await exchange.fetchOrder(orderId, symbol);
+        return await withRetry(() => exchange.fetchOrder(orderId, symbol), { operation: 'fetchOrder', exchange });
     } catch (error) {
         console.error(`Error fetching order ${orderId}:`, error);
         throw error;
     }
 }
 
+/**
+ * Open orders placed by a bot (matched on the clientOrderId tag) - manual orders and
+ * other bots on the same account are filtered out
+ */
+export async function fetchBotOpenOrders(
+    exchange: ccxt.Exchange,
+    tag: OrderTag,
+    symbol?: string
+) {
+    const orders = await fetchOpenOrders(exchange, symbol);
+    return orders.filter((order) => isTaggedOrder(exchange, order, tag));
+}
+
+/**
+ * Cancel every open order carrying the tag, leaving all other orders alone
+ */
+export async function cancelBotOrders(
+    exchange: ccxt.Exchange,
+    tag: OrderTag,
+    symbol?: string
+): Promise<CancelOrdersResult> {
+    const orders = await fetchBotOpenOrders(exchange, tag, symbol);
+    const result: CancelOrdersResult = { cancelled: [], alreadyGone: [], failed: [] };
+
+    const bySymbol = new Map<string, string[]>();
+    for (const order of orders) {
+        bySymbol.set(order.symbol, [...(bySymbol.get(order.symbol) || []), order.id]);
+    }
+    for (const [orderSymbol, ids] of bySymbol) {
+        const partial = await cancelOrders(exchange, ids, orderSymbol);
+        result.cancelled.push(...partial.cancelled);
+        result.alreadyGone.push(...partial.alreadyGone);
+        result.failed.push(...partial.failed);
+    }
+
+    return result;
+}
+
 export async function cancelAllOrders(exchange: ccxt.Exchange, symbol?: string) {
     try {
-        const orders = await exchange.fetchOpenOrders(symbol);
+        const orders = await withRetry(() => exchange.fetchOpenOrders(symbol), { operation: 'fetchOpenOrders', exchange });
         const results = await Promise.all(
-            orders.map((order: any) => exchange.cancelOrder(order.id, order.symbol))
+            orders.map((order: any) =>
+                withRetry(() => exchange.cancelOrder(order.id, order.symbol), { operation: 'cancelOrder', exchange })
+            )
         );
         return results;
     } catch (error) {
@@ -91,11 +483,55 @@ export async function cancelAllOrders(exchange: ccxt.Exchange, symbol?: string)
     }
 }
 
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+/**
+ * Our order updates (created, filled, canceled) over the private WebSocket (exchange from
+ * ccxt.pro, see initExchange). Not retried here - MarketStream owns reconnects
+ */
+export async function watchOrders(exchange: ccxt.Exchange, symbol?: string) {
+    try {
+        return await exchange.watchOrders(symbol);
+    } catch (error) {
+        throw toTradingError(error, exchange.id, 'watchOrders');
+    }
+}
+
+/**
+ * Balance updates over the private WebSocket - same authenticated stream as the order updates
+ */
+export async function watchBalance(exchange: ccxt.Exchange) {
+    try {
+        return await exchange.watchBalance();
+    } catch (error) {
+        throw toTradingError(error, exchange.id, 'watchBalance');
+    }
+}
+
 export default {
     createMarketOrder,
     createLimitOrder,
+    createStopOrder,
+    createStopLimitOrder,
+    createTrailingStopOrder,
+    supportsNativeStop,
+    setOrderGate,
+    getOrderGate,
+    withPurpose,
     cancelOrder,
+    cancelOrders,
     fetchOpenOrders,
     fetchOrder,
     cancelAllOrders,
+    fetchBotOpenOrders,
+    cancelBotOrders,
+    orderTag,
+    orderTagPrefix,
+    buildClientOrderId,
+    isTaggedOrder,
+    parseOrderTag,
+    watchOrders,
+    watchBalance,
 };
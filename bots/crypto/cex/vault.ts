@@ -0,0 +1,299 @@
+/**
+ * Credential Vault
+ * API key sets in a local file encrypted with a passphrase: scrypt derives the key, AES-256-GCM
+ * encrypts and authenticates the credentials (a wrong passphrase or an edited file fails to open).
+ * Credentials are stored by exchange and account; an account is a key set for config.ts, which
+ * reads the unlocked vault before the environment.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface VaultCredentials {
+    apiKey: string;
+    secret: string;
+    password?: string;
+    uid?: string;
+    createdAt: number;
+    updatedAt: number; // Last add or rotate
+}
+
+export type CredentialInput = Pick<VaultCredentials, 'apiKey' | 'secret' | 'password' | 'uid'>;
+
+/**
+ * Credentials by exchange, then account
+ */
+export type VaultEntries = Record<string, Record<string, VaultCredentials>>;
+
+export interface ScryptParams {
+    N: number; // CPU/memory cost
+    r: number; // Block size
+    p: number; // Parallelization
+}
+
+/**
+ * The file on disk. Everything but `data` is authenticated as GCM additional data
+ */
+export interface VaultFile {
+    version: number;
+    kdf: { name: 'scrypt'; salt: string } & ScryptParams; // salt base64
+    cipher: 'aes-256-gcm';
+    iv: string; // base64
+    tag: string; // base64
+    data: string; // base64 ciphertext of the JSON entries
+}
+
+/**
+ * Vault missing, locked, not decryptable or an entry problem
+ */
+export class VaultError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VaultError';
+    }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const VAULT_PASSPHRASE_ENV = 'ALGO_VISTA_VAULT_PASSPHRASE';
+
+const VAULT_VERSION = 1;
+const DEFAULT_VAULT_FILE = 'algo-vista.vault';
+const DEFAULT_SCRYPT: ScryptParams = { N: 2 ** 15, r: 8, p: 1 }; // 32 MB, ~100 ms per unlock
+const MAX_SCRYPT: ScryptParams = { N: 2 ** 20, r: 16, p: 4 }; // Header values above this are refused (2 GB)
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// ============================================================================
+// ENCRYPTION
+// ============================================================================
+
+/**
+ * The parameters come from the file header, which is only authenticated after the key is derived -
+ * out-of-range values from a corrupted or edited file would hang the unlock or exhaust memory
+ */
+function checkScryptParams({ N, r, p }: ScryptParams): void {
+    const valid =
+        Number.isInteger(N) && N >= 2 && N <= MAX_SCRYPT.N && (N & (N - 1)) === 0 &&
+        Number.isInteger(r) && r >= 1 && r <= MAX_SCRYPT.r &&
+        Number.isInteger(p) && p >= 1 && p <= MAX_SCRYPT.p;
+    if (!valid) {
+        throw new VaultError(`Unsupported scrypt parameters N=${N} r=${r} p=${p} (max N=2^20, r=${MAX_SCRYPT.r}, p=${MAX_SCRYPT.p})`);
+    }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Buffer {
+    checkScryptParams(params);
+    // scrypt needs 128 * N * r bytes - leave room above node's 32 MB default
+    return scryptSync(passphrase, salt, KEY_LENGTH, { ...params, maxmem: 256 * params.N * params.r });
+}
+
+const additionalData = (file: Pick<VaultFile, 'version' | 'kdf' | 'cipher'>) =>
+    Buffer.from(JSON.stringify({ version: file.version, kdf: file.kdf, cipher: file.cipher }));
+
+/**
+ * Encrypt the entries with a fresh salt and IV
+ */
+export function encryptVault(entries: VaultEntries, passphrase: string, params: ScryptParams = DEFAULT_SCRYPT): VaultFile {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const header = {
+        version: VAULT_VERSION,
+        kdf: { name: 'scrypt' as const, salt: salt.toString('base64'), ...params },
+        cipher: 'aes-256-gcm' as const,
+    };
+
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, params), iv);
+    cipher.setAAD(additionalData(header));
+    const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf8'), cipher.final()]);
+
+    return {
+        ...header,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+    };
+}
+
+/**
+ * Decrypt a vault file - throws VaultError for a wrong passphrase or a modified file
+ */
+export function decryptVault(file: VaultFile, passphrase: string): VaultEntries {
+    if (file.version !== VAULT_VERSION || file.kdf?.name !== 'scrypt' || file.cipher !== 'aes-256-gcm') {
+        throw new VaultError(`Unsupported vault format (version ${file.version})`);
+    }
+
+    const { N, r, p } = file.kdf;
+    const key = deriveKey(passphrase, Buffer.from(file.kdf.salt, 'base64'), { N, r, p });
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAAD(additionalData(file));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+    let plaintext: string;
+    try {
+        plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+        throw new VaultError('Wrong vault passphrase (or the vault file was modified)');
+    }
+    return JSON.parse(plaintext);
+}
+
+// ============================================================================
+// VAULT
+// ============================================================================
+
+/**
+ * ALGO_VISTA_VAULT, else algo-vista.vault in the bots directory
+ */
+export function vaultFilePath(): string {
+    return path.resolve(process.env.ALGO_VISTA_VAULT || path.resolve(__dirname, '../..', DEFAULT_VAULT_FILE));
+}
+
+export function vaultExists(file: string = vaultFilePath()): boolean {
+    return existsSync(file);
+}
+
+/**
+ * Decrypted vault held in memory. Changes are written back (re-encrypted) by save()
+ */
+export class CredentialVault {
+    readonly file: string;
+    private entries: VaultEntries;
+    private passphrase: string;
+
+    private constructor(file: string, entries: VaultEntries, passphrase: string) {
+        this.file = file;
+        this.entries = entries;
+        this.passphrase = passphrase;
+    }
+
+    /**
+     * New empty vault (written on the first save)
+     */
+    static create(passphrase: string, file: string = vaultFilePath()): CredentialVault {
+        if (vaultExists(file)) throw new VaultError(`Vault ${file} already exists`);
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            throw new VaultError(`The vault passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        }
+        return new CredentialVault(file, {}, passphrase);
+    }
+
+    static open(passphrase: string, file: string = vaultFilePath()): CredentialVault {
+        if (!vaultExists(file)) throw new VaultError(`No vault at ${file}`);
+
+        let stored: VaultFile;
+        try {
+            stored = JSON.parse(readFileSync(file, 'utf8'));
+        } catch (error) {
+            throw new VaultError(`Unreadable vault ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return new CredentialVault(file, decryptVault(stored, passphrase), passphrase);
+    }
+
+    get(exchange: string, account: string): VaultCredentials | undefined {
+        return this.entries[exchange]?.[account];
+    }
+
+    exchanges(): string[] {
+        return Object.keys(this.entries);
+    }
+
+    accounts(exchange: string): string[] {
+        return Object.keys(this.entries[exchange] || {});
+    }
+
+    list(): Array<{ exchange: string; account: string; credentials: VaultCredentials }> {
+        return Object.entries(this.entries).flatMap(([exchange, accounts]) =>
+            Object.entries(accounts).map(([account, credentials]) => ({ exchange, account, credentials }))
+        );
+    }
+
+    add(exchange: string, account: string, input: CredentialInput): void {
+        if (this.get(exchange, account)) {
+            throw new VaultError(`${exchange}/${account} is already in the vault - rotate it instead`);
+        }
+        const now = Date.now();
+        this.entries[exchange] = { ...this.entries[exchange], [account]: { ...clean(input), createdAt: now, updatedAt: now } };
+    }
+
+    /**
+     * Replace the credentials of an account (new key pair after rotating it on the exchange)
+     */
+    rotate(exchange: string, account: string, input: CredentialInput): void {
+        const current = this.get(exchange, account);
+        if (!current) throw new VaultError(`${exchange}/${account} is not in the vault`);
+        this.entries[exchange][account] = { ...clean(input), createdAt: current.createdAt, updatedAt: Date.now() };
+    }
+
+    remove(exchange: string, account: string): void {
+        if (!this.get(exchange, account)) throw new VaultError(`${exchange}/${account} is not in the vault`);
+        delete this.entries[exchange][account];
+        if (Object.keys(this.entries[exchange]).length === 0) delete this.entries[exchange];
+    }
+
+    /**
+     * Re-encrypt with a fresh salt and IV, via a temp file + rename, readable by the owner only
+     */
+    save(): void {
+        mkdirSync(path.dirname(this.file), { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        writeFileSync(tmp, JSON.stringify(encryptVault(this.entries, this.passphrase), null, 2), { mode: 0o600 });
+        renameSync(tmp, this.file);
+    }
+}
+
+/**
+ * Credentials without empty optional fields
+ */
+function clean(input: CredentialInput): CredentialInput {
+    if (!input.apiKey || !input.secret) throw new VaultError('API key and secret are required');
+    return {
+        apiKey: input.apiKey,
+        secret: input.secret,
+        ...(input.password ? { password: input.password } : {}),
+        ...(input.uid ? { uid: input.uid } : {}),
+    };
+}
+
+// ============================================================================
+// UNLOCK
+// ============================================================================
+
+let unlockedVault: CredentialVault | undefined;
+
+/**
+ * Open the vault for this process - credentials are then resolved from it (see getExchangeConfig)
+ */
+export function unlockVault(passphrase: string, file: string = vaultFilePath()): CredentialVault {
+    unlockedVault = CredentialVault.open(passphrase, file);
+    return unlockedVault;
+}
+
+/**
+ * The unlocked vault. Without an explicit unlock it is opened with ALGO_VISTA_VAULT_PASSPHRASE
+ * when both the vault and the variable exist; undefined otherwise (no vault, or locked)
+ */
+export function getUnlockedVault(): CredentialVault | undefined {
+    if (!unlockedVault && process.env[VAULT_PASSPHRASE_ENV] && vaultExists()) {
+        unlockVault(process.env[VAULT_PASSPHRASE_ENV] as string);
+    }
+    return unlockedVault;
+}
+
+/**
+ * A vault exists but this process has not unlocked it
+ */
+export function isVaultLocked(): boolean {
+    return !getUnlockedVault() && vaultExists();
+}
+
+export default { CredentialVault, VaultError, unlockVault, getUnlockedVault, isVaultLocked, vaultFilePath, vaultExists };
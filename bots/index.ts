@@ -1,17 +1,17 @@
+#!/usr/bin/env node
 /**
  * Algo Vista Bots - Main Entry Point
  */
 
 import 'dotenv/config';
+import { main as runCli } from './crypto/cex/cli';
 
 // Export all modules
 export * as cex from './crypto/cex';
 
-// Main entry point
+// Main entry point - the algo-vista CLI (see crypto/cex/cli.ts)
 async function main() {
-    console.log('🤖 Algo Vista Bots');
-    console.log('Trading bot system initialized');
-    console.log('Environment:', process.env.NODE_ENV || 'development');
+    await runCli(process.argv.slice(2));
 }
 
 // Run if this is the main module
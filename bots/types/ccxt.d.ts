@@ -12,6 +12,7 @@ declare module 'ccxt' {
         urls: Record<string, any>;
         has: Record<string, boolean | string>;
         markets: Record<string, any>;
+        precisionMode: number;
 
         loadMarkets(): Promise<any>;
         fetchTicker(symbol: string): Promise<any>;
@@ -26,7 +27,11 @@ declare module 'ccxt' {
         fetchWithdrawals(code?: string, since?: number, limit?: number): Promise<any[]>;
         fetchDepositAddress(code: string, params?: any): Promise<any>;
         fetchTradingFees(): Promise<any>;
+        fetchCurrencies(params?: any): Promise<any>;
+        fetchPositions(symbols?: string[], params?: any): Promise<any[]>;
+        fetchMyTrades(symbol?: string, since?: number, limit?: number, params?: any): Promise<any[]>;
 
+        createMarketOrder(symbol: string, side: string, amount: number, price?: number, params?: any): Promise<any>;
         createOrder(symbol: string, type: string, side: string, amount: number, price?: number, params?: any): Promise<any>;
         cancelOrder(id: string, symbol: string): Promise<any>;
         cancelOrders(ids: string[], symbol?: string, params?: any): Promise<any>;
@@ -34,13 +39,48 @@ declare module 'ccxt' {
         cancelAllOrders(symbol?: string, params?: any): Promise<any>;
 
         setSandboxMode(enabled: boolean): void;
+        setLeverage(leverage: number, symbol?: string, params?: any): Promise<any>;
         market(symbol: string): any;
+        amountToPrecision(symbol: string, amount: number): string;
+        priceToPrecision(symbol: string, price: number): string;
         createMarketBuyOrderWithCost(symbol: string, cost: number, params?: any): Promise<any>;
+
+        // WebSocket streams (ccxt.pro classes)
+        watchOrderBook(symbol: string, limit?: number, params?: any): Promise<any>;
+        watchTrades(symbol: string, since?: number, limit?: number, params?: any): Promise<any[]>;
+        watchOrders(symbol?: string, since?: number, limit?: number, params?: any): Promise<any[]>;
+        watchBalance(params?: any): Promise<any>;
     }
 
     export const exchanges: string[];
+    export const pro: Record<string, typeof Exchange>;
     export const version: string;
 
+    // Precision modes
+    export const DECIMAL_PLACES: number;
+    export const SIGNIFICANT_DIGITS: number;
+    export const TICK_SIZE: number;
+
+    // Error hierarchy
+    export class BaseError extends Error { }
+    export class ExchangeError extends BaseError { }
+    export class AuthenticationError extends ExchangeError { }
+    export class PermissionDenied extends AuthenticationError { }
+    export class BadRequest extends ExchangeError { }
+    export class BadSymbol extends BadRequest { }
+    export class InsufficientFunds extends ExchangeError { }
+    export class InvalidOrder extends ExchangeError { }
+    export class OrderNotFound extends InvalidOrder { }
+    export class NotSupported extends ExchangeError { }
+    export class OperationFailed extends BaseError { }
+    export class NetworkError extends OperationFailed { }
+    export class DDoSProtection extends NetworkError { }
+    export class RateLimitExceeded extends NetworkError { }
+    export class ExchangeNotAvailable extends NetworkError { }
+    export class OnMaintenance extends ExchangeNotAvailable { }
+    export class InvalidNonce extends NetworkError { }
+    export class RequestTimeout extends NetworkError { }
+
     // Exchange classes
     export class binance extends Exchange { }
     export class coinbase extends Exchange { }
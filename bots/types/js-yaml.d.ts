@@ -0,0 +1,26 @@
+/**
+ * js-yaml Type Definitions
+ * The parts of js-yaml the CLI uses
+ */
+
+declare module 'js-yaml' {
+    export interface LoadOptions {
+        filename?: string;
+        json?: boolean;
+    }
+
+    export interface DumpOptions {
+        indent?: number;
+        lineWidth?: number;
+        noRefs?: boolean;
+        sortKeys?: boolean;
+        skipInvalid?: boolean;
+    }
+
+    export class YAMLException extends Error {
+        reason: string;
+    }
+
+    export function load(str: string, opts?: LoadOptions): unknown;
+    export function dump(obj: unknown, opts?: DumpOptions): string;
+}